@@ -16,10 +16,19 @@ import Categories from './pages/admin/Categories';
 import Seasons from './pages/admin/Seasons';
 import Packages from './pages/admin/Packages';
 import ScheduleTemplates from './pages/admin/ScheduleTemplates';
+import Instructors from './pages/admin/Instructors';
 import PaymentMethods from './pages/admin/PaymentMethods';
+import Discounts from './pages/admin/Discounts';
 import MassImport from './pages/admin/MassImport';
 import CardSettings from './pages/admin/CardSettings';
 import Cleanup from './pages/Cleanup';
+import Users from './pages/admin/Users';
+import CashClosing from './pages/CashClosing';
+import DebtReport from './pages/DebtReport';
+import ClassCheckIn from './pages/ClassCheckIn';
+import QrCheckIn from './pages/QrCheckIn';
+import Recoveries from './pages/Recoveries';
+import Waitlist from './pages/Waitlist';
 
 function App() {
   return (
@@ -53,12 +62,42 @@ function App() {
                   <MonthlySchedule />
                 </ProtectedRoute>
               } />
+              <Route path="clase" element={
+                <ProtectedRoute allowedRoles={['SUPERADMIN', 'ADMIN', 'STAFF']}>
+                  <ClassCheckIn />
+                </ProtectedRoute>
+              } />
+              <Route path="clase/qr" element={
+                <ProtectedRoute allowedRoles={['SUPERADMIN', 'ADMIN', 'STAFF']}>
+                  <QrCheckIn />
+                </ProtectedRoute>
+              } />
+              <Route path="recuperaciones" element={
+                <ProtectedRoute allowedRoles={['SUPERADMIN', 'ADMIN', 'STAFF']}>
+                  <Recoveries />
+                </ProtectedRoute>
+              } />
+              <Route path="lista-espera" element={
+                <ProtectedRoute allowedRoles={['SUPERADMIN', 'ADMIN']}>
+                  <Waitlist />
+                </ProtectedRoute>
+              } />
               <Route path="caja" element={
 
                 <ProtectedRoute allowedRoles={['SUPERADMIN']}>
                   <Finance />
                 </ProtectedRoute>
               } />
+              <Route path="caja/cierre" element={
+                <ProtectedRoute allowedRoles={['SUPERADMIN', 'ADMIN']}>
+                  <CashClosing />
+                </ProtectedRoute>
+              } />
+              <Route path="deudas" element={
+                <ProtectedRoute allowedRoles={['SUPERADMIN', 'ADMIN']}>
+                  <DebtReport />
+                </ProtectedRoute>
+              } />
               <Route path="carnet" element={
                 <ProtectedRoute allowedRoles={['SUPERADMIN', 'ADMIN']}>
                   <IDCard />
@@ -86,11 +125,21 @@ function App() {
                   <ScheduleTemplates />
                 </ProtectedRoute>
               } />
+              <Route path="admin/profesores" element={
+                <ProtectedRoute allowedRoles={['SUPERADMIN']}>
+                  <Instructors />
+                </ProtectedRoute>
+              } />
               <Route path="admin/pagos" element={
                 <ProtectedRoute allowedRoles={['SUPERADMIN']}>
                   <PaymentMethods />
                 </ProtectedRoute>
               } />
+              <Route path="admin/descuentos" element={
+                <ProtectedRoute allowedRoles={['SUPERADMIN']}>
+                  <Discounts />
+                </ProtectedRoute>
+              } />
               <Route path="admin/importar" element={
                 <ProtectedRoute allowedRoles={['SUPERADMIN']}>
                   <MassImport />
@@ -101,6 +150,11 @@ function App() {
                   <CardSettings />
                 </ProtectedRoute>
               } />
+              <Route path="admin/usuarios" element={
+                <ProtectedRoute allowedRoles={['SUPERADMIN']}>
+                  <Users />
+                </ProtectedRoute>
+              } />
               <Route path="admin/cleanup" element={
                 <ProtectedRoute allowedRoles={['SUPERADMIN']}>
                   <Cleanup />
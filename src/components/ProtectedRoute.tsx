@@ -1,5 +1,6 @@
 import { Navigate, useLocation } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
+import { ShieldAlert } from 'lucide-react';
 
 interface Props {
     children: React.ReactNode;
@@ -7,7 +8,7 @@ interface Props {
 }
 
 export default function ProtectedRoute({ children, allowedRoles }: Props) {
-    const { user, role, loading } = useAuth();
+    const { user, role, loading, logout } = useAuth();
     const location = useLocation();
 
     if (loading) {
@@ -22,7 +23,28 @@ export default function ProtectedRoute({ children, allowedRoles }: Props) {
         return <Navigate to="/login" state={{ from: location }} replace />;
     }
 
-    if (allowedRoles && role && !allowedRoles.includes(role)) {
+    // Signed in but without profile (registration requires an invitation)
+    if (!role) {
+        return (
+            <div className="min-h-screen flex items-center justify-center bg-slate-50 p-4">
+                <div className="max-w-md w-full bg-white rounded-2xl shadow-xl p-8 text-center">
+                    <ShieldAlert className="w-12 h-12 text-amber-500 mx-auto mb-4" />
+                    <h1 className="text-xl font-bold text-slate-800 mb-2">Cuenta sin acceso</h1>
+                    <p className="text-slate-500 mb-6">
+                        Tu cuenta aún no tiene un rol asignado. Solicita un código de invitación al administrador.
+                    </p>
+                    <button
+                        onClick={logout}
+                        className="w-full bg-slate-900 hover:bg-slate-800 text-white font-bold py-3 rounded-xl transition-all"
+                    >
+                        Cerrar Sesión
+                    </button>
+                </div>
+            </div>
+        );
+    }
+
+    if (allowedRoles && !allowedRoles.includes(role)) {
         // Redirect based on user's role to their allowed default page
         // SUPERADMIN -> Panel (/)
         // ADMIN -> Horarios (/horarios) 
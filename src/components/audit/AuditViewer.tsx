@@ -0,0 +1,230 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { auditService } from '../../services/auditService';
+import { userService } from '../../services/userService';
+import { useStudentsCache } from '../../hooks/useStudentsCache';
+import type { AuditLog, AuditEntity, UserProfile } from '../../types/db';
+import { ShieldCheck, RefreshCw, Info, ChevronDown, ChevronRight, Filter } from 'lucide-react';
+
+const ENTITY_LABELS: Record<AuditEntity, string> = {
+    students: 'Alumno',
+    payments: 'Pago',
+    debts: 'Deuda',
+    monthly_slots: 'Horario',
+    cash_closings: 'Caja',
+    recoveries: 'Recuperación',
+    waitlist: 'Lista de espera'
+};
+
+const ACTION_STYLES: Record<AuditLog['action'], string> = {
+    CREATE: 'bg-emerald-100 text-emerald-700',
+    UPDATE: 'bg-sky-100 text-sky-700',
+    DELETE: 'bg-red-100 text-red-700'
+};
+
+const toInputDate = (date: Date) => {
+    const y = date.getFullYear();
+    const m = String(date.getMonth() + 1).padStart(2, '0');
+    const d = String(date.getDate()).padStart(2, '0');
+    return `${y}-${m}-${d}`;
+};
+
+const formatValue = (value: unknown) =>
+    value === undefined || value === null ? '—' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+/**
+ * Searchable audit trail (audit_logs) filtered by student, user and date range
+ */
+export const AuditViewer: React.FC = () => {
+    const { students } = useStudentsCache();
+    const [users, setUsers] = useState<UserProfile[]>([]);
+    const [logs, setLogs] = useState<AuditLog[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+
+    const today = toInputDate(new Date());
+    const [fromDate, setFromDate] = useState(today);
+    const [toDate, setToDate] = useState(today);
+    const [studentQuery, setStudentQuery] = useState('');
+    const [userId, setUserId] = useState('');
+
+    useEffect(() => {
+        userService.getAll()
+            .then(setUsers)
+            .catch(error => console.error("Error loading users:", error));
+    }, []);
+
+    // Datalist option label -> student id
+    const studentOptions = useMemo(() => {
+        const map = new Map<string, string>();
+        students.forEach(s => map.set(`${s.fullName} (${s.dni})`, s.id));
+        return map;
+    }, [students]);
+
+    const studentId = studentOptions.get(studentQuery) || '';
+
+    const loadLogs = useCallback(async () => {
+        setLoading(true);
+        try {
+            const [fy, fm, fd] = fromDate.split('-').map(Number);
+            const [ty, tm, td] = toDate.split('-').map(Number);
+            const data = await auditService.search({
+                studentId: studentId || undefined,
+                userId: userId || undefined,
+                from: fromDate ? new Date(fy, fm - 1, fd) : undefined,
+                to: toDate ? new Date(ty, tm - 1, td, 23, 59, 59, 999) : undefined
+            });
+            setLogs(data);
+        } catch (error) {
+            console.error("Error loading audit logs:", error);
+        } finally {
+            setLoading(false);
+        }
+    }, [fromDate, toDate, studentId, userId]);
+
+    useEffect(() => {
+        loadLogs();
+    }, [loadLogs]);
+
+    const formatDateTime = (ts: number) =>
+        new Date(ts).toLocaleString('es-PE', { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' });
+
+    return (
+        <div className="bg-white rounded-2xl shadow-sm border border-slate-100 overflow-hidden">
+            <div className="p-6 border-b border-slate-100 space-y-4">
+                <div className="flex items-center justify-between gap-3">
+                    <div className="flex items-center gap-3">
+                        <ShieldCheck className="w-5 h-5 text-slate-400" />
+                        <h3 className="font-bold text-slate-800">Auditoría</h3>
+                    </div>
+                    <button
+                        onClick={loadLogs}
+                        disabled={loading}
+                        className="p-2 text-slate-400 hover:text-sky-600 hover:bg-sky-50 rounded-lg transition-colors"
+                        title="Actualizar"
+                    >
+                        <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+                    </button>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+                    <div className="md:col-span-2 flex items-center gap-2">
+                        <Filter className="w-4 h-4 text-slate-400 shrink-0" />
+                        <input
+                            list="audit-students"
+                            placeholder="Filtrar por alumno..."
+                            className="w-full text-sm bg-slate-50 rounded-lg text-slate-600 focus:ring-2 focus:ring-sky-500/20 px-4 py-2 border-none"
+                            value={studentQuery}
+                            onChange={e => setStudentQuery(e.target.value)}
+                        />
+                        <datalist id="audit-students">
+                            {Array.from(studentOptions.keys()).map(label => (
+                                <option key={label} value={label} />
+                            ))}
+                        </datalist>
+                    </div>
+                    <select
+                        className="text-sm bg-slate-50 rounded-lg text-slate-600 focus:ring-2 focus:ring-sky-500/20 px-4 py-2 border-none"
+                        value={userId}
+                        onChange={e => setUserId(e.target.value)}
+                    >
+                        <option value="">Todos los usuarios</option>
+                        {users.map(u => (
+                            <option key={u.uid} value={u.uid}>{u.displayName || u.email}</option>
+                        ))}
+                    </select>
+                    <div className="flex items-center gap-2">
+                        <input
+                            type="date"
+                            className="w-full text-sm border-none bg-slate-50 rounded-lg text-slate-600 focus:ring-2 focus:ring-sky-500/20 cursor-pointer px-2 py-2"
+                            value={fromDate}
+                            onChange={e => setFromDate(e.target.value)}
+                        />
+                        <span className="text-slate-400 text-xs">a</span>
+                        <input
+                            type="date"
+                            className="w-full text-sm border-none bg-slate-50 rounded-lg text-slate-600 focus:ring-2 focus:ring-sky-500/20 cursor-pointer px-2 py-2"
+                            value={toDate}
+                            onChange={e => setToDate(e.target.value)}
+                        />
+                    </div>
+                </div>
+            </div>
+
+            <div className="divide-y divide-slate-100 max-h-[600px] overflow-y-auto">
+                {loading ? (
+                    <div className="p-12 text-center">
+                        <RefreshCw className="w-8 h-8 text-slate-200 animate-spin mx-auto mb-4" />
+                        <p className="text-slate-400 text-sm">Cargando auditoría...</p>
+                    </div>
+                ) : logs.length === 0 ? (
+                    <div className="p-12 text-center">
+                        <Info className="w-8 h-8 text-slate-200 mx-auto mb-4" />
+                        <p className="text-slate-400 text-sm">No hay movimientos para estos filtros</p>
+                    </div>
+                ) : (
+                    logs.map(log => {
+                        const isExpanded = expandedId === log.id;
+                        const changedKeys = Array.from(new Set([
+                            ...Object.keys(log.before || {}),
+                            ...Object.keys(log.after || {})
+                        ]));
+
+                        return (
+                            <div key={log.id} className="p-4 hover:bg-slate-50/80 transition-colors">
+                                <button
+                                    onClick={() => setExpandedId(isExpanded ? null : log.id)}
+                                    className="w-full flex items-start gap-3 text-left"
+                                >
+                                    {isExpanded
+                                        ? <ChevronDown className="w-4 h-4 mt-1 text-slate-400 shrink-0" />
+                                        : <ChevronRight className="w-4 h-4 mt-1 text-slate-400 shrink-0" />}
+                                    <div className="flex-1 min-w-0">
+                                        <div className="flex flex-wrap items-center gap-2">
+                                            <span className={`text-[10px] font-bold px-2 py-0.5 rounded ${ACTION_STYLES[log.action]}`}>
+                                                {log.action}
+                                            </span>
+                                            <span className="text-[10px] font-bold px-2 py-0.5 rounded bg-slate-100 text-slate-500">
+                                                {ENTITY_LABELS[log.entity] || log.entity}
+                                            </span>
+                                            <p className="text-slate-800 font-medium text-sm">{log.summary}</p>
+                                        </div>
+                                        <p className="text-slate-500 text-xs mt-1">
+                                            {log.studentName && <span className="font-bold">{log.studentName} · </span>}
+                                            {log.userName} · {formatDateTime(log.timestamp)}
+                                        </p>
+                                        {log.reason && (
+                                            <p className="text-amber-700 text-xs mt-1">Motivo: {log.reason}</p>
+                                        )}
+                                    </div>
+                                </button>
+
+                                {isExpanded && changedKeys.length > 0 && (
+                                    <div className="mt-3 ml-7 overflow-x-auto">
+                                        <table className="w-full text-xs">
+                                            <thead className="text-slate-400 uppercase">
+                                                <tr>
+                                                    <th className="text-left py-1 pr-4">Campo</th>
+                                                    <th className="text-left py-1 pr-4">Antes</th>
+                                                    <th className="text-left py-1">Después</th>
+                                                </tr>
+                                            </thead>
+                                            <tbody className="font-mono">
+                                                {changedKeys.map(key => (
+                                                    <tr key={key} className="border-t border-slate-100">
+                                                        <td className="py-1 pr-4 text-slate-500">{key}</td>
+                                                        <td className="py-1 pr-4 text-red-600 break-all">{formatValue(log.before?.[key])}</td>
+                                                        <td className="py-1 text-emerald-600 break-all">{formatValue(log.after?.[key])}</td>
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        </table>
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })
+                )}
+            </div>
+        </div>
+    );
+};
@@ -1,8 +1,10 @@
 import { useState } from 'react';
 import { Outlet, NavLink, useNavigate } from 'react-router-dom';
-import { LayoutDashboard, Users, Calendar, DollarSign, Menu, LogOut, CreditCard, Settings, Wallet } from 'lucide-react';
+import { LayoutDashboard, Users, Calendar, DollarSign, Menu, LogOut, CreditCard, Settings, Wallet, UserCog, Lock, AlertCircle, ClipboardCheck, QrCode, CalendarPlus, ListOrdered, GraduationCap, Tag } from 'lucide-react';
 import { cn } from '../../lib/utils';
 import { SeasonSelector } from '../season/SeasonSelector';
+import { SeasonHealthBanner } from '../season/SeasonHealthBanner';
+import { ViewingSeasonBanner } from '../season/ViewingSeasonBanner';
 // import { auth } from '../../lib/firebase';
 // import { signOut } from 'firebase/auth'; // Uncomment when auth is fully ready
 
@@ -20,14 +22,20 @@ export default function MainLayout() {
 
     // Role hierarchy: SUPERADMIN > ADMIN > STAFF
     // SUPERADMIN: Full access (all pages)
-    // ADMIN: Horarios, Alumnos, Carnet
+    // ADMIN: Horarios, Alumnos, Carnet, Cierre de Caja
     // STAFF: Horarios only
 
     const navItems = [
         { to: '/', icon: LayoutDashboard, label: 'Panel', roles: ['SUPERADMIN'] },
         { to: '/alumnos', icon: Users, label: 'Alumnos', roles: ['SUPERADMIN', 'ADMIN'] },
         { to: '/horarios', icon: Calendar, label: 'Horarios', roles: ['SUPERADMIN', 'ADMIN', 'STAFF'] },
+        { to: '/clase', icon: ClipboardCheck, label: 'Clase de Ahora', roles: ['SUPERADMIN', 'ADMIN', 'STAFF'] },
+        { to: '/clase/qr', icon: QrCode, label: 'Escanear Carnet', roles: ['SUPERADMIN', 'ADMIN', 'STAFF'] },
+        { to: '/recuperaciones', icon: CalendarPlus, label: 'Recuperaciones', roles: ['SUPERADMIN', 'ADMIN', 'STAFF'] },
+        { to: '/lista-espera', icon: ListOrdered, label: 'Lista de Espera', roles: ['SUPERADMIN', 'ADMIN'] },
         { to: '/caja', icon: DollarSign, label: 'Caja', roles: ['SUPERADMIN'] },
+        { to: '/caja/cierre', icon: Lock, label: 'Cierre de Caja', roles: ['SUPERADMIN', 'ADMIN'] },
+        { to: '/deudas', icon: AlertCircle, label: 'Deudas', roles: ['SUPERADMIN', 'ADMIN'] },
 
         { to: '/carnet', icon: CreditCard, label: 'Carnet', roles: ['SUPERADMIN', 'ADMIN'] },
     ];
@@ -37,8 +45,11 @@ export default function MainLayout() {
         { to: '/admin/categorias', icon: Users, label: 'Categorías' },
         { to: '/admin/paquetes', icon: DollarSign, label: 'Paquetes' },
         { to: '/admin/plantillas', icon: Settings, label: 'Plantilla de Horario' },
+        { to: '/admin/profesores', icon: GraduationCap, label: 'Profesores' },
         { to: '/admin/pagos', icon: Wallet, label: 'Métodos de Pago' },
+        { to: '/admin/descuentos', icon: Tag, label: 'Descuentos' },
         { to: '/admin/carnet-config', icon: CreditCard, label: 'Configurar Carnet' },
+        { to: '/admin/usuarios', icon: UserCog, label: 'Usuarios' },
     ];
 
     const filteredNavItems = navItems.filter(item =>
@@ -62,6 +73,7 @@ export default function MainLayout() {
                             <NavLink
                                 key={item.to}
                                 to={item.to}
+                                end
                                 onClick={() => setIsSidebarOpen(false)}
                                 className={({ isActive }) =>
                                     cn(
@@ -148,6 +160,9 @@ export default function MainLayout() {
                     <SeasonSelector />
                 </header>
 
+                <SeasonHealthBanner />
+                <ViewingSeasonBanner />
+
                 {/* Page Content */}
                 <main className="flex-1 overflow-auto p-4 lg:p-8">
                     <Outlet />
@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { Printer, FileDown, X } from 'lucide-react';
+import { receiptService, RECEIPT_CONCEPT_LABELS } from '../../services/receiptService';
+import type { Receipt } from '../../types/db';
+
+interface ReceiptModalProps {
+    receipt: Receipt;
+    onClose: () => void;
+}
+
+const ReceiptBody: React.FC<{ receipt: Receipt }> = ({ receipt }) => (
+    <div className="font-sans text-slate-800 text-sm">
+        <div className="text-center mb-4">
+            <p className="text-lg font-bold">Academia Los Parrales</p>
+            <p className="font-bold">BOLETA N° {receipt.id}</p>
+            <p className="text-xs text-slate-500">
+                {new Date(receipt.date).toLocaleString('es-PE', { day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit' })}
+            </p>
+        </div>
+
+        <div className="border-t border-slate-200 py-3 space-y-1">
+            <p><span className="font-bold inline-block w-24">Alumno:</span>{receipt.studentName}</p>
+            <p><span className="font-bold inline-block w-24">DNI:</span>{receipt.studentDni.startsWith('TEMP_') ? '-' : receipt.studentDni}</p>
+            {receipt.studentCode && <p><span className="font-bold inline-block w-24">Código:</span>{receipt.studentCode}</p>}
+            <p><span className="font-bold inline-block w-24">Concepto:</span>{RECEIPT_CONCEPT_LABELS[receipt.concept]}</p>
+            {receipt.packageName && <p><span className="font-bold inline-block w-24">Paquete:</span>{receipt.packageName}</p>}
+            {receipt.credits > 0 && <p><span className="font-bold inline-block w-24">Clases:</span>{receipt.credits}</p>}
+        </div>
+
+        <table className="w-full border-t border-slate-200">
+            <thead>
+                <tr className="text-left">
+                    <th className="py-2">Método de pago</th>
+                    <th className="py-2 text-right">Monto</th>
+                </tr>
+            </thead>
+            <tbody>
+                {receipt.lines.map(line => (
+                    <tr key={line.paymentId}>
+                        <td className="py-1">
+                            {line.methodName}
+                            {line.description && <span className="text-xs text-slate-500"> · {line.description}</span>}
+                        </td>
+                        <td className="py-1 text-right">S/ {line.amount.toFixed(2)}</td>
+                    </tr>
+                ))}
+                <tr className="border-t border-slate-200 font-bold text-base">
+                    <td className="pt-2">TOTAL PAGADO</td>
+                    <td className="pt-2 text-right">S/ {receipt.total.toFixed(2)}</td>
+                </tr>
+                <tr>
+                    <td className="py-1">Saldo pendiente</td>
+                    <td className="py-1 text-right">S/ {receipt.debtBalance.toFixed(2)}</td>
+                </tr>
+            </tbody>
+        </table>
+
+        <p className="mt-6 text-xs text-slate-500">Atendido por: {receipt.cashierName}</p>
+    </div>
+);
+
+/**
+ * Receipt (boleta) preview with print and PDF export
+ */
+export const ReceiptModal: React.FC<ReceiptModalProps> = ({ receipt, onClose }) => {
+    const [exporting, setExporting] = useState(false);
+
+    const handlePdf = async () => {
+        setExporting(true);
+        try {
+            await receiptService.exportPdf(receipt);
+        } catch (error) {
+            console.error("Error exporting receipt:", error);
+            alert("Error al generar el PDF");
+        } finally {
+            setExporting(false);
+        }
+    };
+
+    return (
+        <>
+            <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/50 p-4 print:hidden">
+                <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md overflow-hidden animate-in fade-in zoom-in duration-200">
+                    <div className="p-4 border-b border-slate-100 flex justify-between items-center">
+                        <h3 className="font-bold text-slate-800">Boleta N° {receipt.id}</h3>
+                        <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+                            <X className="w-5 h-5" />
+                        </button>
+                    </div>
+
+                    <div className="p-6">
+                        <ReceiptBody receipt={receipt} />
+                    </div>
+
+                    <div className="p-4 border-t border-slate-100 flex justify-end gap-3">
+                        <button
+                            onClick={handlePdf}
+                            disabled={exporting}
+                            className="px-4 py-2 border border-slate-200 text-slate-600 rounded-xl font-bold hover:bg-slate-50 transition-colors flex items-center gap-2 disabled:opacity-50"
+                        >
+                            <FileDown className="w-4 h-4" />
+                            PDF
+                        </button>
+                        <button
+                            onClick={() => window.print()}
+                            className="bg-slate-900 text-white px-4 py-2 rounded-xl font-bold hover:bg-slate-800 transition-all flex items-center gap-2 shadow-lg shadow-slate-900/20"
+                        >
+                            <Printer className="w-4 h-4" />
+                            Imprimir
+                        </button>
+                    </div>
+                </div>
+            </div>
+
+            {/* PRINT ONLY SECTION - same approach as the ID card */}
+            <div className="hidden print:block print:fixed print:top-0 print:left-0 print:w-full print:h-full print:bg-white print:z-[100]">
+                <div className="max-w-[120mm]">
+                    <ReceiptBody receipt={receipt} />
+                </div>
+            </div>
+
+            <style>{`
+                @media print {
+                    @page { size: A5; margin: 10mm; }
+                }
+            `}</style>
+        </>
+    );
+};
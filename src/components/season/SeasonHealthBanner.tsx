@@ -0,0 +1,82 @@
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { useSeason } from '../../contexts/SeasonContext';
+import { useAuth } from '../../context/AuthContext';
+import { seasonService } from '../../services/seasonService';
+import type { Season } from '../../types/db';
+
+/**
+ * Warns when no season or several seasons are active and lets a SUPERADMIN pick the one to keep
+ */
+export const SeasonHealthBanner: React.FC = () => {
+    const { seasonHealth, repairSeason } = useSeason();
+    const { role } = useAuth();
+    const [seasons, setSeasons] = useState<Season[]>([]);
+    const [selectedId, setSelectedId] = useState('');
+    const [isRepairing, setIsRepairing] = useState(false);
+
+    const broken = !!seasonHealth && seasonHealth.status !== 'ok';
+
+    useEffect(() => {
+        if (!broken) return;
+        setSelectedId(seasonHealth.suggested?.id || '');
+        // With several active, choose among them; with none, among all open seasons
+        if (seasonHealth.status === 'multiple-active') {
+            setSeasons(seasonHealth.active);
+        } else {
+            seasonService.getAll()
+                .then(all => setSeasons(all.filter(s => !s.archivedAt)))
+                .catch(error => console.error('Error loading seasons:', error));
+        }
+    }, [broken, seasonHealth]);
+
+    if (!broken) return null;
+
+    const handleRepair = async () => {
+        const season = seasons.find(s => s.id === selectedId);
+        if (!season) return;
+        if (!confirm(`¿Dejar "${season.name}" como única temporada activa?`)) return;
+
+        setIsRepairing(true);
+        try {
+            await repairSeason(season.id);
+        } catch (error) {
+            console.error('Error repairing active season:', error);
+            alert(error instanceof Error ? error.message : 'Error al reparar la temporada activa');
+        } finally {
+            setIsRepairing(false);
+        }
+    };
+
+    return (
+        <div className="bg-amber-50 border-b border-amber-200 px-4 lg:px-8 py-3 flex flex-wrap items-center gap-3 text-sm text-amber-800">
+            <AlertTriangle className="w-5 h-5 shrink-0" />
+            <p className="flex-1 min-w-[16rem]">
+                {seasonHealth.status === 'multiple-active'
+                    ? `Hay ${seasonHealth.active.length} temporadas activas (${seasonHealth.active.map(s => s.name).join(', ')}).`
+                    : 'No hay ninguna temporada activa.'}
+                {seasonHealth.suggested && ` Se está usando "${seasonHealth.suggested.name}".`}
+            </p>
+            {role === 'SUPERADMIN' ? (
+                <div className="flex items-center gap-2">
+                    <select
+                        value={selectedId}
+                        onChange={e => setSelectedId(e.target.value)}
+                        className="px-3 py-1.5 border border-amber-300 rounded-lg bg-white outline-none"
+                    >
+                        {seasons.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                    </select>
+                    <button
+                        onClick={handleRepair}
+                        disabled={isRepairing || !selectedId}
+                        className="px-3 py-1.5 bg-amber-600 hover:bg-amber-700 text-white rounded-lg font-medium transition-colors disabled:opacity-50"
+                    >
+                        {isRepairing ? 'Reparando...' : 'Dejar como activa'}
+                    </button>
+                </div>
+            ) : (
+                <p className="font-medium">Avise a un administrador.</p>
+            )}
+        </div>
+    );
+};
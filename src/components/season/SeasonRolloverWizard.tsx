@@ -0,0 +1,279 @@
+import React, { useEffect, useState } from 'react';
+import { rolloverService, type PriceAdjustment, type RolloverPlan } from '../../services/rolloverService';
+import { categoryService } from '../../services/categoryService';
+import type { Category, Season } from '../../types/db';
+
+interface SeasonRolloverWizardProps {
+    seasons: Season[];
+    onClose: () => void;
+    onDone: () => void;
+}
+
+const describeSchedule = (schedule: Array<{ dayId: string, timeId: string }>) =>
+    schedule.length > 0
+        ? Array.from(new Set(schedule.map(s => s.timeId))).map(time =>
+            `${schedule.filter(s => s.timeId === time).map(s => s.dayId).join('-')} ${time}`
+        ).join(', ')
+        : 'Sin horario';
+
+/**
+ * Season rollover: pick source and target, review what would be copied and which students
+ * carry over, then apply it.
+ */
+export const SeasonRolloverWizard: React.FC<SeasonRolloverWizardProps> = ({ seasons, onClose, onDone }) => {
+    const [sourceId, setSourceId] = useState(seasons.find(s => s.isActive)?.id || '');
+    const [targetId, setTargetId] = useState('');
+    const [adjustment, setAdjustment] = useState<PriceAdjustment>({ type: 'percent', value: 0 });
+    const [plan, setPlan] = useState<RolloverPlan | null>(null);
+    const [categories, setCategories] = useState<Category[]>([]);
+    const [copyTemplates, setCopyTemplates] = useState(true);
+    const [generateSlots, setGenerateSlots] = useState(true);
+    const [packageIds, setPackageIds] = useState<string[]>([]);
+    const [studentIds, setStudentIds] = useState<string[]>([]);
+    const [isWorking, setIsWorking] = useState(false);
+
+    useEffect(() => {
+        categoryService.getAll()
+            .then(setCategories)
+            .catch(error => console.error('Error loading categories:', error));
+    }, []);
+
+    const categoryName = (id: string) => categories.find(c => c.id === id)?.name || 'Sin categoría';
+
+    const handlePreview = async () => {
+        if (!sourceId || !targetId) return;
+        setIsWorking(true);
+        try {
+            const result = await rolloverService.preview(sourceId, targetId, adjustment);
+            setPlan(result);
+            setCopyTemplates(result.templatesToCopy > 0);
+            setGenerateSlots(true);
+            setPackageIds(result.packages.filter(p => !p.exists).map(p => p.id));
+            setStudentIds(result.students.filter(s => s.active && s.fits).map(s => s.studentId));
+        } catch (error) {
+            console.error('Error previewing rollover:', error);
+            alert(error instanceof Error ? error.message : 'Error al preparar el pase de temporada');
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    const handleExecute = async () => {
+        if (!plan) return;
+        if (!confirm(`¿Pasar ${studentIds.length} alumno(s) de "${plan.source.name}" a "${plan.target.name}"?\n\nLos alumnos dejarán de verse en la temporada anterior.`)) return;
+
+        setIsWorking(true);
+        try {
+            const result = await rolloverService.execute(plan, { copyTemplates, generateSlots, packageIds, studentIds });
+            const problems = [
+                ...result.skipped.map(s => `• ${s.studentName} (no pasó): ${s.reason}`),
+                ...result.notEnrolled.map(s => `• ${s.studentName} (pasó sin inscripción): ${s.reason}`)
+            ];
+            alert(`✅ Pase de temporada completado\n\nPlantillas copiadas: ${result.templatesCopied}\nPaquetes copiados: ${result.packagesCopied}\nHorarios mensuales creados: ${result.slotsCreated}\nAlumnos pasados: ${result.studentsMoved} (${result.studentsEnrolled} inscritos en sus horarios)${problems.length > 0 ? `\n\nRevisar:\n${problems.join('\n')}` : ''}`);
+            onDone();
+            onClose();
+        } catch (error) {
+            console.error('Error executing rollover:', error);
+            alert(`${error instanceof Error ? error.message : 'Error en el pase de temporada'}\n\nLos pasos anteriores al error ya se aplicaron; revise la vista previa antes de repetir.`);
+            setPlan(null);
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    const toggle = (list: string[], id: string) => list.includes(id) ? list.filter(x => x !== id) : [...list, id];
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+            <div className="bg-white rounded-lg p-6 w-full max-w-4xl max-h-[90vh] overflow-y-auto">
+                <div className="flex justify-between items-start mb-4">
+                    <div>
+                        <h2 className="text-xl font-bold">Pase de Temporada</h2>
+                        <p className="text-sm text-gray-500">
+                            Copia plantillas y paquetes, y pasa a los alumnos elegidos a la nueva temporada.
+                        </p>
+                    </div>
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-600">✕</button>
+                </div>
+
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3 items-end mb-4">
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Desde</label>
+                        <select
+                            value={sourceId}
+                            onChange={(e) => { setSourceId(e.target.value); setPlan(null); }}
+                            className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-indigo-500"
+                        >
+                            <option value="">Seleccionar</option>
+                            {seasons.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Hacia</label>
+                        <select
+                            value={targetId}
+                            onChange={(e) => { setTargetId(e.target.value); setPlan(null); }}
+                            className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-indigo-500"
+                        >
+                            <option value="">Seleccionar</option>
+                            {seasons.filter(s => s.id !== sourceId).map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Ajuste de precio</label>
+                        <div className="flex gap-1">
+                            <input
+                                type="number"
+                                step="0.01"
+                                value={adjustment.value}
+                                onChange={(e) => { setAdjustment({ ...adjustment, value: Number(e.target.value) }); setPlan(null); }}
+                                className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-indigo-500"
+                            />
+                            <select
+                                value={adjustment.type}
+                                onChange={(e) => { setAdjustment({ ...adjustment, type: e.target.value as PriceAdjustment['type'] }); setPlan(null); }}
+                                className="px-2 py-2 border rounded-lg focus:ring-2 focus:ring-indigo-500"
+                            >
+                                <option value="percent">%</option>
+                                <option value="amount">S/</option>
+                            </select>
+                        </div>
+                    </div>
+                    <button
+                        onClick={handlePreview}
+                        disabled={isWorking || !sourceId || !targetId}
+                        className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50"
+                    >
+                        {isWorking && !plan ? 'Revisando...' : 'Vista previa'}
+                    </button>
+                </div>
+
+                {plan && (
+                    <div className="space-y-4">
+                        <div className="border rounded-lg p-4 text-sm space-y-2">
+                            <label className="flex items-center gap-2">
+                                <input
+                                    type="checkbox"
+                                    checked={copyTemplates}
+                                    disabled={plan.templatesToCopy === 0}
+                                    onChange={(e) => setCopyTemplates(e.target.checked)}
+                                />
+                                {plan.templatesToCopy > 0
+                                    ? `Copiar ${plan.templatesToCopy} plantilla(s) de horario`
+                                    : `"${plan.target.name}" ya tiene ${plan.existingTemplates} plantilla(s): no se copian`}
+                            </label>
+                            <label className="flex items-center gap-2">
+                                <input
+                                    type="checkbox"
+                                    checked={generateSlots}
+                                    onChange={(e) => setGenerateSlots(e.target.checked)}
+                                />
+                                Generar horarios mensuales ({plan.months[0]} a {plan.months[plan.months.length - 1]})
+                            </label>
+                        </div>
+
+                        <div>
+                            <h3 className="font-semibold text-gray-900 mb-2">Paquetes</h3>
+                            {plan.packages.length === 0 ? (
+                                <p className="text-sm text-gray-500">La temporada de origen no tiene paquetes.</p>
+                            ) : (
+                                <div className="border rounded-lg divide-y">
+                                    {plan.packages.map(pkg => (
+                                        <label key={pkg.id} className="flex items-center justify-between px-4 py-2 text-sm">
+                                            <span className="flex items-center gap-2">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={packageIds.includes(pkg.id)}
+                                                    disabled={pkg.exists}
+                                                    onChange={() => setPackageIds(toggle(packageIds, pkg.id))}
+                                                />
+                                                {pkg.name}
+                                                {pkg.exists && <span className="text-xs text-gray-400">(ya existe)</span>}
+                                            </span>
+                                            <span>
+                                                <span className="text-gray-500">S/ {pkg.price.toFixed(2)}</span>
+                                                {pkg.newPrice !== pkg.price && <span className="ml-2 font-medium">→ S/ {pkg.newPrice.toFixed(2)}</span>}
+                                            </span>
+                                        </label>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+
+                        <div>
+                            <div className="flex justify-between items-center mb-2">
+                                <h3 className="font-semibold text-gray-900">
+                                    Alumnos ({studentIds.length} de {plan.students.length})
+                                </h3>
+                                <div className="flex gap-2 text-xs">
+                                    <button onClick={() => setStudentIds(plan.students.map(s => s.studentId))} className="text-indigo-600 hover:underline">Todos</button>
+                                    <button onClick={() => setStudentIds(plan.students.filter(s => s.active && s.fits).map(s => s.studentId))} className="text-indigo-600 hover:underline">Activos con cupo</button>
+                                    <button onClick={() => setStudentIds([])} className="text-indigo-600 hover:underline">Ninguno</button>
+                                </div>
+                            </div>
+                            {plan.students.length === 0 ? (
+                                <p className="text-sm text-gray-500">La temporada de origen no tiene alumnos.</p>
+                            ) : (
+                                <table className="w-full text-sm border rounded-lg">
+                                    <thead className="bg-gray-50 text-gray-500">
+                                        <tr>
+                                            <th className="px-3 py-2"></th>
+                                            <th className="px-3 py-2 text-left">Alumno</th>
+                                            <th className="px-3 py-2 text-center">Edad</th>
+                                            <th className="px-3 py-2 text-left">Categoría</th>
+                                            <th className="px-3 py-2 text-left">Horario</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody className="divide-y">
+                                        {plan.students.map(s => (
+                                            <tr key={s.studentId} className={s.active && s.fits ? '' : 'text-gray-400'}>
+                                                <td className="px-3 py-2 text-center">
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={studentIds.includes(s.studentId)}
+                                                        onChange={() => setStudentIds(toggle(studentIds, s.studentId))}
+                                                    />
+                                                </td>
+                                                <td className="px-3 py-2">
+                                                    {s.studentName}
+                                                    {!s.active && <span className="ml-1 text-xs">(suspendido)</span>}
+                                                    {!s.fits && <span className="ml-1 text-xs text-red-600">(sin cupo)</span>}
+                                                    {s.issues.map(issue => (
+                                                        <p key={issue} className="text-xs text-amber-600">{issue}</p>
+                                                    ))}
+                                                </td>
+                                                <td className="px-3 py-2 text-center">{s.age ?? '-'}</td>
+                                                <td className="px-3 py-2">
+                                                    {s.fromCategoryId === s.toCategoryId
+                                                        ? categoryName(s.toCategoryId)
+                                                        : <>{categoryName(s.fromCategoryId)} → <span className="font-medium">{categoryName(s.toCategoryId)}</span></>}
+                                                </td>
+                                                <td className="px-3 py-2">
+                                                    {describeSchedule(s.toSchedule)}
+                                                    {s.packageStartDate && (
+                                                        <p className="text-xs text-gray-500">{s.packageStartDate} al {s.packageEndDate}</p>
+                                                    )}
+                                                </td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            )}
+                            <p className="text-xs text-gray-500 mt-2">
+                                Cada alumno conserva su paquete y sus clases pendientes: el paquete empieza de nuevo el primer día de la temporada, con la misma duración, y el alumno queda inscrito en sus horarios. Quien no tenga cupo no pasa; quien no tenga clases pendientes pasa sin horario y se inscribe al renovar.
+                            </p>
+                        </div>
+
+                        <button
+                            onClick={handleExecute}
+                            disabled={isWorking}
+                            className="w-full px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+                        >
+                            {isWorking ? 'Aplicando...' : `Aplicar pase a "${plan.target.name}"`}
+                        </button>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,28 @@
+import React from 'react';
+import { Eye } from 'lucide-react';
+import { useSeason } from '../../contexts/SeasonContext';
+
+/**
+ * Shown while the user browses a season other than the active one (read-only)
+ */
+export const ViewingSeasonBanner: React.FC = () => {
+    const { viewingSeason, currentSeason, isReadOnly, setViewingSeason } = useSeason();
+
+    if (!isReadOnly || !viewingSeason) return null;
+
+    return (
+        <div className="bg-indigo-50 border-b border-indigo-200 px-4 lg:px-8 py-3 flex flex-wrap items-center gap-3 text-sm text-indigo-800">
+            <Eye className="w-5 h-5 shrink-0" />
+            <p className="flex-1 min-w-[16rem]">
+                Está viendo <span className="font-bold">{viewingSeason.name}</span> en modo solo lectura.
+                {currentSeason && ` La temporada activa es ${currentSeason.name}.`}
+            </p>
+            <button
+                onClick={() => setViewingSeason(null)}
+                className="px-3 py-1.5 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg font-medium transition-colors"
+            >
+                Volver a la temporada activa
+            </button>
+        </div>
+    );
+};
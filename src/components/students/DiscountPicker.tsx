@@ -0,0 +1,87 @@
+import React from 'react';
+import { Tag } from 'lucide-react';
+import { DISCOUNT_TYPE_LABELS, MANUAL_DISCOUNT_TYPES } from '../../services/discountService';
+import type { DiscountRule, PriceBreakdown } from '../../types/db';
+
+interface DiscountPickerProps {
+    rules: DiscountRule[]; // Offered for this sale
+    pricing: PriceBreakdown;
+    promoCode: string;
+    confirmedRuleIds: string[];
+    onChange: (promoCode: string, confirmedRuleIds: string[]) => void;
+    siblingHint?: string; // Students that share the phone number
+}
+
+/**
+ * Discounts of a package or recharge: the cashier confirms sibling / staff family rules and
+ * types promo codes; early registration applies by itself. Shows the resulting price.
+ */
+export const DiscountPicker: React.FC<DiscountPickerProps> = ({ rules, pricing, promoCode, confirmedRuleIds, onChange, siblingHint }) => {
+    const manualRules = rules.filter(r => MANUAL_DISCOUNT_TYPES.includes(r.type));
+    const hasPromo = rules.some(r => r.type === 'PROMO_CODE');
+    const earlyBird = rules.filter(r => r.type === 'EARLY_BIRD');
+
+    const toggle = (ruleId: string) => onChange(
+        promoCode,
+        confirmedRuleIds.includes(ruleId) ? confirmedRuleIds.filter(id => id !== ruleId) : [...confirmedRuleIds, ruleId]
+    );
+
+    return (
+        <div className="space-y-3 p-4 bg-slate-50 rounded-2xl border border-slate-100">
+            <label className="flex items-center gap-1 text-xs font-bold text-slate-500 uppercase tracking-wide">
+                <Tag className="w-3 h-3" /> Descuentos
+            </label>
+
+            {manualRules.map(rule => (
+                <label key={rule.id} className="flex items-start gap-2 text-sm text-slate-600 cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={confirmedRuleIds.includes(rule.id)}
+                        onChange={() => toggle(rule.id)}
+                        className="mt-0.5 rounded border-slate-300"
+                    />
+                    <span>
+                        {rule.name}
+                        <span className="block text-xs text-slate-400">
+                            {DISCOUNT_TYPE_LABELS[rule.type]}
+                            {rule.type === 'SIBLING' && siblingHint && ` · Mismo teléfono: ${siblingHint}`}
+                        </span>
+                    </span>
+                </label>
+            ))}
+
+            {earlyBird.map(rule => (
+                <p key={rule.id} className="text-xs text-slate-400">
+                    {rule.name}: matrícula hasta el {rule.registerBefore}
+                </p>
+            ))}
+
+            {hasPromo && (
+                <input
+                    type="text"
+                    value={promoCode}
+                    onChange={e => onChange(e.target.value.toUpperCase(), confirmedRuleIds)}
+                    className="w-full px-3 py-2 rounded-xl border border-slate-200 focus:outline-none focus:ring-2 focus:ring-sky-500/50 text-sm font-mono uppercase"
+                    placeholder="Código promocional"
+                />
+            )}
+
+            <div className="pt-2 border-t border-slate-200 text-sm space-y-1">
+                <div className="flex justify-between text-slate-500">
+                    <span>Precio de lista</span>
+                    <span>S/ {pricing.listPrice.toFixed(2)}</span>
+                </div>
+                {pricing.discounts.map(line => (
+                    <div key={line.ruleId} className="flex justify-between text-emerald-600">
+                        <span>{line.name}</span>
+                        <span>- S/ {line.amount.toFixed(2)}</span>
+                    </div>
+                ))}
+                <div className="flex justify-between font-bold text-slate-800">
+                    <span>Total</span>
+                    <span>S/ {pricing.netPrice.toFixed(2)}</span>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,214 @@
+import React, { useEffect, useState } from 'react';
+import { Snowflake } from 'lucide-react';
+import { freezeService, type FreezePreview } from '../../services/freezeService';
+import { useAuth } from '../../context/AuthContext';
+import { dateUtils } from '../../utils/date';
+import type { PackageFreeze, Student } from '../../types/db';
+
+interface StudentFreezeModalProps {
+    student: Student;
+    onClose: () => void;
+    onSaved: () => void;
+}
+
+const freezeStatus = (freeze: PackageFreeze, today: string): { label: string, className: string } => {
+    if (freeze.from > today) return { label: 'Programado', className: 'bg-sky-100 text-sky-700' };
+    if (freeze.to >= today) return { label: 'Activo', className: 'bg-indigo-100 text-indigo-700' };
+    return { label: 'Terminado', className: 'bg-slate-100 text-slate-500' };
+};
+
+/**
+ * Freeze (congelamiento) a student's package for illness or travel, within the package limits.
+ * Lists the student's freezes; scheduled or running ones can be resumed early.
+ */
+export const StudentFreezeModal: React.FC<StudentFreezeModalProps> = ({ student, onClose, onSaved }) => {
+    const { user } = useAuth();
+    const today = dateUtils.formatDateId(new Date());
+    const [form, setForm] = useState({ from: today, to: today, reason: '', holdSeat: true });
+    const [preview, setPreview] = useState<FreezePreview | null>(null);
+    const [previewError, setPreviewError] = useState<string | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const { from, to } = form;
+    useEffect(() => {
+        let cancelled = false;
+        freezeService.preview(student, { from, to })
+            .then(result => {
+                if (cancelled) return;
+                setPreview(result);
+                setPreviewError(null);
+            })
+            .catch(error => {
+                if (cancelled) return;
+                setPreview(null);
+                setPreviewError(error instanceof Error ? error.message : 'No se pudo calcular el congelamiento');
+            });
+        return () => { cancelled = true; };
+    }, [student, from, to]);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!preview) return;
+        if (!confirm(`¿Congelar el paquete de ${student.fullName} del ${form.from} al ${form.to}?\n\nSe pausan ${preview.frozenClasses} clase(s) y el paquete termina el ${preview.newEndDate}.`)) return;
+
+        setIsSaving(true);
+        try {
+            await freezeService.freeze(student.id, { ...form, createdBy: user?.uid });
+            alert('✅ Congelamiento registrado');
+            onSaved();
+            onClose();
+        } catch (error) {
+            console.error("Error freezing package:", error);
+            alert(error instanceof Error ? error.message : 'Error al congelar paquete');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleEndEarly = async (freeze: PackageFreeze) => {
+        const message = freeze.from > today
+            ? '¿Cancelar este congelamiento? La fecha de fin del paquete vuelve a la anterior.'
+            : `¿Retomar las clases desde hoy? Las clases congeladas que no se usaron se descuentan del fin del paquete.`;
+        if (!confirm(message)) return;
+
+        setIsSaving(true);
+        try {
+            await freezeService.endEarly(student.id, freeze.id);
+            onSaved();
+            onClose();
+        } catch (error) {
+            console.error("Error resuming package:", error);
+            alert(error instanceof Error ? error.message : 'Error al reanudar paquete');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const freezes = [...(student.freezes || [])].reverse();
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+            <div className="bg-white rounded-2xl shadow-2xl w-full max-w-xl overflow-hidden animate-in fade-in zoom-in duration-200 flex flex-col max-h-[90vh]">
+                <div className="p-6 border-b border-slate-100 flex justify-between items-start gap-4">
+                    <div>
+                        <h3 className="text-xl font-bold text-slate-800">Congelar Paquete</h3>
+                        <p className="text-sm text-slate-500">
+                            {student.fullName} · Fin actual: {student.packageEndDate || '-'}
+                        </p>
+                    </div>
+                    <button onClick={onClose} className="text-slate-400 hover:text-slate-600">✕</button>
+                </div>
+
+                <div className="flex-1 overflow-auto p-6 space-y-6">
+                    <form onSubmit={handleSubmit} className="space-y-4">
+                        <div className="grid grid-cols-2 gap-4">
+                            <div>
+                                <label className="block text-sm font-medium text-slate-700 mb-1">Desde</label>
+                                <input
+                                    type="date"
+                                    value={form.from}
+                                    min={today}
+                                    max={student.packageEndDate || undefined}
+                                    onChange={e => setForm({ ...form, from: e.target.value, to: form.to < e.target.value ? e.target.value : form.to })}
+                                    className="w-full px-3 py-2 border border-slate-200 rounded-xl focus:ring-2 focus:ring-sky-500 outline-none"
+                                    required
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-slate-700 mb-1">Hasta</label>
+                                <input
+                                    type="date"
+                                    value={form.to}
+                                    min={form.from}
+                                    max={student.packageEndDate || undefined}
+                                    onChange={e => setForm({ ...form, to: e.target.value })}
+                                    className="w-full px-3 py-2 border border-slate-200 rounded-xl focus:ring-2 focus:ring-sky-500 outline-none"
+                                    required
+                                />
+                            </div>
+                        </div>
+
+                        <div>
+                            <label className="block text-sm font-medium text-slate-700 mb-1">Motivo</label>
+                            <input
+                                type="text"
+                                value={form.reason}
+                                onChange={e => setForm({ ...form, reason: e.target.value })}
+                                className="w-full px-3 py-2 border border-slate-200 rounded-xl focus:ring-2 focus:ring-sky-500 outline-none"
+                                placeholder="Ej: Enfermedad, viaje"
+                                required
+                            />
+                        </div>
+
+                        <label className="flex items-start gap-2 text-sm text-slate-600 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={form.holdSeat}
+                                onChange={e => setForm({ ...form, holdSeat: e.target.checked })}
+                                className="mt-0.5 rounded border-slate-300"
+                            />
+                            <span>
+                                Reservar su cupo
+                                <span className="block text-xs text-slate-400">Si no se reserva, el cupo queda libre para recuperaciones durante esas fechas.</span>
+                            </span>
+                        </label>
+
+                        {previewError ? (
+                            <div className="rounded-xl p-4 text-sm bg-red-50 text-red-700">{previewError}</div>
+                        ) : preview && (
+                            <div className="rounded-xl p-4 text-sm bg-sky-50 text-sky-800">
+                                <p>Clases pausadas: <span className="font-bold">{preview.frozenClasses}</span></p>
+                                <p>Nuevo fin del paquete: <span className="font-bold">{preview.newEndDate}</span></p>
+                                <p className="text-xs text-sky-600 mt-1">
+                                    Límite del paquete: {preview.policy.maxFreezes} congelamiento(s) de hasta {preview.policy.maxDays} días (usados: {preview.used}).
+                                </p>
+                            </div>
+                        )}
+
+                        <button
+                            type="submit"
+                            disabled={isSaving || !preview}
+                            className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-sky-600 hover:bg-sky-700 text-white rounded-xl font-bold transition-colors disabled:opacity-50"
+                        >
+                            <Snowflake className="w-4 h-4" />
+                            {isSaving ? 'Guardando...' : 'Congelar'}
+                        </button>
+                    </form>
+
+                    {freezes.length > 0 && (
+                        <div>
+                            <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2">Congelamientos</p>
+                            <div className="border border-slate-100 rounded-xl divide-y divide-slate-100">
+                                {freezes.map(f => {
+                                    const status = freezeStatus(f, today);
+                                    return (
+                                        <div key={f.id} className="px-4 py-2 text-sm flex items-center justify-between gap-3">
+                                            <div>
+                                                <p className="text-slate-700">
+                                                    <span className={`text-[10px] font-bold px-2 py-0.5 rounded mr-2 ${status.className}`}>{status.label}</span>
+                                                    {f.from} a {f.to} · {f.frozenClasses} clase(s)
+                                                </p>
+                                                <p className="text-xs text-slate-400">
+                                                    {f.reason}{f.holdSeat ? ' · Cupo reservado' : ' · Cupo liberado'}{f.endedEarlyAt ? ' · Retomó antes' : ''}
+                                                </p>
+                                            </div>
+                                            {f.to >= today && (
+                                                <button
+                                                    onClick={() => handleEndEarly(f)}
+                                                    disabled={isSaving}
+                                                    className="px-3 py-1 text-xs font-bold text-sky-600 bg-sky-50 hover:bg-sky-100 rounded-lg transition-colors whitespace-nowrap disabled:opacity-50"
+                                                >
+                                                    {f.from > today ? 'Cancelar' : 'Retomar hoy'}
+                                                </button>
+                                            )}
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,182 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Printer, RefreshCw } from 'lucide-react';
+import { studentService, LedgerEntry, LedgerEntryType } from '../../services/students';
+import { receiptService } from '../../services/receiptService';
+import { ReceiptModal } from '../receipts/ReceiptModal';
+import type { Receipt, Student } from '../../types/db';
+
+interface StudentLedgerModalProps {
+    student: Student;
+    onClose: () => void;
+}
+
+const TYPE_STYLES: Record<LedgerEntryType, { label: string, className: string }> = {
+    CHARGE: { label: 'Deuda', className: 'bg-amber-100 text-amber-700' },
+    PAYMENT: { label: 'Pago', className: 'bg-emerald-100 text-emerald-700' },
+    REVERSAL: { label: 'Anulación', className: 'bg-red-100 text-red-700' },
+    PACKAGE: { label: 'Paquete', className: 'bg-sky-100 text-sky-700' },
+    CREDITS: { label: 'Clases', className: 'bg-sky-100 text-sky-700' },
+    ATTENDANCE: { label: 'Asistencia', className: 'bg-slate-100 text-slate-500' }
+};
+
+const formatMoney = (value: number) => (value === 0 ? '' : `S/ ${value.toFixed(2)}`);
+
+/**
+ * Student ledger: payments, debts, packages and classes with running balances.
+ * Receipts can be reprinted from their payment row.
+ */
+export const StudentLedgerModal: React.FC<StudentLedgerModalProps> = ({ student, onClose }) => {
+    const [entries, setEntries] = useState<LedgerEntry[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [showAttendance, setShowAttendance] = useState(false);
+    const [receipt, setReceipt] = useState<Receipt | null>(null);
+
+    useEffect(() => {
+        studentService.getLedger(student.id)
+            .then(setEntries)
+            .catch(error => console.error("Error loading ledger:", error))
+            .finally(() => setLoading(false));
+    }, [student.id]);
+
+    const handleReprint = async (receiptNumber: string) => {
+        try {
+            const found = await receiptService.getByNumber(receiptNumber);
+            if (!found) {
+                alert("No se encontró la boleta.");
+                return;
+            }
+            setReceipt(found);
+        } catch (error) {
+            console.error("Error loading receipt:", error);
+            alert("Error al cargar la boleta");
+        }
+    };
+
+    // Several payments (one per method) share the same receipt: offer the reprint once
+    const reprintIds = useMemo(() => {
+        const seen = new Set<string>();
+        const ids = new Set<string>();
+        entries.forEach(e => {
+            if (e.receiptNumber && !seen.has(e.receiptNumber)) {
+                seen.add(e.receiptNumber);
+                ids.add(e.id);
+            }
+        });
+        return ids;
+    }, [entries]);
+
+    // Newest first; attendance rows are hidden by default (running balances still include them)
+    const visibleEntries = useMemo(
+        () => entries.filter(e => showAttendance || e.type !== 'ATTENDANCE').reverse(),
+        [entries, showAttendance]
+    );
+    const last = entries[entries.length - 1];
+
+    return (
+        <>
+            <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4 print:hidden">
+                <div className="bg-white rounded-2xl shadow-2xl w-full max-w-4xl overflow-hidden animate-in fade-in zoom-in duration-200 flex flex-col max-h-[90vh]">
+                    <div className="p-6 border-b border-slate-100 flex justify-between items-start gap-4">
+                        <div>
+                            <h3 className="text-xl font-bold text-slate-800">Estado de Cuenta</h3>
+                            <p className="text-sm text-slate-500">{student.fullName}</p>
+                        </div>
+                        <div className="flex items-center gap-6">
+                            {last && (
+                                <>
+                                    <div className="text-right">
+                                        <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Saldo</p>
+                                        <p className={`text-lg font-bold ${last.balance > 0.01 ? 'text-red-600' : 'text-emerald-600'}`}>
+                                            S/ {last.balance.toFixed(2)}
+                                        </p>
+                                    </div>
+                                    <div className="text-right">
+                                        <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Clases</p>
+                                        <p className="text-lg font-bold text-slate-800">{last.creditBalance}</p>
+                                    </div>
+                                </>
+                            )}
+                            <button onClick={onClose} className="text-slate-400 hover:text-slate-600">✕</button>
+                        </div>
+                    </div>
+
+                    <div className="px-6 py-3 border-b border-slate-100">
+                        <label className="flex items-center gap-2 text-sm text-slate-600 cursor-pointer w-fit">
+                            <input
+                                type="checkbox"
+                                checked={showAttendance}
+                                onChange={e => setShowAttendance(e.target.checked)}
+                                className="rounded border-slate-300"
+                            />
+                            Mostrar asistencias
+                        </label>
+                    </div>
+
+                    <div className="flex-1 overflow-auto">
+                        {loading ? (
+                            <div className="p-12 text-center">
+                                <RefreshCw className="w-8 h-8 text-slate-200 animate-spin mx-auto" />
+                            </div>
+                        ) : visibleEntries.length === 0 ? (
+                            <p className="p-12 text-center text-slate-400 text-sm">No hay movimientos registrados.</p>
+                        ) : (
+                            <table className="w-full text-sm">
+                                <thead className="bg-slate-50 text-slate-500 text-xs uppercase sticky top-0">
+                                    <tr>
+                                        <th className="px-4 py-3 text-left">Fecha</th>
+                                        <th className="px-4 py-3 text-left">Movimiento</th>
+                                        <th className="px-4 py-3 text-right">Cargo</th>
+                                        <th className="px-4 py-3 text-right">Abono</th>
+                                        <th className="px-4 py-3 text-right">Saldo</th>
+                                        <th className="px-4 py-3 text-right">Clases</th>
+                                        <th className="px-4 py-3"></th>
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-slate-100">
+                                    {visibleEntries.map(e => (
+                                        <tr key={e.id}>
+                                            <td className="px-4 py-2 text-slate-500 whitespace-nowrap">
+                                                {new Date(e.date).toLocaleDateString('es-PE', { day: '2-digit', month: '2-digit', year: 'numeric' })}
+                                            </td>
+                                            <td className="px-4 py-2">
+                                                <span className={`text-[10px] font-bold px-2 py-0.5 rounded mr-2 ${TYPE_STYLES[e.type].className}`}>
+                                                    {TYPE_STYLES[e.type].label}
+                                                </span>
+                                                <span className="text-slate-700">{e.description}</span>
+                                            </td>
+                                            <td className="px-4 py-2 text-right text-slate-600">{formatMoney(e.charge)}</td>
+                                            <td className={`px-4 py-2 text-right ${e.paid < 0 ? 'text-red-600' : 'text-emerald-600'}`}>{formatMoney(e.paid)}</td>
+                                            <td className="px-4 py-2 text-right font-bold text-slate-800">S/ {e.balance.toFixed(2)}</td>
+                                            <td className="px-4 py-2 text-right text-slate-600 whitespace-nowrap">
+                                                {e.credits !== 0 && (
+                                                    <span className={`mr-1 text-xs ${e.credits > 0 ? 'text-emerald-600' : 'text-slate-400'}`}>
+                                                        ({e.credits > 0 ? '+' : ''}{e.credits})
+                                                    </span>
+                                                )}
+                                                {e.creditBalance}
+                                            </td>
+                                            <td className="px-4 py-2 text-right">
+                                                {reprintIds.has(e.id) && (
+                                                    <button
+                                                        onClick={() => handleReprint(e.receiptNumber!)}
+                                                        className="flex items-center gap-1 ml-auto px-2 py-1 text-xs font-bold text-sky-600 bg-sky-50 hover:bg-sky-100 rounded-lg transition-colors whitespace-nowrap"
+                                                        title="Reimprimir boleta"
+                                                    >
+                                                        <Printer className="w-3.5 h-3.5" />
+                                                        {e.receiptNumber}
+                                                    </button>
+                                                )}
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        )}
+                    </div>
+                </div>
+            </div>
+
+            {receipt && <ReceiptModal receipt={receipt} onClose={() => setReceipt(null)} />}
+        </>
+    );
+};
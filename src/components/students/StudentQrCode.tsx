@@ -0,0 +1,39 @@
+import { useState, useEffect, type CSSProperties } from 'react';
+
+interface StudentQrCodeProps {
+    value: string;
+    size?: string; // CSS size, e.g. "18mm"
+    className?: string;
+    style?: CSSProperties;
+}
+
+/**
+ * QR image for a student code. The encoder is loaded on demand (only card screens need it).
+ */
+export function StudentQrCode({ value, size = '18mm', className, style }: StudentQrCodeProps) {
+    const [dataUrl, setDataUrl] = useState<string | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        import('qrcode')
+            .then(QRCode => QRCode.toDataURL(value, { margin: 0, width: 256, errorCorrectionLevel: 'M' }))
+            .then(url => {
+                if (!cancelled) setDataUrl(url);
+            })
+            .catch(error => console.error('Error generating QR:', error));
+        return () => {
+            cancelled = true;
+        };
+    }, [value]);
+
+    if (!dataUrl) return null;
+
+    return (
+        <img
+            src={dataUrl}
+            alt={`QR ${value}`}
+            className={className}
+            style={{ width: size, height: size, ...style }}
+        />
+    );
+}
@@ -0,0 +1,219 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ArrowRightLeft, RefreshCw } from 'lucide-react';
+import { transferService } from '../../services/transferService';
+import { scheduleTemplateService } from '../../services/scheduleTemplateService';
+import { categoryService } from '../../services/categoryService';
+import { WAITLIST_DAY_IDS } from '../../services/waitlistService';
+import { useAuth } from '../../context/AuthContext';
+import { dateUtils } from '../../utils/date';
+import type { Category, DayType, ScheduleTemplate, ScheduleTransfer, Season, Student } from '../../types/db';
+
+interface StudentTransferModalProps {
+    student: Student;
+    season: Season;
+    onClose: () => void;
+    onTransferred: () => void;
+}
+
+const DAY_LABELS: Record<DayType, string> = {
+    'lun-mier-vier': 'L-M-V',
+    'mar-juev': 'M-J',
+    'sab-dom': 'S-D'
+};
+
+const describeSchedule = (schedule: Array<{ dayId: string, timeId: string }>) =>
+    schedule.length > 0 ? `${schedule.map(s => s.dayId).join('-')} ${schedule[0].timeId}` : 'Sin horario';
+
+/**
+ * Transfer a student to another schedule from a date on, keeping the old enrollment
+ * (and its attendance) up to that date. Also lists previous transfers.
+ */
+export const StudentTransferModal: React.FC<StudentTransferModalProps> = ({ student, season, onClose, onTransferred }) => {
+    const { user } = useAuth();
+    const [templates, setTemplates] = useState<ScheduleTemplate[]>([]);
+    const [categories, setCategories] = useState<Category[]>([]);
+    const [history, setHistory] = useState<ScheduleTransfer[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [isSaving, setIsSaving] = useState(false);
+    const [form, setForm] = useState({
+        effectiveDate: dateUtils.formatDateId(new Date()),
+        categoryId: student.categoryId,
+        templateId: '',
+        reason: ''
+    });
+
+    useEffect(() => {
+        Promise.all([
+            scheduleTemplateService.getBySeason(season.id),
+            categoryService.getActive(),
+            transferService.getByStudent(student.id)
+        ])
+            .then(([temps, cats, transfers]) => {
+                setTemplates(temps);
+                setCategories(cats);
+                setHistory(transfers);
+            })
+            .catch(error => console.error("Error loading transfer data:", error))
+            .finally(() => setLoading(false));
+    }, [season.id, student.id]);
+
+    const options = useMemo(
+        () => templates
+            .filter(t => !t.isBreak && t.categoryId === form.categoryId)
+            .sort((a, b) => a.dayType.localeCompare(b.dayType) || a.timeSlot.localeCompare(b.timeSlot)),
+        [templates, form.categoryId]
+    );
+    const selected = options.find(t => t.id === form.templateId);
+    const toSchedule = selected
+        ? WAITLIST_DAY_IDS[selected.dayType].map(dayId => ({ dayId, timeId: selected.timeSlot }))
+        : [];
+    const newStartDate = selected && student.packageEndDate
+        ? transferService.getNewStartDate(toSchedule, form.effectiveDate, student.packageEndDate, season.closures)
+        : null;
+    const categoryName = (id: string) => categories.find(c => c.id === id)?.name || 'Sin categoría';
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!selected) return;
+        if (!confirm(`¿Trasladar a ${student.fullName} a ${DAY_LABELS[selected.dayType]} ${selected.timeSlot}?\n\nÚltima clase en el horario actual: ${form.effectiveDate}\nPrimera clase en el nuevo: ${newStartDate}`)) return;
+
+        setIsSaving(true);
+        try {
+            await transferService.transfer(student.id, toSchedule, form.effectiveDate, {
+                categoryId: form.categoryId,
+                reason: form.reason.trim() || undefined,
+                createdBy: user?.uid
+            });
+            alert('✅ Traslado registrado');
+            onTransferred();
+            onClose();
+        } catch (error) {
+            console.error("Error transferring student:", error);
+            alert(error instanceof Error ? error.message : 'Error al trasladar alumno');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+            <div className="bg-white rounded-2xl shadow-2xl w-full max-w-xl overflow-hidden animate-in fade-in zoom-in duration-200 flex flex-col max-h-[90vh]">
+                <div className="p-6 border-b border-slate-100 flex justify-between items-start gap-4">
+                    <div>
+                        <h3 className="text-xl font-bold text-slate-800">Trasladar de Horario</h3>
+                        <p className="text-sm text-slate-500">
+                            {student.fullName} · {describeSchedule(student.fixedSchedule || [])}
+                        </p>
+                    </div>
+                    <button onClick={onClose} className="text-slate-400 hover:text-slate-600">✕</button>
+                </div>
+
+                <div className="flex-1 overflow-auto p-6 space-y-6">
+                    {loading ? (
+                        <div className="p-12 text-center">
+                            <RefreshCw className="w-8 h-8 text-slate-200 animate-spin mx-auto" />
+                        </div>
+                    ) : (
+                        <form onSubmit={handleSubmit} className="space-y-4">
+                            <div className="grid grid-cols-2 gap-4">
+                                <div>
+                                    <label className="block text-sm font-medium text-slate-700 mb-1">Última clase en el horario actual</label>
+                                    <input
+                                        type="date"
+                                        value={form.effectiveDate}
+                                        min={student.packageStartDate || undefined}
+                                        max={student.packageEndDate || undefined}
+                                        onChange={e => setForm({ ...form, effectiveDate: e.target.value })}
+                                        className="w-full px-3 py-2 border border-slate-200 rounded-xl focus:ring-2 focus:ring-sky-500 outline-none"
+                                        required
+                                    />
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-medium text-slate-700 mb-1">Categoría</label>
+                                    <select
+                                        value={form.categoryId}
+                                        onChange={e => setForm({ ...form, categoryId: e.target.value, templateId: '' })}
+                                        className="w-full px-3 py-2 border border-slate-200 rounded-xl focus:ring-2 focus:ring-sky-500 outline-none bg-white"
+                                    >
+                                        {categories.map(c => (
+                                            <option key={c.id} value={c.id}>{c.name}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                            </div>
+
+                            <div>
+                                <label className="block text-sm font-medium text-slate-700 mb-1">Nuevo horario</label>
+                                <select
+                                    value={form.templateId}
+                                    onChange={e => setForm({ ...form, templateId: e.target.value })}
+                                    className="w-full px-3 py-2 border border-slate-200 rounded-xl focus:ring-2 focus:ring-sky-500 outline-none bg-white"
+                                    required
+                                >
+                                    <option value="">Seleccionar horario</option>
+                                    {options.map(t => (
+                                        <option key={t.id} value={t.id}>{DAY_LABELS[t.dayType]} {t.timeSlot}</option>
+                                    ))}
+                                </select>
+                            </div>
+
+                            <div>
+                                <label className="block text-sm font-medium text-slate-700 mb-1">Motivo (opcional)</label>
+                                <input
+                                    type="text"
+                                    value={form.reason}
+                                    onChange={e => setForm({ ...form, reason: e.target.value })}
+                                    className="w-full px-3 py-2 border border-slate-200 rounded-xl focus:ring-2 focus:ring-sky-500 outline-none"
+                                    placeholder="Ej: Cambio de turno en el colegio"
+                                />
+                            </div>
+
+                            {selected && (
+                                <div className={`rounded-xl p-4 text-sm ${newStartDate ? 'bg-sky-50 text-sky-800' : 'bg-red-50 text-red-700'}`}>
+                                    {newStartDate ? (
+                                        <>
+                                            <p>Primera clase en el nuevo horario: <span className="font-bold">{newStartDate}</span></p>
+                                            <p>Clases restantes: <span className="font-bold">{student.remainingCredits}</span> (se mantienen)</p>
+                                        </>
+                                    ) : (
+                                        <p>El paquete termina antes de la siguiente clase de este horario.</p>
+                                    )}
+                                </div>
+                            )}
+
+                            <button
+                                type="submit"
+                                disabled={isSaving || !selected || !newStartDate}
+                                className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-sky-600 hover:bg-sky-700 text-white rounded-xl font-bold transition-colors disabled:opacity-50"
+                            >
+                                <ArrowRightLeft className="w-4 h-4" />
+                                {isSaving ? 'Trasladando...' : 'Trasladar'}
+                            </button>
+                        </form>
+                    )}
+
+                    {history.length > 0 && (
+                        <div>
+                            <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2">Traslados anteriores</p>
+                            <div className="border border-slate-100 rounded-xl divide-y divide-slate-100">
+                                {history.map(t => (
+                                    <div key={t.id} className="px-4 py-2 text-sm">
+                                        <p className="text-slate-700">
+                                            {describeSchedule(t.fromSchedule)} → <span className="font-medium">{describeSchedule(t.toSchedule)}</span>
+                                            {t.fromCategoryId !== t.toCategoryId && (
+                                                <span className="text-slate-500"> ({categoryName(t.fromCategoryId)} → {categoryName(t.toCategoryId)})</span>
+                                            )}
+                                        </p>
+                                        <p className="text-xs text-slate-400">
+                                            Hasta {t.effectiveDate}, desde {t.newStartDate}{t.reason ? ` · ${t.reason}` : ''}
+                                        </p>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -1,19 +1,24 @@
 import { createContext, useContext, useEffect, useState } from 'react';
 import { onAuthStateChanged, signOut, User } from 'firebase/auth';
-import { doc, getDoc, setDoc } from 'firebase/firestore';
+import { doc, onSnapshot } from 'firebase/firestore';
 import { auth, db } from '../lib/firebase';
-import type { UserRole } from '../types/db';
+import type { Cashier, UserProfile, UserRole } from '../types/db';
+import { userService } from '../services/userService';
 
 interface AuthContextType {
     user: User | null;
+    profile: UserProfile | null;
     role: UserRole | null;
+    cashier: Cashier | null; // uid + display name stamped on payments
     loading: boolean;
     logout: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType>({
     user: null,
+    profile: null,
     role: null,
+    cashier: null,
     loading: true,
     logout: async () => { },
 });
@@ -22,53 +27,75 @@ export const useAuth = () => useContext(AuthContext);
 
 export function AuthProvider({ children }: { children: React.ReactNode }) {
     const [user, setUser] = useState<User | null>(null);
+    const [profile, setProfile] = useState<UserProfile | null>(null);
     const [role, setRole] = useState<UserRole | null>(null);
     const [loading, setLoading] = useState(true);
 
     useEffect(() => {
-        const unsubscribe = onAuthStateChanged(auth, async (user) => {
+        let unsubscribeProfile: (() => void) | null = null;
+
+        const unsubscribe = onAuthStateChanged(auth, (user) => {
+            unsubscribeProfile?.();
+            unsubscribeProfile = null;
             setUser(user);
 
-            if (user) {
-                try {
-                    const userRef = doc(db, 'users', user.uid);
-                    const snap = await getDoc(userRef);
-                    if (snap.exists()) {
-                        setRole(snap.data().role as UserRole);
-                    } else {
-                        // Create default user profile if not exists
-                        // IMPORTANT: For first admin, we might need to manually set in DB, 
-                        // or checking a specific email.
-                        // For now, default to STAFF (lowest access).
-                        const newRole: UserRole = 'STAFF';
-                        await setDoc(userRef, {
-                            uid: user.uid,
-                            email: user.email,
-                            role: newRole,
-                            displayName: user.displayName
-                        });
-                        setRole(newRole);
+            if (!user) {
+                setProfile(null);
+                setRole(null);
+                setLoading(false);
+                return;
+            }
+
+            // Listen to the profile so role changes (or a disabled account)
+            // apply without logging out
+            unsubscribeProfile = onSnapshot(doc(db, 'users', user.uid), async (snap) => {
+                if (snap.exists()) {
+                    const data = { ...snap.data(), uid: snap.id } as UserProfile;
+                    if (data.disabled) {
+                        await signOut(auth);
+                        return;
                     }
+                    setProfile(data);
+                    setRole(data.role);
+                    setLoading(false);
+                    return;
+                }
+
+                // No profile yet: default to STAFF (lowest access) unless
+                // registration requires an invitation code, in which case the
+                // account stays without role until an invitation is redeemed.
+                setProfile(null);
+                setRole(null);
+                try {
+                    const created = await userService.ensureProfile(user);
+                    if (!created) setLoading(false);
                 } catch (error) {
-                    console.error("Error fetching user role:", error);
-                    setRole('STAFF');
+                    console.error("Error creating user profile:", error);
+                    setLoading(false);
                 }
-            } else {
+            }, (error) => {
+                console.error("Error fetching user role:", error);
                 setRole(null);
-            }
-
-            setLoading(false);
+                setLoading(false);
+            });
         });
 
-        return () => unsubscribe();
+        return () => {
+            unsubscribeProfile?.();
+            unsubscribe();
+        };
     }, []);
 
+    const cashier: Cashier | null = user
+        ? { uid: user.uid, name: profile?.displayName || user.displayName || user.email || user.uid }
+        : null;
+
     const logout = async () => {
         await signOut(auth);
     };
 
     return (
-        <AuthContext.Provider value={{ user, role, loading, logout }}>
+        <AuthContext.Provider value={{ user, profile, role, cashier, loading, logout }}>
             {children}
         </AuthContext.Provider>
     );
@@ -1,13 +1,23 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { seasonService } from '../services/seasonService';
+import { seasonService, type SeasonHealth } from '../services/seasonService';
+import { useAuth } from '../context/AuthContext';
 import type { Season } from '../types/db';
 
+const VIEWING_SEASON_KEY = 'los_parrales_viewing_season'; // + _uid
+
 interface SeasonContextType {
     currentSeason: Season | null;
     isLoading: boolean;
     needsSeasonSetup: boolean;
     setCurrentSeason: (season: Season) => void;
     refreshSeason: () => Promise<void>;
+    seasonHealth: SeasonHealth | null; // Not 'ok' when no season or several seasons are active
+    repairSeason: (seasonId: string) => Promise<void>;
+    // Season this user is looking at (the active one unless they picked another). Only this
+    // browser changes; pages block writes while isReadOnly.
+    viewingSeason: Season | null;
+    isReadOnly: boolean;
+    setViewingSeason: (season: Season | null) => void;
 }
 
 const SeasonContext = createContext<SeasonContextType | undefined>(undefined);
@@ -20,11 +30,24 @@ export const SeasonProvider: React.FC<SeasonProviderProps> = ({ children }) => {
     const [currentSeason, setCurrentSeason] = useState<Season | null>(null);
     const [isLoading, setIsLoading] = useState(true);
     const [needsSeasonSetup, setNeedsSeasonSetup] = useState(false);
+    const [seasonHealth, setSeasonHealth] = useState<SeasonHealth | null>(null);
+    const [pastSeason, setPastSeason] = useState<Season | null>(null);
+    const { user, role } = useAuth();
+    const uid = user?.uid;
+    const hasRole = !!role;
+    const activeSeasonId = currentSeason?.id;
 
     const loadActiveSeason = async () => {
         try {
             setIsLoading(true);
-            const activeSeason = await seasonService.getActiveSeason();
+            // A broken activation (none or several active) keeps the app on the suggested
+            // season and is reported, instead of sending everyone to the setup wizard
+            const health = await seasonService.getHealth();
+            const activeSeason = health.suggested;
+            setSeasonHealth(health);
+            if (health.status !== 'ok') {
+                console.warn(`Season health: ${health.status} (${health.active.map(s => s.name).join(', ') || 'ninguna activa'})`);
+            }
 
             if (activeSeason) {
                 setCurrentSeason(activeSeason);
@@ -45,16 +68,58 @@ export const SeasonProvider: React.FC<SeasonProviderProps> = ({ children }) => {
         await loadActiveSeason();
     };
 
+    const repairSeason = async (seasonId: string) => {
+        await seasonService.setActiveSeason(seasonId);
+        await loadActiveSeason();
+    };
+
+    // Seasons are only readable by signed-in staff: wait for a profile with a role, and load
+    // again for every new session (the first load may happen on /login)
     useEffect(() => {
+        if (!uid || !hasRole) {
+            setCurrentSeason(null);
+            setSeasonHealth(null);
+            setNeedsSeasonSetup(false);
+            setIsLoading(true);
+            return;
+        }
         loadActiveSeason();
-    }, []);
+    }, [uid, hasRole]);
+
+    // Restore the season this user was viewing, unless it became the active one or was archived
+    useEffect(() => {
+        const storedId = uid ? localStorage.getItem(`${VIEWING_SEASON_KEY}_${uid}`) : null;
+        if (!storedId || storedId === activeSeasonId) {
+            setPastSeason(null);
+            return;
+        }
+        seasonService.getById(storedId)
+            .then(season => setPastSeason(season && !season.archivedAt ? season : null))
+            .catch(error => console.error('Error loading viewing season:', error));
+    }, [uid, activeSeasonId]);
+
+    const setViewingSeason = (season: Season | null) => {
+        const key = `${VIEWING_SEASON_KEY}_${uid}`;
+        if (!season || season.id === currentSeason?.id) {
+            localStorage.removeItem(key);
+            setPastSeason(null);
+        } else {
+            localStorage.setItem(key, season.id);
+            setPastSeason(season);
+        }
+    };
 
     const value: SeasonContextType = {
         currentSeason,
         isLoading,
         needsSeasonSetup,
         setCurrentSeason,
-        refreshSeason
+        refreshSeason,
+        seasonHealth,
+        repairSeason,
+        viewingSeason: pastSeason || currentSeason,
+        isReadOnly: !!pastSeason && pastSeason.id !== currentSeason?.id,
+        setViewingSeason
     };
 
     return (
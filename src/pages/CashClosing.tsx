@@ -0,0 +1,308 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { cashClosingService, getCashMethodId, getClosingDayId } from '../services/cashClosingService';
+import { paymentMethodService } from '../services/paymentMethodService';
+import { useAuth } from '../context/AuthContext';
+import type { CashClosing as CashClosingRecord, PaymentMethodConfig } from '../types/db';
+import { Lock, Unlock, ArrowLeft, Calculator, CheckCircle, AlertTriangle } from 'lucide-react';
+
+const formatMoney = (value: number) => `S/ ${value.toFixed(2)}`;
+
+const differenceClass = (value: number) =>
+    Math.abs(value) < 0.01 ? 'text-emerald-600' : value > 0 ? 'text-sky-600' : 'text-red-600';
+
+export default function CashClosing() {
+    const { role, cashier } = useAuth();
+    const [dayId, setDayId] = useState(getClosingDayId(Date.now()));
+    const [methods, setMethods] = useState<PaymentMethodConfig[]>([]);
+    const [closing, setClosing] = useState<CashClosingRecord | null>(null);
+    const [history, setHistory] = useState<CashClosingRecord[]>([]);
+    const [expected, setExpected] = useState<Record<string, number>>({});
+    const [paymentsCount, setPaymentsCount] = useState(0);
+    const [openingFloat, setOpeningFloat] = useState('0');
+    const [counted, setCounted] = useState<Record<string, string>>({});
+    const [notes, setNotes] = useState('');
+    const [loading, setLoading] = useState(true);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const loadDay = useCallback(async () => {
+        setLoading(true);
+        try {
+            const [meths, existing, recent] = await Promise.all([
+                paymentMethodService.getAll(),
+                cashClosingService.getByDate(dayId),
+                cashClosingService.getRecent()
+            ]);
+            setMethods(meths);
+            setClosing(existing);
+            setHistory(recent);
+
+            const float = existing ? existing.openingFloat : 0;
+            const computed = await cashClosingService.computeExpected(dayId, meths, float);
+            setExpected(computed.expected);
+            setPaymentsCount(computed.paymentsCount);
+
+            if (existing && !existing.locked) {
+                // Reopened day: start from the previous count
+                setOpeningFloat(String(existing.openingFloat));
+                setCounted(Object.fromEntries(Object.entries(existing.methods).map(([id, m]) => [id, String(m.counted)])));
+                setNotes(existing.notes || '');
+            } else {
+                setOpeningFloat('0');
+                setCounted({});
+                setNotes('');
+            }
+        } catch (error) {
+            console.error("Error loading cash closing:", error);
+        } finally {
+            setLoading(false);
+        }
+    }, [dayId]);
+
+    useEffect(() => {
+        loadDay();
+    }, [loadDay]);
+
+    const isLocked = !!closing?.locked;
+    const float = Number(openingFloat) || 0;
+
+    // Expected amounts depend on the float typed in (cash only)
+    const getExpected = (methodId: string) => {
+        const base = expected[methodId] || 0;
+        const previousFloat = closing ? closing.openingFloat : 0;
+        return methodId === getCashMethodId(methods) ? base - previousFloat + float : base;
+    };
+
+    const rows = methods.map(m => {
+        const exp = isLocked ? (closing!.methods[m.id]?.expected || 0) : getExpected(m.id);
+        const cnt = isLocked ? (closing!.methods[m.id]?.counted || 0) : (Number(counted[m.id]) || 0);
+        return { method: m, expected: exp, counted: cnt, difference: cnt - exp };
+    });
+    const totals = rows.reduce(
+        (acc, r) => ({ expected: acc.expected + r.expected, counted: acc.counted + r.counted, difference: acc.difference + r.difference }),
+        { expected: 0, counted: 0, difference: 0 }
+    );
+
+    const handleClose = async () => {
+        if (!cashier) return;
+        const msg = Math.abs(totals.difference) < 0.01
+            ? `¿Cerrar la caja del ${dayId}? No se podrán registrar más pagos en este día.`
+            : `La caja tiene una diferencia de ${formatMoney(totals.difference)}. ¿Cerrar de todas formas?`;
+        if (!confirm(msg)) return;
+
+        setIsSaving(true);
+        try {
+            const result = await cashClosingService.close(
+                dayId,
+                {
+                    openingFloat: float,
+                    counted: Object.fromEntries(methods.map(m => [m.id, Number(counted[m.id]) || 0])),
+                    notes: notes.trim()
+                },
+                methods,
+                cashier
+            );
+            if (result.paymentsCount !== paymentsCount) {
+                alert(`Se registraron pagos mientras se cerraba la caja. El esperado se actualizó a ${formatMoney(result.totalExpected)} (diferencia ${formatMoney(result.totalDifference)}).`);
+            }
+            await loadDay();
+        } catch (error) {
+            console.error("Error closing cash:", error);
+            alert(error instanceof Error ? error.message : "Error al cerrar la caja");
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleReopen = async () => {
+        const reason = prompt(`Motivo para reabrir la caja del ${dayId}:`);
+        if (!reason?.trim()) return;
+
+        setIsSaving(true);
+        try {
+            await cashClosingService.reopen(dayId, reason.trim());
+            await loadDay();
+        } catch (error) {
+            console.error("Error reopening cash:", error);
+            alert(error instanceof Error ? error.message : "Error al reabrir la caja");
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="space-y-6">
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                <div className="flex items-center gap-3">
+                    {role === 'SUPERADMIN' && (
+                        <Link to="/caja" className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-lg transition-colors">
+                            <ArrowLeft className="w-5 h-5" />
+                        </Link>
+                    )}
+                    <div>
+                        <h2 className="text-3xl font-bold text-slate-800">Cierre de Caja</h2>
+                        <p className="text-slate-500">Compara lo contado con lo registrado y bloquea el día</p>
+                    </div>
+                </div>
+                <input
+                    type="date"
+                    className="text-sm border border-slate-200 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-sky-500/50"
+                    value={dayId}
+                    onChange={(e) => e.target.value && setDayId(e.target.value)}
+                />
+            </div>
+
+            {loading ? (
+                <div className="flex justify-center py-20">
+                    <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-sky-600"></div>
+                </div>
+            ) : (
+                <div className="bg-white rounded-2xl shadow-sm border border-slate-100 overflow-hidden">
+                    <div className="p-6 border-b border-slate-100 flex flex-wrap items-center justify-between gap-4">
+                        <div className="flex items-center gap-3">
+                            {isLocked ? <Lock className="w-5 h-5 text-slate-500" /> : <Calculator className="w-5 h-5 text-slate-400" />}
+                            <div>
+                                <h3 className="text-lg font-bold text-slate-800">{dayId}</h3>
+                                <p className="text-xs text-slate-500">
+                                    {isLocked
+                                        ? `Cerrada por ${closing!.closedByName} · ${new Date(closing!.closedAt).toLocaleString('es-PE')}`
+                                        : `${paymentsCount} pagos registrados`}
+                                </p>
+                            </div>
+                        </div>
+                        {isLocked ? (
+                            role === 'SUPERADMIN' && (
+                                <button
+                                    onClick={handleReopen}
+                                    disabled={isSaving}
+                                    className="flex items-center gap-2 px-4 py-2 border border-amber-200 text-amber-700 rounded-xl font-bold hover:bg-amber-50 transition-colors disabled:opacity-50"
+                                >
+                                    <Unlock className="w-4 h-4" />
+                                    Reabrir Día
+                                </button>
+                            )
+                        ) : (
+                            <div className="flex items-center gap-2">
+                                <label className="text-sm font-medium text-slate-600">Sencillo inicial (efectivo)</label>
+                                <input
+                                    type="number"
+                                    min="0"
+                                    step="0.10"
+                                    className="w-28 px-3 py-2 rounded-xl border border-slate-200 focus:outline-none focus:ring-2 focus:ring-sky-500/50 text-right"
+                                    value={openingFloat}
+                                    onChange={e => setOpeningFloat(e.target.value)}
+                                />
+                            </div>
+                        )}
+                    </div>
+
+                    {closing?.reopenReason && !isLocked && (
+                        <div className="mx-6 mt-4 p-3 bg-amber-50 border border-amber-100 rounded-xl text-sm text-amber-700">
+                            Día reabierto: {closing.reopenReason}
+                        </div>
+                    )}
+
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-sm">
+                            <thead className="bg-slate-50 text-slate-500 text-xs uppercase">
+                                <tr>
+                                    <th className="px-6 py-3 text-left">Método</th>
+                                    <th className="px-6 py-3 text-right">Sistema</th>
+                                    <th className="px-6 py-3 text-right">Contado</th>
+                                    <th className="px-6 py-3 text-right">Diferencia</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-slate-100">
+                                {rows.map(r => (
+                                    <tr key={r.method.id}>
+                                        <td className="px-6 py-3 font-bold text-slate-700">{r.method.name}</td>
+                                        <td className="px-6 py-3 text-right text-slate-600">{formatMoney(r.expected)}</td>
+                                        <td className="px-6 py-3 text-right">
+                                            {isLocked ? (
+                                                <span className="text-slate-800">{formatMoney(r.counted)}</span>
+                                            ) : (
+                                                <input
+                                                    type="number"
+                                                    min="0"
+                                                    step="0.10"
+                                                    className="w-32 px-3 py-1.5 rounded-lg border border-slate-200 focus:outline-none focus:ring-2 focus:ring-sky-500/50 text-right"
+                                                    value={counted[r.method.id] ?? ''}
+                                                    placeholder="0.00"
+                                                    onChange={e => setCounted({ ...counted, [r.method.id]: e.target.value })}
+                                                />
+                                            )}
+                                        </td>
+                                        <td className={`px-6 py-3 text-right font-bold ${differenceClass(r.difference)}`}>
+                                            {formatMoney(r.difference)}
+                                        </td>
+                                    </tr>
+                                ))}
+                                <tr className="bg-slate-50 font-bold">
+                                    <td className="px-6 py-3 text-slate-800">TOTAL</td>
+                                    <td className="px-6 py-3 text-right text-slate-800">{formatMoney(totals.expected)}</td>
+                                    <td className="px-6 py-3 text-right text-slate-800">{formatMoney(totals.counted)}</td>
+                                    <td className={`px-6 py-3 text-right ${differenceClass(totals.difference)}`}>{formatMoney(totals.difference)}</td>
+                                </tr>
+                            </tbody>
+                        </table>
+                    </div>
+
+                    <div className="p-6 space-y-4">
+                        {isLocked ? (
+                            closing!.notes && <p className="text-sm text-slate-600">Observaciones: {closing!.notes}</p>
+                        ) : (
+                            <>
+                                <textarea
+                                    rows={2}
+                                    className="w-full px-4 py-2 rounded-xl border border-slate-200 focus:outline-none focus:ring-2 focus:ring-sky-500/50 text-sm"
+                                    placeholder="Observaciones (explica cualquier diferencia)"
+                                    value={notes}
+                                    onChange={e => setNotes(e.target.value)}
+                                />
+                                <button
+                                    onClick={handleClose}
+                                    disabled={isSaving}
+                                    className="w-full flex items-center justify-center gap-2 bg-slate-900 text-white py-3 rounded-xl font-bold hover:bg-slate-800 transition-all shadow-lg disabled:opacity-50"
+                                >
+                                    <Lock className="w-4 h-4" />
+                                    {isSaving ? 'Cerrando...' : 'Cerrar Caja del Día'}
+                                </button>
+                            </>
+                        )}
+                    </div>
+                </div>
+            )}
+
+            {/* HISTORY */}
+            {history.length > 0 && (
+                <div className="bg-white rounded-2xl shadow-sm border border-slate-100 overflow-hidden">
+                    <div className="p-6 border-b border-slate-100">
+                        <h3 className="text-lg font-bold text-slate-800">Cierres Recientes</h3>
+                    </div>
+                    <div className="divide-y divide-slate-100">
+                        {history.map(h => (
+                            <button
+                                key={h.id}
+                                onClick={() => setDayId(h.date)}
+                                className="w-full px-6 py-3 flex items-center justify-between hover:bg-slate-50 transition-colors text-left"
+                            >
+                                <div className="flex items-center gap-3">
+                                    {Math.abs(h.totalDifference) < 0.01
+                                        ? <CheckCircle className="w-4 h-4 text-emerald-500" />
+                                        : <AlertTriangle className="w-4 h-4 text-amber-500" />}
+                                    <span className="font-bold text-slate-700">{h.date}</span>
+                                    <span className="text-xs text-slate-400">{h.closedByName}</span>
+                                    {!h.locked && <span className="text-[10px] font-bold px-2 py-0.5 rounded bg-amber-100 text-amber-700">REABIERTA</span>}
+                                </div>
+                                <div className="text-sm">
+                                    <span className="text-slate-500 mr-4">{formatMoney(h.totalCounted)}</span>
+                                    <span className={`font-bold ${differenceClass(h.totalDifference)}`}>{formatMoney(h.totalDifference)}</span>
+                                </div>
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,280 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { CheckCircle, Clock, RefreshCw, Users } from 'lucide-react';
+import { monthlyScheduleService } from '../services/monthlyScheduleService';
+import { attendanceService, isSameClass } from '../services/attendanceService';
+import { studentService } from '../services/students';
+import { categoryService } from '../services/categoryService';
+import { useAuth } from '../context/AuthContext';
+import { useSeason } from '../contexts/SeasonContext';
+import { calculateRealRemaining } from '../utils/studentUtils';
+import { dateUtils } from '../utils/date';
+import type { MonthlySlot, Student, Category, DayType } from '../types/db';
+
+const DAY_TYPE_LABELS: Record<DayType, string> = {
+    'lun-mier-vier': 'Lunes - Miércoles - Viernes',
+    'mar-juev': 'Martes - Jueves',
+    'sab-dom': 'Sábado - Domingo'
+};
+
+/**
+ * "Clase de ahora": today's class picked automatically, whole class marked in one save.
+ * Large tap targets for tablets.
+ */
+export default function ClassCheckIn() {
+    const { user } = useAuth();
+    const { currentSeason } = useSeason();
+    const [slots, setSlots] = useState<MonthlySlot[]>([]);
+    const [dayType, setDayType] = useState<DayType | null>(null);
+    const [timeSlot, setTimeSlot] = useState<string | null>(null);
+    const [slotId, setSlotId] = useState<string | null>(null);
+    const [categories, setCategories] = useState<Category[]>([]);
+    const [students, setStudents] = useState<Student[]>([]);
+    const [present, setPresent] = useState<Set<string>>(new Set());
+    const [loading, setLoading] = useState(true);
+    const [loadingStudents, setLoadingStudents] = useState(false);
+    const [saving, setSaving] = useState(false);
+    const [savedAt, setSavedAt] = useState<Date | null>(null);
+
+    const today = dateUtils.formatDateId(new Date());
+
+    const loadClass = useCallback(async () => {
+        setLoading(true);
+        try {
+            const [current, cats] = await Promise.all([
+                monthlyScheduleService.getCurrentClass(),
+                categoryService.getAll()
+            ]);
+            setSlots(current.slots);
+            setDayType(current.dayType);
+            setTimeSlot(current.currentTimeSlot);
+            setCategories(cats);
+        } catch (error) {
+            console.error("Error loading current class:", error);
+            alert(error instanceof Error ? error.message : 'Error al cargar la clase');
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        loadClass();
+    }, [loadClass]);
+
+    const timeSlots = useMemo(() => [...new Set(slots.map(s => s.timeSlot))], [slots]);
+    const slotsAtTime = useMemo(() => slots.filter(s => s.timeSlot === timeSlot), [slots, timeSlot]);
+    const selectedSlot = slotsAtTime.find(s => s.id === slotId) || slotsAtTime[0] || null;
+
+    const loadStudents = useCallback(async (slot: MonthlySlot | null) => {
+        setSavedAt(null);
+        if (!slot || slot.enrolledStudents.length === 0) {
+            setStudents([]);
+            setPresent(new Set());
+            return;
+        }
+        setLoadingStudents(true);
+        try {
+            const list = await studentService.getByIds(slot.enrolledStudents.map(e => e.studentId));
+            list.sort((a, b) => a.fullName.localeCompare(b.fullName));
+            setStudents(list);
+            setPresent(new Set(list
+                .filter(s => (s.asistencia || []).some(a => isSameClass(a, today, slot.id) && a.asistencia))
+                .map(s => s.id)));
+        } catch (error) {
+            console.error("Error loading class students:", error);
+        } finally {
+            setLoadingStudents(false);
+        }
+    }, [today]);
+
+    const selectedSlotId = selectedSlot?.id;
+    useEffect(() => {
+        loadStudents(slots.find(s => s.id === selectedSlotId) || null);
+    }, [selectedSlotId, slots, loadStudents]);
+
+    const togglePresent = (studentId: string) => {
+        setSavedAt(null);
+        setPresent(prev => {
+            const next = new Set(prev);
+            if (next.has(studentId)) next.delete(studentId); else next.add(studentId);
+            return next;
+        });
+    };
+
+    const handleSave = async () => {
+        if (!selectedSlot || students.length === 0) return;
+        setSaving(true);
+        try {
+            await attendanceService.markClass(
+                selectedSlot.id,
+                today,
+                students.map(s => ({ studentId: s.id, asistencia: present.has(s.id) })),
+                user?.uid
+            );
+            await loadStudents(selectedSlot);
+            setSavedAt(new Date());
+        } catch (error) {
+            console.error("Error saving attendance:", error);
+            alert(error instanceof Error ? error.message : 'Error al guardar la asistencia');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const categoryName = (id: string) => categories.find(c => c.id === id)?.name || id;
+
+    if (loading) {
+        return (
+            <div className="flex justify-center py-20">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-sky-600"></div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-6 pb-28">
+            <div className="flex items-start justify-between gap-4">
+                <div>
+                    <h2 className="text-3xl font-bold text-slate-800">Clase de Ahora</h2>
+                    <p className="text-slate-500 capitalize">
+                        {new Date().toLocaleDateString('es-PE', { weekday: 'long', day: 'numeric', month: 'long' })}
+                        {dayType && ` · ${DAY_TYPE_LABELS[dayType]}`}
+                    </p>
+                </div>
+                <button
+                    onClick={loadClass}
+                    className="p-3 text-slate-400 hover:text-sky-600 hover:bg-sky-50 rounded-xl transition-colors"
+                    title="Actualizar"
+                >
+                    <RefreshCw className="w-6 h-6" />
+                </button>
+            </div>
+
+            {timeSlots.length === 0 ? (
+                <div className="bg-white rounded-2xl border border-slate-100 p-12 text-center text-slate-400">
+                    No hay clases programadas para hoy.
+                </div>
+            ) : (
+                <>
+                    {/* TIME SLOTS */}
+                    <div className="flex gap-2 overflow-x-auto pb-1">
+                        {timeSlots.map(t => (
+                            <button
+                                key={t}
+                                onClick={() => {
+                                    setTimeSlot(t);
+                                    setSlotId(null);
+                                }}
+                                className={`flex items-center gap-2 px-5 py-3 rounded-xl font-bold text-lg whitespace-nowrap transition-all ${t === timeSlot
+                                    ? 'bg-sky-600 text-white shadow-lg shadow-sky-600/20'
+                                    : 'bg-white border border-slate-200 text-slate-600'
+                                    }`}
+                            >
+                                <Clock className="w-5 h-5" />
+                                {t}
+                            </button>
+                        ))}
+                    </div>
+
+                    {/* CATEGORIES SHARING THE TIME SLOT */}
+                    {slotsAtTime.length > 1 && (
+                        <div className="flex gap-2 flex-wrap">
+                            {slotsAtTime.map(s => (
+                                <button
+                                    key={s.id}
+                                    onClick={() => setSlotId(s.id)}
+                                    className={`px-4 py-2 rounded-xl font-bold transition-all ${s.id === selectedSlot?.id
+                                        ? 'bg-slate-900 text-white'
+                                        : 'bg-slate-100 text-slate-600'
+                                        }`}
+                                >
+                                    {categoryName(s.categoryId)} ({s.enrolledStudents.length})
+                                </button>
+                            ))}
+                        </div>
+                    )}
+
+                    {selectedSlot && (
+                        <div className="flex items-center gap-2 text-slate-500">
+                            <Users className="w-5 h-5" />
+                            <span className="font-bold">{categoryName(selectedSlot.categoryId)}</span>
+                            <span>· {present.size} / {students.length} presentes</span>
+                        </div>
+                    )}
+
+                    {/* STUDENTS */}
+                    {loadingStudents ? (
+                        <div className="flex justify-center py-12">
+                            <RefreshCw className="w-8 h-8 text-slate-300 animate-spin" />
+                        </div>
+                    ) : students.length === 0 ? (
+                        <div className="bg-white rounded-2xl border border-slate-100 p-12 text-center text-slate-400">
+                            No hay alumnos inscritos en esta clase.
+                        </div>
+                    ) : (
+                        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+                            {students.map(student => {
+                                const isPresent = present.has(student.id);
+                                const remaining = calculateRealRemaining(student, currentSeason?.closures);
+                                return (
+                                    <button
+                                        key={student.id}
+                                        onClick={() => togglePresent(student.id)}
+                                        className={`text-left p-5 rounded-2xl border-2 transition-all active:scale-[0.98] ${isPresent
+                                            ? 'bg-emerald-50 border-emerald-400'
+                                            : 'bg-white border-slate-200'
+                                            }`}
+                                    >
+                                        <div className="flex items-center justify-between gap-3">
+                                            <div className="min-w-0">
+                                                <p className="text-lg font-bold text-slate-800 truncate">{student.fullName}</p>
+                                                <div className="flex items-center gap-2 mt-1">
+                                                    <span className={`text-xs font-bold px-2 py-0.5 rounded ${remaining <= 0 ? 'bg-red-100 text-red-700' : remaining <= 2 ? 'bg-amber-100 text-amber-700' : 'bg-slate-100 text-slate-600'}`}>
+                                                        {remaining} clases
+                                                    </span>
+                                                    {student.hasDebt && (
+                                                        <span className="text-xs bg-red-100 text-red-700 px-2 py-0.5 rounded font-bold">DEUDA</span>
+                                                    )}
+                                                    {selectedSlot?.recoveryBookings?.some(b => b.studentId === student.id && b.date === today) && (
+                                                        <span className="text-xs bg-sky-100 text-sky-700 px-2 py-0.5 rounded font-bold">RECUPERACIÓN</span>
+                                                    )}
+                                                </div>
+                                            </div>
+                                            <CheckCircle className={`w-10 h-10 shrink-0 ${isPresent ? 'text-emerald-500' : 'text-slate-200'}`} />
+                                        </div>
+                                    </button>
+                                );
+                            })}
+                        </div>
+                    )}
+                </>
+            )}
+
+            {/* SAVE BAR */}
+            {students.length > 0 && (
+                <div className="fixed bottom-0 left-0 right-0 lg:left-64 bg-white border-t border-slate-200 p-4 flex items-center justify-between gap-3 z-40">
+                    <button
+                        onClick={() => {
+                            setSavedAt(null);
+                            setPresent(new Set(present.size === students.length ? [] : students.map(s => s.id)));
+                        }}
+                        className="px-5 py-4 rounded-xl border border-slate-200 font-bold text-slate-600"
+                    >
+                        {present.size === students.length ? 'Desmarcar todos' : 'Marcar todos'}
+                    </button>
+                    {savedAt && (
+                        <span className="text-emerald-600 font-bold text-sm hidden sm:block">
+                            ✓ Guardado {savedAt.toLocaleTimeString('es-PE', { hour: '2-digit', minute: '2-digit' })}
+                        </span>
+                    )}
+                    <button
+                        onClick={handleSave}
+                        disabled={saving}
+                        className="flex-1 sm:flex-none px-8 py-4 rounded-xl bg-emerald-600 text-white font-bold text-lg hover:bg-emerald-700 transition-colors disabled:opacity-50 shadow-lg shadow-emerald-600/20"
+                    >
+                        {saving ? 'Guardando...' : `Guardar Asistencia (${present.size})`}
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+}
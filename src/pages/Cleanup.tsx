@@ -1,6 +1,7 @@
 import { useState } from 'react';
 import { studentService } from '../services/students';
 import { monthlyScheduleService } from '../services/monthlyScheduleService';
+import { attendanceService, AttendanceMigrationReport } from '../services/attendanceService';
 import { useSeason } from '../contexts/SeasonContext';
 
 export default function CleanupPage() {
@@ -11,6 +12,10 @@ export default function CleanupPage() {
     const [orphanLoading, setOrphanLoading] = useState(false);
     const [orphanResult, setOrphanResult] = useState<any>(null);
 
+    const [attendanceLoading, setAttendanceLoading] = useState(false);
+    const [attendanceReport, setAttendanceReport] = useState<AttendanceMigrationReport | null>(null);
+    const [attendanceApplied, setAttendanceApplied] = useState(false);
+
     const runCleanup = async () => {
         setLoading(true);
         setResult(null);
@@ -41,6 +46,22 @@ export default function CleanupPage() {
         }
     };
 
+    const runAttendanceMigration = async (dryRun: boolean) => {
+        if (!dryRun && !confirm('¿Unificar la asistencia? Los registros de los horarios mensuales se pasarán a cada alumno y se borrarán de los horarios.')) {
+            return;
+        }
+        setAttendanceLoading(true);
+        try {
+            const report = await attendanceService.migrateLegacyRecords(undefined, dryRun);
+            setAttendanceReport(report);
+            setAttendanceApplied(!dryRun);
+        } catch (error) {
+            alert('Error: ' + (error instanceof Error ? error.message : 'No se pudo unificar la asistencia'));
+        } finally {
+            setAttendanceLoading(false);
+        }
+    };
+
     return (
         <div className="p-8 space-y-8">
             <h1 className="text-2xl font-bold mb-4">Herramientas de Limpieza</h1>
@@ -93,6 +114,77 @@ export default function CleanupPage() {
                     </div>
                 )}
             </div>
+
+            {/* Unificación de Asistencia */}
+            <div className="bg-white p-6 rounded-xl border border-sky-200">
+                <h2 className="text-lg font-bold mb-2 text-sky-800">Unificar Asistencia</h2>
+                <p className="mb-4 text-slate-600 text-sm">
+                    Pasa la asistencia guardada en los horarios mensuales a la ficha de cada alumno (única fuente de asistencia).
+                    En caso de conflicto se mantiene lo registrado en el alumno. No modifica las clases restantes.
+                </p>
+
+                <div className="flex gap-3">
+                    <button
+                        onClick={() => runAttendanceMigration(true)}
+                        disabled={attendanceLoading}
+                        className="px-6 py-3 border border-sky-600 text-sky-700 rounded-lg font-bold hover:bg-sky-50 disabled:opacity-50"
+                    >
+                        {attendanceLoading ? 'Analizando...' : 'Analizar'}
+                    </button>
+                    <button
+                        onClick={() => runAttendanceMigration(false)}
+                        disabled={attendanceLoading || !attendanceReport || attendanceApplied}
+                        className="px-6 py-3 bg-sky-600 text-white rounded-lg font-bold hover:bg-sky-700 disabled:opacity-50"
+                    >
+                        Unificar
+                    </button>
+                </div>
+
+                {attendanceReport && (
+                    <div className={`mt-4 p-4 border rounded-lg ${attendanceApplied ? 'bg-emerald-50 border-emerald-200' : 'bg-slate-50 border-slate-200'}`}>
+                        <h3 className={`font-bold mb-2 ${attendanceApplied ? 'text-emerald-800' : 'text-slate-800'}`}>
+                            {attendanceApplied ? '✅ Asistencia unificada:' : 'Vista previa (sin cambios):'}
+                        </h3>
+                        <p>Horarios revisados: {attendanceReport.slotsProcessed}</p>
+                        <p>Registros en horarios: {attendanceReport.recordsFound}</p>
+                        <p>Registros agregados a alumnos: {attendanceReport.recordsMerged}</p>
+                        <p>Registros ya sincronizados: {attendanceReport.alreadyInSync}</p>
+                        <p>Fechas duplicadas eliminadas: {attendanceReport.duplicatesRemoved}</p>
+                        <p>Alumnos actualizados: {attendanceReport.studentsUpdated}</p>
+                        {attendanceReport.missingStudents > 0 && (
+                            <p className="text-orange-700">Alumnos inexistentes (se descartan): {attendanceReport.missingStudents}</p>
+                        )}
+
+                        {attendanceReport.conflicts.length > 0 && (
+                            <div className="mt-4">
+                                <h4 className="font-bold text-orange-800 mb-2">Conflictos ({attendanceReport.conflicts.length})</h4>
+                                <table className="w-full text-sm bg-white rounded-lg overflow-hidden">
+                                    <thead className="bg-orange-50 text-orange-800 text-xs uppercase">
+                                        <tr>
+                                            <th className="px-3 py-2 text-left">Alumno</th>
+                                            <th className="px-3 py-2 text-left">Fecha</th>
+                                            <th className="px-3 py-2 text-left">Origen</th>
+                                            <th className="px-3 py-2 text-left">Se mantiene</th>
+                                            <th className="px-3 py-2 text-left">Se descarta</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody className="divide-y divide-slate-100">
+                                        {attendanceReport.conflicts.map((c, i) => (
+                                            <tr key={i}>
+                                                <td className="px-3 py-2">{c.studentName}</td>
+                                                <td className="px-3 py-2">{c.fecha}</td>
+                                                <td className="px-3 py-2 text-slate-500">{c.source === 'SLOT' ? `Horario ${c.slotId}` : 'Fecha repetida'}</td>
+                                                <td className="px-3 py-2">{c.kept ? 'Asistió' : 'Faltó'}</td>
+                                                <td className="px-3 py-2 text-slate-500">{c.discarded ? 'Asistió' : 'Faltó'}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        )}
+                    </div>
+                )}
+            </div>
         </div>
     );
 }
@@ -1,11 +1,13 @@
 import { useEffect, useState, useCallback } from 'react';
 import { dashboardService } from '../services/dashboard';
-import { loggingService } from '../services/logging';
-import { SystemLog } from '../types/db';
-import { Clock, CheckCircle, AlertTriangle, XCircle, Info, RefreshCw, Filter } from 'lucide-react';
+import { useSeason } from '../contexts/SeasonContext';
+import { AuditViewer } from '../components/audit/AuditViewer';
+import { RefreshCw } from 'lucide-react';
 
 
 export default function Dashboard() {
+    const { viewingSeason, isReadOnly } = useSeason();
+    const viewingSeasonId = viewingSeason?.id;
     const [stats, setStats] = useState({
         totalStudents: 0,
         activeStudents: 0,
@@ -13,16 +15,13 @@ export default function Dashboard() {
         newStudentsMonth: 0,
         incomeToday: 0
     });
-    const [logs, setLogs] = useState<SystemLog[]>([]);
-    const [selectedDate, setSelectedDate] = useState<Date>(new Date());
     const [loading, setLoading] = useState(true);
-    const [loadingLogs, setLoadingLogs] = useState(false);
     const [refreshing, setRefreshing] = useState(false);
 
     const loadStats = useCallback(async (isManual = false) => {
         if (isManual) setRefreshing(true);
         try {
-            const statsData = await dashboardService.getStats();
+            const statsData = await dashboardService.getStats(viewingSeasonId);
             setStats(statsData);
         } catch (error) {
             console.error("Error loading stats:", error);
@@ -30,41 +29,12 @@ export default function Dashboard() {
             if (isManual) setRefreshing(false);
             setLoading(false);
         }
-    }, []);
-
-    const loadLogs = useCallback(async () => {
-        setLoadingLogs(true);
-        try {
-            const logsData = await loggingService.getLogsByDate(selectedDate);
-            setLogs(logsData);
-        } catch (error) {
-            console.error("Error loading logs:", error);
-        } finally {
-            setLoadingLogs(false);
-        }
-    }, [selectedDate]);
+    }, [viewingSeasonId]);
 
     useEffect(() => {
         loadStats();
     }, [loadStats]);
 
-    useEffect(() => {
-        loadLogs();
-    }, [loadLogs]);
-
-    const getLogIcon = (type: string) => {
-        switch (type) {
-            case 'SUCCESS': return <CheckCircle className="w-5 h-5 text-emerald-500" />;
-            case 'WARNING': return <AlertTriangle className="w-5 h-5 text-amber-500" />;
-            case 'ERROR': return <XCircle className="w-5 h-5 text-red-500" />;
-            default: return <Info className="w-5 h-5 text-sky-500" />;
-        }
-    };
-
-    const formatTime = (ts: number) => {
-        return new Date(ts).toLocaleTimeString('es-PE', { hour: '2-digit', minute: '2-digit' });
-    };
-
     return (
         <div className="space-y-8">
             <div className="flex items-center justify-between">
@@ -75,7 +45,7 @@ export default function Dashboard() {
                 <div className="flex flex-col items-end gap-1">
                     <span className="text-sm font-medium text-slate-600 bg-slate-100 px-3 py-1 rounded-full">{new Date().toLocaleDateString('es-PE', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}</span>
                     <button
-                        onClick={() => { loadStats(true); loadLogs(); }}
+                        onClick={() => loadStats(true)}
                         disabled={refreshing}
                         className={`flex items-center gap-2 text-xs font-bold px-3 py-1.5 rounded-lg transition-all ${refreshing ? 'bg-slate-100 text-slate-400' : 'bg-sky-50 text-sky-600 hover:bg-sky-100'}`}
                     >
@@ -89,7 +59,7 @@ export default function Dashboard() {
                 <DashboardCard
                     title="Total Alumnos"
                     value={loading ? '...' : stats.totalStudents}
-                    helper="Todos los alumnos de esta temporada"
+                    helper={isReadOnly && viewingSeason ? `Todos los alumnos de ${viewingSeason.name}` : 'Todos los alumnos de esta temporada'}
                 />
                 <DashboardCard
                     title="Nuevos (Mes)"
@@ -103,53 +73,7 @@ export default function Dashboard() {
                 />
             </div>
 
-            <div className="bg-white rounded-2xl shadow-sm border border-slate-100 overflow-hidden">
-                <div className="p-6 border-b border-slate-100 flex items-center justify-between gap-3">
-                    <div className="flex items-center gap-3">
-                        <Clock className="w-5 h-5 text-slate-400" />
-                        <h3 className="font-bold text-slate-800">Actividad del Día</h3>
-                    </div>
-                    <div className="flex items-center gap-2">
-                        <Filter className="w-4 h-4 text-slate-400" />
-                        <input
-                            type="date"
-                            className="text-sm border-none bg-slate-50 rounded-lg text-slate-600 focus:ring-2 focus:ring-sky-500/20 cursor-pointer px-4 py-2"
-                            value={selectedDate.toISOString().split('T')[0]}
-                            onChange={(e) => {
-                                if (e.target.value) {
-                                    const [y, m, d] = e.target.value.split('-').map(Number);
-                                    setSelectedDate(new Date(y, m - 1, d));
-                                }
-                            }}
-                        />
-                    </div>
-                </div>
-                <div className="divide-y divide-slate-100 max-h-[500px] overflow-y-auto">
-                    {loadingLogs ? (
-                        <div className="p-12 text-center">
-                            <RefreshCw className="w-8 h-8 text-slate-200 animate-spin mx-auto mb-4" />
-                            <p className="text-slate-400 text-sm">Cargando actividad...</p>
-                        </div>
-                    ) : logs.length === 0 ? (
-                        <div className="p-12 text-center">
-                            <Info className="w-8 h-8 text-slate-200 mx-auto mb-4" />
-                            <p className="text-slate-400 text-sm">No hay actividad registrada para esta fecha</p>
-                        </div>
-                    ) : (
-                        logs.map(log => (
-                            <div key={log.id} className="p-4 flex items-start gap-4 hover:bg-slate-50/80 transition-colors group">
-                                <div className="mt-1 flex-shrink-0 transition-transform group-hover:scale-110">{getLogIcon(log.type)}</div>
-                                <div className="flex-1 min-w-0">
-                                    <p className="text-slate-800 font-medium text-sm leading-relaxed">{log.text}</p>
-                                    <p className="text-slate-400 text-xs mt-1 font-medium bg-slate-50 inline-block px-1.5 py-0.5 rounded">
-                                        {formatTime(log.timestamp)}
-                                    </p>
-                                </div>
-                            </div>
-                        ))
-                    )}
-                </div>
-            </div>
+            <AuditViewer />
         </div>
     );
 }
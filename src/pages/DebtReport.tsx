@@ -0,0 +1,288 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { debtReportService, AGING_BUCKETS, AgingBucket, DebtorRow } from '../services/debtReportService';
+import { seasonService } from '../services/seasonService';
+import { categoryService } from '../services/categoryService';
+import type { Season, Category } from '../types/db';
+import { AlertCircle, Download, MessageCircle, RefreshCw, Search, Check } from 'lucide-react';
+
+const BUCKET_STYLES: Record<AgingBucket, string> = {
+    'NOT_DUE': 'bg-sky-50 text-sky-700 border-sky-100',
+    '0-7': 'bg-amber-50 text-amber-700 border-amber-100',
+    '8-30': 'bg-orange-50 text-orange-700 border-orange-100',
+    '30+': 'bg-red-50 text-red-700 border-red-100'
+};
+
+type BucketTotals = Record<AgingBucket, number> & { total: number };
+
+const emptyTotals = (): BucketTotals => ({ 'NOT_DUE': 0, '0-7': 0, '8-30': 0, '30+': 0, total: 0 });
+
+export default function DebtReport() {
+    const [rows, setRows] = useState<DebtorRow[]>([]);
+    const [seasons, setSeasons] = useState<Season[]>([]);
+    const [categories, setCategories] = useState<Category[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [bucketFilter, setBucketFilter] = useState<AgingBucket | 'ALL'>('ALL');
+    const [searchTerm, setSearchTerm] = useState('');
+    const [reminded, setReminded] = useState<Set<string>>(new Set());
+
+    const loadReport = useCallback(async () => {
+        setLoading(true);
+        try {
+            const [report, seas, cats] = await Promise.all([
+                debtReportService.getAgingReport(),
+                seasonService.getAll(),
+                categoryService.getAll()
+            ]);
+            setRows(report);
+            setSeasons(seas);
+            setCategories(cats);
+        } catch (error) {
+            console.error("Error loading debt report:", error);
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        loadReport();
+    }, [loadReport]);
+
+    const seasonName = useCallback(
+        (id?: string) => seasons.find(s => s.id === id)?.name || 'Sin temporada',
+        [seasons]
+    );
+    const categoryName = useCallback(
+        (id?: string) => categories.find(c => c.id === id)?.name || 'Sin categoría',
+        [categories]
+    );
+
+    const bucketTotals = useMemo(() => {
+        const totals = emptyTotals();
+        rows.forEach(r => {
+            AGING_BUCKETS.forEach(b => { totals[b.id] += r.buckets[b.id]; });
+            totals.total += r.balance;
+        });
+        return totals;
+    }, [rows]);
+
+    // Totals per season / category split by bucket
+    const groupTotals = useCallback((key: (r: DebtorRow) => string) => {
+        const groups: Record<string, BucketTotals> = {};
+        rows.forEach(r => {
+            const k = key(r);
+            if (!groups[k]) groups[k] = emptyTotals();
+            AGING_BUCKETS.forEach(b => { groups[k][b.id] += r.buckets[b.id]; });
+            groups[k].total += r.balance;
+        });
+        return Object.entries(groups).sort((a, b) => b[1].total - a[1].total);
+    }, [rows]);
+
+    const bySeason = useMemo(() => groupTotals(r => seasonName(r.seasonId)), [groupTotals, seasonName]);
+    const byCategory = useMemo(() => groupTotals(r => categoryName(r.categoryId)), [groupTotals, categoryName]);
+
+    const filteredRows = rows.filter(r =>
+        (bucketFilter === 'ALL' || r.buckets[bucketFilter] > 0.01) &&
+        (!searchTerm || r.studentName.toLowerCase().includes(searchTerm.toLowerCase()))
+    );
+
+    const handleRemind = (row: DebtorRow) => {
+        const link = debtReportService.getWhatsAppLink(row.phone, debtReportService.buildReminder(row));
+        if (!link) {
+            alert(`${row.studentName} no tiene un teléfono válido.`);
+            return;
+        }
+        window.open(link, '_blank');
+        setReminded(prev => new Set(prev).add(row.studentId));
+    };
+
+    const handleExport = async () => {
+        try {
+            const XLSX = await import('xlsx');
+            const data = filteredRows.map(r => {
+                const message = debtReportService.buildReminder(r);
+                return {
+                    'Alumno': r.studentName,
+                    'Teléfono': r.phone,
+                    'Temporada': seasonName(r.seasonId),
+                    'Categoría': categoryName(r.categoryId),
+                    'Paquete': r.packageName || '',
+                    'Saldo (S/)': Number(r.balance.toFixed(2)),
+                    'Por Vencer (S/)': Number(r.buckets.NOT_DUE.toFixed(2)),
+                    'Días Vencido': r.daysOverdue,
+                    'Tramo': AGING_BUCKETS.find(b => b.id === r.bucket)?.label,
+                    'Mensaje': message,
+                    'WhatsApp': debtReportService.getWhatsAppLink(r.phone, message)
+                };
+            });
+            const ws = XLSX.utils.json_to_sheet(data);
+            const wb = XLSX.utils.book_new();
+            XLSX.utils.book_append_sheet(wb, ws, 'Recordatorios');
+            XLSX.writeFile(wb, `Deudas_${new Date().toISOString().split('T')[0]}.xlsx`);
+        } catch (error) {
+            console.error("Error exporting debts:", error);
+            alert('Error al exportar a Excel');
+        }
+    };
+
+    const renderGroupTable = (title: string, groups: Array<[string, BucketTotals]>) => (
+        <div className="bg-white rounded-2xl shadow-sm border border-slate-100 overflow-hidden">
+            <div className="p-4 border-b border-slate-100">
+                <h3 className="font-bold text-slate-800">{title}</h3>
+            </div>
+            <table className="w-full text-sm">
+                <thead className="bg-slate-50 text-slate-500 text-xs uppercase">
+                    <tr>
+                        <th className="px-4 py-2 text-left"></th>
+                        {AGING_BUCKETS.map(b => <th key={b.id} className="px-4 py-2 text-right">{b.label}</th>)}
+                        <th className="px-4 py-2 text-right">Total</th>
+                    </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                    {groups.map(([name, totals]) => (
+                        <tr key={name}>
+                            <td className="px-4 py-2 font-bold text-slate-700">{name}</td>
+                            {AGING_BUCKETS.map(b => (
+                                <td key={b.id} className="px-4 py-2 text-right text-slate-600">S/ {totals[b.id].toFixed(2)}</td>
+                            ))}
+                            <td className="px-4 py-2 text-right font-bold text-slate-800">S/ {totals.total.toFixed(2)}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+
+    return (
+        <div className="space-y-6">
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                <div>
+                    <h2 className="text-3xl font-bold text-slate-800">Deudas</h2>
+                    <p className="text-slate-500">Saldos pendientes por antigüedad de vencimiento</p>
+                </div>
+                <div className="flex gap-2">
+                    <button
+                        onClick={loadReport}
+                        disabled={loading}
+                        className="p-2 text-slate-400 hover:text-sky-600 hover:bg-sky-50 rounded-lg transition-colors"
+                        title="Actualizar"
+                    >
+                        <RefreshCw className={`w-5 h-5 ${loading ? 'animate-spin' : ''}`} />
+                    </button>
+                    <button
+                        onClick={handleExport}
+                        disabled={filteredRows.length === 0}
+                        className="flex items-center gap-2 bg-emerald-600 text-white px-4 py-2 rounded-lg hover:bg-emerald-700 transition-colors text-sm font-medium disabled:opacity-50"
+                    >
+                        <Download className="w-4 h-4" />
+                        Exportar Lista
+                    </button>
+                </div>
+            </div>
+
+            {loading ? (
+                <div className="flex justify-center py-20">
+                    <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-sky-600"></div>
+                </div>
+            ) : (
+                <>
+                    {/* BUCKET CARDS */}
+                    <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+                        <button
+                            onClick={() => setBucketFilter('ALL')}
+                            className={`text-left p-5 rounded-2xl border shadow-sm transition-all ${bucketFilter === 'ALL' ? 'bg-slate-900 text-white border-slate-900' : 'bg-white border-slate-100'}`}
+                        >
+                            <p className="text-xs font-bold uppercase tracking-widest opacity-70">Total Pendiente</p>
+                            <p className="text-2xl font-bold mt-1">S/ {bucketTotals.total.toFixed(2)}</p>
+                            <p className="text-xs opacity-70 mt-1">{rows.length} alumnos</p>
+                        </button>
+                        {AGING_BUCKETS.map(b => (
+                            <button
+                                key={b.id}
+                                onClick={() => setBucketFilter(b.id)}
+                                className={`text-left p-5 rounded-2xl border shadow-sm transition-all ${BUCKET_STYLES[b.id]} ${bucketFilter === b.id ? 'ring-2 ring-offset-2 ring-slate-400' : ''}`}
+                            >
+                                <p className="text-xs font-bold uppercase tracking-widest">{b.label}</p>
+                                <p className="text-2xl font-bold mt-1">S/ {bucketTotals[b.id].toFixed(2)}</p>
+                                <p className="text-xs mt-1">{rows.filter(r => r.buckets[b.id] > 0.01).length} alumnos</p>
+                            </button>
+                        ))}
+                    </div>
+
+                    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                        {renderGroupTable('Por Temporada', bySeason)}
+                        {renderGroupTable('Por Categoría', byCategory)}
+                    </div>
+
+                    {/* DEBTORS */}
+                    <div className="bg-white rounded-2xl shadow-sm border border-slate-100 overflow-hidden">
+                        <div className="p-4 border-b border-slate-100 flex flex-col md:flex-row md:items-center justify-between gap-3">
+                            <div className="flex items-center gap-2">
+                                <AlertCircle className="w-5 h-5 text-slate-400" />
+                                <h3 className="font-bold text-slate-800">Alumnos con Deuda ({filteredRows.length})</h3>
+                            </div>
+                            <div className="relative">
+                                <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+                                <input
+                                    type="text"
+                                    placeholder="Buscar alumno..."
+                                    className="pl-9 pr-4 py-2 text-sm bg-slate-50 rounded-lg border-none focus:ring-2 focus:ring-sky-500/20"
+                                    value={searchTerm}
+                                    onChange={e => setSearchTerm(e.target.value)}
+                                />
+                            </div>
+                        </div>
+
+                        {filteredRows.length === 0 ? (
+                            <p className="text-slate-400 text-sm text-center py-8">No hay deudas pendientes.</p>
+                        ) : (
+                            <div className="overflow-x-auto">
+                                <table className="w-full text-sm">
+                                    <thead className="bg-slate-50 text-slate-500 text-xs uppercase">
+                                        <tr>
+                                            <th className="px-4 py-3 text-left">Alumno</th>
+                                            <th className="px-4 py-3 text-left">Teléfono</th>
+                                            <th className="px-4 py-3 text-left">Paquete</th>
+                                            <th className="px-4 py-3 text-right">Vencido</th>
+                                            <th className="px-4 py-3 text-right">Saldo</th>
+                                            <th className="px-4 py-3"></th>
+                                        </tr>
+                                    </thead>
+                                    <tbody className="divide-y divide-slate-100">
+                                        {filteredRows.map(r => (
+                                            <tr key={r.studentId}>
+                                                <td className="px-4 py-3">
+                                                    <p className="font-bold text-slate-700">{r.studentName}</p>
+                                                    <p className="text-xs text-slate-400">{categoryName(r.categoryId)} · {seasonName(r.seasonId)}</p>
+                                                </td>
+                                                <td className="px-4 py-3 text-slate-600">{r.phone || '—'}</td>
+                                                <td className="px-4 py-3 text-slate-600">{r.packageName || '—'}</td>
+                                                <td className="px-4 py-3 text-right">
+                                                    <span className={`text-xs font-bold px-2 py-0.5 rounded border ${BUCKET_STYLES[r.bucket]}`}>
+                                                        {r.bucket === 'NOT_DUE' ? 'Por vencer' : `${r.daysOverdue} días`}
+                                                    </span>
+                                                </td>
+                                                <td className="px-4 py-3 text-right font-bold text-slate-800">S/ {r.balance.toFixed(2)}</td>
+                                                <td className="px-4 py-3 text-right">
+                                                    <button
+                                                        onClick={() => handleRemind(r)}
+                                                        className={`flex items-center gap-1 ml-auto px-3 py-1.5 rounded-lg text-xs font-bold transition-colors ${reminded.has(r.studentId)
+                                                            ? 'bg-slate-100 text-slate-500'
+                                                            : 'bg-emerald-50 text-emerald-700 hover:bg-emerald-100'
+                                                            }`}
+                                                    >
+                                                        {reminded.has(r.studentId) ? <Check className="w-3.5 h-3.5" /> : <MessageCircle className="w-3.5 h-3.5" />}
+                                                        Recordatorio
+                                                    </button>
+                                                </td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        )}
+                    </div>
+                </>
+            )}
+        </div>
+    );
+}
@@ -1,9 +1,20 @@
-import { useState, useEffect } from 'react';
-import { financeService, DailyFinanceData } from '../services/finance';
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { financeService, DailyFinanceData, CashierSummary, isReversal } from '../services/finance';
 import { paymentMethodService } from '../services/paymentMethodService';
-import { PaymentMethodConfig } from '../types/db';
+import { studentService } from '../services/students';
+import { PaymentMethodConfig, Payment, PaymentReversalType } from '../types/db';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
-import { DollarSign, Filter } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { DollarSign, Filter, UserCheck, Download, Lock, Undo2, Ban, Receipt, Tag } from 'lucide-react';
+import { useSeason } from '../contexts/SeasonContext';
+import { useAuth } from '../context/AuthContext';
+
+const toInputDate = (date: Date) => {
+    const y = date.getFullYear();
+    const m = String(date.getMonth() + 1).padStart(2, '0');
+    const d = String(date.getDate()).padStart(2, '0');
+    return `${y}-${m}-${d}`;
+};
 
 export default function Finance() {
     const [data, setData] = useState<DailyFinanceData[]>([]);
@@ -12,6 +23,18 @@ export default function Finance() {
     const [month, setMonth] = useState(new Date().getMonth());
     const [methodFilter, setMethodFilter] = useState<string>('ALL');
     const [loading, setLoading] = useState(true);
+    // Payments of the season being viewed; reversals only in the active one
+    const { viewingSeason: currentSeason, isReadOnly } = useSeason();
+    const [reportDate, setReportDate] = useState(toInputDate(new Date()));
+    const [dayPayments, setDayPayments] = useState<Payment[]>([]);
+    const [reversedAmounts, setReversedAmounts] = useState<Record<string, number>>({});
+    const [loadingCashiers, setLoadingCashiers] = useState(false);
+    const { cashier } = useAuth();
+
+    // Void / refund modal
+    const [reversal, setReversal] = useState<{ payment: Payment, type: PaymentReversalType } | null>(null);
+    const [reversalData, setReversalData] = useState({ amount: '', credits: '0', method: '', reason: '' });
+    const [isReversing, setIsReversing] = useState(false);
 
     const months = [
         'Enero', 'Febrero', 'Marzo', 'Abril', 'Mayo', 'Junio',
@@ -26,6 +49,32 @@ export default function Finance() {
         loadFinanceData();
     }, [year, month]);
 
+    const getReportTimestamp = useCallback(() => {
+        const [y, m, d] = reportDate.split('-').map(Number);
+        return new Date(y, m - 1, d).getTime();
+    }, [reportDate]);
+
+    const loadDayPayments = useCallback(async () => {
+        if (!currentSeason) return;
+        setLoadingCashiers(true);
+        try {
+            const payments = await financeService.getDailyReportData(getReportTimestamp(), currentSeason.id);
+            const originals = payments.filter(p => !isReversal(p)).map(p => p.id);
+            setDayPayments(payments.sort((a, b) => a.date - b.date));
+            setReversedAmounts(await financeService.getReversedAmounts(originals));
+        } catch (error) {
+            console.error("Error loading day payments:", error);
+        } finally {
+            setLoadingCashiers(false);
+        }
+    }, [currentSeason, getReportTimestamp]);
+
+    useEffect(() => {
+        loadDayPayments();
+    }, [loadDayPayments]);
+
+    const cashiers = useMemo(() => financeService.summarizeByCashier(dayPayments), [dayPayments]);
+
     const loadInitialData = async () => {
         try {
             const meths = await paymentMethodService.getAll();
@@ -54,10 +103,61 @@ export default function Finance() {
         }, 0);
     };
 
+    const getMethodName = (id: string) => methods.find(m => m.id === id)?.name || id;
+
+    const openReversal = (payment: Payment, type: PaymentReversalType) => {
+        const remaining = payment.amount - (reversedAmounts[payment.id] || 0);
+        setReversal({ payment, type });
+        setReversalData({ amount: remaining.toFixed(2), credits: '0', method: payment.method, reason: '' });
+    };
+
+    const handleReversal = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!reversal || !cashier) return;
+
+        setIsReversing(true);
+        try {
+            if (reversal.type === 'VOID') {
+                await studentService.voidPayment(reversal.payment.id, reversalData.reason, cashier);
+            } else {
+                await studentService.refundPayment(
+                    reversal.payment.id,
+                    {
+                        amount: Number(reversalData.amount),
+                        credits: Number(reversalData.credits) || 0,
+                        method: reversalData.method
+                    },
+                    reversalData.reason,
+                    cashier
+                );
+            }
+            setReversal(null);
+            loadDayPayments();
+            loadFinanceData();
+        } catch (error) {
+            console.error("Error reversing payment:", error);
+            alert(error instanceof Error ? error.message : "Error al registrar la anulación");
+        } finally {
+            setIsReversing(false);
+        }
+    };
+
+    const monthReversals = data.reduce((acc, curr) => acc + curr.reversals, 0);
+    const monthDiscounts = data.reduce((acc, curr) => acc + curr.discounts, 0);
+
     return (
         <div className="space-y-6">
             <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
-                <h2 className="text-3xl font-bold text-slate-800">Finanzas</h2>
+                <div className="flex items-center gap-4">
+                    <h2 className="text-3xl font-bold text-slate-800">Finanzas</h2>
+                    <Link
+                        to="/caja/cierre"
+                        className="flex items-center gap-2 px-3 py-1.5 text-sm font-bold text-slate-600 bg-white border border-slate-200 rounded-lg hover:bg-slate-50 transition-colors"
+                    >
+                        <Lock className="w-4 h-4" />
+                        Cierre de Caja
+                    </Link>
+                </div>
 
                 <div className="flex gap-2 bg-white p-1 rounded-xl border border-slate-200 shadow-sm">
                     <select
@@ -120,25 +220,190 @@ export default function Finance() {
                                 FIX
                             </button>
                         </div>
+
+                        <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-100 flex items-center gap-4">
+                            <div className="w-12 h-12 bg-red-100 text-red-600 rounded-full flex items-center justify-center">
+                                <Undo2 className="w-6 h-6" />
+                            </div>
+                            <div>
+                                <p className="text-sm font-medium text-slate-400">Anulado / Devuelto ({months[month]})</p>
+                                <p className="text-2xl font-bold text-red-600">- S/ {monthReversals.toFixed(2)}</p>
+                            </div>
+                        </div>
+
+                        <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-100 flex items-center gap-4">
+                            <div className="w-12 h-12 bg-amber-100 text-amber-600 rounded-full flex items-center justify-center">
+                                <Tag className="w-6 h-6" />
+                            </div>
+                            <div>
+                                <p className="text-sm font-medium text-slate-400">Descuentos ({months[month]})</p>
+                                <p className="text-2xl font-bold text-amber-600">S/ {monthDiscounts.toFixed(2)}</p>
+                            </div>
+                        </div>
                     </div>
                 </>
             )}
 
             {/* Report Export Section */}
-            <div className="flex justify-end mb-4">
+            <div className="flex justify-end items-center gap-2 mb-4">
+                <input
+                    type="date"
+                    className="text-sm border border-slate-200 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-sky-500/50"
+                    value={reportDate}
+                    onChange={(e) => e.target.value && setReportDate(e.target.value)}
+                />
                 <button
                     onClick={() => {
-                        if (confirm("¿Generar reporte de caja del día de hoy?")) {
+                        if (confirm(`¿Generar reporte de caja del ${reportDate}?`)) {
                             generateDailyReport();
                         }
                     }}
                     className="flex items-center gap-2 bg-emerald-600 text-white px-4 py-2 rounded-lg hover:bg-emerald-700 transition-colors text-sm font-medium"
                 >
                     <DollarSign className="w-4 h-4" />
-                    Exportar Reporte de Caja (Hoy)
+                    Exportar Reporte de Caja
                 </button>
             </div>
 
+            {/* CASHIER BREAKDOWN */}
+            <div className="bg-white rounded-2xl shadow-sm border border-slate-100 overflow-hidden">
+                <div className="p-6 border-b border-slate-100 flex items-center gap-3">
+                    <UserCheck className="w-5 h-5 text-slate-400" />
+                    <h3 className="text-lg font-bold text-slate-800">Caja por Cajero ({reportDate})</h3>
+                </div>
+                {loadingCashiers ? (
+                    <div className="flex justify-center py-8">
+                        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-sky-600"></div>
+                    </div>
+                ) : cashiers.length === 0 ? (
+                    <p className="text-slate-400 text-sm text-center py-8">No hay pagos registrados en esta fecha.</p>
+                ) : (
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-sm">
+                            <thead className="bg-slate-50 text-slate-500 text-xs uppercase">
+                                <tr>
+                                    <th className="px-6 py-3 text-left">Cajero</th>
+                                    <th className="px-6 py-3 text-right">Pagos</th>
+                                    {methods.map(m => (
+                                        <th key={m.id} className="px-6 py-3 text-right">{m.name}</th>
+                                    ))}
+                                    <th className="px-6 py-3 text-right">Total</th>
+                                    <th className="px-6 py-3"></th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-slate-100">
+                                {cashiers.map(c => (
+                                    <tr key={c.cashierId}>
+                                        <td className="px-6 py-3 font-bold text-slate-700">{c.cashierName}</td>
+                                        <td className="px-6 py-3 text-right text-slate-500">{c.count}</td>
+                                        {methods.map(m => (
+                                            <td key={m.id} className="px-6 py-3 text-right text-slate-600">
+                                                S/ {(c.methods[m.id] || 0).toFixed(2)}
+                                            </td>
+                                        ))}
+                                        <td className="px-6 py-3 text-right font-bold text-slate-800">
+                                            S/ {c.total.toFixed(2)}
+                                            {c.reversed > 0 && (
+                                                <span className="block text-[10px] font-medium text-red-500">incluye - S/ {c.reversed.toFixed(2)} anulado</span>
+                                            )}
+                                        </td>
+                                        <td className="px-6 py-3 text-right">
+                                            <button
+                                                onClick={() => generateDailyReport(c)}
+                                                className="p-2 text-slate-400 hover:text-emerald-600 hover:bg-emerald-50 rounded-lg transition-colors"
+                                                title="Exportar reporte de este cajero"
+                                            >
+                                                <Download className="w-4 h-4" />
+                                            </button>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </div>
+
+            {/* DAY MOVEMENTS */}
+            {dayPayments.length > 0 && (
+                <div className="bg-white rounded-2xl shadow-sm border border-slate-100 overflow-hidden">
+                    <div className="p-6 border-b border-slate-100 flex items-center gap-3">
+                        <Receipt className="w-5 h-5 text-slate-400" />
+                        <h3 className="text-lg font-bold text-slate-800">Movimientos del Día ({reportDate})</h3>
+                    </div>
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-sm">
+                            <thead className="bg-slate-50 text-slate-500 text-xs uppercase">
+                                <tr>
+                                    <th className="px-6 py-3 text-left">Hora</th>
+                                    <th className="px-6 py-3 text-left">Alumno</th>
+                                    <th className="px-6 py-3 text-left">Método</th>
+                                    <th className="px-6 py-3 text-left">Cajero</th>
+                                    <th className="px-6 py-3 text-right">Monto</th>
+                                    <th className="px-6 py-3"></th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-slate-100">
+                                {dayPayments.map(p => {
+                                    const reversed = reversedAmounts[p.id] || 0;
+                                    const remaining = p.amount - reversed;
+                                    return (
+                                        <tr key={p.id} className={isReversal(p) ? 'bg-red-50/50' : ''}>
+                                            <td className="px-6 py-3 text-slate-500">
+                                                {new Date(p.date).toLocaleTimeString('es-PE', { hour: '2-digit', minute: '2-digit' })}
+                                            </td>
+                                            <td className="px-6 py-3">
+                                                <p className="font-bold text-slate-700">{p.studentName || 'Desconocido'}</p>
+                                                {isReversal(p) && (
+                                                    <p className="text-xs text-red-600">
+                                                        <span className="font-bold">{p.reversalType === 'VOID' ? 'ANULACIÓN' : 'DEVOLUCIÓN'}</span> · {p.reason}
+                                                    </p>
+                                                )}
+                                                {p.pricing && p.pricing.discounts.length > 0 && (
+                                                    <p className="text-xs text-amber-600">
+                                                        Lista S/ {p.pricing.listPrice.toFixed(2)} · {p.pricing.discounts.map(d => `${d.name} - S/ ${d.amount.toFixed(2)}`).join(' · ')}
+                                                    </p>
+                                                )}
+                                                {!isReversal(p) && reversed > 0 && (
+                                                    <p className="text-xs text-red-600 font-bold">
+                                                        {remaining <= 0 ? 'ANULADO / DEVUELTO' : `DEVUELTO S/ ${reversed.toFixed(2)}`}
+                                                    </p>
+                                                )}
+                                            </td>
+                                            <td className="px-6 py-3 text-slate-600">{getMethodName(p.method)}</td>
+                                            <td className="px-6 py-3 text-slate-500">{p.createdByName || 'Sin registrar'}</td>
+                                            <td className={`px-6 py-3 text-right font-bold ${p.amount < 0 ? 'text-red-600' : remaining <= 0 ? 'text-slate-400 line-through' : 'text-slate-800'}`}>
+                                                S/ {p.amount.toFixed(2)}
+                                            </td>
+                                            <td className="px-6 py-3 text-right whitespace-nowrap">
+                                                {!isReadOnly && !isReversal(p) && remaining > 0 && (
+                                                    <>
+                                                        <button
+                                                            onClick={() => openReversal(p, 'REFUND')}
+                                                            className="p-2 text-slate-400 hover:text-amber-600 hover:bg-amber-50 rounded-lg transition-colors"
+                                                            title="Devolver dinero"
+                                                        >
+                                                            <Undo2 className="w-4 h-4" />
+                                                        </button>
+                                                        <button
+                                                            onClick={() => openReversal(p, 'VOID')}
+                                                            className="p-2 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                                                            title="Anular pago"
+                                                        >
+                                                            <Ban className="w-4 h-4" />
+                                                        </button>
+                                                    </>
+                                                )}
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            )}
+
             {/* CHART SECTION */}
             <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-100">
                 <div className="flex items-center justify-between mb-8">
@@ -179,7 +444,7 @@ export default function Finance() {
                             <Tooltip
                                 contentStyle={{ backgroundColor: '#fff', borderRadius: '12px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
                                 cursor={{ fill: '#f1f5f9' }}
-                                formatter={(value: number) => [`S/ ${value.toFixed(2)}`, 'Ingreso']}
+                                formatter={(value: number, name: string) => [`S/ ${value.toFixed(2)}`, name]}
                                 labelFormatter={(label) => `Día ${label} de ${months[month]}`}
                             />
 
@@ -191,30 +456,134 @@ export default function Finance() {
                                 maxBarSize={50}
                                 name="Ingreso"
                             />
+                            {methodFilter === 'ALL' && (
+                                <Bar
+                                    dataKey="reversals"
+                                    fill="#ef4444"
+                                    radius={[4, 4, 0, 0]}
+                                    maxBarSize={50}
+                                    name="Anulado / Devuelto"
+                                />
+                            )}
                         </BarChart>
                     </ResponsiveContainer>
                 </div>
             </div>
+
+            {/* VOID / REFUND MODAL */}
+            {reversal && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+                    <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md overflow-hidden animate-in fade-in zoom-in duration-200">
+                        <div className="p-6 border-b border-slate-100 flex justify-between items-center bg-red-50">
+                            <div>
+                                <h3 className="text-xl font-bold text-red-800">
+                                    {reversal.type === 'VOID' ? 'Anular Pago' : 'Devolver Dinero'}
+                                </h3>
+                                <p className="text-sm text-red-600">
+                                    {reversal.payment.studentName} · S/ {reversal.payment.amount.toFixed(2)} ({getMethodName(reversal.payment.method)})
+                                </p>
+                            </div>
+                            <button onClick={() => setReversal(null)} className="text-red-400 hover:text-red-600">✕</button>
+                        </div>
+
+                        <form onSubmit={handleReversal} className="p-6 space-y-4">
+                            <p className="text-sm text-slate-600">
+                                {reversal.type === 'VOID'
+                                    ? 'Se registrará un movimiento negativo por el saldo del pago, se quitarán las clases que otorgó y su deuda volverá a quedar pendiente.'
+                                    : 'Se registrará un movimiento negativo por el monto devuelto. El pago original no se modifica.'}
+                            </p>
+
+                            {reversal.type === 'REFUND' && (
+                                <div className="grid grid-cols-2 gap-3">
+                                    <div>
+                                        <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Monto</label>
+                                        <input
+                                            type="number"
+                                            min="0.01"
+                                            step="0.01"
+                                            max={reversal.payment.amount - (reversedAmounts[reversal.payment.id] || 0)}
+                                            required
+                                            className="w-full px-3 py-2 rounded-xl border border-slate-200 focus:outline-none focus:ring-2 focus:ring-red-500/50"
+                                            value={reversalData.amount}
+                                            onChange={e => setReversalData({ ...reversalData, amount: e.target.value })}
+                                        />
+                                    </div>
+                                    <div>
+                                        <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Clases a quitar</label>
+                                        <input
+                                            type="number"
+                                            min="0"
+                                            max={Math.max(0, reversal.payment.credits || 0)}
+                                            className="w-full px-3 py-2 rounded-xl border border-slate-200 focus:outline-none focus:ring-2 focus:ring-red-500/50"
+                                            value={reversalData.credits}
+                                            onChange={e => setReversalData({ ...reversalData, credits: e.target.value })}
+                                        />
+                                    </div>
+                                    <div className="col-span-2">
+                                        <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Devuelto por</label>
+                                        <select
+                                            className="w-full px-3 py-2 rounded-xl border border-slate-200 focus:outline-none focus:ring-2 focus:ring-red-500/50"
+                                            value={reversalData.method}
+                                            onChange={e => setReversalData({ ...reversalData, method: e.target.value })}
+                                        >
+                                            {methods.map(m => (
+                                                <option key={m.id} value={m.id}>{m.name}</option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                </div>
+                            )}
+
+                            <div>
+                                <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Motivo</label>
+                                <textarea
+                                    rows={2}
+                                    required
+                                    className="w-full px-3 py-2 rounded-xl border border-slate-200 focus:outline-none focus:ring-2 focus:ring-red-500/50 text-sm"
+                                    placeholder="Ej: Yape registrado dos veces"
+                                    value={reversalData.reason}
+                                    onChange={e => setReversalData({ ...reversalData, reason: e.target.value })}
+                                />
+                            </div>
+
+                            <div className="flex gap-3 pt-2">
+                                <button
+                                    type="button"
+                                    onClick={() => setReversal(null)}
+                                    className="flex-1 py-3 rounded-xl font-bold text-slate-600 hover:bg-slate-100 transition-colors"
+                                >
+                                    Cancelar
+                                </button>
+                                <button
+                                    type="submit"
+                                    disabled={isReversing}
+                                    className="flex-1 py-3 rounded-xl font-bold text-white bg-red-600 hover:bg-red-700 transition-colors disabled:opacity-50"
+                                >
+                                    {isReversing ? 'Guardando...' : reversal.type === 'VOID' ? 'Anular' : 'Devolver'}
+                                </button>
+                            </div>
+                        </form>
+                    </div>
+                </div>
+            )}
         </div>
     );
 
-    async function generateDailyReport() {
+    async function generateDailyReport(cashier?: CashierSummary) {
         try {
             // Dynamically import xlsx
             const XLSX = await import("xlsx");
-            const { seasonService } = await import("../services/seasonService");
 
             // 1. Get Context
-            const activeSeason = await seasonService.getActiveSeason();
-            if (!activeSeason) throw new Error("No hay temporada activa para filtrar los pagos.");
+            if (!currentSeason) throw new Error("No hay temporada activa para filtrar los pagos.");
 
             // 2. Get Data
-            const today = Date.now(); // or let user select
-            const payments = await financeService.getDailyReportData(today, activeSeason.id);
+            const reportTimestamp = getReportTimestamp();
+            const payments = await financeService.getDailyReportData(reportTimestamp, currentSeason.id, cashier?.cashierId);
             const methods = await paymentMethodService.getAll();
 
             if (payments.length === 0) {
-                alert("No hay pagos registrados para hoy en esta temporada.");
+                alert("No hay pagos registrados para esta fecha en esta temporada.");
                 return;
             }
 
@@ -244,10 +613,12 @@ export default function Finance() {
             const studentPayments: Record<string, { name: string, amounts: number[] }> = {};
 
             payments.forEach(p => {
-                const sId = p.studentId || "ANON";
+                // Voids/refunds get their own row so they don't hide inside the student's total
+                const sId = (p.studentId || "ANON") + (isReversal(p) ? `_${p.reversalType}` : '');
                 if (!studentPayments[sId]) {
+                    const suffix = !isReversal(p) ? '' : p.reversalType === 'VOID' ? ' (ANULACIÓN)' : ' (DEVOLUCIÓN)';
                     studentPayments[sId] = {
-                        name: p.studentName || "Desconocido",
+                        name: (p.studentName || "Desconocido") + suffix,
                         amounts: new Array(methods.length).fill(0)
                     };
                 }
@@ -293,9 +664,40 @@ export default function Finance() {
             const wb = XLSX.utils.book_new();
             XLSX.utils.book_append_sheet(wb, ws, "Reporte Diario");
 
+            // Per-cashier totals (one row per user who took money)
+            const cashierRows = financeService.summarizeByCashier(payments).map(c => [
+                c.cashierName,
+                c.count,
+                ...methods.map(m => c.methods[m.id] || 0),
+                c.total
+            ]);
+            const cashierSheet = XLSX.utils.aoa_to_sheet([
+                ["Cajero", "Pagos", ...methods.map(m => m.name), "TOTAL"],
+                ...cashierRows
+            ]);
+            XLSX.utils.book_append_sheet(wb, cashierSheet, "Por Cajero");
+
+            const reversals = payments.filter(isReversal);
+            if (reversals.length > 0) {
+                const reversalSheet = XLSX.utils.aoa_to_sheet([
+                    ["Hora", "Alumno", "Tipo", "Método", "Monto", "Motivo", "Cajero", "Pago Original"],
+                    ...reversals.map(p => [
+                        new Date(p.date).toLocaleTimeString('es-PE'),
+                        p.studentName || "Desconocido",
+                        p.reversalType === 'VOID' ? 'Anulación' : 'Devolución',
+                        methods.find(m => m.id === p.method)?.name || p.method,
+                        p.amount,
+                        p.reason || '',
+                        p.createdByName || '',
+                        p.reversalOf
+                    ])
+                ]);
+                XLSX.utils.book_append_sheet(wb, reversalSheet, "Anulaciones");
+            }
+
             // 5. Download
-            const dateStr = new Date().toISOString().split('T')[0];
-            XLSX.writeFile(wb, `Reporte_Caja_${activeSeason.name}_${dateStr}.xlsx`);
+            const cashierSuffix = cashier ? `_${cashier.cashierName.replace(/[^a-zA-Z0-9]/g, '_')}` : '';
+            XLSX.writeFile(wb, `Reporte_Caja_${currentSeason.name}_${reportDate}${cashierSuffix}.xlsx`);
 
         } catch (error: any) {
             console.error(error);
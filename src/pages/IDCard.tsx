@@ -5,6 +5,7 @@ import { Search, Printer, X } from 'lucide-react';
 import { studentService } from '../services/students';
 import { cardConfigService } from '../services/cardConfig';
 import { categoryService } from '../services/categoryService';
+import { StudentQrCode } from '../components/students/StudentQrCode';
 import type { Student, CardConfig, Category } from '../types/db';
 
 export default function IDCard() {
@@ -387,6 +388,21 @@ export default function IDCard() {
                                     >
                                         {selectedStudent.remainingCredits || 0}
                                     </div>
+
+                                    {/* QR (CHECK-IN) */}
+                                    {selectedStudent.studentCode && (
+                                        <StudentQrCode
+                                            value={selectedStudent.studentCode}
+                                            size={cardConfig.fields.qr.size}
+                                            className="absolute"
+                                            style={{
+                                                top: cardConfig.fields.qr.top,
+                                                bottom: cardConfig.fields.qr.bottom,
+                                                left: cardConfig.fields.qr.left,
+                                                right: cardConfig.fields.qr.right
+                                            }}
+                                        />
+                                    )}
                                 </div>
                             )}
                         </div>
@@ -527,6 +543,21 @@ export default function IDCard() {
                                     >
                                         {selectedStudent.remainingCredits || 0}
                                     </div>
+
+                                    {/* QR (CHECK-IN) */}
+                                    {selectedStudent.studentCode && (
+                                        <StudentQrCode
+                                            value={selectedStudent.studentCode}
+                                            size={cardConfig.fields.qr.size}
+                                            className="absolute"
+                                            style={{
+                                                top: cardConfig.fields.qr.top,
+                                                bottom: cardConfig.fields.qr.bottom,
+                                                left: cardConfig.fields.qr.left,
+                                                right: cardConfig.fields.qr.right
+                                            }}
+                                        />
+                                    )}
                                 </div>
                             )}
                         </div>
@@ -1,7 +1,8 @@
 import { useState } from 'react';
 import { useNavigate, Link } from 'react-router-dom';
-import { signInWithEmailAndPassword } from 'firebase/auth';
+import { signInWithEmailAndPassword, signOut } from 'firebase/auth';
 import { auth } from '../lib/firebase';
+import { userService } from '../services/userService';
 import { AlertCircle } from 'lucide-react';
 
 export default function Login() {
@@ -17,7 +18,14 @@ export default function Login() {
         setLoading(true);
 
         try {
-            await signInWithEmailAndPassword(auth, email, password);
+            const { user } = await signInWithEmailAndPassword(auth, email, password);
+            const profile = await userService.getById(user.uid);
+            if (profile?.disabled) {
+                await signOut(auth);
+                setError('Tu cuenta está deshabilitada. Contacta al administrador.');
+                return;
+            }
+            await userService.recordLogin(user.uid);
             navigate('/');
         } catch (err: any) {
             console.error(err);
@@ -3,6 +3,8 @@ import { Calendar as CalendarIcon, ChevronLeft, ChevronRight, Users, Search, Tra
 import { monthlyScheduleService } from '../services/monthlyScheduleService';
 import { categoryService } from '../services/categoryService';
 import { studentService } from '../services/students';
+import { attendanceService, applyAttendance, isSameClass } from '../services/attendanceService';
+import { useAuth } from '../context/AuthContext';
 import { useSeason } from '../contexts/SeasonContext';
 import { formatMonthId, getMonthName, getNextMonth, getPreviousMonth, parseMonthId } from '../utils/monthUtils';
 import { calculateRealRemaining } from '../utils/studentUtils';
@@ -10,7 +12,9 @@ import { dateUtils } from '../utils/date';
 import type { MonthlySlot, MonthlyEnrollment, Student, Category } from '../types/db';
 
 export default function MonthlySchedule() {
-    const { currentSeason } = useSeason();
+    // Season being viewed: read-only when it is not the active one
+    const { viewingSeason: currentSeason, isReadOnly } = useSeason();
+    const { user } = useAuth();
 
     // Get initial month (current month or first month of season)
     const getInitialMonth = () => {
@@ -67,6 +71,7 @@ export default function MonthlySchedule() {
 
             // SELF-HEALING: Check for date mismatches and fix them on the fly
             // This fixes the "Grid says Full, Modal says Available" issue caused by stale snapshots
+            if (isReadOnly) return;
             students.forEach(student => {
                 if (!student.packageEndDate) return;
 
@@ -100,7 +105,7 @@ export default function MonthlySchedule() {
         try {
             // Only fetch slots and categories - students come from cache
             const [slotsData, categoriesData] = await Promise.all([
-                monthlyScheduleService.getBySeasonAndMonth(currentSeason.id, currentMonth),
+                monthlyScheduleService.getBySeasonAndMonth(currentSeason.id, currentMonth, isReadOnly),
                 categoryService.getActive()
             ]);
 
@@ -500,15 +505,17 @@ export default function MonthlySchedule() {
                                         >
                                             Asistencia
                                         </button>
-                                        <button
-                                            onClick={() => { setViewMode('add'); loadAllSeasonStudents(); }}
-                                            className={`flex-1 py-3 text-sm font-bold transition-colors ${viewMode === 'add'
-                                                ? 'text-sky-600 border-b-2 border-sky-600'
-                                                : 'text-slate-400 hover:text-slate-600'
-                                                }`}
-                                        >
-                                            Agregar
-                                        </button>
+                                        {!isReadOnly && (
+                                            <button
+                                                onClick={() => { setViewMode('add'); loadAllSeasonStudents(); }}
+                                                className={`flex-1 py-3 text-sm font-bold transition-colors ${viewMode === 'add'
+                                                    ? 'text-sky-600 border-b-2 border-sky-600'
+                                                    : 'text-slate-400 hover:text-slate-600'
+                                                    }`}
+                                            >
+                                                Agregar
+                                            </button>
+                                        )}
                                     </div>
 
                                     {/* Search Box (Only in Add mode) */}
@@ -540,12 +547,14 @@ export default function MonthlySchedule() {
                                                 <div className="flex flex-col items-center justify-center py-12 text-slate-400">
                                                     <Users className="w-12 h-12 mb-3 opacity-20" />
                                                     <p>No hay alumnos inscritos</p>
-                                                    <button
-                                                        onClick={() => setViewMode('add')}
-                                                        className="mt-4 text-sky-600 font-bold hover:underline"
-                                                    >
-                                                        Inscribir al primero
-                                                    </button>
+                                                    {!isReadOnly && (
+                                                        <button
+                                                            onClick={() => setViewMode('add')}
+                                                            className="mt-4 text-sky-600 font-bold hover:underline"
+                                                        >
+                                                            Inscribir al primero
+                                                        </button>
+                                                    )}
                                                 </div>
                                             ) : (
                                                 validEnrollments.map((enrollment: MonthlyEnrollment) => {
@@ -616,7 +625,7 @@ export default function MonthlySchedule() {
                                                                         )}
                                                                     </div>
                                                                     {student && (() => {
-                                                                        const available = calculateRealRemaining(student);
+                                                                        const available = calculateRealRemaining(student, currentSeason?.closures);
                                                                         const total = student.remainingCredits;
                                                                         return (
                                                                             <span className="text-xs font-mono font-bold text-sky-600 bg-sky-50 px-2 py-0.5 rounded">
@@ -647,7 +656,7 @@ export default function MonthlySchedule() {
 
                                                             <button
                                                                 onClick={() => handleUnenroll(enrollment.studentId, enrollment.studentName)}
-                                                                disabled={bookingLoading}
+                                                                disabled={bookingLoading || isReadOnly}
                                                                 className={`p-2 rounded-lg transition-colors ${isFuture
                                                                     ? 'text-amber-400 hover:text-red-600 hover:bg-amber-100'
                                                                     : 'text-slate-400 hover:text-red-600 hover:bg-red-50'}`}
@@ -691,7 +700,7 @@ export default function MonthlySchedule() {
                                                         const dateInput = document.getElementById('attendance-date') as HTMLInputElement;
                                                         const selectedDate = dateInput?.value || new Date().toISOString().split('T')[0];
 
-                                                        const hasAttended = student.asistencia?.some((a: { fecha: string, asistencia: boolean }) => a.fecha === selectedDate && a.asistencia);
+                                                        const hasAttended = student.asistencia?.some(a => isSameClass(a, selectedDate, selectedSlot.id) && a.asistencia);
 
                                                         return (
                                                             <div key={student.id} className={`flex items-center justify-between p-3 rounded-xl border transition-all ${hasAttended ? 'bg-emerald-50 border-emerald-200' : 'border-slate-100 hover:bg-slate-50'}`}>
@@ -724,34 +733,15 @@ export default function MonthlySchedule() {
 
                                                                         const newStatus = !hasAttended;
                                                                         try {
+                                                                            const mark = { slotId: selectedSlot.id, markedBy: user?.uid };
                                                                             // 1. Update DB (1 read + 1 write inside transaction)
-                                                                            await studentService.markAttendance(student.id, date, newStatus);
+                                                                            await attendanceService.mark(student.id, date, newStatus, mark);
 
                                                                             // 2. OPTIMIZATION: Update Local State instead of re-fetching ALL students (saves N reads)
                                                                             setModalStudents((prevStudents: Student[]) => prevStudents.map((s: Student) => {
                                                                                 if (s.id === student.id) {
-                                                                                    const currentAttendance = s.asistencia ? [...s.asistencia] : [];
-                                                                                    const existingIndex = currentAttendance.findIndex(a => a.fecha === date);
-                                                                                    let newCredits = s.remainingCredits || 0;
-
-                                                                                    let wasAttended = false;
-                                                                                    if (existingIndex >= 0) {
-                                                                                        wasAttended = currentAttendance[existingIndex].asistencia;
-                                                                                        currentAttendance[existingIndex] = { fecha: date, asistencia: newStatus };
-
-                                                                                        // Adjust credits if changed
-                                                                                        if (wasAttended !== newStatus) {
-                                                                                            if (newStatus) newCredits--; else newCredits++;
-                                                                                        }
-                                                                                    } else {
-                                                                                        currentAttendance.push({ fecha: date, asistencia: newStatus });
-                                                                                        if (newStatus) newCredits--;
-                                                                                    }
-
-                                                                                    // Sort by date desc
-                                                                                    currentAttendance.sort((a: { fecha: string }, b: { fecha: string }) => b.fecha.localeCompare(a.fecha));
-
-                                                                                    return { ...s, asistencia: currentAttendance, remainingCredits: newCredits };
+                                                                                    const result = applyAttendance(s.asistencia || [], s.remainingCredits || 0, date, newStatus, mark);
+                                                                                    return { ...s, asistencia: result.records, remainingCredits: result.remainingCredits };
                                                                                 }
                                                                                 return s;
                                                                             }));
@@ -761,6 +751,7 @@ export default function MonthlySchedule() {
                                                                             console.error(e);
                                                                         }
                                                                     }}
+                                                                    disabled={isReadOnly}
                                                                     className={`px-4 py-2 rounded-lg font-bold text-sm transition-all flex items-center gap-2 ${hasAttended
                                                                         ? 'bg-emerald-500 text-white shadow-emerald-500/30 shadow-lg'
                                                                         : 'bg-white border-2 border-slate-200 text-slate-400 hover:border-emerald-200 hover:text-emerald-600'
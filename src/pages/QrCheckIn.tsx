@@ -0,0 +1,209 @@
+import { useState, useEffect, useRef, useCallback, type FormEvent } from 'react';
+import { Camera, CameraOff, CheckCircle, XCircle, QrCode } from 'lucide-react';
+import { attendanceService, type CheckInResult } from '../services/attendanceService';
+import { useAuth } from '../context/AuthContext';
+
+const SAME_CODE_COOLDOWN_MS = 5000; // The same card in front of the camera is read many times per second
+const RESULT_VISIBLE_MS = 6000;
+
+/**
+ * Entrance check-in: the camera reads the QR printed on the card and marks today's class.
+ * The code can also be typed (damaged cards, no camera).
+ */
+export default function QrCheckIn() {
+    const { user } = useAuth();
+    const videoRef = useRef<HTMLVideoElement>(null);
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const streamRef = useRef<MediaStream | null>(null);
+    const lastScanRef = useRef<{ code: string, at: number } | null>(null);
+    const processingRef = useRef(false);
+
+    const [cameraOn, setCameraOn] = useState(false);
+    const [cameraError, setCameraError] = useState<string | null>(null);
+    const [manualCode, setManualCode] = useState('');
+    const [processing, setProcessing] = useState(false);
+    const [result, setResult] = useState<CheckInResult | null>(null);
+
+    const checkIn = useCallback(async (code: string) => {
+        if (processingRef.current) return;
+        processingRef.current = true;
+        setProcessing(true);
+        try {
+            setResult(await attendanceService.checkInByCode(code, user?.uid));
+        } catch (error) {
+            console.error("Error in QR check-in:", error);
+            setResult({
+                status: 'REJECTED',
+                message: error instanceof Error ? error.message : 'Error al registrar la asistencia'
+            });
+        } finally {
+            processingRef.current = false;
+            setProcessing(false);
+        }
+    }, [user]);
+
+    const stopCamera = useCallback(() => {
+        streamRef.current?.getTracks().forEach(track => track.stop());
+        streamRef.current = null;
+        setCameraOn(false);
+    }, []);
+
+    const startCamera = async () => {
+        setCameraError(null);
+        try {
+            const stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
+            streamRef.current = stream;
+            if (videoRef.current) {
+                videoRef.current.srcObject = stream;
+                await videoRef.current.play();
+            }
+            setCameraOn(true);
+        } catch (error) {
+            console.error("Error starting camera:", error);
+            setCameraError('No se pudo acceder a la cámara. Revise los permisos del navegador.');
+        }
+    };
+
+    // Release the camera when leaving the page
+    useEffect(() => stopCamera, [stopCamera]);
+
+    // Decode loop while the camera is on
+    useEffect(() => {
+        if (!cameraOn) return;
+        let frame = 0;
+        let cancelled = false;
+
+        import('jsqr').then(({ default: jsQR }) => {
+            const tick = () => {
+                if (cancelled) return;
+                const video = videoRef.current;
+                const canvas = canvasRef.current;
+                if (video && canvas && video.readyState === video.HAVE_ENOUGH_DATA && !processingRef.current) {
+                    canvas.width = video.videoWidth;
+                    canvas.height = video.videoHeight;
+                    const context = canvas.getContext('2d', { willReadFrequently: true });
+                    if (context) {
+                        context.drawImage(video, 0, 0, canvas.width, canvas.height);
+                        const image = context.getImageData(0, 0, canvas.width, canvas.height);
+                        const qr = jsQR(image.data, image.width, image.height, { inversionAttempts: 'dontInvert' });
+                        const last = lastScanRef.current;
+                        if (qr?.data && !(last && last.code === qr.data && Date.now() - last.at < SAME_CODE_COOLDOWN_MS)) {
+                            lastScanRef.current = { code: qr.data, at: Date.now() };
+                            checkIn(qr.data);
+                        }
+                    }
+                }
+                frame = requestAnimationFrame(tick);
+            };
+            tick();
+        });
+
+        return () => {
+            cancelled = true;
+            cancelAnimationFrame(frame);
+        };
+    }, [cameraOn, checkIn]);
+
+    // Clear the result so the next student sees an idle screen
+    useEffect(() => {
+        if (!result) return;
+        const timer = setTimeout(() => setResult(null), RESULT_VISIBLE_MS);
+        return () => clearTimeout(timer);
+    }, [result]);
+
+    const handleManualSubmit = async (e: FormEvent) => {
+        e.preventDefault();
+        if (!manualCode.trim()) return;
+        await checkIn(manualCode);
+        setManualCode('');
+    };
+
+    const accepted = result && result.status !== 'REJECTED';
+
+    return (
+        <div className="space-y-6 max-w-3xl mx-auto">
+            <div className="flex items-start justify-between gap-4">
+                <div>
+                    <h2 className="text-3xl font-bold text-slate-800">Escanear Carnet</h2>
+                    <p className="text-slate-500">Acerque el código QR del carnet a la cámara.</p>
+                </div>
+                <button
+                    onClick={cameraOn ? stopCamera : startCamera}
+                    className={`flex items-center gap-2 px-5 py-3 rounded-xl font-bold transition-colors ${cameraOn
+                        ? 'border border-slate-200 text-slate-600 hover:bg-slate-50'
+                        : 'bg-sky-600 text-white hover:bg-sky-700 shadow-lg shadow-sky-600/20'
+                        }`}
+                >
+                    {cameraOn ? <CameraOff className="w-5 h-5" /> : <Camera className="w-5 h-5" />}
+                    {cameraOn ? 'Detener' : 'Activar Cámara'}
+                </button>
+            </div>
+
+            {/* CAMERA */}
+            <div className="relative bg-slate-900 rounded-2xl overflow-hidden aspect-video flex items-center justify-center">
+                <video ref={videoRef} className={`w-full h-full object-cover ${cameraOn ? '' : 'hidden'}`} muted playsInline />
+                {!cameraOn && (
+                    <div className="text-center text-slate-400 p-6">
+                        <QrCode className="w-16 h-16 mx-auto mb-3 opacity-50" />
+                        <p>{cameraError || 'Cámara apagada'}</p>
+                    </div>
+                )}
+                {cameraOn && (
+                    <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+                        <div className="w-56 h-56 border-4 border-white/70 rounded-2xl"></div>
+                    </div>
+                )}
+                <canvas ref={canvasRef} className="hidden" />
+            </div>
+
+            {/* RESULT */}
+            {processing && !result && (
+                <div className="bg-white rounded-2xl border border-slate-100 p-6 text-center text-slate-500 font-bold">
+                    Verificando...
+                </div>
+            )}
+            {result && (
+                <div className={`rounded-2xl border-2 p-6 flex items-center gap-4 ${accepted
+                    ? 'bg-emerald-50 border-emerald-400'
+                    : 'bg-red-50 border-red-400'
+                    }`}
+                >
+                    {accepted
+                        ? <CheckCircle className="w-14 h-14 text-emerald-500 shrink-0" />
+                        : <XCircle className="w-14 h-14 text-red-500 shrink-0" />}
+                    <div className="min-w-0">
+                        {result.student && (
+                            <p className="text-2xl font-bold text-slate-800 truncate">{result.student.fullName}</p>
+                        )}
+                        <p className={`text-lg font-bold ${accepted ? 'text-emerald-700' : 'text-red-700'}`}>{result.message}</p>
+                        {result.slot && (
+                            <p className="text-sm text-slate-500">Clase {result.slot.timeSlot}</p>
+                        )}
+                        {result.status === 'OK' && result.student && (
+                            <p className="text-sm text-slate-500">Le quedan {(result.student.remainingCredits || 0) - 1} clases</p>
+                        )}
+                    </div>
+                </div>
+            )}
+
+            {/* MANUAL ENTRY */}
+            <form onSubmit={handleManualSubmit} className="bg-white p-4 rounded-2xl shadow-sm border border-slate-100 flex gap-3">
+                <input
+                    type="text"
+                    inputMode="numeric"
+                    value={manualCode}
+                    onChange={(e) => setManualCode(e.target.value)}
+                    placeholder="Ingresar código manualmente"
+                    className="flex-1 px-4 py-3 rounded-xl border border-slate-200 focus:outline-none focus:ring-2 focus:ring-sky-500/50 font-mono"
+                />
+                <button
+                    type="submit"
+                    disabled={processing || !manualCode.trim()}
+                    className="bg-slate-900 text-white px-6 py-3 rounded-xl font-bold hover:bg-slate-800 transition-colors disabled:opacity-50"
+                >
+                    Registrar
+                </button>
+            </form>
+        </div>
+    );
+}
@@ -0,0 +1,323 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { Search, RefreshCw, X, Clock } from 'lucide-react';
+import { recoveryService, type BookableSlot } from '../services/recoveryService';
+import { categoryService } from '../services/categoryService';
+import { useSeason } from '../contexts/SeasonContext';
+import { useAuth } from '../context/AuthContext';
+import { dateUtils } from '../utils/date';
+import type { Recovery, RecoveryStatus, Category } from '../types/db';
+
+type StatusFilter = RecoveryStatus | 'ALL';
+
+const STATUS_LABELS: Record<RecoveryStatus, string> = {
+    AVAILABLE: 'Disponible',
+    BOOKED: 'Agendada',
+    USED: 'Usada',
+    CANCELLED: 'Anulada'
+};
+
+const STATUS_STYLES: Record<RecoveryStatus, string> = {
+    AVAILABLE: 'bg-sky-100 text-sky-700',
+    BOOKED: 'bg-amber-100 text-amber-700',
+    USED: 'bg-emerald-100 text-emerald-700',
+    CANCELLED: 'bg-slate-100 text-slate-500'
+};
+
+const formatDay = (date: string) => {
+    const [y, m, d] = date.split('-');
+    return `${d}/${m}/${y}`;
+};
+
+/**
+ * Recuperaciones: classes missed (marked absent) that can be made up in another slot of the
+ * same category. Booking never changes the student's fixed schedule.
+ */
+export default function Recoveries() {
+    const { currentSeason } = useSeason();
+    const { user } = useAuth();
+    const [recoveries, setRecoveries] = useState<Recovery[]>([]);
+    const [categories, setCategories] = useState<Category[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [statusFilter, setStatusFilter] = useState<StatusFilter>('AVAILABLE');
+    const [searchTerm, setSearchTerm] = useState('');
+
+    // Booking modal
+    const [booking, setBooking] = useState<Recovery | null>(null);
+    const [bookingDate, setBookingDate] = useState('');
+    const [bookableSlots, setBookableSlots] = useState<BookableSlot[]>([]);
+    const [loadingSlots, setLoadingSlots] = useState(false);
+    const [saving, setSaving] = useState(false);
+
+    const today = dateUtils.formatDateId(new Date());
+
+    const loadData = useCallback(async () => {
+        if (!currentSeason) return;
+        setLoading(true);
+        try {
+            const [list, cats] = await Promise.all([
+                recoveryService.getBySeason(currentSeason.id),
+                categoryService.getAll()
+            ]);
+            setRecoveries(list);
+            setCategories(cats);
+        } catch (error) {
+            console.error("Error loading recoveries:", error);
+        } finally {
+            setLoading(false);
+        }
+    }, [currentSeason]);
+
+    useEffect(() => {
+        loadData();
+    }, [loadData]);
+
+    const isExpired = useCallback((r: Recovery) => r.status === 'AVAILABLE' && r.expiresAt < today, [today]);
+
+    const filtered = useMemo(() => {
+        const term = searchTerm.trim().toUpperCase();
+        return recoveries.filter(r =>
+            (statusFilter === 'ALL' || r.status === statusFilter) &&
+            (!term || r.studentName.toUpperCase().includes(term))
+        );
+    }, [recoveries, statusFilter, searchTerm]);
+
+    const counts = useMemo(() => {
+        const result: Record<RecoveryStatus, number> = { AVAILABLE: 0, BOOKED: 0, USED: 0, CANCELLED: 0 };
+        recoveries.forEach(r => {
+            if (!isExpired(r)) result[r.status]++;
+        });
+        return result;
+    }, [recoveries, isExpired]);
+
+    const categoryName = (id: string) => categories.find(c => c.id === id)?.name || id;
+
+    const openBooking = (recovery: Recovery) => {
+        setBooking(recovery);
+        setBookingDate('');
+        setBookableSlots([]);
+    };
+
+    const handleDateChange = async (date: string) => {
+        setBookingDate(date);
+        setBookableSlots([]);
+        if (!booking || !date) return;
+        setLoadingSlots(true);
+        try {
+            setBookableSlots(await recoveryService.getBookableSlots(booking, date));
+        } catch (error) {
+            console.error("Error loading bookable slots:", error);
+        } finally {
+            setLoadingSlots(false);
+        }
+    };
+
+    const handleBook = async (slot: BookableSlot) => {
+        if (!booking || !bookingDate) return;
+        if (!confirm(`¿Agendar recuperación de ${booking.studentName} el ${formatDay(bookingDate)} a las ${slot.slot.timeSlot}?`)) return;
+        setSaving(true);
+        try {
+            await recoveryService.book(booking.id, slot.slot.id, bookingDate, user?.uid);
+            setBooking(null);
+            await loadData();
+        } catch (error) {
+            console.error("Error booking recovery:", error);
+            alert(error instanceof Error ? error.message : 'Error al agendar la recuperación');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleCancelBooking = async (recovery: Recovery) => {
+        if (!confirm(`¿Anular la recuperación agendada de ${recovery.studentName}? El cupo queda libre y la clase vuelve a estar disponible.`)) return;
+        try {
+            await recoveryService.cancelBooking(recovery.id);
+            await loadData();
+        } catch (error) {
+            console.error("Error cancelling recovery booking:", error);
+            alert(error instanceof Error ? error.message : 'Error al anular la recuperación');
+        }
+    };
+
+    if (!currentSeason) {
+        return (
+            <div className="bg-white rounded-2xl border border-slate-100 p-12 text-center text-slate-400">
+                No hay temporada activa.
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-6">
+            <div className="flex items-start justify-between gap-4">
+                <div>
+                    <h2 className="text-3xl font-bold text-slate-800">Recuperaciones</h2>
+                    <p className="text-slate-500">
+                        Cada falta da derecho a una clase de recuperación en otro horario de la misma categoría.
+                    </p>
+                </div>
+                <button
+                    onClick={loadData}
+                    className="p-3 text-slate-400 hover:text-sky-600 hover:bg-sky-50 rounded-xl transition-colors"
+                    title="Actualizar"
+                >
+                    <RefreshCw className="w-6 h-6" />
+                </button>
+            </div>
+
+            <div className="flex flex-col md:flex-row gap-3 md:items-center md:justify-between">
+                <div className="flex gap-2 flex-wrap">
+                    {(['AVAILABLE', 'BOOKED', 'USED', 'CANCELLED', 'ALL'] as StatusFilter[]).map(status => (
+                        <button
+                            key={status}
+                            onClick={() => setStatusFilter(status)}
+                            className={`px-4 py-2 rounded-xl font-bold text-sm transition-all ${statusFilter === status
+                                ? 'bg-slate-900 text-white'
+                                : 'bg-white border border-slate-200 text-slate-600'
+                                }`}
+                        >
+                            {status === 'ALL' ? 'Todas' : `${STATUS_LABELS[status]} (${counts[status]})`}
+                        </button>
+                    ))}
+                </div>
+                <div className="relative md:w-72">
+                    <Search className="w-4 h-4 text-slate-400 absolute left-3 top-1/2 -translate-y-1/2" />
+                    <input
+                        type="text"
+                        value={searchTerm}
+                        onChange={(e) => setSearchTerm(e.target.value)}
+                        placeholder="Buscar alumno..."
+                        className="w-full pl-9 pr-3 py-2 rounded-xl border border-slate-200 focus:outline-none focus:ring-2 focus:ring-sky-500/50"
+                    />
+                </div>
+            </div>
+
+            <div className="bg-white rounded-2xl shadow-sm border border-slate-100 overflow-hidden">
+                {loading ? (
+                    <div className="flex justify-center py-12">
+                        <RefreshCw className="w-8 h-8 text-slate-300 animate-spin" />
+                    </div>
+                ) : filtered.length === 0 ? (
+                    <div className="p-12 text-center text-slate-400">No hay recuperaciones.</div>
+                ) : (
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-sm">
+                            <thead className="bg-slate-50 text-slate-500 text-xs uppercase">
+                                <tr>
+                                    <th className="px-4 py-3 text-left">Alumno</th>
+                                    <th className="px-4 py-3 text-left">Categoría</th>
+                                    <th className="px-4 py-3 text-left">Faltó el</th>
+                                    <th className="px-4 py-3 text-left">Vence</th>
+                                    <th className="px-4 py-3 text-left">Estado</th>
+                                    <th className="px-4 py-3 text-left">Recuperación</th>
+                                    <th className="px-4 py-3 text-right">Acciones</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-slate-100">
+                                {filtered.map(r => (
+                                    <tr key={r.id} className="hover:bg-slate-50">
+                                        <td className="px-4 py-3 font-bold text-slate-800">{r.studentName}</td>
+                                        <td className="px-4 py-3 text-slate-600">{categoryName(r.categoryId)}</td>
+                                        <td className="px-4 py-3 font-mono">{formatDay(r.missedDate)}</td>
+                                        <td className="px-4 py-3 font-mono">{formatDay(r.expiresAt)}</td>
+                                        <td className="px-4 py-3">
+                                            {isExpired(r) ? (
+                                                <span className="text-xs font-bold px-2 py-0.5 rounded bg-red-100 text-red-700">VENCIDA</span>
+                                            ) : (
+                                                <span className={`text-xs font-bold px-2 py-0.5 rounded ${STATUS_STYLES[r.status]}`}>
+                                                    {STATUS_LABELS[r.status]}
+                                                </span>
+                                            )}
+                                        </td>
+                                        <td className="px-4 py-3 font-mono text-slate-600">
+                                            {r.bookedDate ? `${formatDay(r.bookedDate)} ${r.bookedTimeSlot || ''}` : '-'}
+                                        </td>
+                                        <td className="px-4 py-3 text-right whitespace-nowrap">
+                                            {r.status === 'AVAILABLE' && !isExpired(r) && (
+                                                <button
+                                                    onClick={() => openBooking(r)}
+                                                    className="px-3 py-1.5 rounded-lg bg-sky-600 text-white font-bold text-xs hover:bg-sky-700"
+                                                >
+                                                    Agendar
+                                                </button>
+                                            )}
+                                            {r.status === 'BOOKED' && (
+                                                <button
+                                                    onClick={() => handleCancelBooking(r)}
+                                                    className="px-3 py-1.5 rounded-lg border border-slate-200 text-slate-600 font-bold text-xs hover:bg-slate-50"
+                                                >
+                                                    Anular
+                                                </button>
+                                            )}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </div>
+
+            {/* BOOKING MODAL */}
+            {booking && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+                    <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md overflow-hidden">
+                        <div className="p-4 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+                            <div>
+                                <h3 className="text-lg font-bold text-slate-800">Agendar Recuperación</h3>
+                                <p className="text-sm text-slate-500">{booking.studentName} · {categoryName(booking.categoryId)}</p>
+                            </div>
+                            <button onClick={() => setBooking(null)} className="text-slate-400 hover:text-slate-600">
+                                <X className="w-5 h-5" />
+                            </button>
+                        </div>
+                        <div className="p-6 space-y-4">
+                            <div>
+                                <label className="block text-xs font-bold text-slate-500 mb-1 uppercase">Fecha</label>
+                                <input
+                                    type="date"
+                                    value={bookingDate}
+                                    min={today}
+                                    max={booking.expiresAt}
+                                    onChange={(e) => handleDateChange(e.target.value)}
+                                    className="w-full px-3 py-2 rounded-xl border border-slate-200 focus:outline-none focus:ring-2 focus:ring-sky-500/50"
+                                />
+                                <p className="text-xs text-slate-400 mt-1">Disponible hasta el {formatDay(booking.expiresAt)}.</p>
+                            </div>
+
+                            {bookingDate && (
+                                loadingSlots ? (
+                                    <div className="flex justify-center py-6">
+                                        <RefreshCw className="w-6 h-6 text-slate-300 animate-spin" />
+                                    </div>
+                                ) : bookableSlots.length === 0 ? (
+                                    <p className="text-sm text-slate-500 text-center py-4">
+                                        No hay horarios con cupo para esa fecha.
+                                    </p>
+                                ) : (
+                                    <div className="space-y-2">
+                                        {bookableSlots.map(s => (
+                                            <button
+                                                key={s.slot.id}
+                                                onClick={() => handleBook(s)}
+                                                disabled={saving}
+                                                className="w-full flex items-center justify-between px-4 py-3 rounded-xl border border-slate-200 hover:border-sky-400 hover:bg-sky-50 transition-colors disabled:opacity-50"
+                                            >
+                                                <span className="flex items-center gap-2 font-bold text-slate-700">
+                                                    <Clock className="w-4 h-4 text-slate-400" />
+                                                    {s.slot.timeSlot}
+                                                </span>
+                                                <span className="text-xs font-bold text-emerald-600">
+                                                    {s.available} cupo{s.available !== 1 ? 's' : ''}
+                                                </span>
+                                            </button>
+                                        ))}
+                                    </div>
+                                )
+                            )}
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
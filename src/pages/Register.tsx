@@ -1,7 +1,8 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { useNavigate, Link } from 'react-router-dom';
 import { createUserWithEmailAndPassword, updateProfile } from 'firebase/auth';
 import { auth } from '../lib/firebase';
+import { userService } from '../services/userService';
 import { AlertCircle } from 'lucide-react';
 
 export default function Register() {
@@ -9,19 +10,45 @@ export default function Register() {
     const [name, setName] = useState('');
     const [email, setEmail] = useState('');
     const [password, setPassword] = useState('');
+    const [invitationCode, setInvitationCode] = useState('');
+    const [requireInvitation, setRequireInvitation] = useState(false);
     const [error, setError] = useState('');
     const [loading, setLoading] = useState(false);
 
+    useEffect(() => {
+        userService.getRegistrationSettings()
+            .then(settings => setRequireInvitation(settings.requireInvitation))
+            .catch(err => console.error("Error loading registration settings:", err));
+    }, []);
+
     const handleRegister = async (e: React.FormEvent) => {
         e.preventDefault();
         setError('');
         setLoading(true);
 
+        const code = invitationCode.trim().toUpperCase();
+
         try {
+            // Validate the code before creating the account
+            if (requireInvitation || code) {
+                const invitation = code ? await userService.getInvitation(code) : null;
+                if (!invitation) {
+                    setError('Código de invitación no válido.');
+                    return;
+                }
+                if (invitation.usedBy) {
+                    setError('Este código de invitación ya fue utilizado.');
+                    return;
+                }
+            }
+
             const userCredential = await createUserWithEmailAndPassword(auth, email, password);
             await updateProfile(userCredential.user, {
                 displayName: name
             });
+            if (code) {
+                await userService.redeemInvitation(code, userCredential.user, name);
+            }
             navigate('/');
         } catch (err: any) {
             console.error(err);
@@ -29,6 +56,8 @@ export default function Register() {
                 setError('El correo ya está registrado.');
             } else if (err.code === 'auth/weak-password') {
                 setError('La contraseña es muy débil (mínimo 6 caracteres).');
+            } else if (!err.code && err.message) {
+                setError(err.message);
             } else {
                 setError('Ocurrió un error al registrarse.');
             }
@@ -88,6 +117,19 @@ export default function Register() {
                                 onChange={e => setPassword(e.target.value)}
                             />
                         </div>
+                        <div>
+                            <label className="block text-sm font-medium text-slate-700 mb-2">
+                                Código de Invitación {!requireInvitation && <span className="text-slate-400 font-normal">(opcional)</span>}
+                            </label>
+                            <input
+                                type="text"
+                                required={requireInvitation}
+                                className="w-full px-4 py-3 rounded-xl border border-slate-200 focus:outline-none focus:ring-2 focus:ring-emerald-500/50 focus:border-emerald-500 transition-all font-mono uppercase tracking-widest"
+                                placeholder="XXXXXXXX"
+                                value={invitationCode}
+                                onChange={e => setInvitationCode(e.target.value)}
+                            />
+                        </div>
                         <button
                             type="submit"
                             disabled={loading}
@@ -18,24 +18,44 @@ import {
     AlertCircle,
     AlertTriangle,
     Download,
-    UserX
+    UserX,
+    ArrowRightLeft,
+    Snowflake,
+    Receipt as ReceiptIcon
 } from 'lucide-react';
 import * as XLSX from 'xlsx';
-import { studentService } from '../services/students';
+import { studentService, getDebtLabel } from '../services/students';
+import { financeService } from '../services/finance';
 import { useStudentsCache } from '../hooks/useStudentsCache';
 import { categoryService } from '../services/categoryService';
 import { scheduleTemplateService } from '../services/scheduleTemplateService';
 import { paymentMethodService } from '../services/paymentMethodService';
 import { seasonService } from '../services/seasonService';
 import { packageValidationService } from '../services/packageValidation';
+import { packageService } from '../services/packageService';
+import { discountService, applyDiscounts, getOfferedRules } from '../services/discountService';
 import { calculateRealRemaining } from '../utils/studentUtils';
+import { getFreezeFor } from '../utils/freezeUtils';
+import { dateUtils } from '../utils/date';
 import { monthlyScheduleService } from '../services/monthlyScheduleService';
-import type { Student, Debt, Category, Package, Season, DayType, ScheduleTemplate, PaymentMethodConfig } from '../types/db';
+import { waitlistService } from '../services/waitlistService';
+import { useAuth } from '../context/AuthContext';
+import { useSeason } from '../contexts/SeasonContext';
+import { ReceiptModal } from '../components/receipts/ReceiptModal';
+import { StudentLedgerModal } from '../components/students/StudentLedgerModal';
+import { StudentTransferModal } from '../components/students/StudentTransferModal';
+import { StudentFreezeModal } from '../components/students/StudentFreezeModal';
+import { DiscountPicker } from '../components/students/DiscountPicker';
+import type { Student, Debt, Category, Package, Season, DayType, ScheduleTemplate, PaymentMethodConfig, Receipt, DiscountRule } from '../types/db';
 
 export default function Students() {
     const navigate = useNavigate();
     // Use cache hook instead of local state
     const { students: cachedStudents, loading: cacheLoading, refetch: refetchStudents, invalidateCache } = useStudentsCache();
+    const { cashier, user } = useAuth();
+    // A past season is viewed read-only: its students are loaded apart from the active-season cache
+    const { viewingSeason, isReadOnly } = useSeason();
+    const [pastStudents, setPastStudents] = useState<Student[] | null>(null);
     const [loading, setLoading] = useState(true);
     const [searchTerm, setSearchTerm] = useState('');
     const isSubmittingRef = useRef(false);
@@ -68,13 +88,20 @@ export default function Students() {
     const [editingStudent, setEditingStudent] = useState<Student | null>(null);
     const [step, setStep] = useState(1); // 1: Personal, 2: Schedule, 3: Payment, 4: Confirmation
     const [registeredStudentDni, setRegisteredStudentDni] = useState<string | null>(null);
+    const [registeredReceipt, setRegisteredReceipt] = useState<Receipt | null>(null);
+
+    // RECEIPTS (boletas)
+    const [receiptToShow, setReceiptToShow] = useState<Receipt | null>(null);
+    const [historyStudent, setHistoryStudent] = useState<Student | null>(null); // Ledger modal
+    const [transferStudent, setTransferStudent] = useState<Student | null>(null); // Schedule transfer modal
+    const [freezeStudent, setFreezeStudent] = useState<Student | null>(null); // Package freeze modal
 
     // DEBT Modal State
     const [isDebtModalOpen, setIsDebtModalOpen] = useState(false);
     const [selectedDebts, setSelectedDebts] = useState<Debt[]>([]);
     const [studentForDebt, setStudentForDebt] = useState<Student | null>(null);
     // Partial Payment State
-    const [payingDebtId, setPayingDebtId] = useState<string | null>(null);
+    const [isPayingDebt, setIsPayingDebt] = useState(false);
     const [paymentPartialAmount, setPaymentPartialAmount] = useState('');
     const [paymentPartialMethodId, setPaymentPartialMethodId] = useState('');
 
@@ -91,6 +118,7 @@ export default function Students() {
     const [isSuspendModalOpen, setIsSuspendModalOpen] = useState(false);
     const [suspendSearchTerm, setSuspendSearchTerm] = useState('');
     const [studentToSuspend, setStudentToSuspend] = useState<Student | null>(null);
+    const [suspendReason, setSuspendReason] = useState('');
 
     // Filter State
     const [showSuspended, setShowSuspended] = useState(false);
@@ -124,6 +152,11 @@ export default function Students() {
     });
     const [availablePaymentMethods, setAvailablePaymentMethods] = useState<PaymentMethodConfig[]>([]);
 
+    // Discounts of the package (wizard) or recharge being sold
+    const [discountRules, setDiscountRules] = useState<DiscountRule[]>([]);
+    const [promoCode, setPromoCode] = useState('');
+    const [confirmedDiscountIds, setConfirmedDiscountIds] = useState<string[]>([]);
+
     // Multiple payment entries for registration
     const [paymentEntries, setPaymentEntries] = useState<Array<{
         id: string;
@@ -157,13 +190,24 @@ export default function Students() {
         loadCategories();
         loadActiveSeason();
         loadPaymentMethods();
+        loadDiscountRules();
     }, []);
 
+    const viewingSeasonId = isReadOnly ? viewingSeason?.id : undefined;
+    useEffect(() => {
+        setPastStudents(null);
+        if (!viewingSeasonId) return;
+        studentService.getBySeason(viewingSeasonId, false)
+            .then(setPastStudents)
+            .catch(error => console.error("Error loading season students:", error));
+    }, [viewingSeasonId]);
+
     // Filter cached students by active season
     const students = useMemo(() => {
+        if (viewingSeasonId) return pastStudents || [];
         if (!activeSeason || !cachedStudents) return [];
         return cachedStudents.filter(s => s.seasonId === activeSeason.id);
-    }, [cachedStudents, activeSeason]);
+    }, [cachedStudents, activeSeason, viewingSeasonId, pastStudents]);
 
     // Update loading state from cache
     useEffect(() => {
@@ -218,7 +262,8 @@ export default function Students() {
             const calculatedEnd = packageValidationService.calculatePreciseEndDate(
                 start,
                 Number(paymentData.credits),
-                selectedDays
+                selectedDays,
+                activeSeason?.closures
             );
 
             setPaymentData(prev => ({
@@ -228,7 +273,7 @@ export default function Students() {
         } else {
             setPaymentData(prev => ({ ...prev, endDate: '' }));
         }
-    }, [paymentData.startDate, paymentData.credits, fixedSchedule]);
+    }, [paymentData.startDate, paymentData.credits, fixedSchedule, activeSeason]);
 
     // Removed loadStudents - now using cache hook
 
@@ -260,6 +305,40 @@ export default function Students() {
         }
     };
 
+    const loadDiscountRules = async () => {
+        try {
+            setDiscountRules(await discountService.getActive());
+        } catch (error) {
+            console.error("Error loading discount rules:", error);
+        }
+    };
+
+    // Price of a package or recharge with the discounts that apply today
+    const getPricing = (listPrice: number, packageId: string | null | undefined, isRecharge: boolean, code = promoCode, confirmedRuleIds = confirmedDiscountIds) =>
+        applyDiscounts(listPrice, discountRules, {
+            seasonId: activeSeason?.id,
+            packageId,
+            isRecharge,
+            date: dateUtils.formatDateId(new Date()),
+            promoCode: code,
+            confirmedRuleIds
+        });
+
+    const handleDiscountChange = (code: string, confirmedRuleIds: string[]) => {
+        setPromoCode(code);
+        setConfirmedDiscountIds(confirmedRuleIds);
+        // In the wizard the total cost follows the package price after discounts
+        if (selectedPackage && !isRechargeModalOpen) {
+            const { netPrice } = getPricing(selectedPackage.price, selectedPackage.id, false, code, confirmedRuleIds);
+            setPaymentData(prev => ({ ...prev, totalCost: netPrice.toString() }));
+        }
+    };
+
+    // Students of the season with the same phone number (likely siblings)
+    const getSiblingHint = (phone: string, excludeId?: string) => phone
+        ? students.filter(s => s.phone === phone && s.id !== excludeId).map(s => s.fullName).join(', ')
+        : '';
+
     // Auto-select first payment method for entries if they are empty
     useEffect(() => {
         if (isModalOpen && availablePaymentMethods.length > 0 && paymentEntries.length === 0) {
@@ -334,6 +413,34 @@ export default function Students() {
 
 
 
+    // Full schedule: leave the person in line instead of a paper list
+    const handleAddToWaitlist = async (template: ScheduleTemplate) => {
+        if (!activeSeason) return;
+        const name = editingStudent?.fullName || formData.fullName;
+        if (!name.trim()) {
+            alert('Ingrese el nombre del alumno en el paso 1.');
+            return;
+        }
+        if (!confirm(`¿Agregar a ${name} a la lista de espera de ${dayTypeLabels[template.dayType]} ${template.timeSlot}?`)) return;
+
+        try {
+            await waitlistService.add({
+                seasonId: activeSeason.id,
+                dayType: template.dayType,
+                timeSlot: template.timeSlot,
+                categoryId: formData.categoryId,
+                ...(editingStudent && { studentId: editingStudent.id }),
+                studentName: name,
+                phone: editingStudent?.phone || formData.phone,
+                createdBy: user?.uid
+            });
+            alert('✅ Agregado a la lista de espera.');
+        } catch (error) {
+            console.error("Error adding to waitlist:", error);
+            alert(error instanceof Error ? error.message : 'Error al agregar a la lista de espera');
+        }
+    };
+
     const handleCreateNew = () => {
         setEditingStudent(null);
         setFormData({
@@ -359,7 +466,10 @@ export default function Students() {
         });
         setStep(1);
         setSelectedPackage(null);
+        setPromoCode('');
+        setConfirmedDiscountIds([]);
         setRegisteredStudentDni(null);
+        setRegisteredReceipt(null);
         // Initialize with one empty payment entry using first available method
         const defaultMethodId = availablePaymentMethods[0]?.id || '';
         setPaymentEntries([{ id: `pay_${Date.now()}`, amount: '', methodId: defaultMethodId }]);
@@ -391,15 +501,16 @@ export default function Students() {
         if (!confirm("¿Estás seguro de eliminar este alumno COMPLETAMENTE?")) return;
 
         const deleteFinancials = confirm("¿Desea borrar también sus datos financieros (pagos y deudas)?\n\n[Aceptar] = Borrar Todo\n[Cancelar] = Mantener Historial Financiero");
+        const reason = prompt("Motivo de la eliminación (queda registrado en auditoría):") || undefined;
 
         try {
-            await studentService.delete(studentId, deleteFinancials);
+            await studentService.delete(studentId, deleteFinancials, reason);
             invalidateCache();
             await refetchStudents();
             alert("Alumno eliminado correctamente.");
         } catch (error) {
             console.error("Error deleting student:", error);
-            alert("Error al eliminar");
+            alert(error instanceof Error ? error.message : "Error al eliminar");
         }
     };
 
@@ -455,7 +566,7 @@ export default function Students() {
                 let packageStartDate: string | undefined = formData.packageStartDate || paymentData.startDate || undefined;
                 let packageEndDate: string | undefined = paymentData.endDate || undefined;
 
-                await studentService.create({
+                const receipt = await studentService.create({
                     id: newStudentDni,
                     ...formData,
                     birthDate: formData.birthDate,
@@ -465,21 +576,25 @@ export default function Students() {
                     fixedSchedule: fixedSchedule,
                     currentPackageId: selectedPackage?.id || null,
                     packageStartDate: packageStartDate || null,
-                    packageEndDate: packageEndDate || null
+                    packageEndDate: packageEndDate || null,
+                    closuresApplied: (activeSeason?.closures || []).map(c => c.id)
                 }, {
                     totalCost: Number(paymentData.totalCost) || 0,
                     credits: Number(paymentData.credits) || 0,
+                    pricing: selectedPackage ? getPricing(selectedPackage.price, selectedPackage.id, false) : undefined,
                     // Multiple payment entries
                     payments: paymentEntries
                         .filter(e => Number(e.amount) > 0) // Only include entries with amount
                         .map(e => ({
                             amount: Number(e.amount),
                             method: e.methodId
-                        }))
+                        })),
+                    cashier: cashier!
                 });
 
                 // Go to step 4 (confirmation) instead of closing
                 setRegisteredStudentDni(newStudentDni);
+                setRegisteredReceipt(receipt);
                 setStep(4);
                 invalidateCache();
                 await refetchStudents();
@@ -500,46 +615,47 @@ export default function Students() {
         setSelectedDebts([]);
         try {
             const debts = await studentService.getDebts(student.dni);
-            setSelectedDebts(debts);
+            setSelectedDebts(debts.sort((a, b) => a.dueDate - b.dueDate));
         } catch (e) {
             console.error(e);
             alert("Error cargando deudas");
         }
     };
 
-    const handleStartDebtPayment = (debt: Debt) => {
-        setPayingDebtId(debt.id);
-        setPaymentPartialAmount(debt.balance.toString());
+    // Defaults to the oldest installment; any amount is applied oldest first
+    const handleStartDebtPayment = () => {
+        setIsPayingDebt(true);
+        setPaymentPartialAmount(selectedDebts[0].balance.toFixed(2));
         // Default to first active method or CASH
         const defaultMethod = availablePaymentMethods.find(m => m.isActive)?.id || 'CASH';
         setPaymentPartialMethodId(defaultMethod);
     };
 
     const handleCancelDebtPayment = () => {
-        setPayingDebtId(null);
+        setIsPayingDebt(false);
         setPaymentPartialAmount('');
         setPaymentPartialMethodId('');
     };
 
-    const handleConfirmDebtPayment = async (debt: Debt) => {
+    const handleConfirmDebtPayment = async () => {
         const payAmount = Number(paymentPartialAmount);
         if (isNaN(payAmount) || payAmount <= 0) {
             alert("Monto inválido");
             return;
         }
 
-        if (payAmount > debt.balance) {
-            if (!confirm(`El monto (S/ ${payAmount}) es mayor al saldo pendiente (S/ ${debt.balance}). ¿Desea continuar y registrar un pago mayor?`)) {
-                return;
-            }
+        const totalBalance = selectedDebts.reduce((sum, d) => sum + d.balance, 0);
+        if (payAmount > totalBalance + 0.001) {
+            alert(`El monto (S/ ${payAmount}) es mayor al saldo pendiente (S/ ${totalBalance.toFixed(2)}).`);
+            return;
         }
 
         try {
-            await studentService.payDebt(debt.id, payAmount, paymentPartialMethodId);
-            // alert("Pago registrado");
+            const receipt = await studentService.payDebt(studentForDebt!.dni, payAmount, paymentPartialMethodId, cashier!);
+            setReceiptToShow(receipt);
 
             const updatedDebts = await studentService.getDebts(studentForDebt!.dni);
-            setSelectedDebts(updatedDebts);
+            setSelectedDebts(updatedDebts.sort((a, b) => a.dueDate - b.dueDate));
 
             // Close inline payment
             handleCancelDebtPayment();
@@ -566,6 +682,8 @@ export default function Students() {
             amount: '',
             newEndDate: student.packageEndDate || ''
         });
+        setPromoCode('');
+        setConfirmedDiscountIds([]);
         setIsRechargeModalOpen(true);
     };
 
@@ -578,18 +696,21 @@ export default function Students() {
         try {
             // Default to first active method or CASH
             const defaultMethod = availablePaymentMethods.find(m => m.isActive)?.id || 'CASH';
+            const pricing = getPricing(Number(rechargeData.amount), studentForRecharge.currentPackageId, true);
 
-            await studentService.addCredits(
+            const receipt = await studentService.addCredits(
                 studentForRecharge.id,
                 Number(rechargeData.credits),
-                Number(rechargeData.amount),
+                pricing.netPrice,
                 defaultMethod,
-                "ADMIN", // CreatedBy placeholder
-                rechargeData.newEndDate || undefined
+                cashier!,
+                rechargeData.newEndDate || undefined,
+                activeSeason?.closures,
+                pricing
             );
 
-            // alert("Recarga exitosa");
             setIsRechargeModalOpen(false);
+            setReceiptToShow(receipt);
             invalidateCache();
             await refetchStudents();
         } catch (error: any) {
@@ -611,7 +732,8 @@ export default function Students() {
             const predictedEnd = packageValidationService.calculateExtensionDate(
                 studentForRecharge.packageEndDate || null,
                 credits,
-                selectedDays
+                selectedDays,
+                activeSeason?.closures
             );
 
             setRechargeData(prev => ({
@@ -619,7 +741,7 @@ export default function Students() {
                 newEndDate: predictedEnd.toISOString().split('T')[0]
             }));
         }
-    }, [rechargeData.credits, studentForRecharge, isRechargeModalOpen]);
+    }, [rechargeData.credits, studentForRecharge, isRechargeModalOpen, activeSeason]);
 
 
 
@@ -628,6 +750,7 @@ export default function Students() {
         setIsSuspendModalOpen(true);
         setSuspendSearchTerm('');
         setStudentToSuspend(null);
+        setSuspendReason('');
     };
 
     const handleConfirmSuspend = async () => {
@@ -636,7 +759,7 @@ export default function Students() {
 
         setIsSaving(true);
         try {
-            await studentService.suspendStudent(studentToSuspend.id);
+            await studentService.suspendStudent(studentToSuspend.id, suspendReason.trim() || undefined);
             // alert("Alumno suspendido exitosamente");
             setIsSuspendModalOpen(false);
             invalidateCache();
@@ -670,22 +793,8 @@ export default function Students() {
             // Fetch ALL students from the active season (not just the paginated ones)
             const allSeasonStudents = await studentService.getBySeason(activeSeason.id, false);
 
-            // Fetch all payments to calculate total paid per student
-            const { collection, getDocs } = await import('firebase/firestore');
-            const { db } = await import('../lib/firebase');
-
-            const paymentsSnapshot = await getDocs(collection(db, 'payments'));
-            const paymentsByStudent: Record<string, number> = {};
-
-            paymentsSnapshot.docs.forEach(doc => {
-                const payment = doc.data();
-                const studentId = payment.studentId;
-                const amount = payment.amount || 0;
-
-                if (studentId) {
-                    paymentsByStudent[studentId] = (paymentsByStudent[studentId] || 0) + amount;
-                }
-            });
+            // Total paid per student (this season's payments only)
+            const paymentsByStudent = await financeService.getTotalsByStudent(activeSeason.id);
 
             // Prepare data for export using ALL students from the season
             const exportData = allSeasonStudents.map(student => {
@@ -716,7 +825,7 @@ export default function Students() {
                     'Edad': student.age || '',
                     'Categoria': category?.name || '',
                     'Horario': horario,
-                    'Clases Restantes': calculateRealRemaining(student),
+                    'Clases Restantes': calculateRealRemaining(student, activeSeason?.closures),
                     'Monto Pagado': montoPagado,
                     'Fecha Inicio': formatDate(student.packageStartDate),
                     'Fecha Fin': formatDate(student.packageEndDate),
@@ -902,9 +1011,28 @@ export default function Students() {
 
     const isOverpaid = totalAmountPaid > Number(paymentData.totalCost);
     const debtAmount = Number(paymentData.totalCost) - totalAmountPaid;
+    // Installments left after the upfront payment (same allocation as the service: oldest first)
+    const installmentPreview = useMemo(() => {
+        if (debtAmount <= 0 || !selectedPackage?.installmentPlan) return [];
+        let paid = totalAmountPaid;
+        return packageService.getInstallmentSchedule(Number(paymentData.totalCost), selectedPackage.installmentPlan)
+            .map(item => {
+                const covered = Math.min(paid, item.amount);
+                paid -= covered;
+                return { ...item, balance: item.amount - covered };
+            });
+    }, [debtAmount, totalAmountPaid, paymentData.totalCost, selectedPackage]);
 
     const currentCategory = formData.categoryId ? getCategoryById(formData.categoryId) : null;
 
+    // Discount rules offered for the package being sold / the recharge
+    const enrollmentDiscountRules = selectedPackage
+        ? getOfferedRules(discountRules, { seasonId: activeSeason?.id, packageId: selectedPackage.id, isRecharge: false })
+        : [];
+    const rechargeDiscountRules = studentForRecharge
+        ? getOfferedRules(discountRules, { seasonId: activeSeason?.id, packageId: studentForRecharge.currentPackageId, isRecharge: true })
+        : [];
+
     // Helper: Calculate which dayTypes are currently selected in the fixedSchedule
     const selectedDayTypes = useMemo(() => {
         const types = new Set<DayType>();
@@ -950,14 +1078,16 @@ export default function Students() {
                         <Download className="w-5 h-5" />
                         Exportar Excel
                     </button>
-                    <button
-                        onClick={handleOpenSuspend}
-                        className="bg-amber-100 text-amber-700 px-4 py-3 rounded-xl font-bold hover:bg-amber-200 transition-all flex items-center gap-2 shadow-lg shadow-amber-500/10"
-                        title="Suspender Alumno"
-                    >
-                        <UserX className="w-5 h-5" />
-                        Suspender
-                    </button>
+                    {!isReadOnly && (
+                        <button
+                            onClick={handleOpenSuspend}
+                            className="bg-amber-100 text-amber-700 px-4 py-3 rounded-xl font-bold hover:bg-amber-200 transition-all flex items-center gap-2 shadow-lg shadow-amber-500/10"
+                            title="Suspender Alumno"
+                        >
+                            <UserX className="w-5 h-5" />
+                            Suspender
+                        </button>
+                    )}
                     <button
                         onClick={() => setShowSuspended(!showSuspended)}
                         className={`px-4 py-3 rounded-xl font-bold transition-all flex items-center gap-2 shadow-lg ${showSuspended ? 'bg-slate-700 text-white shadow-slate-900/20' : 'bg-white text-slate-500 border border-slate-200 hover:bg-slate-50'}`}
@@ -966,13 +1096,15 @@ export default function Students() {
                         {showSuspended ? <CheckCircle className="w-5 h-5" /> : <UserX className="w-5 h-5" />}
                         {showSuspended ? "Ocultar Suspendidos" : "Mostrar Suspendidos"}
                     </button>
-                    <button
-                        onClick={handleCreateNew}
-                        className="bg-slate-900 text-white px-4 py-3 rounded-xl font-bold hover:bg-slate-800 transition-all flex items-center gap-2 shadow-lg shadow-slate-900/20"
-                    >
-                        <Plus className="w-5 h-5" />
-                        Nuevo Alumno
-                    </button>
+                    {!isReadOnly && (
+                        <button
+                            onClick={handleCreateNew}
+                            className="bg-slate-900 text-white px-4 py-3 rounded-xl font-bold hover:bg-slate-800 transition-all flex items-center gap-2 shadow-lg shadow-slate-900/20"
+                        >
+                            <Plus className="w-5 h-5" />
+                            Nuevo Alumno
+                        </button>
+                    )}
                 </div>
             </div>
 
@@ -988,7 +1120,7 @@ export default function Students() {
             </div>
 
             <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
-                {loading || isSearching ? (
+                {loading || isSearching || (viewingSeasonId && !pastStudents) ? (
                     <p className="text-center text-slate-500 col-span-full py-12">Cargando...</p>
                 ) : displayStudents.length === 0 ? (
                     <div className="text-center text-slate-500 col-span-full py-12 bg-white rounded-2xl border border-dashed border-slate-200">
@@ -1014,33 +1146,35 @@ export default function Students() {
                                         <div className="w-12 h-12 rounded-full bg-slate-100 flex items-center justify-center text-slate-500 group-hover:bg-sky-50 group-hover:text-sky-600 transition-colors">
                                             <User className="w-6 h-6" />
                                         </div>
-                                        <div className="flex gap-2">
-                                            {student.hasDebt && (
-                                                <button
-                                                    onClick={() => handleOpenDebt(student)}
-                                                    className="px-3 py-1 bg-red-100 text-red-600 rounded-lg text-xs font-bold hover:bg-red-200 transition-colors flex items-center gap-1"
-                                                    title="Pagar Deuda"
-                                                >
-                                                    <DollarSign className="w-3 h-3" /> Pagar
+                                        {!isReadOnly && (
+                                            <div className="flex gap-2">
+                                                {student.hasDebt && (
+                                                    <button
+                                                        onClick={() => handleOpenDebt(student)}
+                                                        className="px-3 py-1 bg-red-100 text-red-600 rounded-lg text-xs font-bold hover:bg-red-200 transition-colors flex items-center gap-1"
+                                                        title="Pagar Deuda"
+                                                    >
+                                                        <DollarSign className="w-3 h-3" /> Pagar
+                                                    </button>
+                                                )}
+                                                <button onClick={() => handleEdit(student)} className="p-2 text-slate-400 hover:text-sky-600 hover:bg-sky-50 rounded-lg transition-colors">
+                                                    <Pencil className="w-4 h-4" />
                                                 </button>
-                                            )}
-                                            <button onClick={() => handleEdit(student)} className="p-2 text-slate-400 hover:text-sky-600 hover:bg-sky-50 rounded-lg transition-colors">
-                                                <Pencil className="w-4 h-4" />
-                                            </button>
-                                            <button onClick={() => handleDelete(student.id)} className="p-2 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors">
-                                                <Trash2 className="w-4 h-4" />
-                                            </button>
-
-                                            {student.active === false && (
-                                                <button
-                                                    onClick={() => handleReactivate(student.id, student.fullName)}
-                                                    className="p-2 ml-1 bg-emerald-100 text-emerald-700 rounded-lg hover:bg-emerald-200 transition-colors"
-                                                    title="Reactivar Alumno"
-                                                >
-                                                    <CheckCircle className="w-4 h-4" />
+                                                <button onClick={() => handleDelete(student.id)} className="p-2 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors">
+                                                    <Trash2 className="w-4 h-4" />
                                                 </button>
-                                            )}
-                                        </div>
+
+                                                {student.active === false && (
+                                                    <button
+                                                        onClick={() => handleReactivate(student.id, student.fullName)}
+                                                        className="p-2 ml-1 bg-emerald-100 text-emerald-700 rounded-lg hover:bg-emerald-200 transition-colors"
+                                                        title="Reactivar Alumno"
+                                                    >
+                                                        <CheckCircle className="w-4 h-4" />
+                                                    </button>
+                                                )}
+                                            </div>
+                                        )}
                                     </div>
 
                                     <h3 className="text-lg font-bold text-slate-800 mb-1 flex items-center gap-2">
@@ -1061,6 +1195,11 @@ export default function Students() {
                                                 {studentCategory.name}
                                             </span>
                                         )}
+                                        {getFreezeFor(dateUtils.formatDateId(new Date()), student.freezes) && (
+                                            <span className="text-[10px] px-2 py-0.5 rounded-full bg-sky-100 text-sky-700 font-bold uppercase tracking-wider">
+                                                Congelado
+                                            </span>
+                                        )}
                                         {student.observations && (
                                             <span className="text-[10px] px-2 py-0.5 rounded-full bg-slate-100 text-slate-600 font-bold uppercase tracking-wider">
                                                 Con observaciones
@@ -1082,22 +1221,48 @@ export default function Students() {
                                     )}
 
                                     <div className="flex justify-between items-center pt-4 border-t border-slate-50">
-                                        <span className={`inline-block px-3 py-1 rounded-full text-xs font-bold ${calculateRealRemaining(student) > 0
+                                        <span className={`inline-block px-3 py-1 rounded-full text-xs font-bold ${calculateRealRemaining(student, activeSeason?.closures) > 0
                                             ? 'bg-emerald-100 text-emerald-700'
                                             : 'bg-slate-100 text-slate-500'
                                             }`}>
-                                            {calculateRealRemaining(student)} Clases
+                                            {calculateRealRemaining(student, activeSeason?.closures)} Clases
                                         </span>
 
                                         <div className="flex gap-2">
-
                                             <button
-                                                onClick={() => handleOpenRecharge(student)}
-                                                className="bg-sky-50 hover:bg-sky-100 text-sky-600 px-4 py-2 rounded-lg text-sm font-medium transition-colors flex items-center gap-2"
+                                                onClick={() => setHistoryStudent(student)}
+                                                className="bg-slate-50 hover:bg-slate-100 text-slate-500 p-2 rounded-lg transition-colors"
+                                                title="Estado de cuenta"
                                             >
-                                                <CreditCard className="w-4 h-4" />
-                                                Recargar
+                                                <ReceiptIcon className="w-4 h-4" />
                                             </button>
+                                            {activeSeason && !isReadOnly && student.active !== false && (student.fixedSchedule || []).length > 0 && (
+                                                <button
+                                                    onClick={() => setTransferStudent(student)}
+                                                    className="bg-slate-50 hover:bg-slate-100 text-slate-500 p-2 rounded-lg transition-colors"
+                                                    title="Trasladar de horario"
+                                                >
+                                                    <ArrowRightLeft className="w-4 h-4" />
+                                                </button>
+                                            )}
+                                            {!isReadOnly && student.active !== false && student.packageEndDate && (student.fixedSchedule || []).length > 0 && (
+                                                <button
+                                                    onClick={() => setFreezeStudent(student)}
+                                                    className="bg-slate-50 hover:bg-slate-100 text-slate-500 p-2 rounded-lg transition-colors"
+                                                    title="Congelar paquete"
+                                                >
+                                                    <Snowflake className="w-4 h-4" />
+                                                </button>
+                                            )}
+                                            {!isReadOnly && (
+                                                <button
+                                                    onClick={() => handleOpenRecharge(student)}
+                                                    className="bg-sky-50 hover:bg-sky-100 text-sky-600 px-4 py-2 rounded-lg text-sm font-medium transition-colors flex items-center gap-2"
+                                                >
+                                                    <CreditCard className="w-4 h-4" />
+                                                    Recargar
+                                                </button>
+                                            )}
                                         </div>
                                     </div>
                                 </div>
@@ -1393,6 +1558,16 @@ export default function Students() {
                                                                             )}
                                                                         </button>
 
+                                                                        {isFull && !isLoading && !isSelected && (
+                                                                            <button
+                                                                                type="button"
+                                                                                onClick={() => handleAddToWaitlist(template)}
+                                                                                className="mt-1 w-full text-[10px] font-bold text-slate-500 hover:text-sky-600 uppercase tracking-tight"
+                                                                            >
+                                                                                + Lista de espera
+                                                                            </button>
+                                                                        )}
+
                                                                         {/* Informational Message for Full Schedule */}
                                                                         {isSelected && isFull && !editingStudent && capInfo?.earliestAvailableDate && (
                                                                             <div className="absolute top-full left-0 right-0 mt-2 z-20 animate-in slide-in-from-top-2">
@@ -1470,7 +1645,7 @@ export default function Students() {
                                                                 setPaymentData({
                                                                     ...paymentData,
                                                                     credits: pkg.classesPerMonth.toString(),
-                                                                    totalCost: pkg.price.toString()
+                                                                    totalCost: getPricing(pkg.price, pkg.id, false).netPrice.toString()
                                                                 });
                                                             }
                                                         }
@@ -1486,6 +1661,17 @@ export default function Students() {
                                                 </select>
                                             </div>
 
+                                            {selectedPackage && enrollmentDiscountRules.length > 0 && (
+                                                <DiscountPicker
+                                                    rules={enrollmentDiscountRules}
+                                                    pricing={getPricing(selectedPackage.price, selectedPackage.id, false)}
+                                                    promoCode={promoCode}
+                                                    confirmedRuleIds={confirmedDiscountIds}
+                                                    onChange={handleDiscountChange}
+                                                    siblingHint={getSiblingHint(formData.phone)}
+                                                />
+                                            )}
+
                                             <div className="grid grid-cols-2 gap-4">
                                                 <div className="space-y-1">
                                                     <label className="block text-xs font-bold text-slate-500 mb-1 uppercase">Clases a cargar</label>
@@ -1631,7 +1817,7 @@ export default function Students() {
                                                     </div>
                                                 </div>
                                             ) : debtAmount > 0 && (
-                                                <div className="bg-amber-50 p-4 rounded-xl border border-amber-200 flex justify-between items-center animate-in zoom-in-95">
+                                                <div className="bg-amber-50 p-4 rounded-xl border border-amber-200 animate-in zoom-in-95">
                                                     <div className="flex items-center gap-3">
                                                         <div className="w-10 h-10 bg-amber-200/50 rounded-full flex items-center justify-center">
                                                             <Calendar className="w-5 h-5 text-amber-700" />
@@ -1643,6 +1829,20 @@ export default function Students() {
                                                             </p>
                                                         </div>
                                                     </div>
+                                                    {installmentPreview.length > 0 && (
+                                                        <div className="mt-3 pt-3 border-t border-amber-200 space-y-1">
+                                                            {installmentPreview.map(item => (
+                                                                <div key={item.number} className="flex justify-between text-xs text-amber-800">
+                                                                    <span className="font-bold">
+                                                                        Cuota {item.number}/{installmentPreview.length} · vence {new Date(item.dueDate).toLocaleDateString('es-PE', { day: '2-digit', month: '2-digit' })}
+                                                                    </span>
+                                                                    <span className={item.balance < 0.01 ? 'line-through text-amber-500' : 'font-bold'}>
+                                                                        S/ {item.balance < 0.01 ? item.amount.toFixed(2) : item.balance.toFixed(2)}
+                                                                    </span>
+                                                                </div>
+                                                            ))}
+                                                        </div>
+                                                    )}
                                                 </div>
                                             )}
                                         </div>
@@ -1707,6 +1907,17 @@ export default function Students() {
                                         <p className="text-slate-600">El alumno ha sido registrado exitosamente en el sistema.</p>
                                     </div>
 
+                                    {registeredReceipt && (
+                                        <button
+                                            type="button"
+                                            onClick={() => setReceiptToShow(registeredReceipt)}
+                                            className="mx-auto px-6 py-2 border border-slate-200 text-slate-700 rounded-lg font-bold hover:bg-slate-50 transition-colors flex items-center gap-2"
+                                        >
+                                            <ReceiptIcon className="w-4 h-4" />
+                                            Ver Boleta N° {registeredReceipt.id}
+                                        </button>
+                                    )}
+
                                     <div className="bg-sky-50 border border-sky-200 rounded-xl p-6">
                                         <Printer className="w-8 h-8 text-sky-600 mx-auto mb-3" />
                                         <h5 className="font-bold text-slate-800 mb-2">¿Desea imprimir el carnet ahora?</h5>
@@ -1797,79 +2008,85 @@ export default function Students() {
                             <button onClick={() => setIsDebtModalOpen(false)} className="text-red-400 hover:text-red-600">✕</button>
                         </div>
 
-                        <div className="p-6 space-y-4">
+                        <div className="p-6 space-y-4 max-h-[70vh] overflow-y-auto">
                             {selectedDebts.length === 0 ? (
                                 <p className="text-center text-slate-500">Cargando deudas o no tiene pendientes...</p>
                             ) : (
-                                selectedDebts.map(debt => (
-                                    <div key={debt.id} className="border border-slate-100 rounded-xl p-4 shadow-sm">
-                                        <div className="flex justify-between items-start mb-2">
-                                            <span className="text-sm font-bold text-slate-700">{debt.slotId}</span>
-                                            <span className="text-xs bg-red-100 text-red-600 px-2 py-0.5 rounded-full font-bold">PENDIENTE</span>
-                                        </div>
-                                        <div className="flex justify-between items-end">
-                                            <div>
-                                                <p className="text-xs text-slate-400">Total: S/ {debt.amountTotal}</p>
-                                                <p className="text-xs text-slate-400">Pagado: S/ {debt.amountPaid}</p>
-                                                <p className="text-lg font-bold text-slate-800 mt-1">Saldo: S/ {debt.balance.toFixed(2)}</p>
+                                <>
+                                    {selectedDebts.map(debt => (
+                                        <div key={debt.id} className="border border-slate-100 rounded-xl p-4 shadow-sm">
+                                            <div className="flex justify-between items-start mb-2">
+                                                <span className="text-sm font-bold text-slate-700">{getDebtLabel(debt)}</span>
+                                                <span className={`text-xs px-2 py-0.5 rounded-full font-bold ${debt.dueDate < Date.now() ? 'bg-red-100 text-red-600' : 'bg-amber-100 text-amber-700'}`}>
+                                                    {debt.dueDate < Date.now() ? 'VENCIDA' : 'PENDIENTE'}
+                                                </span>
                                             </div>
-
-                                            {payingDebtId === debt.id ? (
-                                                <div className="flex flex-col gap-2 items-end animate-in fade-in zoom-in duration-200">
-                                                    <div className="flex gap-2">
-                                                        <div className="w-24">
-                                                            <label className="text-[10px] font-bold text-slate-500 block mb-0.5">Monto (S/)</label>
-                                                            <input
-                                                                type="number"
-                                                                step="0.01"
-                                                                className="w-full px-2 py-1 rounded border border-slate-300 text-sm"
-                                                                value={paymentPartialAmount}
-                                                                onChange={(e) => setPaymentPartialAmount(e.target.value)}
-                                                            />
-                                                        </div>
-                                                        <div className="w-32">
-                                                            <label className="text-[10px] font-bold text-slate-500 block mb-0.5">Método</label>
-                                                            <select
-                                                                className="w-full px-2 py-1 rounded border border-slate-300 text-sm"
-                                                                value={paymentPartialMethodId}
-                                                                onChange={(e) => setPaymentPartialMethodId(e.target.value)}
-                                                            >
-                                                                {availablePaymentMethods.filter(m => m.isActive).map(m => (
-                                                                    <option key={m.id} value={m.id}>{m.name}</option>
-                                                                ))}
-                                                            </select>
-                                                        </div>
-                                                    </div>
-                                                    <div className="flex gap-2">
-                                                        <button
-                                                            onClick={handleCancelDebtPayment}
-                                                            className="text-slate-400 hover:text-slate-600 text-xs underline"
-                                                        >
-                                                            Cancelar
-                                                        </button>
-                                                        <button
-                                                            onClick={() => handleConfirmDebtPayment(debt)}
-                                                            className="bg-emerald-600 text-white px-3 py-1 rounded text-xs font-bold hover:bg-emerald-700 transition-colors"
-                                                        >
-                                                            Confirmar
-                                                        </button>
-                                                    </div>
+                                            <div className="flex justify-between items-end">
+                                                <div>
+                                                    <p className="text-xs text-slate-400">Total: S/ {debt.amountTotal}</p>
+                                                    <p className="text-xs text-slate-400">Pagado: S/ {debt.amountPaid}</p>
+                                                    <p className="text-lg font-bold text-slate-800 mt-1">Saldo: S/ {debt.balance.toFixed(2)}</p>
                                                 </div>
-                                            ) : (
+                                                <p className="text-xs text-slate-500">
+                                                    Vence: {new Date(debt.dueDate).toLocaleDateString('es-PE', { day: '2-digit', month: '2-digit', year: 'numeric' })}
+                                                </p>
+                                            </div>
+                                        </div>
+                                    ))}
+
+                                    {isPayingDebt ? (
+                                        <div className="bg-slate-50 rounded-xl p-4 space-y-3 animate-in fade-in zoom-in duration-200">
+                                            <div className="flex gap-2">
+                                                <div className="flex-1">
+                                                    <label className="text-[10px] font-bold text-slate-500 block mb-0.5">Monto (S/)</label>
+                                                    <input
+                                                        type="number"
+                                                        step="0.01"
+                                                        className="w-full px-2 py-1 rounded border border-slate-300 text-sm"
+                                                        value={paymentPartialAmount}
+                                                        onChange={(e) => setPaymentPartialAmount(e.target.value)}
+                                                    />
+                                                </div>
+                                                <div className="flex-1">
+                                                    <label className="text-[10px] font-bold text-slate-500 block mb-0.5">Método</label>
+                                                    <select
+                                                        className="w-full px-2 py-1 rounded border border-slate-300 text-sm"
+                                                        value={paymentPartialMethodId}
+                                                        onChange={(e) => setPaymentPartialMethodId(e.target.value)}
+                                                    >
+                                                        {availablePaymentMethods.filter(m => m.isActive).map(m => (
+                                                            <option key={m.id} value={m.id}>{m.name}</option>
+                                                        ))}
+                                                    </select>
+                                                </div>
+                                            </div>
+                                            {selectedDebts.length > 1 && (
+                                                <p className="text-xs text-slate-500">El pago se aplica primero a la cuota más antigua.</p>
+                                            )}
+                                            <div className="flex justify-end gap-2">
                                                 <button
-                                                    onClick={() => handleStartDebtPayment(debt)}
-                                                    disabled={payingDebtId !== null}
-                                                    className={`px-3 py-2 rounded-lg text-sm font-bold transition-colors shadow-lg ${payingDebtId !== null
-                                                        ? 'bg-slate-100 text-slate-400 cursor-not-allowed shadow-none'
-                                                        : 'bg-emerald-600 text-white hover:bg-emerald-700 shadow-emerald-600/20'
-                                                        }`}
+                                                    onClick={handleCancelDebtPayment}
+                                                    className="text-slate-400 hover:text-slate-600 text-xs underline"
                                                 >
-                                                    Pagar
+                                                    Cancelar
                                                 </button>
-                                            )}
+                                                <button
+                                                    onClick={handleConfirmDebtPayment}
+                                                    className="bg-emerald-600 text-white px-3 py-1 rounded text-xs font-bold hover:bg-emerald-700 transition-colors"
+                                                >
+                                                    Confirmar
+                                                </button>
+                                            </div>
                                         </div>
-                                    </div>
-                                ))
+                                    ) : (
+                                        <button
+                                            onClick={handleStartDebtPayment}
+                                            className="w-full px-3 py-2 rounded-lg text-sm font-bold transition-colors shadow-lg bg-emerald-600 text-white hover:bg-emerald-700 shadow-emerald-600/20"
+                                        >
+                                            Pagar (Saldo total S/ {selectedDebts.reduce((sum, d) => sum + d.balance, 0).toFixed(2)})
+                                        </button>
+                                    )}
+                                </>
                             )}
                         </div>
                     </div>
@@ -1903,7 +2120,7 @@ export default function Students() {
                             </div>
 
                             <div>
-                                <label className="block text-sm font-bold text-slate-700 mb-1">Monto a Pagar (S/)</label>
+                                <label className="block text-sm font-bold text-slate-700 mb-1">Precio de la Recarga (S/)</label>
                                 <input
                                     type="number"
                                     min="0"
@@ -1917,6 +2134,17 @@ export default function Students() {
                                 <p className="text-xs text-slate-400 mt-1">Si es recuperación gratuita, ingrese 0.</p>
                             </div>
 
+                            {rechargeDiscountRules.length > 0 && (
+                                <DiscountPicker
+                                    rules={rechargeDiscountRules}
+                                    pricing={getPricing(Number(rechargeData.amount), studentForRecharge.currentPackageId, true)}
+                                    promoCode={promoCode}
+                                    confirmedRuleIds={confirmedDiscountIds}
+                                    onChange={handleDiscountChange}
+                                    siblingHint={getSiblingHint(studentForRecharge.phone, studentForRecharge.id)}
+                                />
+                            )}
+
                             <div>
                                 <label className="block text-sm font-bold text-slate-700 mb-1">Nueva Fecha Vencimiento <span className="text-slate-300 font-normal">(Auto)</span></label>
                                 <input
@@ -2005,6 +2233,17 @@ export default function Students() {
                                         </div>
                                     </div>
 
+                                    <div>
+                                        <label className="block text-sm font-medium text-slate-700 mb-1">Motivo (opcional)</label>
+                                        <textarea
+                                            rows={2}
+                                            className="w-full px-4 py-2 rounded-xl border border-slate-200 focus:outline-none focus:ring-2 focus:ring-amber-500/50 transition-all text-sm"
+                                            placeholder="Ej: Viaje, lesión, retiro voluntario..."
+                                            value={suspendReason}
+                                            onChange={e => setSuspendReason(e.target.value)}
+                                        />
+                                    </div>
+
                                     <div className="flex gap-3 pt-2">
                                         <button
                                             onClick={() => setStudentToSuspend(null)}
@@ -2027,7 +2266,36 @@ export default function Students() {
                 </div>
             )}
 
+            {historyStudent && (
+                <StudentLedgerModal student={historyStudent} onClose={() => setHistoryStudent(null)} />
+            )}
+
+            {transferStudent && activeSeason && (
+                <StudentTransferModal
+                    student={transferStudent}
+                    season={activeSeason}
+                    onClose={() => setTransferStudent(null)}
+                    onTransferred={() => {
+                        invalidateCache();
+                        refetchStudents();
+                    }}
+                />
+            )}
 
+            {freezeStudent && (
+                <StudentFreezeModal
+                    student={freezeStudent}
+                    onClose={() => setFreezeStudent(null)}
+                    onSaved={() => {
+                        invalidateCache();
+                        refetchStudents();
+                    }}
+                />
+            )}
+
+            {receiptToShow && (
+                <ReceiptModal receipt={receiptToShow} onClose={() => setReceiptToShow(null)} />
+            )}
         </div >
     );
 }
@@ -0,0 +1,521 @@
+import { useState, useEffect, useMemo, useCallback, type FormEvent } from 'react';
+import { RefreshCw, X, Bell, ArrowUp, ArrowDown, UserPlus, Search } from 'lucide-react';
+import { isNextInLine, waitlistService } from '../services/waitlistService';
+import { categoryService } from '../services/categoryService';
+import { scheduleTemplateService } from '../services/scheduleTemplateService';
+import { studentService } from '../services/students';
+import { useSeason } from '../contexts/SeasonContext';
+import { useAuth } from '../context/AuthContext';
+import type { WaitlistEntry, WaitlistNotification, WaitlistStatus, Category, ScheduleTemplate, DayType, Student } from '../types/db';
+
+const DAY_TYPE_LABELS: Record<DayType, string> = {
+    'lun-mier-vier': 'L-M-V',
+    'mar-juev': 'M-J',
+    'sab-dom': 'S-D'
+};
+
+const STATUS_LABELS: Record<WaitlistStatus, string> = {
+    WAITING: 'En espera',
+    NOTIFIED: 'Avisado',
+    ENROLLED: 'Inscrito',
+    CANCELLED: 'Retirado'
+};
+
+const STATUS_STYLES: Record<WaitlistStatus, string> = {
+    WAITING: 'bg-sky-100 text-sky-700',
+    NOTIFIED: 'bg-amber-100 text-amber-700',
+    ENROLLED: 'bg-emerald-100 text-emerald-700',
+    CANCELLED: 'bg-slate-100 text-slate-500'
+};
+
+const emptyForm = { categoryId: '', templateId: '', studentName: '', phone: '', notes: '' };
+
+/**
+ * Lista de espera: people waiting for a seat in a full schedule. Freed seats create a notice
+ * for the first ones in line; "Ofrecer cupo" moves a registered student into the schedule.
+ */
+export default function Waitlist() {
+    const { currentSeason } = useSeason();
+    const { user } = useAuth();
+    const [entries, setEntries] = useState<WaitlistEntry[]>([]);
+    const [notifications, setNotifications] = useState<WaitlistNotification[]>([]);
+    const [categories, setCategories] = useState<Category[]>([]);
+    const [templates, setTemplates] = useState<ScheduleTemplate[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [showClosed, setShowClosed] = useState(false);
+    const [busyId, setBusyId] = useState<string | null>(null);
+
+    // Add modal
+    const [showAdd, setShowAdd] = useState(false);
+    const [form, setForm] = useState(emptyForm);
+    const [searchTerm, setSearchTerm] = useState('');
+    const [searchResults, setSearchResults] = useState<Student[]>([]);
+    const [selectedStudent, setSelectedStudent] = useState<Student | null>(null);
+    const [saving, setSaving] = useState(false);
+
+    const loadData = useCallback(async () => {
+        if (!currentSeason) return;
+        setLoading(true);
+        try {
+            const [list, notices, cats, temps] = await Promise.all([
+                waitlistService.getBySeason(currentSeason.id),
+                waitlistService.getNotifications(currentSeason.id),
+                categoryService.getAll(),
+                scheduleTemplateService.getBySeason(currentSeason.id)
+            ]);
+            setEntries(list);
+            setNotifications(notices);
+            setCategories(cats);
+            setTemplates(temps);
+        } catch (error) {
+            console.error("Error loading waitlist:", error);
+        } finally {
+            setLoading(false);
+        }
+    }, [currentSeason]);
+
+    useEffect(() => {
+        loadData();
+    }, [loadData]);
+
+    const categoryName = (id: string) => categories.find(c => c.id === id)?.name || id;
+
+    // One group per schedule pattern, entries already come in priority order
+    const groups = useMemo(() => {
+        const map = new Map<string, WaitlistEntry[]>();
+        entries
+            .filter(e => showClosed || e.status === 'WAITING' || e.status === 'NOTIFIED')
+            .forEach(e => {
+                const key = `${e.dayType}_${e.timeSlot}_${e.categoryId}`;
+                map.set(key, [...(map.get(key) || []), e]);
+            });
+        return Array.from(map.values());
+    }, [entries, showClosed]);
+
+    const categoryTemplates = templates
+        .filter(t => t.categoryId === form.categoryId && !t.isBreak)
+        .sort((a, b) => a.dayType.localeCompare(b.dayType) || a.timeSlot.localeCompare(b.timeSlot));
+
+    const handleSearch = async (term: string) => {
+        setSearchTerm(term);
+        if (term.trim().length < 3) {
+            setSearchResults([]);
+            return;
+        }
+        try {
+            setSearchResults((await studentService.search(term)).slice(0, 5));
+        } catch (error) {
+            console.error("Error searching students:", error);
+        }
+    };
+
+    const selectStudent = (student: Student) => {
+        setSelectedStudent(student);
+        setSearchResults([]);
+        setSearchTerm('');
+        setForm(prev => ({
+            ...prev,
+            studentName: student.fullName,
+            phone: student.phone || '',
+            categoryId: student.categoryId,
+            templateId: prev.categoryId === student.categoryId ? prev.templateId : ''
+        }));
+    };
+
+    const openAdd = () => {
+        setForm(emptyForm);
+        setSelectedStudent(null);
+        setSearchTerm('');
+        setSearchResults([]);
+        setShowAdd(true);
+    };
+
+    const handleAdd = async (e: FormEvent) => {
+        e.preventDefault();
+        const template = templates.find(t => t.id === form.templateId);
+        if (!currentSeason || !template) return;
+
+        setSaving(true);
+        try {
+            await waitlistService.add({
+                seasonId: currentSeason.id,
+                dayType: template.dayType,
+                timeSlot: template.timeSlot,
+                categoryId: form.categoryId,
+                ...(selectedStudent && { studentId: selectedStudent.id }),
+                studentName: form.studentName,
+                phone: form.phone,
+                notes: form.notes,
+                createdBy: user?.uid
+            });
+            setShowAdd(false);
+            await loadData();
+        } catch (error) {
+            console.error("Error adding to waitlist:", error);
+            alert(error instanceof Error ? error.message : 'Error al agregar a la lista de espera');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleMove = async (entry: WaitlistEntry, direction: -1 | 1) => {
+        setBusyId(entry.id);
+        try {
+            await waitlistService.move(entry.id, direction);
+            await loadData();
+        } catch (error) {
+            console.error("Error reordering waitlist:", error);
+            alert('Error al cambiar el orden');
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handleOffer = async (entryId: string) => {
+        const entry = entries.find(e => e.id === entryId);
+        if (!entry) return;
+        let overrideReason: string | undefined;
+        if (!isNextInLine(entry, entries)) {
+            const reason = prompt(`${entry.studentName} no es el siguiente en la lista de espera y su horario actual será reemplazado. Motivo para saltar el orden (queda registrado en auditoría):`);
+            if (!reason?.trim()) return;
+            overrideReason = reason.trim();
+        } else if (!confirm(`¿Inscribir a ${entry.studentName} en ${DAY_TYPE_LABELS[entry.dayType]} ${entry.timeSlot}? Su horario actual será reemplazado.`)) {
+            return;
+        }
+
+        setBusyId(entryId);
+        try {
+            await waitlistService.offerSeat(entryId, overrideReason);
+            alert(`✅ ${entry.studentName} inscrito en ${DAY_TYPE_LABELS[entry.dayType]} ${entry.timeSlot}`);
+            await loadData();
+        } catch (error) {
+            console.error("Error offering seat:", error);
+            alert(error instanceof Error ? error.message : 'Error al ofrecer el cupo');
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handleCancel = async (entry: WaitlistEntry) => {
+        const reason = prompt(`¿Retirar a ${entry.studentName} de la lista de espera? Motivo (opcional):`);
+        if (reason === null) return;
+
+        setBusyId(entry.id);
+        try {
+            await waitlistService.cancel(entry.id, reason.trim() || undefined);
+            await loadData();
+        } catch (error) {
+            console.error("Error cancelling waitlist entry:", error);
+            alert('Error al retirar de la lista de espera');
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handleDismiss = async (notificationId: string) => {
+        try {
+            await waitlistService.dismissNotification(notificationId);
+            setNotifications(prev => prev.filter(n => n.id !== notificationId));
+        } catch (error) {
+            console.error("Error dismissing notification:", error);
+        }
+    };
+
+    if (!currentSeason) {
+        return (
+            <div className="bg-white rounded-2xl border border-slate-100 p-12 text-center text-slate-400">
+                No hay temporada activa.
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-6">
+            <div className="flex items-start justify-between gap-4">
+                <div>
+                    <h2 className="text-3xl font-bold text-slate-800">Lista de Espera</h2>
+                    <p className="text-slate-500">
+                        Interesados en horarios llenos. Al liberarse un cupo se avisa a los primeros de la lista.
+                    </p>
+                </div>
+                <div className="flex gap-2">
+                    <button
+                        onClick={loadData}
+                        className="p-3 text-slate-400 hover:text-sky-600 hover:bg-sky-50 rounded-xl transition-colors"
+                        title="Actualizar"
+                    >
+                        <RefreshCw className="w-6 h-6" />
+                    </button>
+                    <button
+                        onClick={openAdd}
+                        className="flex items-center gap-2 bg-sky-600 text-white px-5 py-3 rounded-xl font-bold hover:bg-sky-700 shadow-lg shadow-sky-600/20 transition-colors"
+                    >
+                        <UserPlus className="w-5 h-5" />
+                        Agregar
+                    </button>
+                </div>
+            </div>
+
+            {/* NOTIFICATIONS */}
+            {notifications.length > 0 && (
+                <div className="bg-amber-50 border border-amber-200 rounded-2xl p-4 space-y-2">
+                    <h3 className="flex items-center gap-2 font-bold text-amber-800">
+                        <Bell className="w-5 h-5" /> Cupos liberados ({notifications.length})
+                    </h3>
+                    {notifications.map(n => {
+                        const entry = entries.find(e => e.id === n.entryId);
+                        return (
+                            <div key={n.id} className="flex flex-col md:flex-row md:items-center justify-between gap-2 bg-white rounded-xl px-4 py-3 border border-amber-100">
+                                <div className="text-sm">
+                                    <span className="font-bold text-slate-800">{n.studentName}</span>
+                                    {n.phone && <span className="ml-2 font-mono text-slate-500">{n.phone}</span>}
+                                    <p className="text-slate-500">
+                                        Cupo en {DAY_TYPE_LABELS[n.dayType]} {n.timeSlot} · {categoryName(n.categoryId)} · {n.reason} ({new Date(n.createdAt).toLocaleDateString('es-PE')})
+                                    </p>
+                                </div>
+                                <div className="flex gap-2 shrink-0">
+                                    {entry?.studentId && entry.status === 'NOTIFIED' && (
+                                        <button
+                                            onClick={() => handleOffer(entry.id)}
+                                            disabled={busyId === entry.id}
+                                            className="px-3 py-1.5 rounded-lg bg-sky-600 text-white font-bold text-xs hover:bg-sky-700 disabled:opacity-50"
+                                        >
+                                            Ofrecer cupo
+                                        </button>
+                                    )}
+                                    <button
+                                        onClick={() => handleDismiss(n.id)}
+                                        className="px-3 py-1.5 rounded-lg border border-slate-200 text-slate-600 font-bold text-xs hover:bg-slate-50"
+                                    >
+                                        Descartar
+                                    </button>
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+
+            <label className="flex items-center gap-2 text-sm text-slate-600 cursor-pointer w-fit">
+                <input type="checkbox" checked={showClosed} onChange={(e) => setShowClosed(e.target.checked)} />
+                Mostrar inscritos y retirados
+            </label>
+
+            {loading ? (
+                <div className="flex justify-center py-12">
+                    <RefreshCw className="w-8 h-8 text-slate-300 animate-spin" />
+                </div>
+            ) : groups.length === 0 ? (
+                <div className="bg-white rounded-2xl border border-slate-100 p-12 text-center text-slate-400">
+                    No hay personas en lista de espera.
+                </div>
+            ) : (
+                groups.map(group => {
+                    const first = group[0];
+                    const active = group.filter(e => e.status === 'WAITING' || e.status === 'NOTIFIED');
+                    return (
+                        <div key={`${first.dayType}_${first.timeSlot}_${first.categoryId}`} className="bg-white rounded-2xl shadow-sm border border-slate-100 overflow-hidden">
+                            <div className="px-4 py-3 bg-slate-50 border-b border-slate-100 flex justify-between items-center">
+                                <h3 className="font-bold text-slate-800">
+                                    {DAY_TYPE_LABELS[first.dayType]} · {first.timeSlot}
+                                    <span className="ml-2 text-sm font-normal text-slate-500">{categoryName(first.categoryId)}</span>
+                                </h3>
+                                <span className="text-xs font-bold text-slate-500">{active.length} en espera</span>
+                            </div>
+                            <table className="w-full text-sm">
+                                <tbody className="divide-y divide-slate-100">
+                                    {group.map(entry => {
+                                        const position = active.indexOf(entry);
+                                        const isOpen = position !== -1;
+                                        return (
+                                            <tr key={entry.id} className="hover:bg-slate-50">
+                                                <td className="px-4 py-3 w-10 font-mono text-slate-400">{isOpen ? position + 1 : '-'}</td>
+                                                <td className="px-4 py-3">
+                                                    <p className="font-bold text-slate-800">{entry.studentName}</p>
+                                                    <p className="text-xs text-slate-400">
+                                                        {entry.studentId ? 'Alumno registrado' : 'No registrado'}
+                                                        {entry.notes && ` · ${entry.notes}`}
+                                                    </p>
+                                                </td>
+                                                <td className="px-4 py-3 font-mono text-slate-600">{entry.phone || '-'}</td>
+                                                <td className="px-4 py-3 text-slate-500">Desde {new Date(entry.createdAt).toLocaleDateString('es-PE')}</td>
+                                                <td className="px-4 py-3">
+                                                    <span className={`text-xs font-bold px-2 py-0.5 rounded ${STATUS_STYLES[entry.status]}`}>
+                                                        {STATUS_LABELS[entry.status]}
+                                                    </span>
+                                                </td>
+                                                <td className="px-4 py-3 text-right whitespace-nowrap">
+                                                    {isOpen && (
+                                                        <div className="flex justify-end items-center gap-1">
+                                                            <button
+                                                                onClick={() => handleMove(entry, -1)}
+                                                                disabled={busyId !== null || position === 0}
+                                                                className="p-1.5 text-slate-400 hover:text-sky-600 disabled:opacity-30"
+                                                                title="Subir"
+                                                            >
+                                                                <ArrowUp className="w-4 h-4" />
+                                                            </button>
+                                                            <button
+                                                                onClick={() => handleMove(entry, 1)}
+                                                                disabled={busyId !== null || position === active.length - 1}
+                                                                className="p-1.5 text-slate-400 hover:text-sky-600 disabled:opacity-30"
+                                                                title="Bajar"
+                                                            >
+                                                                <ArrowDown className="w-4 h-4" />
+                                                            </button>
+                                                            {entry.studentId && (
+                                                                <button
+                                                                    onClick={() => handleOffer(entry.id)}
+                                                                    disabled={busyId !== null}
+                                                                    className="px-3 py-1.5 rounded-lg bg-sky-600 text-white font-bold text-xs hover:bg-sky-700 disabled:opacity-50"
+                                                                >
+                                                                    Ofrecer cupo
+                                                                </button>
+                                                            )}
+                                                            <button
+                                                                onClick={() => handleCancel(entry)}
+                                                                disabled={busyId !== null}
+                                                                className="px-3 py-1.5 rounded-lg border border-slate-200 text-slate-600 font-bold text-xs hover:bg-slate-50 disabled:opacity-50"
+                                                            >
+                                                                Retirar
+                                                            </button>
+                                                        </div>
+                                                    )}
+                                                </td>
+                                            </tr>
+                                        );
+                                    })}
+                                </tbody>
+                            </table>
+                        </div>
+                    );
+                })
+            )}
+
+            {/* ADD MODAL */}
+            {showAdd && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+                    <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md overflow-hidden">
+                        <div className="p-4 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+                            <h3 className="text-lg font-bold text-slate-800">Agregar a Lista de Espera</h3>
+                            <button onClick={() => setShowAdd(false)} className="text-slate-400 hover:text-slate-600">
+                                <X className="w-5 h-5" />
+                            </button>
+                        </div>
+                        <form onSubmit={handleAdd} className="p-6 space-y-4">
+                            <div className="relative">
+                                <label className="block text-xs font-bold text-slate-500 mb-1 uppercase">Alumno registrado (opcional)</label>
+                                {selectedStudent ? (
+                                    <div className="flex items-center justify-between px-3 py-2 rounded-xl bg-sky-50 border border-sky-200">
+                                        <span className="font-bold text-sky-800">{selectedStudent.fullName}</span>
+                                        <button type="button" onClick={() => setSelectedStudent(null)} className="text-sky-400 hover:text-sky-600">
+                                            <X className="w-4 h-4" />
+                                        </button>
+                                    </div>
+                                ) : (
+                                    <div className="relative">
+                                        <Search className="w-4 h-4 text-slate-400 absolute left-3 top-1/2 -translate-y-1/2" />
+                                        <input
+                                            type="text"
+                                            value={searchTerm}
+                                            onChange={(e) => handleSearch(e.target.value)}
+                                            placeholder="Buscar por nombre o DNI..."
+                                            className="w-full pl-9 pr-3 py-2 rounded-xl border border-slate-200 focus:outline-none focus:ring-2 focus:ring-sky-500/50"
+                                        />
+                                    </div>
+                                )}
+                                {searchResults.length > 0 && (
+                                    <div className="absolute left-0 right-0 mt-1 bg-white border border-slate-200 rounded-xl shadow-lg z-10 overflow-hidden">
+                                        {searchResults.map(s => (
+                                            <button
+                                                key={s.id}
+                                                type="button"
+                                                onClick={() => selectStudent(s)}
+                                                className="w-full text-left px-3 py-2 hover:bg-sky-50 text-sm"
+                                            >
+                                                <span className="font-bold text-slate-700">{s.fullName}</span>
+                                                <span className="ml-2 text-xs text-slate-400">{categoryName(s.categoryId)}</span>
+                                            </button>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+
+                            {!selectedStudent && (
+                                <div className="grid grid-cols-2 gap-3">
+                                    <div>
+                                        <label className="block text-xs font-bold text-slate-500 mb-1 uppercase">Nombre</label>
+                                        <input
+                                            type="text"
+                                            required
+                                            value={form.studentName}
+                                            onChange={(e) => setForm({ ...form, studentName: e.target.value.toUpperCase() })}
+                                            className="w-full px-3 py-2 rounded-xl border border-slate-200 focus:outline-none focus:ring-2 focus:ring-sky-500/50"
+                                        />
+                                    </div>
+                                    <div>
+                                        <label className="block text-xs font-bold text-slate-500 mb-1 uppercase">Celular</label>
+                                        <input
+                                            type="tel"
+                                            value={form.phone}
+                                            onChange={(e) => setForm({ ...form, phone: e.target.value.replace(/\D/g, '') })}
+                                            className="w-full px-3 py-2 rounded-xl border border-slate-200 focus:outline-none focus:ring-2 focus:ring-sky-500/50"
+                                        />
+                                    </div>
+                                </div>
+                            )}
+
+                            <div>
+                                <label className="block text-xs font-bold text-slate-500 mb-1 uppercase">Categoría</label>
+                                <select
+                                    required
+                                    value={form.categoryId}
+                                    onChange={(e) => setForm({ ...form, categoryId: e.target.value, templateId: '' })}
+                                    className="w-full px-3 py-2 rounded-xl border border-slate-200 focus:outline-none focus:ring-2 focus:ring-sky-500/50"
+                                >
+                                    <option value="">Seleccione...</option>
+                                    {categories.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                                </select>
+                            </div>
+
+                            <div>
+                                <label className="block text-xs font-bold text-slate-500 mb-1 uppercase">Horario</label>
+                                <select
+                                    required
+                                    value={form.templateId}
+                                    onChange={(e) => setForm({ ...form, templateId: e.target.value })}
+                                    disabled={!form.categoryId}
+                                    className="w-full px-3 py-2 rounded-xl border border-slate-200 focus:outline-none focus:ring-2 focus:ring-sky-500/50 disabled:bg-slate-50"
+                                >
+                                    <option value="">Seleccione...</option>
+                                    {categoryTemplates.map(t => (
+                                        <option key={t.id} value={t.id}>{DAY_TYPE_LABELS[t.dayType]} · {t.timeSlot}</option>
+                                    ))}
+                                </select>
+                            </div>
+
+                            <div>
+                                <label className="block text-xs font-bold text-slate-500 mb-1 uppercase">Notas</label>
+                                <input
+                                    type="text"
+                                    value={form.notes}
+                                    onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                                    placeholder="Ej: solo puede desde abril"
+                                    className="w-full px-3 py-2 rounded-xl border border-slate-200 focus:outline-none focus:ring-2 focus:ring-sky-500/50"
+                                />
+                            </div>
+
+                            <button
+                                type="submit"
+                                disabled={saving}
+                                className="w-full bg-slate-900 text-white py-3 rounded-xl font-bold hover:bg-slate-800 transition-colors disabled:opacity-50"
+                            >
+                                {saving ? 'Guardando...' : 'Agregar a la lista'}
+                            </button>
+                        </form>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
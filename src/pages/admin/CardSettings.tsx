@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { Settings, Save, RotateCcw, CreditCard } from 'lucide-react';
 import { cardConfigService } from '../../services/cardConfig';
+import { StudentQrCode } from '../../components/students/StudentQrCode';
 import type { CardConfig, CardFieldConfig } from '../../types/db';
 
 export default function CardSettings() {
@@ -106,7 +107,8 @@ export default function CardSettings() {
         horarioDays: 'Horario (Días)',
         fechaInicio: 'Fecha Inicio',
         fechaFinal: 'Fecha Final',
-        clases: 'Clases'
+        clases: 'Clases',
+        qr: 'Código QR'
     };
 
     return (
@@ -271,16 +273,29 @@ export default function CardSettings() {
                                                     placeholder="25mm"
                                                 />
                                             </div>
-                                            <div className="col-span-2">
-                                                <label className="block text-[10px] font-bold text-slate-400 mb-1 uppercase">Tamaño Fuente</label>
-                                                <input
-                                                    type="text"
-                                                    value={field.fontSize}
-                                                    onChange={(e) => updateField(fieldName, 'fontSize', e.target.value)}
-                                                    className="w-full px-2 py-1.5 rounded-lg border border-slate-200 focus:outline-none focus:ring-2 focus:ring-sky-500/50 text-xs font-mono"
-                                                    placeholder="8pt"
-                                                />
-                                            </div>
+                                            {fieldName === 'qr' ? (
+                                                <div className="col-span-2">
+                                                    <label className="block text-[10px] font-bold text-slate-400 mb-1 uppercase">Tamaño</label>
+                                                    <input
+                                                        type="text"
+                                                        value={field.size || ''}
+                                                        onChange={(e) => updateField(fieldName, 'size', e.target.value)}
+                                                        className="w-full px-2 py-1.5 rounded-lg border border-slate-200 focus:outline-none focus:ring-2 focus:ring-sky-500/50 text-xs font-mono"
+                                                        placeholder="18mm"
+                                                    />
+                                                </div>
+                                            ) : (
+                                                <div className="col-span-2">
+                                                    <label className="block text-[10px] font-bold text-slate-400 mb-1 uppercase">Tamaño Fuente</label>
+                                                    <input
+                                                        type="text"
+                                                        value={field.fontSize}
+                                                        onChange={(e) => updateField(fieldName, 'fontSize', e.target.value)}
+                                                        className="w-full px-2 py-1.5 rounded-lg border border-slate-200 focus:outline-none focus:ring-2 focus:ring-sky-500/50 text-xs font-mono"
+                                                        placeholder="8pt"
+                                                    />
+                                                </div>
+                                            )}
                                         </div>
                                     </div>
                                 );
@@ -420,6 +435,18 @@ export default function CardSettings() {
                             >
                                 12
                             </div>
+
+                            <StudentQrCode
+                                value="000123"
+                                size={config.fields.qr.size}
+                                className="absolute"
+                                style={{
+                                    top: config.fields.qr.top,
+                                    bottom: config.fields.qr.bottom,
+                                    left: config.fields.qr.left,
+                                    right: config.fields.qr.right
+                                }}
+                            />
                         </div>
                     </div>
                     <p className="text-xs text-slate-400 mt-4 text-center">
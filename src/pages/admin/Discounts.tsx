@@ -0,0 +1,418 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { discountService, DISCOUNT_TYPE_LABELS } from '../../services/discountService';
+import { seasonService } from '../../services/seasonService';
+import { packageService } from '../../services/packageService';
+import type { DiscountRule, DiscountRuleType, Package, Season } from '../../types/db';
+
+const emptyForm = {
+    name: '',
+    type: 'SIBLING' as DiscountRuleType,
+    valueType: 'percent' as DiscountRule['valueType'],
+    value: 10,
+    stackable: true,
+    appliesToRecharge: false,
+    seasonId: '',
+    packageIds: [] as string[],
+    code: '',
+    registerBefore: '',
+    isActive: true
+};
+
+const describeValue = (rule: Pick<DiscountRule, 'valueType' | 'value'>) =>
+    rule.valueType === 'percent' ? `${rule.value}%` : `S/ ${rule.value.toFixed(2)}`;
+
+export default function Discounts() {
+    const [rules, setRules] = useState<DiscountRule[]>([]);
+    const [seasons, setSeasons] = useState<Season[]>([]);
+    const [packages, setPackages] = useState<Package[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [showModal, setShowModal] = useState(false);
+    const [editingRule, setEditingRule] = useState<DiscountRule | null>(null);
+    const [formData, setFormData] = useState(emptyForm);
+
+    const loadData = useCallback(async () => {
+        try {
+            setIsLoading(true);
+            const [list, allSeasons] = await Promise.all([
+                discountService.getAll(),
+                seasonService.getAll()
+            ]);
+            setRules(list);
+            setSeasons(allSeasons.filter(s => !s.archivedAt));
+        } catch (error) {
+            console.error('Error loading discount rules:', error);
+            alert('Error al cargar descuentos');
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        loadData();
+    }, [loadData]);
+
+    // Packages can only be picked once the rule is tied to a season
+    const { seasonId } = formData;
+    useEffect(() => {
+        if (!seasonId) {
+            setPackages([]);
+            return;
+        }
+        packageService.getBySeason(seasonId)
+            .then(setPackages)
+            .catch(error => console.error('Error loading packages:', error));
+    }, [seasonId]);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (formData.valueType === 'percent' && (formData.value <= 0 || formData.value > 100)) {
+            alert('El porcentaje debe estar entre 1 y 100.');
+            return;
+        }
+        if (formData.type === 'PROMO_CODE' && !formData.code.trim()) {
+            alert('Ingrese el código promocional.');
+            return;
+        }
+        if (formData.type === 'EARLY_BIRD' && !formData.registerBefore) {
+            alert('Ingrese la fecha límite de la matrícula anticipada.');
+            return;
+        }
+
+        try {
+            const data = {
+                name: formData.name.trim(),
+                type: formData.type,
+                valueType: formData.valueType,
+                value: formData.value,
+                stackable: formData.stackable,
+                appliesToRecharge: formData.appliesToRecharge,
+                seasonId: formData.seasonId || null,
+                packageIds: formData.seasonId ? formData.packageIds : [],
+                code: formData.type === 'PROMO_CODE' ? formData.code.trim().toUpperCase() : null,
+                registerBefore: formData.type === 'EARLY_BIRD' ? formData.registerBefore : null,
+                isActive: formData.isActive
+            };
+            if (editingRule) {
+                await discountService.update(editingRule.id, data);
+            } else {
+                await discountService.create(data);
+            }
+            await loadData();
+            handleCloseModal();
+        } catch (error) {
+            console.error('Error saving discount rule:', error);
+            alert('Error al guardar descuento');
+        }
+    };
+
+    const handleEdit = (rule: DiscountRule) => {
+        setEditingRule(rule);
+        setFormData({
+            name: rule.name,
+            type: rule.type,
+            valueType: rule.valueType,
+            value: rule.value,
+            stackable: rule.stackable,
+            appliesToRecharge: rule.appliesToRecharge,
+            seasonId: rule.seasonId || '',
+            packageIds: rule.packageIds || [],
+            code: rule.code || '',
+            registerBefore: rule.registerBefore || '',
+            isActive: rule.isActive
+        });
+        setShowModal(true);
+    };
+
+    const handleDelete = async (rule: DiscountRule) => {
+        if (!confirm(`¿Desactivar el descuento "${rule.name}"? Los pagos ya registrados lo conservan.`)) return;
+        try {
+            await discountService.delete(rule.id);
+            await loadData();
+        } catch (error) {
+            console.error('Error deleting discount rule:', error);
+            alert('Error al desactivar descuento');
+        }
+    };
+
+    const handleCloseModal = () => {
+        setShowModal(false);
+        setEditingRule(null);
+        setFormData(emptyForm);
+    };
+
+    const seasonName = (id?: string | null) => id ? seasons.find(s => s.id === id)?.name || 'Temporada archivada' : 'Todas';
+
+    const describeCondition = (rule: DiscountRule) => {
+        if (rule.type === 'PROMO_CODE') return `Código ${rule.code}`;
+        if (rule.type === 'EARLY_BIRD') return `Hasta el ${rule.registerBefore}`;
+        return 'Lo confirma el cajero';
+    };
+
+    if (isLoading) {
+        return (
+            <div className="flex items-center justify-center h-64">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600"></div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="p-6">
+            <div className="flex justify-between items-center mb-6">
+                <div>
+                    <h1 className="text-2xl font-bold text-gray-900">Descuentos</h1>
+                    <p className="text-sm text-gray-500">
+                        Los acumulables se suman entre sí; uno no acumulable solo se aplica solo, y se usa la opción más favorable al alumno.
+                    </p>
+                </div>
+                <button
+                    onClick={() => setShowModal(true)}
+                    className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors"
+                >
+                    + Nuevo Descuento
+                </button>
+            </div>
+
+            <div className="bg-white rounded-lg shadow overflow-hidden">
+                <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                        <tr>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Nombre</th>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Tipo</th>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Descuento</th>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Aplica a</th>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Estado</th>
+                            <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Acciones</th>
+                        </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                        {rules.length === 0 ? (
+                            <tr>
+                                <td colSpan={6} className="px-6 py-8 text-center text-gray-500">No hay descuentos registrados.</td>
+                            </tr>
+                        ) : rules.map(rule => (
+                            <tr key={rule.id} className="hover:bg-gray-50">
+                                <td className="px-6 py-4 whitespace-nowrap">
+                                    <div className="text-sm font-medium text-gray-900">{rule.name}</div>
+                                    <div className="text-xs text-gray-500">{describeCondition(rule)}</div>
+                                </td>
+                                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{DISCOUNT_TYPE_LABELS[rule.type]}</td>
+                                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                                    {describeValue(rule)}
+                                    <div className="text-xs">{rule.stackable ? 'Acumulable' : 'No acumulable'}</div>
+                                </td>
+                                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                                    {seasonName(rule.seasonId)}
+                                    <div className="text-xs">
+                                        {rule.packageIds?.length ? `${rule.packageIds.length} paquete(s)` : 'Todos los paquetes'}
+                                        {rule.appliesToRecharge && ' · Recargas'}
+                                    </div>
+                                </td>
+                                <td className="px-6 py-4 whitespace-nowrap">
+                                    <span className={`px-2 py-1 text-xs font-medium rounded-full ${rule.isActive
+                                        ? 'bg-green-100 text-green-800'
+                                        : 'bg-red-100 text-red-800'
+                                        }`}>
+                                        {rule.isActive ? 'Activo' : 'Inactivo'}
+                                    </span>
+                                </td>
+                                <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                                    <button onClick={() => handleEdit(rule)} className="text-indigo-600 hover:text-indigo-900 mr-4">
+                                        Editar
+                                    </button>
+                                    {rule.isActive && (
+                                        <button onClick={() => handleDelete(rule)} className="text-red-600 hover:text-red-900">
+                                            Desactivar
+                                        </button>
+                                    )}
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+
+            {/* Modal */}
+            {showModal && (
+                <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+                    <div className="bg-white rounded-lg p-6 w-full max-w-md max-h-[90vh] overflow-y-auto">
+                        <h2 className="text-xl font-bold mb-4">
+                            {editingRule ? 'Editar Descuento' : 'Nuevo Descuento'}
+                        </h2>
+                        <form onSubmit={handleSubmit}>
+                            <div className="space-y-4">
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">Nombre</label>
+                                    <input
+                                        type="text"
+                                        value={formData.name}
+                                        onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500"
+                                        placeholder="Ej: Segundo hermano 10%"
+                                        required
+                                    />
+                                </div>
+
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">Tipo</label>
+                                    <select
+                                        value={formData.type}
+                                        onChange={(e) => setFormData({ ...formData, type: e.target.value as DiscountRuleType })}
+                                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500"
+                                    >
+                                        {(Object.keys(DISCOUNT_TYPE_LABELS) as DiscountRuleType[]).map(type => (
+                                            <option key={type} value={type}>{DISCOUNT_TYPE_LABELS[type]}</option>
+                                        ))}
+                                    </select>
+                                </div>
+
+                                {formData.type === 'PROMO_CODE' && (
+                                    <div>
+                                        <label className="block text-sm font-medium text-gray-700 mb-1">Código</label>
+                                        <input
+                                            type="text"
+                                            value={formData.code}
+                                            onChange={(e) => setFormData({ ...formData, code: e.target.value.toUpperCase().replace(/\s/g, '') })}
+                                            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 font-mono"
+                                            placeholder="VERANO10"
+                                        />
+                                    </div>
+                                )}
+
+                                {formData.type === 'EARLY_BIRD' && (
+                                    <div>
+                                        <label className="block text-sm font-medium text-gray-700 mb-1">Matrícula hasta (inclusive)</label>
+                                        <input
+                                            type="date"
+                                            value={formData.registerBefore}
+                                            onChange={(e) => setFormData({ ...formData, registerBefore: e.target.value })}
+                                            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500"
+                                        />
+                                    </div>
+                                )}
+
+                                <div className="grid grid-cols-2 gap-4">
+                                    <div>
+                                        <label className="block text-sm font-medium text-gray-700 mb-1">Valor</label>
+                                        <input
+                                            type="number"
+                                            min="0"
+                                            step="0.01"
+                                            value={formData.value}
+                                            onChange={(e) => setFormData({ ...formData, value: parseFloat(e.target.value) || 0 })}
+                                            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500"
+                                        />
+                                    </div>
+                                    <div>
+                                        <label className="block text-sm font-medium text-gray-700 mb-1">En</label>
+                                        <select
+                                            value={formData.valueType}
+                                            onChange={(e) => setFormData({ ...formData, valueType: e.target.value as DiscountRule['valueType'] })}
+                                            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500"
+                                        >
+                                            <option value="percent">% del precio</option>
+                                            <option value="amount">S/ de descuento</option>
+                                        </select>
+                                    </div>
+                                </div>
+
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">Temporada</label>
+                                    <select
+                                        value={formData.seasonId}
+                                        onChange={(e) => setFormData({ ...formData, seasonId: e.target.value, packageIds: [] })}
+                                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500"
+                                    >
+                                        <option value="">Todas</option>
+                                        {seasons.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                                    </select>
+                                </div>
+
+                                {formData.seasonId && packages.length > 0 && (
+                                    <div>
+                                        <label className="block text-sm font-medium text-gray-700 mb-1">
+                                            Paquetes <span className="text-gray-400 font-normal">(ninguno marcado: todos)</span>
+                                        </label>
+                                        <div className="border border-gray-300 rounded-lg divide-y max-h-40 overflow-y-auto">
+                                            {packages.map(pkg => (
+                                                <label key={pkg.id} className="flex items-center gap-2 px-3 py-2 text-sm">
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={formData.packageIds.includes(pkg.id)}
+                                                        onChange={() => setFormData({
+                                                            ...formData,
+                                                            packageIds: formData.packageIds.includes(pkg.id)
+                                                                ? formData.packageIds.filter(id => id !== pkg.id)
+                                                                : [...formData.packageIds, pkg.id]
+                                                        })}
+                                                        className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+                                                    />
+                                                    {pkg.name} <span className="text-gray-400">S/ {pkg.price}</span>
+                                                </label>
+                                            ))}
+                                        </div>
+                                    </div>
+                                )}
+
+                                <div className="flex items-center">
+                                    <input
+                                        type="checkbox"
+                                        id="stackable"
+                                        checked={formData.stackable}
+                                        onChange={(e) => setFormData({ ...formData, stackable: e.target.checked })}
+                                        className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+                                    />
+                                    <label htmlFor="stackable" className="ml-2 block text-sm text-gray-900">
+                                        Acumulable con otros descuentos
+                                    </label>
+                                </div>
+
+                                <div className="flex items-center">
+                                    <input
+                                        type="checkbox"
+                                        id="appliesToRecharge"
+                                        checked={formData.appliesToRecharge}
+                                        onChange={(e) => setFormData({ ...formData, appliesToRecharge: e.target.checked })}
+                                        className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+                                    />
+                                    <label htmlFor="appliesToRecharge" className="ml-2 block text-sm text-gray-900">
+                                        También en recargas
+                                    </label>
+                                </div>
+
+                                <div className="flex items-center">
+                                    <input
+                                        type="checkbox"
+                                        id="isActive"
+                                        checked={formData.isActive}
+                                        onChange={(e) => setFormData({ ...formData, isActive: e.target.checked })}
+                                        className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+                                    />
+                                    <label htmlFor="isActive" className="ml-2 block text-sm text-gray-900">
+                                        Descuento activo
+                                    </label>
+                                </div>
+                            </div>
+
+                            <div className="flex gap-3 mt-6">
+                                <button
+                                    type="button"
+                                    onClick={handleCloseModal}
+                                    className="flex-1 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                                >
+                                    Cancelar
+                                </button>
+                                <button
+                                    type="submit"
+                                    className="flex-1 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors"
+                                >
+                                    {editingRule ? 'Actualizar' : 'Crear'}
+                                </button>
+                            </div>
+                        </form>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
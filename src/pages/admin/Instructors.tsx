@@ -0,0 +1,474 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { instructorService, type InstructorHoursRow } from '../../services/instructorService';
+import { scheduleTemplateService } from '../../services/scheduleTemplateService';
+import { categoryService } from '../../services/categoryService';
+import { useSeason } from '../../contexts/SeasonContext';
+import { formatMonthId, getMonthName, getMonthsInRange } from '../../utils/monthUtils';
+import { getTimeSlotRange } from '../../utils/timeSlotUtils';
+import type { Instructor, ScheduleTemplate, Category, DayType } from '../../types/db';
+
+type Tab = 'list' | 'timetable' | 'hours';
+
+const WEEK_DAYS: Array<{ label: string, dayType: DayType }> = [
+    { label: 'Lunes', dayType: 'lun-mier-vier' },
+    { label: 'Martes', dayType: 'mar-juev' },
+    { label: 'Miércoles', dayType: 'lun-mier-vier' },
+    { label: 'Jueves', dayType: 'mar-juev' },
+    { label: 'Viernes', dayType: 'lun-mier-vier' },
+    { label: 'Sábado', dayType: 'sab-dom' },
+    { label: 'Domingo', dayType: 'sab-dom' }
+];
+
+const emptyForm = { name: '', phone: '', hourlyRate: 0, color: '#0EA5E9', isActive: true };
+
+export default function Instructors() {
+    const { currentSeason } = useSeason();
+    const [tab, setTab] = useState<Tab>('list');
+    const [instructors, setInstructors] = useState<Instructor[]>([]);
+    const [templates, setTemplates] = useState<ScheduleTemplate[]>([]);
+    const [categories, setCategories] = useState<Category[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [showModal, setShowModal] = useState(false);
+    const [editingInstructor, setEditingInstructor] = useState<Instructor | null>(null);
+    const [formData, setFormData] = useState(emptyForm);
+
+    // Timetable / payroll
+    const [selectedInstructorId, setSelectedInstructorId] = useState('');
+    const [month, setMonth] = useState(formatMonthId(new Date()));
+    const [hoursReport, setHoursReport] = useState<InstructorHoursRow[] | null>(null);
+    const [isLoadingReport, setIsLoadingReport] = useState(false);
+
+    const loadData = useCallback(async () => {
+        try {
+            setIsLoading(true);
+            const [list, cats, temps] = await Promise.all([
+                instructorService.getAll(),
+                categoryService.getAll(),
+                currentSeason ? scheduleTemplateService.getBySeason(currentSeason.id) : Promise.resolve([])
+            ]);
+            setInstructors(list);
+            setCategories(cats);
+            setTemplates(temps);
+        } catch (error) {
+            console.error('Error loading instructors:', error);
+            alert('Error al cargar profesores');
+        } finally {
+            setIsLoading(false);
+        }
+    }, [currentSeason]);
+
+    useEffect(() => {
+        loadData();
+    }, [loadData]);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        try {
+            const data = {
+                name: formData.name.trim(),
+                phone: formData.phone,
+                hourlyRate: formData.hourlyRate || 0,
+                color: formData.color,
+                isActive: formData.isActive
+            };
+
+            if (editingInstructor) {
+                await instructorService.update(editingInstructor.id, data);
+            } else {
+                await instructorService.create(data);
+            }
+
+            await loadData();
+            handleCloseModal();
+        } catch (error) {
+            console.error('Error saving instructor:', error);
+            alert('Error al guardar profesor');
+        }
+    };
+
+    const handleEdit = (instructor: Instructor) => {
+        setEditingInstructor(instructor);
+        setFormData({
+            name: instructor.name,
+            phone: instructor.phone || '',
+            hourlyRate: instructor.hourlyRate || 0,
+            color: instructor.color || '#0EA5E9',
+            isActive: instructor.isActive
+        });
+        setShowModal(true);
+    };
+
+    const handleDelete = async (instructor: Instructor) => {
+        const assigned = templates.filter(t => t.instructorId === instructor.id).length;
+        const warning = assigned > 0 ? `\n\nSigue asignado a ${assigned} horario(s) de la plantilla.` : '';
+        if (!confirm(`¿Desactivar a ${instructor.name}?${warning}`)) return;
+
+        try {
+            await instructorService.delete(instructor.id);
+            await loadData();
+        } catch (error) {
+            console.error('Error deleting instructor:', error);
+            alert('Error al desactivar profesor');
+        }
+    };
+
+    const handleCloseModal = () => {
+        setShowModal(false);
+        setEditingInstructor(null);
+        setFormData(emptyForm);
+    };
+
+    const handleLoadReport = async () => {
+        if (!currentSeason) return;
+        setIsLoadingReport(true);
+        try {
+            setHoursReport(await instructorService.getMonthlyHours(currentSeason.id, month));
+        } catch (error) {
+            console.error('Error loading hours report:', error);
+            alert(error instanceof Error ? error.message : 'Error al calcular horas');
+        } finally {
+            setIsLoadingReport(false);
+        }
+    };
+
+    const categoryName = (id: string) => categories.find(c => c.id === id)?.name || 'Sin categoría';
+
+    // Weekly timetable of the selected instructor
+    const instructorTemplates = templates.filter(t => t.instructorId === selectedInstructorId && !t.isBreak);
+    const timetableSlots = Array.from(new Set(instructorTemplates.map(t => t.timeSlot))).sort();
+    const weeklyHours = WEEK_DAYS.reduce((total, day) =>
+        total + instructorTemplates
+            .filter(t => t.dayType === day.dayType)
+            .reduce((sum, t) => {
+                const { start, end } = getTimeSlotRange(t.timeSlot);
+                return sum + Math.max(0, end - start) / 60;
+            }, 0), 0);
+
+    const seasonMonths = currentSeason ? getMonthsInRange(currentSeason.startMonth, currentSeason.endMonth) : [];
+    const reportTotal = (hoursReport || []).reduce((sum, r) => sum + r.amount, 0);
+
+    if (isLoading) {
+        return (
+            <div className="flex items-center justify-center h-64">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600"></div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="p-6">
+            <div className="flex justify-between items-center mb-6">
+                <h1 className="text-2xl font-bold text-gray-900">Profesores</h1>
+                {tab === 'list' && (
+                    <button
+                        onClick={() => setShowModal(true)}
+                        className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors"
+                    >
+                        + Nuevo Profesor
+                    </button>
+                )}
+            </div>
+
+            <div className="flex gap-2 mb-6 border-b border-gray-200">
+                {([
+                    ['list', 'Lista'],
+                    ['timetable', 'Horario semanal'],
+                    ['hours', 'Horas del mes']
+                ] as Array<[Tab, string]>).map(([key, label]) => (
+                    <button
+                        key={key}
+                        onClick={() => setTab(key)}
+                        className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px ${tab === key
+                            ? 'border-indigo-600 text-indigo-600'
+                            : 'border-transparent text-gray-500 hover:text-gray-700'
+                            }`}
+                    >
+                        {label}
+                    </button>
+                ))}
+            </div>
+
+            {tab === 'list' && (
+                <div className="bg-white rounded-lg shadow overflow-hidden">
+                    <table className="min-w-full divide-y divide-gray-200">
+                        <thead className="bg-gray-50">
+                            <tr>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Nombre</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Celular</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Tarifa / hora</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Horarios</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Estado</th>
+                                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Acciones</th>
+                            </tr>
+                        </thead>
+                        <tbody className="bg-white divide-y divide-gray-200">
+                            {instructors.length === 0 ? (
+                                <tr>
+                                    <td colSpan={6} className="px-6 py-8 text-center text-gray-500">No hay profesores registrados.</td>
+                                </tr>
+                            ) : instructors.map(instructor => (
+                                <tr key={instructor.id} className="hover:bg-gray-50">
+                                    <td className="px-6 py-4 whitespace-nowrap">
+                                        <div className="flex items-center gap-2">
+                                            <div className="w-4 h-4 rounded-full" style={{ backgroundColor: instructor.color }} />
+                                            <span className="text-sm font-medium text-gray-900">{instructor.name}</span>
+                                        </div>
+                                    </td>
+                                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{instructor.phone || '-'}</td>
+                                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">S/ {(instructor.hourlyRate || 0).toFixed(2)}</td>
+                                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                                        {templates.filter(t => t.instructorId === instructor.id).length}
+                                    </td>
+                                    <td className="px-6 py-4 whitespace-nowrap">
+                                        <span className={`px-2 py-1 text-xs font-medium rounded-full ${instructor.isActive
+                                            ? 'bg-green-100 text-green-800'
+                                            : 'bg-red-100 text-red-800'
+                                            }`}>
+                                            {instructor.isActive ? 'Activo' : 'Inactivo'}
+                                        </span>
+                                    </td>
+                                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                                        <button
+                                            onClick={() => {
+                                                setSelectedInstructorId(instructor.id);
+                                                setTab('timetable');
+                                            }}
+                                            className="text-gray-600 hover:text-gray-900 mr-4"
+                                        >
+                                            Horario
+                                        </button>
+                                        <button onClick={() => handleEdit(instructor)} className="text-indigo-600 hover:text-indigo-900 mr-4">
+                                            Editar
+                                        </button>
+                                        {instructor.isActive && (
+                                            <button onClick={() => handleDelete(instructor)} className="text-red-600 hover:text-red-900">
+                                                Desactivar
+                                            </button>
+                                        )}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
+            {tab === 'timetable' && (
+                <div className="space-y-4">
+                    <div className="flex items-center gap-3">
+                        <select
+                            value={selectedInstructorId}
+                            onChange={(e) => setSelectedInstructorId(e.target.value)}
+                            className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 bg-white"
+                        >
+                            <option value="">Seleccionar profesor</option>
+                            {instructors.map(i => <option key={i.id} value={i.id}>{i.name}</option>)}
+                        </select>
+                        {selectedInstructorId && (
+                            <span className="text-sm text-gray-500">
+                                {weeklyHours.toFixed(1)} horas por semana · {currentSeason?.name}
+                            </span>
+                        )}
+                    </div>
+
+                    {!selectedInstructorId ? null : timetableSlots.length === 0 ? (
+                        <div className="bg-gray-50 border border-gray-200 rounded-lg p-8 text-center text-gray-600">
+                            Sin horarios asignados en la plantilla de esta temporada.
+                        </div>
+                    ) : (
+                        <div className="bg-white rounded-lg shadow overflow-x-auto">
+                            <table className="min-w-full">
+                                <thead className="bg-gray-50">
+                                    <tr>
+                                        <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Hora</th>
+                                        {WEEK_DAYS.map(day => (
+                                            <th key={day.label} className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase">{day.label}</th>
+                                        ))}
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-gray-100">
+                                    {timetableSlots.map(timeSlot => (
+                                        <tr key={timeSlot}>
+                                            <td className="px-4 py-3 font-mono text-sm font-bold text-gray-500 whitespace-nowrap">{timeSlot}</td>
+                                            {WEEK_DAYS.map(day => {
+                                                const classes = instructorTemplates.filter(t => t.dayType === day.dayType && t.timeSlot === timeSlot);
+                                                return (
+                                                    <td key={day.label} className="px-2 py-2 border-l border-gray-100 text-center">
+                                                        {classes.map(t => (
+                                                            <div
+                                                                key={t.id}
+                                                                className="px-2 py-1 rounded-lg text-xs font-bold text-white truncate"
+                                                                style={{ backgroundColor: categories.find(c => c.id === t.categoryId)?.color || '#94a3b8' }}
+                                                            >
+                                                                {categoryName(t.categoryId)}
+                                                            </div>
+                                                        ))}
+                                                    </td>
+                                                );
+                                            })}
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+                </div>
+            )}
+
+            {tab === 'hours' && (
+                <div className="space-y-4">
+                    <div className="flex items-center gap-3">
+                        <select
+                            value={month}
+                            onChange={(e) => {
+                                setMonth(e.target.value);
+                                setHoursReport(null);
+                            }}
+                            className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 bg-white"
+                        >
+                            {!seasonMonths.includes(month) && <option value={month}>{getMonthName(month)}</option>}
+                            {seasonMonths.map(m => <option key={m} value={m}>{getMonthName(m)}</option>)}
+                        </select>
+                        <button
+                            onClick={handleLoadReport}
+                            disabled={isLoadingReport || !currentSeason}
+                            className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50"
+                        >
+                            {isLoadingReport ? 'Calculando...' : 'Calcular'}
+                        </button>
+                    </div>
+                    <p className="text-xs text-gray-500">
+                        Clases según los horarios del mes; no cuenta feriados ni cierres de la temporada.
+                    </p>
+
+                    {hoursReport && (
+                        hoursReport.length === 0 ? (
+                            <div className="bg-gray-50 border border-gray-200 rounded-lg p-8 text-center text-gray-600">
+                                Ningún horario del mes tiene profesor asignado.
+                            </div>
+                        ) : (
+                            <div className="bg-white rounded-lg shadow overflow-hidden">
+                                <table className="min-w-full divide-y divide-gray-200">
+                                    <thead className="bg-gray-50">
+                                        <tr>
+                                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Profesor</th>
+                                            <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Clases</th>
+                                            <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Horas</th>
+                                            <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Tarifa</th>
+                                            <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Total</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody className="divide-y divide-gray-200">
+                                        {hoursReport.map(row => (
+                                            <tr key={row.instructorId}>
+                                                <td className="px-6 py-3 text-sm font-medium text-gray-900">{row.name}</td>
+                                                <td className="px-6 py-3 text-sm text-right text-gray-600">{row.classes}</td>
+                                                <td className="px-6 py-3 text-sm text-right text-gray-600">{row.hours.toFixed(1)}</td>
+                                                <td className="px-6 py-3 text-sm text-right text-gray-600">S/ {row.hourlyRate.toFixed(2)}</td>
+                                                <td className="px-6 py-3 text-sm text-right font-medium">S/ {row.amount.toFixed(2)}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                    <tfoot className="bg-gray-50">
+                                        <tr>
+                                            <td colSpan={4} className="px-6 py-3 text-sm font-medium text-right text-gray-700">Total planilla</td>
+                                            <td className="px-6 py-3 text-sm text-right font-bold">S/ {reportTotal.toFixed(2)}</td>
+                                        </tr>
+                                    </tfoot>
+                                </table>
+                            </div>
+                        )
+                    )}
+                </div>
+            )}
+
+            {/* Modal */}
+            {showModal && (
+                <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+                    <div className="bg-white rounded-lg p-6 w-full max-w-md">
+                        <h2 className="text-xl font-bold mb-4">
+                            {editingInstructor ? 'Editar Profesor' : 'Nuevo Profesor'}
+                        </h2>
+                        <form onSubmit={handleSubmit}>
+                            <div className="space-y-4">
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">Nombre</label>
+                                    <input
+                                        type="text"
+                                        value={formData.name}
+                                        onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500"
+                                        required
+                                    />
+                                </div>
+
+                                <div className="grid grid-cols-2 gap-4">
+                                    <div>
+                                        <label className="block text-sm font-medium text-gray-700 mb-1">Celular</label>
+                                        <input
+                                            type="tel"
+                                            value={formData.phone}
+                                            onChange={(e) => setFormData({ ...formData, phone: e.target.value.replace(/\D/g, '') })}
+                                            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500"
+                                        />
+                                    </div>
+                                    <div>
+                                        <label className="block text-sm font-medium text-gray-700 mb-1">Tarifa por hora (S/)</label>
+                                        <input
+                                            type="number"
+                                            min="0"
+                                            step="0.5"
+                                            value={formData.hourlyRate}
+                                            onChange={(e) => setFormData({ ...formData, hourlyRate: parseFloat(e.target.value) || 0 })}
+                                            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500"
+                                        />
+                                    </div>
+                                </div>
+
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">Color</label>
+                                    <input
+                                        type="color"
+                                        value={formData.color}
+                                        onChange={(e) => setFormData({ ...formData, color: e.target.value })}
+                                        className="w-full h-10 px-1 py-1 border border-gray-300 rounded-lg"
+                                    />
+                                </div>
+
+                                <div className="flex items-center">
+                                    <input
+                                        type="checkbox"
+                                        id="isActive"
+                                        checked={formData.isActive}
+                                        onChange={(e) => setFormData({ ...formData, isActive: e.target.checked })}
+                                        className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+                                    />
+                                    <label htmlFor="isActive" className="ml-2 block text-sm text-gray-900">
+                                        Profesor activo
+                                    </label>
+                                </div>
+                            </div>
+
+                            <div className="flex gap-3 mt-6">
+                                <button
+                                    type="button"
+                                    onClick={handleCloseModal}
+                                    className="flex-1 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                                >
+                                    Cancelar
+                                </button>
+                                <button
+                                    type="submit"
+                                    className="flex-1 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors"
+                                >
+                                    {editingInstructor ? 'Actualizar' : 'Crear'}
+                                </button>
+                            </div>
+                        </form>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
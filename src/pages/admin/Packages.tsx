@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { packageService } from '../../services/packageService';
+import { packageService, DEFAULT_FREEZE_POLICY } from '../../services/packageService';
 import { categoryService } from '../../services/categoryService';
 import { useSeason } from '../../contexts/SeasonContext';
 import type { Package } from '../../types/db';
@@ -16,6 +16,10 @@ export default function Packages() {
         classesPerMonth: 8,
         duration: 1,
         price: 0,
+        installments: 1,
+        dueOffsetDays: '',
+        maxFreezes: DEFAULT_FREEZE_POLICY.maxFreezes,
+        maxFreezeDays: DEFAULT_FREEZE_POLICY.maxDays,
         isActive: true
     });
 
@@ -44,9 +48,19 @@ export default function Packages() {
         e.preventDefault();
         if (!currentSeason) return;
 
+        // "0, 30" -> [0, 30]: one due offset (days after enrollment) per installment
+        const { installments, dueOffsetDays, maxFreezes, maxFreezeDays, ...packageFields } = formData;
+        const offsets = dueOffsetDays.split(',').map(d => d.trim()).filter(Boolean).map(Number);
+        if (installments > 1 && (offsets.length !== installments || offsets.some(d => isNaN(d) || d < 0))) {
+            alert(`Ingrese ${installments} vencimientos en días separados por coma (ej: 0, 30).`);
+            return;
+        }
+
         try {
             const packageData = {
-                ...formData,
+                ...packageFields,
+                installmentPlan: installments > 1 ? { installments, dueOffsetDays: offsets } : null,
+                freezePolicy: { maxFreezes: Math.max(0, maxFreezes || 0), maxDays: Math.max(1, maxFreezeDays || 1) },
                 seasonId: currentSeason.id,
                 scheduleTypes: [], // Universal
                 applicableCategories: ['all'] // Universal
@@ -73,6 +87,10 @@ export default function Packages() {
             classesPerMonth: pkg.classesPerMonth,
             duration: pkg.duration,
             price: pkg.price,
+            installments: pkg.installmentPlan?.installments || 1,
+            dueOffsetDays: pkg.installmentPlan?.dueOffsetDays.join(', ') || '',
+            maxFreezes: packageService.getFreezePolicy(pkg).maxFreezes,
+            maxFreezeDays: packageService.getFreezePolicy(pkg).maxDays,
             isActive: pkg.isActive
         });
         setShowModal(true);
@@ -97,6 +115,10 @@ export default function Packages() {
             classesPerMonth: 8,
             duration: 1,
             price: 0,
+            installments: 1,
+            dueOffsetDays: '',
+            maxFreezes: DEFAULT_FREEZE_POLICY.maxFreezes,
+            maxFreezeDays: DEFAULT_FREEZE_POLICY.maxDays,
             isActive: true
         });
     };
@@ -144,7 +166,7 @@ export default function Packages() {
                                 <h3 className="text-lg font-bold text-gray-900 mb-2">
                                     {pkg.name}
                                 </h3>
-                                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                                <div className="grid grid-cols-2 md:grid-cols-6 gap-4 text-sm">
                                     <div>
                                         <span className="text-gray-500">Clases/mes:</span>
                                         <span className="ml-2 font-medium">{pkg.classesPerMonth}</span>
@@ -157,6 +179,22 @@ export default function Packages() {
                                         <span className="text-gray-500">Precio:</span>
                                         <span className="ml-2 font-medium text-green-600">S/ {pkg.price}</span>
                                     </div>
+                                    <div>
+                                        <span className="text-gray-500">Cuotas:</span>
+                                        <span className="ml-2 font-medium">
+                                            {pkg.installmentPlan
+                                                ? `${pkg.installmentPlan.installments} (días ${pkg.installmentPlan.dueOffsetDays.join(', ')})`
+                                                : 'Sin cuotas'}
+                                        </span>
+                                    </div>
+                                    <div>
+                                        <span className="text-gray-500">Congelamiento:</span>
+                                        <span className="ml-2 font-medium">
+                                            {packageService.getFreezePolicy(pkg).maxFreezes > 0
+                                                ? `${packageService.getFreezePolicy(pkg).maxFreezes} x ${packageService.getFreezePolicy(pkg).maxDays} días`
+                                                : 'No permite'}
+                                        </span>
+                                    </div>
                                     <div>
                                         <span className="text-gray-500">Estado:</span>
                                         <span className={`ml-2 px-2 py-1 text-xs rounded-full ${pkg.isActive ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
@@ -247,6 +285,66 @@ export default function Packages() {
                                     </div>
                                 </div>
 
+                                <div className="grid grid-cols-3 gap-4">
+                                    <div>
+                                        <label className="block text-sm font-medium text-gray-700 mb-1">
+                                            Cuotas
+                                        </label>
+                                        <input
+                                            type="number"
+                                            min={1}
+                                            max={6}
+                                            value={formData.installments}
+                                            onChange={(e) => setFormData({ ...formData, installments: parseInt(e.target.value) || 1 })}
+                                            className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-indigo-500"
+                                        />
+                                    </div>
+                                    <div className="col-span-2">
+                                        <label className="block text-sm font-medium text-gray-700 mb-1">
+                                            Vencimientos (días desde la matrícula)
+                                        </label>
+                                        <input
+                                            type="text"
+                                            value={formData.dueOffsetDays}
+                                            onChange={(e) => setFormData({ ...formData, dueOffsetDays: e.target.value })}
+                                            disabled={formData.installments <= 1}
+                                            className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-indigo-500 disabled:bg-gray-100"
+                                            placeholder="Ej: 0, 30"
+                                        />
+                                    </div>
+                                </div>
+                                <p className="text-xs text-gray-500 -mt-2">
+                                    Los pagos parciales se dividen en cuotas iguales. Con 1 cuota el saldo vence a los 7 días.
+                                </p>
+
+                                <div className="grid grid-cols-2 gap-4">
+                                    <div>
+                                        <label className="block text-sm font-medium text-gray-700 mb-1">
+                                            Congelamientos permitidos
+                                        </label>
+                                        <input
+                                            type="number"
+                                            min={0}
+                                            value={formData.maxFreezes}
+                                            onChange={(e) => setFormData({ ...formData, maxFreezes: parseInt(e.target.value) || 0 })}
+                                            className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-indigo-500"
+                                        />
+                                    </div>
+                                    <div>
+                                        <label className="block text-sm font-medium text-gray-700 mb-1">
+                                            Días máximos por congelamiento
+                                        </label>
+                                        <input
+                                            type="number"
+                                            min={1}
+                                            value={formData.maxFreezeDays}
+                                            onChange={(e) => setFormData({ ...formData, maxFreezeDays: parseInt(e.target.value) || 1 })}
+                                            disabled={formData.maxFreezes <= 0}
+                                            className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-indigo-500 disabled:bg-gray-100"
+                                        />
+                                    </div>
+                                </div>
+
                                 <div className="flex items-center">
                                     <input
                                         type="checkbox"
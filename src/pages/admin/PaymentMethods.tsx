@@ -10,7 +10,8 @@ export default function PaymentMethods() {
     const [editingMethod, setEditingMethod] = useState<PaymentMethodConfig | null>(null);
     const [formData, setFormData] = useState({
         name: '',
-        isActive: true
+        isActive: true,
+        isCash: false
     });
 
     useEffect(() => {
@@ -40,7 +41,7 @@ export default function PaymentMethods() {
             }
             setIsModalOpen(false);
             setEditingMethod(null);
-            setFormData({ name: '', isActive: true });
+            setFormData({ name: '', isActive: true, isCash: false });
             loadMethods();
         } catch (error) {
             console.error("Error saving method:", error);
@@ -52,7 +53,8 @@ export default function PaymentMethods() {
         setEditingMethod(method);
         setFormData({
             name: method.name,
-            isActive: method.isActive
+            isActive: method.isActive,
+            isCash: !!method.isCash
         });
         setIsModalOpen(true);
     };
@@ -77,7 +79,7 @@ export default function PaymentMethods() {
                 <button
                     onClick={() => {
                         setEditingMethod(null);
-                        setFormData({ name: '', isActive: true });
+                        setFormData({ name: '', isActive: true, isCash: false });
                         setIsModalOpen(true);
                     }}
                     className="flex items-center gap-2 bg-sky-600 hover:bg-sky-700 text-white px-4 py-2.5 rounded-xl transition-all shadow-lg shadow-sky-200"
@@ -124,6 +126,11 @@ export default function PaymentMethods() {
                                         INACTIVO
                                     </span>
                                 )}
+                                {method.isCash && (
+                                    <span className="px-3 py-1 bg-amber-100 text-amber-700 rounded-full text-xs font-bold">
+                                        CAJA FÍSICA
+                                    </span>
+                                )}
                             </div>
                         </div>
                     ))}
@@ -169,6 +176,19 @@ export default function PaymentMethods() {
                                 </label>
                             </div>
 
+                            <div className="flex items-center gap-3 p-4 bg-slate-50 rounded-2xl border border-slate-100">
+                                <input
+                                    type="checkbox"
+                                    id="isCash"
+                                    className="w-5 h-5 rounded border-slate-300 text-sky-600 focus:ring-sky-500"
+                                    checked={formData.isCash}
+                                    onChange={e => setFormData({ ...formData, isCash: e.target.checked })}
+                                />
+                                <label htmlFor="isCash" className="text-sm font-bold text-slate-700 cursor-pointer">
+                                    Efectivo en caja (el cierre de caja le suma el sencillo inicial)
+                                </label>
+                            </div>
+
                             <button
                                 type="submit"
                                 className="w-full bg-slate-900 text-white py-3 rounded-xl font-bold hover:bg-slate-800 transition-all shadow-lg active:scale-95"
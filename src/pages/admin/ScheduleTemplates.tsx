@@ -2,24 +2,32 @@ import React, { useState, useEffect } from 'react';
 import { scheduleTemplateService } from '../../services/scheduleTemplateService';
 import { categoryService } from '../../services/categoryService';
 import { seasonService } from '../../services/seasonService';
+import { instructorService, findInstructorConflicts } from '../../services/instructorService';
 import { useSeason } from '../../contexts/SeasonContext';
-import type { ScheduleTemplate, Category, DayType, Season } from '../../types/db';
+import type { ScheduleTemplate, Category, DayType, Season, Instructor } from '../../types/db';
 import { getMonthsInRange } from '../../utils/monthUtils';
+import { getTimeSlotRange } from '../../utils/timeSlotUtils';
+import { getTemplatesAt, getLaneOccupancy, getPoolCapacity, POOL_AREA_LABELS } from '../../utils/poolUtils';
 
 export default function ScheduleTemplates() {
     const { currentSeason } = useSeason();
     const [templates, setTemplates] = useState<ScheduleTemplate[]>([]);
     const [categories, setCategories] = useState<Category[]>([]);
+    const [instructors, setInstructors] = useState<Instructor[]>([]);
     const [seasons, setSeasons] = useState<Season[]>([]);
     const [selectedSeasonId, setSelectedSeasonId] = useState<string>('');
     const [isLoading, setIsLoading] = useState(true);
     const [isSyncing, setIsSyncing] = useState(false);
     const [showModal, setShowModal] = useState(false);
     const [editingTemplate, setEditingTemplate] = useState<ScheduleTemplate | null>(null);
+    const [showLanes, setShowLanes] = useState(false);
+    const [laneDayType, setLaneDayType] = useState<DayType>('lun-mier-vier');
     const [formData, setFormData] = useState({
         dayType: 'lun-mier-vier' as DayType,
         timeSlot: '06:00-07:00',
         categoryId: '',
+        instructorId: '',
+        laneIds: [] as string[],
         capacity: 12,
         isBreak: false
     });
@@ -46,10 +54,11 @@ export default function ScheduleTemplates() {
     const loadSeasons = async () => {
         try {
             const allSeasons = await seasonService.getAll();
-            setSeasons(allSeasons);
+            setSeasons(allSeasons.filter(s => !s.archivedAt));
             // Also load categories
             const cats = await categoryService.getActive();
             setCategories(cats);
+            setInstructors(await instructorService.getAll());
         } catch (error) {
             console.error('Error loading seasons:', error);
         }
@@ -75,6 +84,8 @@ export default function ScheduleTemplates() {
             dayType: template.dayType,
             timeSlot: template.timeSlot,
             categoryId: template.categoryId || '',
+            instructorId: template.instructorId || '',
+            laneIds: template.laneIds || [],
             capacity: template.capacity,
             isBreak: template.isBreak
         });
@@ -107,14 +118,24 @@ export default function ScheduleTemplates() {
 
         // If editing, skip complex validation and just update
         if (editingTemplate) {
+            const changes = {
+                dayType: formData.dayType,
+                timeSlot: formData.timeSlot,
+                categoryId: formData.categoryId,
+                instructorId: formData.instructorId || null,
+                laneIds: formData.isBreak ? [] : formData.laneIds,
+                capacity: formData.capacity,
+                isBreak: formData.isBreak
+            };
+            const conflict = getInstructorConflict([{ ...editingTemplate, ...changes }]);
+            if (conflict) {
+                alert(conflict);
+                return;
+            }
+            if (!(await confirmPoolCapacity([{ ...editingTemplate, ...changes }], [editingTemplate.id]))) return;
+
             try {
-                await scheduleTemplateService.update(editingTemplate.id, {
-                    dayType: formData.dayType,
-                    timeSlot: formData.timeSlot,
-                    categoryId: formData.categoryId,
-                    capacity: formData.capacity,
-                    isBreak: formData.isBreak
-                });
+                await scheduleTemplateService.update(editingTemplate.id, changes);
 
                 // Sync capacity to existing monthly slots if capacity changed
                 if (selectedSeasonId) {
@@ -127,7 +148,7 @@ export default function ScheduleTemplates() {
                 return;
             } catch (error) {
                 console.error('Error updating template:', error);
-                alert('Error al actualizar plantilla');
+                alert(error instanceof Error ? error.message : 'Error al actualizar plantilla');
                 return;
             }
         }
@@ -137,7 +158,9 @@ export default function ScheduleTemplates() {
             return Math.max(start1, start2) < Math.min(end1, end2);
         };
 
-        const existingTemplates = templates.filter(t => t.dayType === formData.dayType);
+        // With a lane model, other categories may share the pool (capacity is checked by the service)
+        const existingTemplates = templates.filter(t => t.dayType === formData.dayType &&
+            (poolLanes.length === 0 || t.categoryId === formData.categoryId));
 
         // Logic to split into 1-hour chunks if duration > 60 mins
         const newTemplatesToCreate: any[] = []; // Using any to avoid strict type issues with Omit in this scope
@@ -159,6 +182,7 @@ export default function ScheduleTemplates() {
                 newTemplatesToCreate.push({
                     seasonId: selectedSeasonId,
                     ...formData,
+                    instructorId: formData.instructorId || null,
                     timeSlot: `${formatTime(currentStart)}-${formatTime(currentEnd)}`
                 });
 
@@ -167,10 +191,17 @@ export default function ScheduleTemplates() {
         } else {
             newTemplatesToCreate.push({
                 seasonId: selectedSeasonId,
-                ...formData
+                ...formData,
+                instructorId: formData.instructorId || null
             });
         }
 
+        const conflict = getInstructorConflict(newTemplatesToCreate);
+        if (conflict) {
+            alert(conflict);
+            return;
+        }
+
         // Validate ALL new chunks against existing templates
         for (const newTemp of newTemplatesToCreate) {
             const [nStartStr, nEndStr] = newTemp.timeSlot.split('-');
@@ -196,6 +227,8 @@ export default function ScheduleTemplates() {
             }
         }
 
+        if (!(await confirmPoolCapacity(newTemplatesToCreate))) return;
+
         try {
             // Creating new template(s)
             if (newTemplatesToCreate.length > 1) {
@@ -211,7 +244,34 @@ export default function ScheduleTemplates() {
             handleCloseModal();
         } catch (error) {
             console.error('Error saving template:', error);
-            alert('Error al guardar plantilla');
+            alert(error instanceof Error ? error.message : 'Error al guardar plantilla');
+        }
+    };
+
+    /**
+     * Message for the first double booking the candidates (new or edited templates) would cause
+     */
+    const getInstructorConflict = (candidates: ScheduleTemplate[]): string | null => {
+        const others = templates.filter(t => !candidates.some(c => c.id && c.id === t.id));
+        const conflict = findInstructorConflicts([...others, ...candidates])
+            .find(c => candidates.includes(c.first) || candidates.includes(c.second));
+        if (!conflict) return null;
+
+        const name = instructors.find(i => i.id === conflict.instructorId)?.name || 'El profesor';
+        const existing = candidates.includes(conflict.first) ? conflict.second : conflict.first;
+        return `${name} ya dicta a esa hora: ${existing.dayType} ${existing.timeSlot}. Elija otro profesor u horario.`;
+    };
+
+    /**
+     * Pool capacity check before saving: new errors block, new warnings ask for confirmation
+     */
+    const confirmPoolCapacity = async (candidates: Omit<ScheduleTemplate, 'id' | 'createdAt' | 'updatedAt'>[], excludeIds: string[] = []): Promise<boolean> => {
+        try {
+            const { warnings } = await scheduleTemplateService.validateResources(selectedSeasonId, candidates, excludeIds);
+            return warnings.length === 0 || confirm(`Atención:\n${warnings.join('\n')}\n\n¿Guardar de todas formas?`);
+        } catch (error) {
+            alert(error instanceof Error ? error.message : 'Error al validar la capacidad de la piscina');
+            return false;
         }
     };
 
@@ -290,6 +350,8 @@ export default function ScheduleTemplates() {
             dayType: 'lun-mier-vier',
             timeSlot: '06:00-07:00',
             categoryId: '',
+            instructorId: '',
+            laneIds: [],
             capacity: 12,
             isBreak: false
         });
@@ -311,6 +373,23 @@ export default function ScheduleTemplates() {
     }, {} as Record<string, Record<string, ScheduleTemplate[]>>);
 
     const timeSlots = Object.keys(groupedTemplates).sort();
+    const conflicts = findInstructorConflicts(templates);
+
+    // Pool lanes of the selected season and their load at each class start time
+    const poolLanes = seasons.find(s => s.id === selectedSeasonId)?.poolLanes || [];
+    const poolCapacity = getPoolCapacity(poolLanes);
+    const laneStartTimes = Array.from(new Set(templates
+        .filter(t => t.dayType === laneDayType && !t.isBreak)
+        .map(t => getTimeSlotRange(t.timeSlot).start)
+    )).sort((a, b) => a - b);
+    const formatMinutes = (minutes: number) =>
+        `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+    const loadColor = (load: number, max: number) => {
+        if (load > max) return 'bg-red-100 text-red-800';
+        if (load >= max * 0.8) return 'bg-amber-100 text-amber-800';
+        if (load > 0) return 'bg-green-100 text-green-800';
+        return 'text-gray-400';
+    };
 
 
     if (seasons.length === 0) {
@@ -352,6 +431,14 @@ export default function ScheduleTemplates() {
                     </div>
                 </div>
                 <div className="flex gap-3">
+                    {poolLanes.length > 0 && (
+                        <button
+                            onClick={() => setShowLanes(!showLanes)}
+                            className={`px-4 py-2 rounded-lg border ${showLanes ? 'bg-indigo-50 border-indigo-300 text-indigo-700' : 'border-gray-300 text-gray-700 hover:bg-gray-50'}`}
+                        >
+                            🏊 Carriles
+                        </button>
+                    )}
                     <button
                         onClick={handleSyncSchedules}
                         className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
@@ -378,6 +465,91 @@ export default function ScheduleTemplates() {
                 </div>
             </div>
 
+            {conflicts.length > 0 && (
+                <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
+                    <p className="font-medium text-red-800 mb-1">Profesores con dos clases a la misma hora:</p>
+                    <ul className="text-sm text-red-700 list-disc list-inside">
+                        {conflicts.map(c => (
+                            <li key={`${c.first.id}_${c.second.id}`}>
+                                {instructors.find(i => i.id === c.instructorId)?.name || c.instructorId}: {c.first.dayType} {c.first.timeSlot} y {c.second.timeSlot}
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
+            {showLanes && poolLanes.length > 0 && (
+                <div className="bg-white rounded-lg shadow overflow-hidden mb-6">
+                    <div className="flex justify-between items-center px-6 py-4 border-b border-gray-200">
+                        <div>
+                            <h2 className="font-semibold text-gray-900">Ocupación de carriles</h2>
+                            <p className="text-xs text-gray-500">Nadadores en el agua al inicio de cada clase (piscina: {poolCapacity})</p>
+                        </div>
+                        <select
+                            value={laneDayType}
+                            onChange={(e) => setLaneDayType(e.target.value as DayType)}
+                            className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:outline-none bg-white"
+                        >
+                            <option value="lun-mier-vier">Lun-Mier-Vier</option>
+                            <option value="mar-juev">Mar-Juev</option>
+                            <option value="sab-dom">Sab-Dom</option>
+                        </select>
+                    </div>
+                    {laneStartTimes.length === 0 ? (
+                        <p className="px-6 py-4 text-sm text-gray-500">No hay clases en estos días.</p>
+                    ) : (
+                        <div className="overflow-x-auto">
+                            <table className="min-w-full text-sm">
+                                <thead className="bg-gray-50">
+                                    <tr>
+                                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Hora</th>
+                                        {poolLanes.map(lane => (
+                                            <th key={lane.id} className="px-4 py-2 text-center text-xs font-medium text-gray-500 uppercase">
+                                                {lane.name}
+                                                <div className="font-normal normal-case text-gray-400">{POOL_AREA_LABELS[lane.area]} · máx. {lane.maxSwimmers}</div>
+                                            </th>
+                                        ))}
+                                        <th className="px-4 py-2 text-center text-xs font-medium text-gray-500 uppercase">Total</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-gray-100">
+                                    {laneStartTimes.map(minute => {
+                                        const concurrent = getTemplatesAt(templates, laneDayType, minute);
+                                        const occupancy = getLaneOccupancy(concurrent, poolLanes);
+                                        const total = concurrent.reduce((sum, t) => sum + t.capacity, 0);
+
+                                        return (
+                                            <tr key={minute}>
+                                                <td className="px-4 py-2 font-mono font-bold text-gray-500">{formatMinutes(minute)}</td>
+                                                {poolLanes.map(lane => {
+                                                    const load = Math.ceil(occupancy[lane.id]);
+                                                    const names = concurrent
+                                                        .filter(t => t.laneIds?.includes(lane.id))
+                                                        .map(t => categories.find(c => c.id === t.categoryId)?.name || 'Sin categoría');
+                                                    return (
+                                                        <td key={lane.id} className="px-2 py-1 border-l border-gray-100">
+                                                            <div className={`rounded-lg px-2 py-1 text-center ${loadColor(load, lane.maxSwimmers)}`}>
+                                                                <div className="font-bold">{load}/{lane.maxSwimmers}</div>
+                                                                {names.length > 0 && <div className="text-[10px] truncate">{names.join(', ')}</div>}
+                                                            </div>
+                                                        </td>
+                                                    );
+                                                })}
+                                                <td className="px-2 py-1 border-l border-gray-100">
+                                                    <div className={`rounded-lg px-2 py-1 text-center font-bold ${loadColor(total, poolCapacity)}`}>
+                                                        {total}/{poolCapacity}
+                                                    </div>
+                                                </td>
+                                            </tr>
+                                        );
+                                    })}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+                </div>
+            )}
+
             {templates.length === 0 ? (
                 <div className="bg-gray-50 border border-gray-200 rounded-lg p-8 text-center">
                     <p className="text-gray-600">No hay plantillas de horario. Crea una para comenzar.</p>
@@ -442,6 +614,16 @@ export default function ScheduleTemplates() {
                                                                                 <>
                                                                                     <div className="font-black text-[11px] uppercase truncate">{category?.name || 'Sin categoría'}</div>
                                                                                     <div className="text-[10px] font-bold mt-1 bg-black/10 rounded-full inline-block px-2">Cap: {template.capacity}</div>
+                                                                                    {(template.laneIds?.length ?? 0) > 0 && (
+                                                                                        <div className="text-[10px] font-bold mt-1 truncate">
+                                                                                            🏊 {poolLanes.filter(l => template.laneIds?.includes(l.id)).map(l => l.name).join(', ')}
+                                                                                        </div>
+                                                                                    )}
+                                                                                    {template.instructorId && (
+                                                                                        <div className="text-[10px] font-bold mt-1 truncate">
+                                                                                            👤 {instructors.find(i => i.id === template.instructorId)?.name || 'Profesor'}
+                                                                                        </div>
+                                                                                    )}
                                                                                 </>
                                                                             )}
                                                                         </div>
@@ -564,6 +746,54 @@ export default function ScheduleTemplates() {
                                     </select>
                                 </div>
 
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                                        Profesor
+                                    </label>
+                                    <select
+                                        value={formData.instructorId}
+                                        onChange={(e) => setFormData({ ...formData, instructorId: e.target.value })}
+                                        className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-indigo-500"
+                                        disabled={formData.isBreak}
+                                    >
+                                        <option value="">Sin asignar</option>
+                                        {instructors
+                                            .filter(i => i.isActive || i.id === formData.instructorId)
+                                            .map(i => (
+                                                <option key={i.id} value={i.id}>{i.name}</option>
+                                            ))}
+                                    </select>
+                                </div>
+
+                                {poolLanes.length > 0 && !formData.isBreak && (
+                                    <div>
+                                        <label className="block text-sm font-medium text-gray-700 mb-1">
+                                            Carriles
+                                        </label>
+                                        <div className="grid grid-cols-2 gap-2">
+                                            {poolLanes.map(lane => (
+                                                <label key={lane.id} className="flex items-center gap-2 text-sm text-gray-700">
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={formData.laneIds.includes(lane.id)}
+                                                        onChange={(e) => setFormData({
+                                                            ...formData,
+                                                            laneIds: e.target.checked
+                                                                ? [...formData.laneIds, lane.id]
+                                                                : formData.laneIds.filter(id => id !== lane.id)
+                                                        })}
+                                                        className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+                                                    />
+                                                    <span>
+                                                        {lane.name}
+                                                        <span className="text-xs text-gray-400"> ({POOL_AREA_LABELS[lane.area]}, máx. {lane.maxSwimmers})</span>
+                                                    </span>
+                                                </label>
+                                            ))}
+                                        </div>
+                                    </div>
+                                )}
+
                                 <div>
                                     <label className="block text-sm font-medium text-gray-700 mb-1">
                                         Capacidad
@@ -1,10 +1,41 @@
 import React, { useState, useEffect } from 'react';
-import { seasonService } from '../../services/seasonService';
+import { seasonService, SEASON_DATA_COLLECTIONS, type SeasonBackup, type SeasonDataCollection, type SeasonImpact } from '../../services/seasonService';
+import { closureService, type EndDateRecalcReport } from '../../services/closureService';
 import { useSeason } from '../../contexts/SeasonContext';
-import type { Season, SeasonType } from '../../types/db';
+import { useAuth } from '../../context/AuthContext';
+import { getPoolCapacity, POOL_AREA_LABELS } from '../../utils/poolUtils';
+import { SeasonRolloverWizard } from '../../components/season/SeasonRolloverWizard';
+import type { Season, SeasonType, PoolLane, PoolArea } from '../../types/db';
+
+const IMPACT_LABELS: Record<SeasonDataCollection, string> = {
+    packages: 'Paquetes',
+    schedule_templates: 'Plantillas de horario',
+    monthly_slots: 'Horarios mensuales',
+    students: 'Alumnos',
+    payments: 'Pagos',
+    debts: 'Deudas de sus alumnos',
+    recoveries: 'Recuperaciones',
+    waitlist: 'Lista de espera',
+    waitlist_notifications: 'Avisos de lista de espera',
+    schedule_transfers: 'Cambios de horario'
+};
+
+const describeImpact = (impact: SeasonImpact) =>
+    SEASON_DATA_COLLECTIONS.map(name => `• ${IMPACT_LABELS[name]}: ${impact[name]}`).join('\n');
+
+const downloadBackup = (backup: SeasonBackup, seasonName: string) => {
+    const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `Respaldo_${seasonName.replace(/\s+/g, '_')}_${backup.exportedAt.slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+};
 
 export default function Seasons() {
     const { refreshSeason } = useSeason();
+    const { user, role } = useAuth();
     const [seasons, setSeasons] = useState<Season[]>([]);
     const [isLoading, setIsLoading] = useState(true);
     const [showModal, setShowModal] = useState(false);
@@ -19,6 +50,20 @@ export default function Seasons() {
         isActive: false
     });
 
+    // Holidays / closures
+    const [closuresSeasonId, setClosuresSeasonId] = useState<string | null>(null);
+    const [closureForm, setClosureForm] = useState({ from: '', to: '', reason: '' });
+    const [recalcReport, setRecalcReport] = useState<EndDateRecalcReport | null>(null);
+    const [isWorking, setIsWorking] = useState(false);
+    const closuresSeason = seasons.find(s => s.id === closuresSeasonId) || null;
+
+    // Pool lanes (physical capacity shared by all categories)
+    const [lanesSeason, setLanesSeason] = useState<Season | null>(null);
+    const [laneDraft, setLaneDraft] = useState<PoolLane[]>([]);
+
+    // Rollover into the next season
+    const [showRollover, setShowRollover] = useState(false);
+
     useEffect(() => {
         loadSeasons();
     }, []);
@@ -85,16 +130,61 @@ export default function Seasons() {
         setShowModal(true);
     };
 
-    const handleDelete = async (id: string) => {
-        if (!confirm('¿Estás seguro de eliminar esta temporada?')) return;
+    const handleArchive = async (season: Season) => {
+        setIsWorking(true);
+        try {
+            const impact = await seasonService.getImpact(season.id);
+            if (!confirm(`¿Archivar "${season.name}"?\n\nQuedará de solo lectura y oculta de los selectores hasta restaurarla. No se borra nada:\n\n${describeImpact(impact)}`)) return;
+
+            await seasonService.archive(season.id, user?.uid);
+            await loadSeasons();
+            await refreshSeason();
+        } catch (error) {
+            console.error('Error archiving season:', error);
+            alert(error instanceof Error ? error.message : 'Error al archivar temporada');
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    const handleRestore = async (season: Season) => {
+        if (!confirm(`¿Restaurar "${season.name}"?`)) return;
 
         try {
-            await seasonService.delete(id);
+            await seasonService.restore(season.id);
             await loadSeasons();
             await refreshSeason();
         } catch (error) {
-            console.error('Error deleting season:', error);
-            alert('Error al eliminar temporada');
+            console.error('Error restoring season:', error);
+            alert('Error al restaurar temporada');
+        }
+    };
+
+    const handlePurge = async (season: Season) => {
+        if (role !== 'SUPERADMIN') return;
+
+        setIsWorking(true);
+        try {
+            const impact = await seasonService.getImpact(season.id);
+            if (!confirm(`⚠️ PURGAR "${season.name}"\n\nSe eliminarán permanentemente:\n\n${describeImpact(impact)}\n\nAntes se descargará un respaldo con todo lo que se elimina.`)) return;
+
+            const backup = await seasonService.exportBackup(season.id);
+            downloadBackup(backup, season.name);
+
+            const typed = prompt(`Respaldo descargado. Guárdelo antes de continuar.\n\nEscriba el nombre de la temporada para confirmar la purga:`);
+            if (typed?.trim() !== season.name) {
+                alert('Purga cancelada: el nombre no coincide.');
+                return;
+            }
+
+            const deleted = await seasonService.purge(backup);
+            alert(`✅ Temporada purgada: ${deleted} documentos eliminados.`);
+            await loadSeasons();
+        } catch (error) {
+            console.error('Error purging season:', error);
+            alert(error instanceof Error ? error.message : 'Error al purgar temporada');
+        } finally {
+            setIsWorking(false);
         }
     };
 
@@ -109,6 +199,118 @@ export default function Seasons() {
         }
     };
 
+    const handleOpenClosures = (season: Season) => {
+        setClosuresSeasonId(season.id);
+        setClosureForm({ from: '', to: '', reason: '' });
+        setRecalcReport(null);
+    };
+
+    const handlePreviewRecalc = async (seasonId: string) => {
+        setIsWorking(true);
+        try {
+            setRecalcReport(await closureService.recalculateEndDates(seasonId, true));
+        } catch (error) {
+            console.error('Error checking end dates:', error);
+            alert(error instanceof Error ? error.message : 'Error al revisar fechas de fin');
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    const handleAddClosure = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!closuresSeason) return;
+
+        setIsWorking(true);
+        try {
+            await closureService.add(closuresSeason.id, closureForm);
+            setClosureForm({ from: '', to: '', reason: '' });
+            await loadSeasons();
+            await refreshSeason();
+        } catch (error) {
+            console.error('Error adding closure:', error);
+            alert(error instanceof Error ? error.message : 'Error al agregar cierre');
+            return;
+        } finally {
+            setIsWorking(false);
+        }
+
+        // Students already enrolled may lose classes on the new closure
+        await handlePreviewRecalc(closuresSeason.id);
+    };
+
+    const handleRemoveClosure = async (closureId: string) => {
+        if (!closuresSeason) return;
+        if (!confirm('¿Eliminar este cierre? Las fechas de fin ya recalculadas no se acortan.')) return;
+
+        try {
+            await closureService.remove(closuresSeason.id, closureId);
+            await loadSeasons();
+            await refreshSeason();
+        } catch (error) {
+            console.error('Error removing closure:', error);
+            alert('Error al eliminar cierre');
+        }
+    };
+
+    const handleApplyRecalc = async () => {
+        if (!closuresSeason || !recalcReport) return;
+        if (!confirm(`¿Mover la fecha de fin de ${recalcReport.changes.length} alumno(s)?`)) return;
+
+        setIsWorking(true);
+        try {
+            const report = await closureService.recalculateEndDates(closuresSeason.id, false);
+            alert(`✅ Fechas de fin actualizadas: ${report.changes.length} alumno(s)`);
+            setRecalcReport(null);
+        } catch (error) {
+            console.error('Error recalculating end dates:', error);
+            alert(error instanceof Error ? error.message : 'Error al recalcular fechas de fin');
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    const handleOpenLanes = (season: Season) => {
+        setLanesSeason(season);
+        setLaneDraft(season.poolLanes || []);
+    };
+
+    const handleAddLane = () => {
+        setLaneDraft([...laneDraft, {
+            id: `lane_${Date.now().toString(36)}`,
+            name: `Carril ${laneDraft.length + 1}`,
+            area: 'deep',
+            maxSwimmers: 8
+        }]);
+    };
+
+    const handleUpdateLane = (id: string, changes: Partial<PoolLane>) => {
+        setLaneDraft(laneDraft.map(lane => lane.id === id ? { ...lane, ...changes } : lane));
+    };
+
+    const handleSaveLanes = async () => {
+        if (!lanesSeason) return;
+        if (laneDraft.some(lane => !lane.name.trim() || !(lane.maxSwimmers > 0))) {
+            alert('Cada carril necesita un nombre y un máximo de nadadores mayor a 0');
+            return;
+        }
+
+        setIsWorking(true);
+        try {
+            await seasonService.update(lanesSeason.id, {
+                poolLanes: laneDraft.map(lane => ({ ...lane, name: lane.name.trim() }))
+            });
+            await loadSeasons();
+            await refreshSeason();
+            setLanesSeason(null);
+        } catch (error) {
+            console.error('Error saving pool lanes:', error);
+            alert('Error al guardar carriles');
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
     const handleCloseModal = () => {
         setShowModal(false);
         setEditingSeason(null);
@@ -123,6 +325,9 @@ export default function Seasons() {
         });
     };
 
+    const openSeasons = seasons.filter(s => !s.archivedAt);
+    const archivedSeasons = seasons.filter(s => s.archivedAt);
+
     if (isLoading) {
         return (
             <div className="flex items-center justify-center h-64">
@@ -135,16 +340,25 @@ export default function Seasons() {
         <div className="p-6">
             <div className="flex justify-between items-center mb-6">
                 <h1 className="text-2xl font-bold text-gray-900">Temporadas</h1>
-                <button
-                    onClick={() => setShowModal(true)}
-                    className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700"
-                >
-                    + Nueva Temporada
-                </button>
+                <div className="flex gap-2">
+                    <button
+                        onClick={() => setShowRollover(true)}
+                        disabled={openSeasons.length < 2}
+                        className="px-4 py-2 border border-indigo-600 text-indigo-600 rounded-lg hover:bg-indigo-50 disabled:opacity-50"
+                    >
+                        Pase de Temporada
+                    </button>
+                    <button
+                        onClick={() => setShowModal(true)}
+                        className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700"
+                    >
+                        + Nueva Temporada
+                    </button>
+                </div>
             </div>
 
             <div className="grid gap-4">
-                {seasons.map((season) => (
+                {openSeasons.map((season) => (
                     <div
                         key={season.id}
                         className={`bg-white rounded-lg shadow p-6 border-2 ${season.isActive ? 'border-indigo-500' : 'border-transparent'
@@ -184,6 +398,20 @@ export default function Seasons() {
                                             {season.workingHours.start} - {season.workingHours.end}
                                         </span>
                                     </div>
+                                    <div>
+                                        <span className="text-gray-500">Feriados y cierres:</span>
+                                        <span className="ml-2 font-medium">
+                                            {(season.closures || []).length}
+                                        </span>
+                                    </div>
+                                    <div>
+                                        <span className="text-gray-500">Carriles:</span>
+                                        <span className="ml-2 font-medium">
+                                            {(season.poolLanes || []).length
+                                                ? `${season.poolLanes?.length} (${getPoolCapacity(season.poolLanes)} nadadores)`
+                                                : 'Sin configurar'}
+                                        </span>
+                                    </div>
                                 </div>
                             </div>
                             <div className="flex gap-2">
@@ -195,23 +423,313 @@ export default function Seasons() {
                                         Activar
                                     </button>
                                 )}
+                                <button
+                                    onClick={() => handleOpenClosures(season)}
+                                    className="px-3 py-1 text-sm border border-indigo-600 text-indigo-600 rounded hover:bg-indigo-50"
+                                >
+                                    Cierres
+                                </button>
+                                <button
+                                    onClick={() => handleOpenLanes(season)}
+                                    className="px-3 py-1 text-sm border border-indigo-600 text-indigo-600 rounded hover:bg-indigo-50"
+                                >
+                                    Carriles
+                                </button>
                                 <button
                                     onClick={() => handleEdit(season)}
                                     className="px-3 py-1 text-sm bg-indigo-600 text-white rounded hover:bg-indigo-700"
                                 >
                                     Editar
                                 </button>
+                                {!season.isActive && (
+                                    <button
+                                        onClick={() => handleArchive(season)}
+                                        disabled={isWorking}
+                                        className="px-3 py-1 text-sm bg-gray-600 text-white rounded hover:bg-gray-700 disabled:opacity-50"
+                                    >
+                                        Archivar
+                                    </button>
+                                )}
+                            </div>
+                        </div>
+                    </div>
+                ))}
+            </div>
+
+            {archivedSeasons.length > 0 && (
+                <div className="mt-8">
+                    <h2 className="text-lg font-semibold text-gray-700 mb-3">Archivadas</h2>
+                    <div className="bg-white rounded-lg shadow divide-y">
+                        {archivedSeasons.map(season => (
+                            <div key={season.id} className="flex items-center justify-between px-6 py-4">
+                                <div>
+                                    <span className="font-medium text-gray-900">
+                                        {season.type === 'summer' ? '☀️' : '❄️'} {season.name}
+                                    </span>
+                                    <span className="ml-3 text-sm text-gray-500">
+                                        {season.startMonth} a {season.endMonth} · Archivada el {new Date(season.archivedAt as number).toLocaleDateString('es-PE')}
+                                    </span>
+                                </div>
+                                <div className="flex gap-2">
+                                    <button
+                                        onClick={() => handleRestore(season)}
+                                        disabled={isWorking}
+                                        className="px-3 py-1 text-sm border border-indigo-600 text-indigo-600 rounded hover:bg-indigo-50 disabled:opacity-50"
+                                    >
+                                        Restaurar
+                                    </button>
+                                    {role === 'SUPERADMIN' && (
+                                        <button
+                                            onClick={() => handlePurge(season)}
+                                            disabled={isWorking}
+                                            className="px-3 py-1 text-sm bg-red-600 text-white rounded hover:bg-red-700 disabled:opacity-50"
+                                        >
+                                            Purgar
+                                        </button>
+                                    )}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            {/* Closures Modal */}
+            {closuresSeason && (
+                <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+                    <div className="bg-white rounded-lg p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+                        <div className="flex justify-between items-start mb-4">
+                            <div>
+                                <h2 className="text-xl font-bold">Feriados y Cierres</h2>
+                                <p className="text-sm text-gray-500">
+                                    {closuresSeason.name} · Los días cerrados no se cuentan como clase.
+                                </p>
+                            </div>
+                            <button onClick={() => setClosuresSeasonId(null)} className="text-gray-400 hover:text-gray-600">✕</button>
+                        </div>
+
+                        <form onSubmit={handleAddClosure} className="grid grid-cols-2 md:grid-cols-4 gap-3 items-end mb-4">
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">Desde</label>
+                                <input
+                                    type="date"
+                                    value={closureForm.from}
+                                    min={closuresSeason.startDate}
+                                    max={closuresSeason.endDate}
+                                    onChange={(e) => setClosureForm({ ...closureForm, from: e.target.value })}
+                                    className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-indigo-500"
+                                    required
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">Hasta</label>
+                                <input
+                                    type="date"
+                                    value={closureForm.to}
+                                    min={closureForm.from || closuresSeason.startDate}
+                                    max={closuresSeason.endDate}
+                                    onChange={(e) => setClosureForm({ ...closureForm, to: e.target.value })}
+                                    className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-indigo-500"
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">Motivo</label>
+                                <input
+                                    type="text"
+                                    value={closureForm.reason}
+                                    onChange={(e) => setClosureForm({ ...closureForm, reason: e.target.value })}
+                                    className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-indigo-500"
+                                    placeholder="Ej: Fiestas Patrias"
+                                    required
+                                />
+                            </div>
+                            <button
+                                type="submit"
+                                disabled={isWorking}
+                                className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50"
+                            >
+                                + Agregar
+                            </button>
+                        </form>
+
+                        {(closuresSeason.closures || []).length === 0 ? (
+                            <p className="text-sm text-gray-500 text-center py-4">No hay cierres registrados.</p>
+                        ) : (
+                            <div className="border rounded-lg divide-y mb-4">
+                                {(closuresSeason.closures || []).map(closure => (
+                                    <div key={closure.id} className="flex items-center justify-between px-4 py-2 text-sm">
+                                        <div>
+                                            <span className="font-medium">{closure.reason}</span>
+                                            <span className="ml-2 text-gray-500">
+                                                {closure.from === closure.to ? closure.from : `${closure.from} a ${closure.to}`}
+                                            </span>
+                                        </div>
+                                        <button
+                                            onClick={() => handleRemoveClosure(closure.id)}
+                                            className="px-2 py-1 text-xs text-red-600 hover:bg-red-50 rounded"
+                                        >
+                                            Eliminar
+                                        </button>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+
+                        <div className="border-t pt-4">
+                            <div className="flex items-center justify-between gap-3">
+                                <p className="text-sm text-gray-600">
+                                    Alumnos inscritos antes de un cierre pierden esas clases: su fecha de fin se corre por cada clase perdida.
+                                </p>
                                 <button
-                                    onClick={() => handleDelete(season.id)}
-                                    className="px-3 py-1 text-sm bg-red-600 text-white rounded hover:bg-red-700"
+                                    onClick={() => handlePreviewRecalc(closuresSeason.id)}
+                                    disabled={isWorking}
+                                    className="px-4 py-2 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700 whitespace-nowrap disabled:opacity-50"
                                 >
-                                    Eliminar
+                                    {isWorking ? 'Revisando...' : 'Recalcular fechas de fin'}
                                 </button>
                             </div>
+
+                            {recalcReport && (
+                                <div className="mt-4">
+                                    {recalcReport.changes.length === 0 ? (
+                                        <p className="text-sm text-gray-500 text-center py-2">
+                                            {recalcReport.studentsChecked} alumnos revisados: ninguna fecha de fin cambia.
+                                        </p>
+                                    ) : (
+                                        <>
+                                            <table className="w-full text-sm border rounded-lg">
+                                                <thead className="bg-gray-50 text-gray-500">
+                                                    <tr>
+                                                        <th className="px-3 py-2 text-left">Alumno</th>
+                                                        <th className="px-3 py-2 text-center">Clases perdidas</th>
+                                                        <th className="px-3 py-2 text-left">Fin actual</th>
+                                                        <th className="px-3 py-2 text-left">Nuevo fin</th>
+                                                    </tr>
+                                                </thead>
+                                                <tbody className="divide-y">
+                                                    {recalcReport.changes.map(change => (
+                                                        <tr key={change.studentId}>
+                                                            <td className="px-3 py-2">{change.studentName}</td>
+                                                            <td className="px-3 py-2 text-center">{change.lostClasses}</td>
+                                                            <td className="px-3 py-2 text-gray-500">{change.before}</td>
+                                                            <td className="px-3 py-2 font-medium">{change.after}</td>
+                                                        </tr>
+                                                    ))}
+                                                </tbody>
+                                            </table>
+                                            <button
+                                                onClick={handleApplyRecalc}
+                                                disabled={isWorking}
+                                                className="mt-3 w-full px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50"
+                                            >
+                                                Aplicar a {recalcReport.changes.length} alumno(s)
+                                            </button>
+                                        </>
+                                    )}
+                                </div>
+                            )}
                         </div>
                     </div>
-                ))}
-            </div>
+                </div>
+            )}
+
+            {showRollover && (
+                <SeasonRolloverWizard
+                    seasons={openSeasons}
+                    onClose={() => setShowRollover(false)}
+                    onDone={async () => {
+                        await loadSeasons();
+                        await refreshSeason();
+                    }}
+                />
+            )}
+
+            {/* Pool Lanes Modal */}
+            {lanesSeason && (
+                <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+                    <div className="bg-white rounded-lg p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+                        <div className="flex justify-between items-start mb-4">
+                            <div>
+                                <h2 className="text-xl font-bold">Carriles de la Piscina</h2>
+                                <p className="text-sm text-gray-500">
+                                    {lanesSeason.name} · Las clases que coinciden en horario no pueden superar estos límites.
+                                </p>
+                            </div>
+                            <button onClick={() => setLanesSeason(null)} className="text-gray-400 hover:text-gray-600">✕</button>
+                        </div>
+
+                        {laneDraft.length === 0 ? (
+                            <p className="text-sm text-gray-500 text-center py-4">
+                                Sin carriles: la capacidad de cada plantilla no se valida contra la piscina.
+                            </p>
+                        ) : (
+                            <div className="border rounded-lg divide-y mb-4">
+                                {laneDraft.map(lane => (
+                                    <div key={lane.id} className="grid grid-cols-[1fr_10rem_7rem_auto] gap-3 items-center px-4 py-2">
+                                        <input
+                                            type="text"
+                                            value={lane.name}
+                                            onChange={(e) => handleUpdateLane(lane.id, { name: e.target.value })}
+                                            className="px-3 py-1.5 text-sm border rounded-lg focus:ring-2 focus:ring-indigo-500"
+                                        />
+                                        <select
+                                            value={lane.area}
+                                            onChange={(e) => handleUpdateLane(lane.id, { area: e.target.value as PoolArea })}
+                                            className="px-3 py-1.5 text-sm border rounded-lg focus:ring-2 focus:ring-indigo-500"
+                                        >
+                                            {(Object.keys(POOL_AREA_LABELS) as PoolArea[]).map(area => (
+                                                <option key={area} value={area}>{POOL_AREA_LABELS[area]}</option>
+                                            ))}
+                                        </select>
+                                        <input
+                                            type="number"
+                                            min="1"
+                                            value={lane.maxSwimmers}
+                                            onChange={(e) => handleUpdateLane(lane.id, { maxSwimmers: parseInt(e.target.value) || 0 })}
+                                            className="px-3 py-1.5 text-sm border rounded-lg focus:ring-2 focus:ring-indigo-500"
+                                            title="Máximo de nadadores"
+                                        />
+                                        <button
+                                            onClick={() => setLaneDraft(laneDraft.filter(l => l.id !== lane.id))}
+                                            className="px-2 py-1 text-xs text-red-600 hover:bg-red-50 rounded"
+                                        >
+                                            Eliminar
+                                        </button>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+
+                        <div className="flex items-center justify-between gap-3">
+                            <button
+                                onClick={handleAddLane}
+                                className="px-4 py-2 text-sm border border-indigo-600 text-indigo-600 rounded-lg hover:bg-indigo-50"
+                            >
+                                + Agregar carril
+                            </button>
+                            <span className="text-sm text-gray-600">
+                                Capacidad total: <span className="font-medium">{getPoolCapacity(laneDraft)}</span> nadadores
+                            </span>
+                        </div>
+
+                        <div className="flex gap-3 mt-6">
+                            <button
+                                onClick={() => setLanesSeason(null)}
+                                className="flex-1 px-4 py-2 border rounded-lg hover:bg-gray-50"
+                            >
+                                Cancelar
+                            </button>
+                            <button
+                                onClick={handleSaveLanes}
+                                disabled={isWorking}
+                                className="flex-1 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50"
+                            >
+                                Guardar
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
 
             {/* Modal */}
             {showModal && (
@@ -0,0 +1,289 @@
+import { useState, useEffect } from 'react';
+import { userService } from '../../services/userService';
+import { useAuth } from '../../context/AuthContext';
+import type { UserProfile, UserRole, Invitation } from '../../types/db';
+import { UserCog, Ticket, Plus, Trash2, Copy, CheckCircle, XCircle, Lock, Unlock } from 'lucide-react';
+
+const ROLE_OPTIONS: { value: UserRole; label: string }[] = [
+    { value: 'SUPERADMIN', label: 'Super Admin' },
+    { value: 'ADMIN', label: 'Administrador' },
+    { value: 'STAFF', label: 'Staff' },
+];
+
+const formatDateTime = (timestamp?: number) =>
+    timestamp
+        ? new Date(timestamp).toLocaleString('es-PE', { dateStyle: 'short', timeStyle: 'short' })
+        : 'Nunca';
+
+export default function Users() {
+    const { user: currentUser } = useAuth();
+    const [users, setUsers] = useState<UserProfile[]>([]);
+    const [invitations, setInvitations] = useState<Invitation[]>([]);
+    const [requireInvitation, setRequireInvitation] = useState(false);
+    const [loading, setLoading] = useState(true);
+    const [savingUid, setSavingUid] = useState<string | null>(null);
+    const [newInvitationRole, setNewInvitationRole] = useState<UserRole>('STAFF');
+
+    useEffect(() => {
+        loadData();
+    }, []);
+
+    const loadData = async () => {
+        setLoading(true);
+        try {
+            const [usersData, invitationsData, settings] = await Promise.all([
+                userService.getAll(),
+                userService.getInvitations(),
+                userService.getRegistrationSettings()
+            ]);
+            setUsers(usersData);
+            setInvitations(invitationsData);
+            setRequireInvitation(settings.requireInvitation);
+        } catch (error) {
+            console.error("Error loading users:", error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleRoleChange = async (profile: UserProfile, role: UserRole) => {
+        if (profile.uid === currentUser?.uid && role !== 'SUPERADMIN') {
+            if (!confirm("Vas a quitarte el rol de Super Admin y perderás acceso a esta página. ¿Continuar?")) return;
+        }
+        setSavingUid(profile.uid);
+        try {
+            await userService.updateRole(profile.uid, role);
+            await loadData();
+        } catch (error) {
+            console.error("Error updating role:", error);
+            alert(error instanceof Error ? error.message : "Error al cambiar el rol");
+        } finally {
+            setSavingUid(null);
+        }
+    };
+
+    const handleToggleDisabled = async (profile: UserProfile) => {
+        const disable = !profile.disabled;
+        if (disable && !confirm(`¿Deshabilitar la cuenta de ${profile.email}? No podrá iniciar sesión.`)) return;
+        setSavingUid(profile.uid);
+        try {
+            await userService.setDisabled(profile.uid, disable);
+            await loadData();
+        } catch (error) {
+            console.error("Error updating account:", error);
+            alert(error instanceof Error ? error.message : "Error al actualizar la cuenta");
+        } finally {
+            setSavingUid(null);
+        }
+    };
+
+    const handleToggleRequireInvitation = async () => {
+        try {
+            await userService.updateRegistrationSettings({ requireInvitation: !requireInvitation });
+            setRequireInvitation(!requireInvitation);
+        } catch (error) {
+            console.error("Error saving registration settings:", error);
+            alert("Error al guardar la configuración de registro");
+        }
+    };
+
+    const handleCreateInvitation = async () => {
+        if (!currentUser) return;
+        try {
+            await userService.createInvitation(newInvitationRole, currentUser.uid);
+            await loadData();
+        } catch (error) {
+            console.error("Error creating invitation:", error);
+            alert("Error al crear la invitación");
+        }
+    };
+
+    const handleDeleteInvitation = async (code: string) => {
+        if (!confirm("¿Eliminar este código de invitación?")) return;
+        try {
+            await userService.deleteInvitation(code);
+            await loadData();
+        } catch (error) {
+            console.error("Error deleting invitation:", error);
+        }
+    };
+
+    const handleCopy = async (code: string) => {
+        try {
+            await navigator.clipboard.writeText(code);
+        } catch {
+            prompt("Copia el código:", code);
+        }
+    };
+
+    if (loading) {
+        return (
+            <div className="flex justify-center py-12">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-sky-600"></div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-6">
+            <div>
+                <h2 className="text-3xl font-bold text-slate-800">Usuarios</h2>
+                <p className="text-slate-500">Gestiona los roles y el acceso de las cuentas del sistema</p>
+            </div>
+
+            {/* USERS TABLE */}
+            <div className="bg-white rounded-2xl shadow-sm border border-slate-100 overflow-hidden">
+                <div className="px-6 py-4 border-b border-slate-100 flex items-center gap-3">
+                    <div className="w-10 h-10 bg-sky-50 text-sky-600 rounded-xl flex items-center justify-center">
+                        <UserCog className="w-5 h-5" />
+                    </div>
+                    <h3 className="text-lg font-bold text-slate-800">Cuentas ({users.length})</h3>
+                </div>
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                        <thead className="bg-slate-50 text-slate-500 text-xs uppercase">
+                            <tr>
+                                <th className="px-6 py-3 text-left">Usuario</th>
+                                <th className="px-6 py-3 text-left">Rol</th>
+                                <th className="px-6 py-3 text-left">Último acceso</th>
+                                <th className="px-6 py-3 text-left">Estado</th>
+                                <th className="px-6 py-3 text-right">Acciones</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-100">
+                            {users.map(profile => (
+                                <tr key={profile.uid} className={profile.disabled ? 'bg-slate-50 text-slate-400' : ''}>
+                                    <td className="px-6 py-4">
+                                        <p className="font-bold text-slate-800">
+                                            {profile.displayName || 'Sin nombre'}
+                                            {profile.uid === currentUser?.uid && (
+                                                <span className="ml-2 text-xs font-medium text-sky-600">(Tú)</span>
+                                            )}
+                                        </p>
+                                        <p className="text-xs text-slate-500">{profile.email}</p>
+                                    </td>
+                                    <td className="px-6 py-4">
+                                        <select
+                                            value={profile.role}
+                                            disabled={savingUid === profile.uid}
+                                            onChange={e => handleRoleChange(profile, e.target.value as UserRole)}
+                                            className="px-3 py-2 rounded-xl border border-slate-200 bg-white focus:outline-none focus:ring-2 focus:ring-sky-500/50 font-medium"
+                                        >
+                                            {ROLE_OPTIONS.map(opt => (
+                                                <option key={opt.value} value={opt.value}>{opt.label}</option>
+                                            ))}
+                                        </select>
+                                    </td>
+                                    <td className="px-6 py-4 text-slate-600">{formatDateTime(profile.lastLogin)}</td>
+                                    <td className="px-6 py-4">
+                                        {profile.disabled ? (
+                                            <span className="inline-flex items-center gap-1.5 px-3 py-1 bg-slate-100 text-slate-500 rounded-full text-xs font-bold">
+                                                <XCircle className="w-3 h-3" />
+                                                DESHABILITADA
+                                            </span>
+                                        ) : (
+                                            <span className="inline-flex items-center gap-1.5 px-3 py-1 bg-emerald-100 text-emerald-700 rounded-full text-xs font-bold">
+                                                <CheckCircle className="w-3 h-3" />
+                                                ACTIVA
+                                            </span>
+                                        )}
+                                    </td>
+                                    <td className="px-6 py-4 text-right">
+                                        {profile.uid !== currentUser?.uid && (
+                                            <button
+                                                onClick={() => handleToggleDisabled(profile)}
+                                                disabled={savingUid === profile.uid}
+                                                className={profile.disabled
+                                                    ? "inline-flex items-center gap-1.5 px-3 py-2 text-emerald-600 hover:bg-emerald-50 rounded-lg transition-colors font-medium"
+                                                    : "inline-flex items-center gap-1.5 px-3 py-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors font-medium"}
+                                            >
+                                                {profile.disabled ? <Unlock className="w-4 h-4" /> : <Lock className="w-4 h-4" />}
+                                                {profile.disabled ? 'Habilitar' : 'Deshabilitar'}
+                                            </button>
+                                        )}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+
+            {/* INVITATIONS */}
+            <div className="bg-white rounded-2xl shadow-sm border border-slate-100 overflow-hidden">
+                <div className="px-6 py-4 border-b border-slate-100 flex flex-wrap items-center justify-between gap-4">
+                    <div className="flex items-center gap-3">
+                        <div className="w-10 h-10 bg-sky-50 text-sky-600 rounded-xl flex items-center justify-center">
+                            <Ticket className="w-5 h-5" />
+                        </div>
+                        <h3 className="text-lg font-bold text-slate-800">Códigos de Invitación</h3>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <select
+                            value={newInvitationRole}
+                            onChange={e => setNewInvitationRole(e.target.value as UserRole)}
+                            className="px-3 py-2.5 rounded-xl border border-slate-200 bg-white focus:outline-none focus:ring-2 focus:ring-sky-500/50 font-medium"
+                        >
+                            {ROLE_OPTIONS.map(opt => (
+                                <option key={opt.value} value={opt.value}>{opt.label}</option>
+                            ))}
+                        </select>
+                        <button
+                            onClick={handleCreateInvitation}
+                            className="flex items-center gap-2 bg-sky-600 hover:bg-sky-700 text-white px-4 py-2.5 rounded-xl transition-all shadow-lg shadow-sky-200"
+                        >
+                            <Plus className="w-5 h-5" />
+                            <span>Generar Código</span>
+                        </button>
+                    </div>
+                </div>
+
+                <div className="p-6 space-y-4">
+                    <div className="flex items-center gap-3 p-4 bg-slate-50 rounded-2xl border border-slate-100">
+                        <input
+                            type="checkbox"
+                            id="requireInvitation"
+                            className="w-5 h-5 rounded border-slate-300 text-sky-600 focus:ring-sky-500"
+                            checked={requireInvitation}
+                            onChange={handleToggleRequireInvitation}
+                        />
+                        <label htmlFor="requireInvitation" className="text-sm font-bold text-slate-700 cursor-pointer">
+                            Exigir código de invitación para registrarse
+                        </label>
+                    </div>
+
+                    {invitations.length === 0 ? (
+                        <p className="text-slate-400 text-sm text-center py-4">No hay códigos generados.</p>
+                    ) : (
+                        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                            {invitations.map(inv => (
+                                <div key={inv.code} className="p-4 rounded-xl border border-slate-100 hover:shadow-md transition-shadow">
+                                    <div className="flex justify-between items-start mb-2">
+                                        <p className="font-mono text-lg font-bold tracking-widest text-slate-800">{inv.code}</p>
+                                        <div className="flex gap-1">
+                                            {!inv.usedBy && (
+                                                <button onClick={() => handleCopy(inv.code)} className="p-2 text-slate-400 hover:text-sky-600 hover:bg-sky-50 rounded-lg transition-colors">
+                                                    <Copy className="w-4 h-4" />
+                                                </button>
+                                            )}
+                                            <button onClick={() => handleDeleteInvitation(inv.code)} className="p-2 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors">
+                                                <Trash2 className="w-4 h-4" />
+                                            </button>
+                                        </div>
+                                    </div>
+                                    <p className="text-xs text-slate-500">Rol: <span className="font-bold">{inv.role}</span></p>
+                                    <p className="text-xs text-slate-500">Creado: {formatDateTime(inv.createdAt)}</p>
+                                    {inv.usedBy ? (
+                                        <p className="text-xs text-emerald-600 mt-1">Usado por {inv.usedByEmail} ({formatDateTime(inv.usedAt)})</p>
+                                    ) : (
+                                        <p className="text-xs text-amber-600 mt-1 font-medium">Disponible</p>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,464 @@
+import {
+    collection,
+    doc,
+    getDocs,
+    query,
+    where,
+    runTransaction
+} from 'firebase/firestore';
+import { db } from '../lib/firebase';
+import { loggingService } from './logging';
+import { auditService } from './auditService';
+import { studentService } from './students';
+import { monthlyScheduleService } from './monthlyScheduleService';
+import { getAttendanceRecoveryRef, applyRecoveryForAttendance } from './recoveryService';
+import { dateUtils } from '../utils/date';
+import type { AttendanceRecord, MonthlySlot, Student } from '../types/db';
+
+const STUDENTS_COLLECTION = 'students';
+const MONTHLY_SLOTS_COLLECTION = 'monthly_slots';
+const CHECK_IN_EARLY_MINUTES = 30; // QR check-in opens this long before the class starts
+
+// Attendance lives only in Student.asistencia. MonthlyEnrollment.attendanceRecord is legacy
+// data, folded in by migrateLegacyRecords().
+
+export interface AttendanceMark {
+    slotId?: string; // Monthly slot of the class
+    markedBy?: string; // UID
+}
+
+export interface AttendanceConflict {
+    studentId: string;
+    studentName: string;
+    fecha: string;
+    slotId?: string;
+    kept: boolean; // Value kept on the student
+    discarded: boolean; // Value found in the other record
+    source: 'SLOT' | 'DUPLICATE';
+}
+
+export interface AttendanceMigrationReport {
+    slotsProcessed: number;
+    recordsFound: number; // Legacy records in monthly slots
+    recordsMerged: number; // Added to the student
+    alreadyInSync: number;
+    duplicatesRemoved: number; // Repeated dates on the student
+    studentsUpdated: number;
+    missingStudents: number;
+    conflicts: AttendanceConflict[];
+}
+
+interface LegacyMark {
+    slotId: string;
+    date: string;
+    attended: boolean;
+    markedBy?: string;
+}
+
+export type CheckInStatus = 'OK' | 'ALREADY_MARKED' | 'REJECTED';
+
+export interface CheckInResult {
+    status: CheckInStatus;
+    message: string;
+    student?: Student;
+    slot?: MonthlySlot;
+}
+
+/**
+ * Same class: same date and slot. Records without slot (older marks) match any slot of that day.
+ */
+export const isSameClass = (record: AttendanceRecord, fecha: string, slotId?: string): boolean =>
+    record.fecha === fecha && (!record.slotId || !slotId || record.slotId === slotId);
+
+/**
+ * Applies one mark to a student's attendance. Credits follow the final state, so repeating a
+ * mark changes nothing and un-marking gives the class back.
+ */
+export const applyAttendance = (
+    records: AttendanceRecord[],
+    remainingCredits: number,
+    fecha: string,
+    asistencia: boolean,
+    mark: AttendanceMark = {}
+): { records: AttendanceRecord[], remainingCredits: number, previous: boolean | null, changed: boolean } => {
+    const existing = records.find(r => isSameClass(r, fecha, mark.slotId));
+    const previous = existing ? existing.asistencia : null;
+    if (previous === asistencia) {
+        return { records, remainingCredits, previous, changed: false };
+    }
+
+    const slotId = mark.slotId || existing?.slotId;
+    const record: AttendanceRecord = {
+        fecha,
+        asistencia,
+        ...(slotId && { slotId }),
+        ...(mark.markedBy && { markedBy: mark.markedBy }),
+        markedAt: Date.now()
+    };
+    const updated = existing
+        ? records.map(r => (r === existing ? record : r))
+        : [...records, record];
+
+    // Newest first
+    updated.sort((a, b) => b.fecha.localeCompare(a.fecha));
+
+    return {
+        records: updated,
+        remainingCredits: remainingCredits - (asistencia ? 1 : 0) + (previous ? 1 : 0),
+        previous,
+        changed: true
+    };
+};
+
+const emptyReport = (): AttendanceMigrationReport => ({
+    slotsProcessed: 0,
+    recordsFound: 0,
+    recordsMerged: 0,
+    alreadyInSync: 0,
+    duplicatesRemoved: 0,
+    studentsUpdated: 0,
+    missingStudents: 0,
+    conflicts: []
+});
+
+/**
+ * Student.asistencia with repeated dates removed and the slot-only marks added (the student
+ * record wins on conflicts), newest first. Counts and conflicts go to the report.
+ */
+const mergeLegacyMarks = (student: Student, legacy: LegacyMark[], report: AttendanceMigrationReport): AttendanceRecord[] => {
+    const current = student.asistencia || [];
+
+    // 1. Repeated dates on the student: keep the first one (list is newest first)
+    const records: AttendanceRecord[] = [];
+    current.forEach(r => {
+        const kept = records.find(k => k.fecha === r.fecha && (k.slotId || '') === (r.slotId || ''));
+        if (!kept) {
+            records.push({ ...r });
+            return;
+        }
+        report.duplicatesRemoved++;
+        if (kept.asistencia !== r.asistencia) {
+            report.conflicts.push({
+                studentId: student.id,
+                studentName: student.fullName,
+                fecha: r.fecha,
+                ...(r.slotId && { slotId: r.slotId }),
+                kept: kept.asistencia,
+                discarded: r.asistencia,
+                source: 'DUPLICATE'
+            });
+        }
+    });
+
+    // 2. Marks only present in a monthly slot
+    legacy.forEach(l => {
+        const existing = records.find(r => isSameClass(r, l.date, l.slotId));
+        if (!existing) {
+            records.push({
+                fecha: l.date,
+                asistencia: l.attended,
+                slotId: l.slotId,
+                ...(l.markedBy && { markedBy: l.markedBy })
+            });
+            report.recordsMerged++;
+        } else if (existing.asistencia === l.attended) {
+            if (!existing.slotId) existing.slotId = l.slotId;
+            report.alreadyInSync++;
+        } else {
+            report.conflicts.push({
+                studentId: student.id,
+                studentName: student.fullName,
+                fecha: l.date,
+                slotId: l.slotId,
+                kept: existing.asistencia,
+                discarded: l.attended,
+                source: 'SLOT'
+            });
+        }
+    });
+
+    records.sort((a, b) => b.fecha.localeCompare(a.fecha));
+    return records;
+};
+
+export const attendanceService = {
+    /**
+     * Marks or un-marks a class for a student. Idempotent per student/date/slot.
+     */
+    async mark(studentId: string, fecha: string, asistencia: boolean, mark: AttendanceMark = {}): Promise<void> {
+        const studentRef = doc(db, STUDENTS_COLLECTION, studentId);
+
+        await runTransaction(db, async (transaction) => {
+            const studentDoc = await transaction.get(studentRef);
+            if (!studentDoc.exists()) {
+                throw new Error("Estudiante no encontrado");
+            }
+
+            const student = studentDoc.data() as Student;
+            const previousCredits = student.remainingCredits || 0;
+            const result = applyAttendance(student.asistencia || [], previousCredits, fecha, asistencia, mark);
+            if (!result.changed) return;
+
+            // Missed classes grant a make-up; attending a booked make-up uses it
+            const slotDoc = mark.slotId ? await transaction.get(doc(db, MONTHLY_SLOTS_COLLECTION, mark.slotId)) : null;
+            const slot = slotDoc?.exists() ? slotDoc.data() as MonthlySlot : null;
+            const { ref: recoveryRef, isMakeUp } = getAttendanceRecoveryRef(slot, studentId, fecha, mark.slotId);
+            const recoveryDoc = await transaction.get(recoveryRef);
+
+            transaction.update(studentRef, {
+                asistencia: result.records,
+                remainingCredits: result.remainingCredits
+            });
+
+            auditService.record(transaction, {
+                entity: 'students',
+                entityId: studentId,
+                action: 'UPDATE',
+                summary: `Asistencia ${fecha}: ${asistencia ? 'Asistió' : 'Faltó'}`,
+                studentId,
+                studentName: student.fullName,
+                before: { [`asistencia.${fecha}`]: result.previous, remainingCredits: previousCredits },
+                after: { [`asistencia.${fecha}`]: asistencia, remainingCredits: result.remainingCredits }
+            });
+
+            applyRecoveryForAttendance(transaction, recoveryDoc, {
+                isMakeUp, asistencia, student, studentId, fecha, slotId: mark.slotId
+            });
+        });
+    },
+
+    /**
+     * Marks a whole class at once (one transaction). Returns how many students changed.
+     */
+    async markClass(
+        slotId: string,
+        fecha: string,
+        marks: Array<{ studentId: string, asistencia: boolean }>,
+        markedBy?: string
+    ): Promise<number> {
+        const refs = marks.map(m => doc(db, STUDENTS_COLLECTION, m.studentId));
+        let changedCount = 0;
+
+        await runTransaction(db, async (transaction) => {
+            const studentDocs = [];
+            for (const ref of refs) {
+                studentDocs.push(await transaction.get(ref));
+            }
+            const slotDoc = await transaction.get(doc(db, MONTHLY_SLOTS_COLLECTION, slotId));
+            const slot = slotDoc.exists() ? slotDoc.data() as MonthlySlot : null;
+
+            // All reads (students, slot, recoveries) before any write
+            const changes = [];
+            for (let i = 0; i < studentDocs.length; i++) {
+                const studentDoc = studentDocs[i];
+                if (!studentDoc.exists()) continue;
+                const student = studentDoc.data() as Student;
+                const { asistencia } = marks[i];
+                const previousCredits = student.remainingCredits || 0;
+                const result = applyAttendance(student.asistencia || [], previousCredits, fecha, asistencia, { slotId, markedBy });
+                if (!result.changed) continue;
+
+                const { ref: recoveryRef, isMakeUp } = getAttendanceRecoveryRef(slot, studentDoc.id, fecha, slotId);
+                const recoveryDoc = await transaction.get(recoveryRef);
+                changes.push({ studentDoc, student, asistencia, previousCredits, result, recoveryDoc, isMakeUp });
+            }
+
+            changedCount = changes.length;
+            changes.forEach(({ studentDoc, student, asistencia, previousCredits, result, recoveryDoc, isMakeUp }) => {
+                transaction.update(studentDoc.ref, {
+                    asistencia: result.records,
+                    remainingCredits: result.remainingCredits
+                });
+                auditService.record(transaction, {
+                    entity: 'students',
+                    entityId: studentDoc.id,
+                    action: 'UPDATE',
+                    summary: `Asistencia ${fecha}: ${asistencia ? 'Asistió' : 'Faltó'}`,
+                    studentId: studentDoc.id,
+                    studentName: student.fullName,
+                    before: { [`asistencia.${fecha}`]: result.previous, remainingCredits: previousCredits },
+                    after: { [`asistencia.${fecha}`]: asistencia, remainingCredits: result.remainingCredits }
+                });
+                applyRecoveryForAttendance(transaction, recoveryDoc, {
+                    isMakeUp, asistencia, student, studentId: studentDoc.id, fecha, slotId
+                });
+            });
+        });
+
+        return changedCount;
+    },
+
+    /**
+     * Self check-in with the QR printed on the card. The student must be enrolled in a class
+     * happening now (or starting soon), have credits, a current package and no overdue debt.
+     */
+    async checkInByCode(rawCode: string, markedBy?: string, now: Date = new Date()): Promise<CheckInResult> {
+        // Cards print the code padded to 8 digits; stored codes have at least 6
+        const trimmed = rawCode.trim();
+        const code = /^\d+$/.test(trimmed) ? parseInt(trimmed, 10).toString().padStart(6, '0') : trimmed;
+        if (!code) return { status: 'REJECTED', message: 'Código vacío.' };
+
+        const snapshot = await getDocs(query(collection(db, STUDENTS_COLLECTION), where('studentCode', '==', code)));
+        if (snapshot.empty) {
+            return { status: 'REJECTED', message: `No existe un alumno con el código ${code}.` };
+        }
+        // Codes renumbered by older deletes can repeat: never guess which card this is
+        if (snapshot.size > 1) {
+            const names = snapshot.docs.map(d => (d.data() as Student).fullName).join(', ');
+            return { status: 'REJECTED', message: `El código ${code} pertenece a varios alumnos (${names}). Consulte en recepción.` };
+        }
+        const student = snapshot.docs[0].data() as Student;
+        const today = dateUtils.formatDateId(now);
+
+        if (student.active === false) {
+            return { status: 'REJECTED', student, message: 'El alumno está inactivo.' };
+        }
+
+        // Class happening now where the student is enrolled
+        const { slots } = await monthlyScheduleService.getCurrentClass(now);
+        const ownSlots = slots.filter(s => s.enrolledStudents.some(e => e.studentId === student.id));
+        if (ownSlots.length === 0) {
+            return { status: 'REJECTED', student, message: 'No tiene clase inscrita para hoy.' };
+        }
+        const toMinutes = (time: string) => {
+            const [h, m] = time.split(':').map(Number);
+            return h * 60 + m;
+        };
+        const minutesNow = now.getHours() * 60 + now.getMinutes();
+        const slot = ownSlots.find(s => {
+            const [start, end] = s.timeSlot.split('-');
+            return minutesNow >= toMinutes(start) - CHECK_IN_EARLY_MINUTES && minutesNow <= toMinutes(end);
+        });
+        if (!slot) {
+            return {
+                status: 'REJECTED',
+                student,
+                message: `Su clase de hoy es a las ${ownSlots.map(s => s.timeSlot).join(', ')}.`
+            };
+        }
+
+        if ((student.asistencia || []).some(a => isSameClass(a, today, slot.id) && a.asistencia)) {
+            return { status: 'ALREADY_MARKED', student, slot, message: 'La asistencia ya estaba registrada.' };
+        }
+
+        if (student.packageEndDate && student.packageEndDate < today) {
+            return { status: 'REJECTED', student, slot, message: `Su paquete venció el ${student.packageEndDate}.` };
+        }
+        if ((student.remainingCredits || 0) <= 0) {
+            return { status: 'REJECTED', student, slot, message: 'No le quedan clases disponibles.' };
+        }
+
+        // Installments not yet due do not block entry
+        const debts = await studentService.getDebts(student.id);
+        const overdue = debts.filter(d => d.balance > 0 && d.dueDate <= now.getTime());
+        if (overdue.length > 0) {
+            const total = overdue.reduce((sum, d) => sum + d.balance, 0);
+            return { status: 'REJECTED', student, slot, message: `Tiene una deuda pendiente de S/ ${total.toFixed(2)}.` };
+        }
+
+        await this.mark(student.id, today, true, { slotId: slot.id, markedBy });
+        return { status: 'OK', student, slot, message: 'Asistencia registrada.' };
+    },
+
+    /**
+     * Folds the attendance stored in monthly slots into Student.asistencia and clears it from
+     * the slots. The student record wins on conflicts. Credits are not touched: the slot system
+     * already discounted them when it marked (once per re-mark). They can't be checked here
+     * either, since the credits given at registration aren't stored anywhere. With dryRun
+     * nothing is written.
+     */
+    async migrateLegacyRecords(seasonId?: string, dryRun: boolean = true): Promise<AttendanceMigrationReport> {
+        const report = emptyReport();
+
+        const slotsQuery = seasonId
+            ? query(collection(db, MONTHLY_SLOTS_COLLECTION), where('seasonId', '==', seasonId))
+            : collection(db, MONTHLY_SLOTS_COLLECTION);
+        const slotsSnap = await getDocs(slotsQuery);
+
+        // Legacy marks per student, and the slots that still hold any
+        const legacyByStudent: Record<string, LegacyMark[]> = {};
+        const slotsToClear = slotsSnap.docs.filter(slotDoc => {
+            report.slotsProcessed++;
+            const enrollments: Array<{ studentId: string, attendanceRecord?: Array<{ date: string, attended: boolean, markedBy?: string }> }> =
+                slotDoc.data().enrolledStudents || [];
+            let hasRecords = false;
+            enrollments.forEach(e => {
+                (e.attendanceRecord || []).forEach(att => {
+                    hasRecords = true;
+                    report.recordsFound++;
+                    if (!legacyByStudent[e.studentId]) legacyByStudent[e.studentId] = [];
+                    legacyByStudent[e.studentId].push({ slotId: slotDoc.id, date: att.date, attended: att.attended, markedBy: att.markedBy });
+                });
+            });
+            return hasRecords;
+        });
+
+        // Only students with legacy marks are read (and checked for repeated dates)
+        const studentUpdates: string[] = [];
+        const studentIds = Object.keys(legacyByStudent);
+        const students = await studentService.getByIds(studentIds);
+        const studentMap = new Map(students.map(s => [s.id, s]));
+
+        studentMap.forEach((student, id) => {
+            const current = student.asistencia || [];
+            const records = mergeLegacyMarks(student, legacyByStudent[id], report);
+            if (JSON.stringify(records) !== JSON.stringify(current)) {
+                studentUpdates.push(id);
+            }
+        });
+        report.missingStudents = studentIds.filter(id => !studentMap.has(id)).length;
+        report.studentsUpdated = studentUpdates.length;
+
+        if (dryRun) return report;
+
+        // Students first, so a failure never loses slot-only marks. Each student is re-read and
+        // merged again so marks taken meanwhile (mark/markClass) are kept.
+        let studentsUpdated = 0;
+        for (const id of studentUpdates) {
+            const studentRef = doc(db, STUDENTS_COLLECTION, id);
+            const written = await runTransaction(db, async (transaction) => {
+                const fresh = await transaction.get(studentRef);
+                if (!fresh.exists()) return false;
+                const student = { ...fresh.data(), id } as Student;
+                const before = student.asistencia || [];
+                const after = mergeLegacyMarks(student, legacyByStudent[id], emptyReport());
+                if (JSON.stringify(after) === JSON.stringify(before)) return false;
+
+                transaction.update(studentRef, { asistencia: after });
+                auditService.record(transaction, {
+                    entity: 'students',
+                    entityId: id,
+                    action: 'UPDATE',
+                    summary: 'Asistencia unificada desde horarios mensuales',
+                    studentId: id,
+                    studentName: student.fullName,
+                    before: { asistencia: before },
+                    after: { asistencia: after }
+                });
+                return true;
+            });
+            if (written) studentsUpdated++;
+        }
+        report.studentsUpdated = studentsUpdated;
+
+        // Each slot is re-read so enrollments changed meanwhile are kept; only attendanceRecord is cleared
+        for (const slotDoc of slotsToClear) {
+            await runTransaction(db, async (transaction) => {
+                const fresh = await transaction.get(slotDoc.ref);
+                if (!fresh.exists()) return;
+                const enrollments = (fresh.data().enrolledStudents || []) as Array<Record<string, unknown>>;
+                if (!enrollments.some(e => Array.isArray(e.attendanceRecord) && e.attendanceRecord.length > 0)) return;
+                transaction.update(slotDoc.ref, {
+                    enrolledStudents: enrollments.map(e => ({ ...e, attendanceRecord: [] }))
+                });
+            });
+        }
+
+        await loggingService.addLog(
+            `Asistencia unificada: ${report.recordsMerged} registros migrados, ${report.conflicts.length} conflictos`,
+            report.conflicts.length > 0 ? 'WARNING' : 'SUCCESS'
+        );
+
+        return report;
+    }
+};
@@ -0,0 +1,115 @@
+import { auth, db } from '../lib/firebase';
+import {
+    collection,
+    doc,
+    getDocs,
+    query,
+    where,
+    orderBy,
+    limit,
+    QueryConstraint,
+    DocumentReference,
+    DocumentData
+} from 'firebase/firestore';
+import type { AuditLog } from '../types/db';
+
+const AUDIT_COLLECTION = 'audit_logs';
+
+// Transaction and WriteBatch both satisfy this
+interface AuditWriter {
+    set(documentRef: DocumentReference<DocumentData, DocumentData>, data: DocumentData): unknown;
+}
+
+type AuditEntry = Omit<AuditLog, 'id' | 'timestamp' | 'userId' | 'userName' | 'before' | 'after'> & {
+    before?: object | null;
+    after?: object | null;
+};
+
+export interface AuditFilters {
+    studentId?: string;
+    userId?: string;
+    from?: Date;
+    to?: Date;
+}
+
+// Firestore rejects undefined values; Timestamps become {seconds, nanoseconds}
+const toPlain = (value: object): Record<string, unknown> => JSON.parse(JSON.stringify(value));
+
+/**
+ * Keep only the fields that changed between before and after
+ */
+const diff = (before: object | null | undefined, after: object | null | undefined) => {
+    const prev = before ? toPlain(before) : null;
+    const next = after ? toPlain(after) : null;
+    if (!prev || !next) return { before: prev, after: next };
+
+    const changedBefore: Record<string, unknown> = {};
+    const changedAfter: Record<string, unknown> = {};
+    const keys = new Set([...Object.keys(prev), ...Object.keys(next)]);
+
+    keys.forEach(key => {
+        if (JSON.stringify(prev[key]) !== JSON.stringify(next[key])) {
+            if (key in prev) changedBefore[key] = prev[key];
+            if (key in next) changedAfter[key] = next[key];
+        }
+    });
+
+    return { before: changedBefore, after: changedAfter };
+};
+
+export const auditService = {
+    getActor(): { userId: string, userName: string } {
+        const user = auth.currentUser;
+        if (!user) return { userId: 'system', userName: 'Sistema' };
+        return { userId: user.uid, userName: user.displayName || user.email || user.uid };
+    },
+
+    /**
+     * Queue an audit entry on the given transaction/batch so it commits
+     * (or fails) together with the change it describes.
+     */
+    record(writer: AuditWriter, entry: AuditEntry): void {
+        const ref = doc(collection(db, AUDIT_COLLECTION));
+        const { before, after, ...rest } = entry;
+
+        const log: AuditLog = {
+            ...toPlain(rest) as Omit<AuditLog, 'id' | 'timestamp' | 'userId' | 'userName' | 'before' | 'after'>,
+            ...this.getActor(),
+            ...diff(before, after),
+            id: ref.id,
+            timestamp: Date.now()
+        };
+
+        writer.set(ref, log);
+    },
+
+    /**
+     * Search audit entries (newest first).
+     * Student and user filters use the composite indexes with timestamp.
+     */
+    async search(filters: AuditFilters, maxResults: number = 300): Promise<AuditLog[]> {
+        const constraints: QueryConstraint[] = [];
+
+        if (filters.studentId) {
+            constraints.push(where('studentId', '==', filters.studentId));
+        } else if (filters.userId) {
+            constraints.push(where('userId', '==', filters.userId));
+        }
+        if (filters.from) {
+            constraints.push(where('timestamp', '>=', filters.from.getTime()));
+        }
+        if (filters.to) {
+            constraints.push(where('timestamp', '<=', filters.to.getTime()));
+        }
+        constraints.push(orderBy('timestamp', 'desc'), limit(maxResults));
+
+        const snap = await getDocs(query(collection(db, AUDIT_COLLECTION), ...constraints));
+        const logs = snap.docs.map(d => ({ ...d.data(), id: d.id } as AuditLog));
+
+        // Only one equality filter goes to Firestore; apply the other here
+        if (filters.studentId && filters.userId) {
+            return logs.filter(l => l.userId === filters.userId);
+        }
+        return logs;
+    }
+};
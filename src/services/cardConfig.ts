@@ -60,6 +60,12 @@ const getDefaultConfig = (): CardConfig => ({
             bottom: '10mm',
             left: '20mm',
             fontSize: '7pt'
+        },
+        qr: {
+            bottom: '8mm',
+            right: '8mm',
+            fontSize: '7pt',
+            size: '18mm'
         }
     },
     createdAt: Date.now(),
@@ -76,7 +82,12 @@ export const cardConfigService = {
             const docSnap = await getDoc(docRef);
 
             if (docSnap.exists()) {
-                return docSnap.data() as CardConfig;
+                const config = docSnap.data() as CardConfig;
+                // Configs saved before the QR field existed
+                if (!config.fields.qr) {
+                    config.fields.qr = getDefaultConfig().fields.qr;
+                }
+                return config;
             }
 
             // If no config exists, create and return default
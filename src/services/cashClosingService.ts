@@ -0,0 +1,253 @@
+import { auth, db } from '../lib/firebase';
+import {
+    collection,
+    doc,
+    getDoc,
+    getDocs,
+    query,
+    orderBy,
+    limit,
+    runTransaction,
+    Transaction
+} from 'firebase/firestore';
+import type { CashClosing, CashClosingMethod, Cashier, PaymentMethodConfig } from '../types/db';
+import { financeService } from './finance';
+import { auditService } from './auditService';
+import { loggingService } from './logging';
+
+const CLOSINGS_COLLECTION = 'cash_closings';
+
+// Payment methods set up before PaymentMethodConfig.isCash: the seeded 'Efectivo'
+const LEGACY_CASH_METHOD_ID = 'EFECTIVO';
+
+/**
+ * The method counted in the cash drawer, where the opening float (sencillo) goes
+ */
+export const getCashMethodId = (methods: PaymentMethodConfig[]): string | null =>
+    (methods.find(m => m.isCash) || methods.find(m => m.id === LEGACY_CASH_METHOD_ID))?.id || null;
+
+// Cash days are Lima days (UTC-5, no daylight saving) whatever the device's time zone,
+// the same shift as cashDayId in firestore.rules
+const LIMA_OFFSET_MS = 5 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Closing doc ID for the Lima day of a timestamp ("YYYY-MM-DD")
+ */
+export const getClosingDayId = (timestamp: number): string =>
+    new Date(timestamp - LIMA_OFFSET_MS).toISOString().slice(0, 10);
+
+// Start of the Lima day (inverse of getClosingDayId)
+const dayIdToTimestamp = (dayId: string): number => {
+    const [y, m, d] = dayId.split('-').map(Number);
+    return Date.UTC(y, m - 1, d) + LIMA_OFFSET_MS;
+};
+
+/**
+ * Per-method and total comparison of counted vs expected amounts
+ */
+const compareTotals = (expected: Record<string, number>, counted: Record<string, number>) => {
+    const methodIds = new Set([...Object.keys(expected), ...Object.keys(counted)]);
+    const methods: Record<string, CashClosingMethod> = {};
+    methodIds.forEach(id => {
+        const exp = expected[id] || 0;
+        const cnt = counted[id] || 0;
+        methods[id] = { expected: exp, counted: cnt, difference: cnt - exp };
+    });
+
+    const values = Object.values(methods);
+    return {
+        methods,
+        totalExpected: values.reduce((sum, m) => sum + m.expected, 0),
+        totalCounted: values.reduce((sum, m) => sum + m.counted, 0),
+        totalDifference: values.reduce((sum, m) => sum + m.difference, 0)
+    };
+};
+
+export const cashClosingService = {
+    async getByDate(dayId: string): Promise<CashClosing | null> {
+        const snap = await getDoc(doc(db, CLOSINGS_COLLECTION, dayId));
+        return snap.exists() ? (snap.data() as CashClosing) : null;
+    },
+
+    async getRecent(limitCount: number = 30): Promise<CashClosing[]> {
+        const q = query(collection(db, CLOSINGS_COLLECTION), orderBy('date', 'desc'), limit(limitCount));
+        const snap = await getDocs(q);
+        return snap.docs.map(d => d.data() as CashClosing);
+    },
+
+    /**
+     * IDs of all locked days (one doc per day, small collection)
+     */
+    async getLockedDays(): Promise<Set<string>> {
+        const snap = await getDocs(collection(db, CLOSINGS_COLLECTION));
+        return new Set(snap.docs.filter(d => d.data().locked).map(d => d.id));
+    },
+
+    /**
+     * Computed totals per method for the day (all seasons: it's one physical drawer)
+     */
+    async computeExpected(
+        dayId: string,
+        methods: PaymentMethodConfig[],
+        openingFloat: number
+    ): Promise<{ expected: Record<string, number>, paymentsCount: number }> {
+        const start = dayIdToTimestamp(dayId);
+        const payments = await financeService.getPaymentsBetween(start, start + DAY_MS - 1);
+
+        const expected: Record<string, number> = {};
+        methods.forEach(m => { expected[m.id] = 0; });
+        payments.forEach(p => {
+            const methodId = p.method || 'OTHER';
+            expected[methodId] = (expected[methodId] || 0) + (p.amount || 0);
+        });
+
+        const cashMethodId = getCashMethodId(methods);
+        if (cashMethodId) {
+            expected[cashMethodId] = (expected[cashMethodId] || 0) + openingFloat;
+        } else if (openingFloat > 0) {
+            throw new Error('Ningún método de pago está marcado como efectivo en caja. Márquelo en Métodos de Pago.');
+        }
+
+        return { expected, paymentsCount: payments.length };
+    },
+
+    /**
+     * Close (and lock) the day comparing counted vs computed amounts per method. The totals are
+     * computed again once the day is locked (no payment can be added anymore) and corrected if
+     * a payment came in meanwhile.
+     */
+    async close(
+        dayId: string,
+        data: { openingFloat: number, counted: Record<string, number>, notes?: string },
+        methods: PaymentMethodConfig[],
+        cashier: Cashier
+    ): Promise<CashClosing> {
+        const { expected, paymentsCount } = await this.computeExpected(dayId, methods, data.openingFloat);
+        const closingRef = doc(db, CLOSINGS_COLLECTION, dayId);
+        const closing: CashClosing = {
+            id: dayId,
+            date: dayId,
+            openingFloat: data.openingFloat,
+            ...compareTotals(expected, data.counted),
+            paymentsCount,
+            notes: data.notes || '',
+            locked: true,
+            closedBy: cashier.uid,
+            closedByName: cashier.name,
+            closedAt: Date.now()
+        };
+
+        await runTransaction(db, async (transaction) => {
+            const existing = await transaction.get(closingRef);
+            if (existing.exists() && existing.data().locked) {
+                throw new Error(`La caja del ${dayId} ya fue cerrada.`);
+            }
+
+            transaction.set(closingRef, closing);
+            auditService.record(transaction, {
+                entity: 'cash_closings',
+                entityId: dayId,
+                action: existing.exists() ? 'UPDATE' : 'CREATE',
+                summary: `Cierre de caja ${dayId} (diferencia S/ ${closing.totalDifference.toFixed(2)})`,
+                before: existing.exists() ? existing.data() : null,
+                after: closing,
+                reason: data.notes || undefined
+            });
+        });
+
+        const locked = await this.computeExpected(dayId, methods, data.openingFloat);
+        const changed = locked.paymentsCount !== paymentsCount
+            || Object.keys({ ...expected, ...locked.expected }).some(id => Math.abs((expected[id] || 0) - (locked.expected[id] || 0)) >= 0.01);
+        let result = closing;
+
+        if (changed) {
+            const corrected = { ...compareTotals(locked.expected, data.counted), paymentsCount: locked.paymentsCount };
+            await runTransaction(db, async (transaction) => {
+                const current = await transaction.get(closingRef);
+                if (!current.exists() || !current.data().locked || current.data().closedAt !== closing.closedAt) {
+                    throw new Error(`La caja del ${dayId} cambió mientras se cerraba. Revise el cierre.`);
+                }
+
+                transaction.update(closingRef, corrected);
+                auditService.record(transaction, {
+                    entity: 'cash_closings',
+                    entityId: dayId,
+                    action: 'UPDATE',
+                    summary: `Cierre de caja ${dayId}: esperado recalculado por pagos registrados durante el cierre`,
+                    before: { totalExpected: closing.totalExpected, paymentsCount },
+                    after: corrected
+                });
+            });
+            result = { ...closing, ...corrected };
+        }
+
+        await loggingService.addLog(
+            `Caja del ${dayId} cerrada por ${cashier.name} (diferencia S/ ${result.totalDifference.toFixed(2)})`,
+            result.totalDifference === 0 ? 'SUCCESS' : 'WARNING'
+        );
+
+        return result;
+    },
+
+    /**
+     * Unlock a closed day so its payments can be changed again (SUPERADMIN + reason)
+     */
+    async reopen(dayId: string, reason: string): Promise<void> {
+        await this.assertOverride(reason);
+        const closingRef = doc(db, CLOSINGS_COLLECTION, dayId);
+        const { userId } = auditService.getActor();
+
+        await runTransaction(db, async (transaction) => {
+            const existing = await transaction.get(closingRef);
+            if (!existing.exists() || !existing.data().locked) {
+                throw new Error(`La caja del ${dayId} no está cerrada.`);
+            }
+
+            const updates = {
+                locked: false,
+                reopenedBy: userId,
+                reopenedAt: Date.now(),
+                reopenReason: reason
+            };
+            transaction.update(closingRef, updates);
+            auditService.record(transaction, {
+                entity: 'cash_closings',
+                entityId: dayId,
+                action: 'UPDATE',
+                summary: `Caja del ${dayId} reabierta`,
+                before: { locked: true },
+                after: { locked: false },
+                reason
+            });
+        });
+    },
+
+    /**
+     * Changes to a locked day need a SUPERADMIN with a reason
+     */
+    async assertOverride(reason?: string): Promise<void> {
+        const { userService } = await import('./userService');
+        const uid = auth.currentUser?.uid;
+        const profile = uid ? await userService.getById(uid) : null;
+
+        if (profile?.role !== 'SUPERADMIN') {
+            throw new Error('La caja de ese día está cerrada. Solo un SUPERADMIN puede modificarla.');
+        }
+        if (!reason?.trim()) {
+            throw new Error('Debe indicar un motivo para modificar un día con caja cerrada.');
+        }
+    },
+
+    /**
+     * Transaction read: throws if the day of the timestamp is already closed.
+     * Must be called before any write in the transaction.
+     */
+    async assertDayOpen(transaction: Transaction, timestamp: number): Promise<void> {
+        const dayId = getClosingDayId(timestamp);
+        const closingDoc = await transaction.get(doc(db, CLOSINGS_COLLECTION, dayId));
+        if (closingDoc.exists() && closingDoc.data().locked) {
+            throw new Error(`La caja del ${dayId} ya fue cerrada. Un SUPERADMIN debe reabrirla para registrar pagos.`);
+        }
+    }
+};
@@ -0,0 +1,162 @@
+import { doc, writeBatch } from 'firebase/firestore';
+import { db } from '../lib/firebase';
+import { loggingService } from './logging';
+import { seasonService } from './seasonService';
+import { studentService } from './students';
+import { packageValidationService } from './packageValidation';
+import { getClosureFor } from '../utils/closureUtils';
+import { isFrozenDay } from '../utils/freezeUtils';
+import { dateUtils } from '../utils/date';
+import type { SeasonClosure, Student } from '../types/db';
+
+const STUDENTS_COLLECTION = 'students';
+const BATCH_LIMIT = 400;
+const DAY_IDS = ['DOM', 'LUN', 'MAR', 'MIE', 'JUE', 'VIE', 'SAB'];
+
+// Closures added after students enrolled are compensated by recalculateEndDates(): each class
+// day lost inside the package period pushes packageEndDate one class day later.
+// Student.closuresApplied records which closures a student's end date already reflects.
+
+export interface EndDateChange {
+    studentId: string;
+    studentName: string;
+    before: string;
+    after: string;
+    lostClasses: number;
+}
+
+export interface EndDateRecalcReport {
+    studentsChecked: number;
+    changes: EndDateChange[];
+}
+
+/**
+ * Class days of the student's fixed schedule, between two dates (inclusive), hit by the closures.
+ * Frozen days already moved the end date, so they are not counted again.
+ */
+const countLostClasses = (student: Student, from: string, to: string, closures: SeasonClosure[]): number => {
+    const days = new Set((student.fixedSchedule || []).map(s => s.dayId));
+    const current = new Date(dateUtils.toMillis(from));
+    const end = dateUtils.toMillis(to);
+    let lost = 0;
+
+    while (current.getTime() <= end) {
+        if (days.has(DAY_IDS[current.getDay()]) && getClosureFor(dateUtils.formatDateId(current), closures) &&
+            !isFrozenDay(current, student.freezes)) {
+            lost++;
+        }
+        current.setDate(current.getDate() + 1);
+    }
+    return lost;
+};
+
+export const closureService = {
+    /**
+     * Add a holiday or closure (single day when `to` is empty)
+     */
+    async add(seasonId: string, data: { from: string, to?: string, reason: string }): Promise<SeasonClosure> {
+        const season = await seasonService.getById(seasonId);
+        if (!season) throw new Error('Temporada no encontrada');
+
+        const to = data.to || data.from;
+        if (!data.from || to < data.from) throw new Error('Rango de fechas inválido');
+        if (data.from < season.startDate || to > season.endDate) {
+            throw new Error(`El cierre debe estar dentro de la temporada (${season.startDate} a ${season.endDate}).`);
+        }
+
+        const closure: SeasonClosure = {
+            id: `${data.from}_${Date.now().toString(36)}`,
+            from: data.from,
+            to,
+            reason: data.reason.trim(),
+            createdAt: Date.now()
+        };
+        const closures = [...(season.closures || []), closure].sort((a, b) => a.from.localeCompare(b.from));
+        await seasonService.update(seasonId, { closures });
+
+        await loggingService.addLog(`Cierre agregado en ${season.name}: ${closure.reason} (${closure.from} a ${closure.to})`, 'INFO');
+        return closure;
+    },
+
+    /**
+     * Remove a closure. End dates already shifted for it are not shortened.
+     */
+    async remove(seasonId: string, closureId: string): Promise<void> {
+        const season = await seasonService.getById(seasonId);
+        if (!season) throw new Error('Temporada no encontrada');
+
+        const closure = (season.closures || []).find(c => c.id === closureId);
+        await seasonService.update(seasonId, { closures: (season.closures || []).filter(c => c.id !== closureId) });
+
+        if (closure) {
+            await loggingService.addLog(`Cierre eliminado en ${season.name}: ${closure.reason} (${closure.from} a ${closure.to})`, 'WARNING');
+        }
+    },
+
+    /**
+     * Shifts packageEndDate (and the monthly enrollments) of the season's active students for
+     * closures their end date does not reflect yet. With dryRun nothing is written.
+     */
+    async recalculateEndDates(seasonId: string, dryRun: boolean = true): Promise<EndDateRecalcReport> {
+        const season = await seasonService.getById(seasonId);
+        if (!season) throw new Error('Temporada no encontrada');
+
+        const closures = season.closures || [];
+        const closureIds = closures.map(c => c.id);
+        const students = (await studentService.getBySeason(seasonId, false)).filter(s =>
+            s.active !== false && s.packageStartDate && s.packageEndDate && (s.fixedSchedule || []).length > 0
+        );
+
+        const report: EndDateRecalcReport = { studentsChecked: students.length, changes: [] };
+        const markOnly: Student[] = []; // New closures outside their package: just record them
+
+        students.forEach(student => {
+            const pending = closures.filter(c => !(student.closuresApplied || []).includes(c.id));
+            if (pending.length === 0) return;
+
+            const lost = countLostClasses(student, student.packageStartDate!, student.packageEndDate!, pending);
+            if (lost === 0) {
+                markOnly.push(student);
+                return;
+            }
+
+            const dayAfterEnd = new Date(dateUtils.toMillis(student.packageEndDate!));
+            dayAfterEnd.setDate(dayAfterEnd.getDate() + 1);
+            const selectedDays = Array.from(new Set(student.fixedSchedule.map(s => s.dayId)));
+            const newEnd = packageValidationService.calculatePreciseEndDate(dayAfterEnd, lost, selectedDays, closures);
+
+            report.changes.push({
+                studentId: student.id,
+                studentName: student.fullName,
+                before: student.packageEndDate!,
+                after: dateUtils.formatDateId(newEnd),
+                lostClasses: lost
+            });
+        });
+
+        if (dryRun) return report;
+
+        // Through update() so monthly enrollments (endsAt, new months) follow the new date
+        for (const change of report.changes) {
+            await studentService.update(change.studentId, {
+                packageEndDate: change.after,
+                closuresApplied: closureIds
+            });
+        }
+
+        for (let i = 0; i < markOnly.length; i += BATCH_LIMIT) {
+            const batch = writeBatch(db);
+            markOnly.slice(i, i + BATCH_LIMIT).forEach(student => {
+                batch.update(doc(db, STUDENTS_COLLECTION, student.id), { closuresApplied: closureIds });
+            });
+            await batch.commit();
+        }
+
+        await loggingService.addLog(
+            `Fechas de fin recalculadas en ${season.name}: ${report.changes.length} alumnos afectados por cierres`,
+            'SUCCESS'
+        );
+
+        return report;
+    }
+};
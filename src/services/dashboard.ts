@@ -4,16 +4,16 @@ import { studentService } from './students';
 
 export const dashboardService = {
     /**
-     * Get aggregated stats for the dashboard
+     * Get aggregated stats for the dashboard (student counts of the given season, active one by default)
      */
-    async getStats() {
+    async getStats(seasonId?: string) {
         // Parallelize fetching for performance
         const now = new Date();
         const startOfDay = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
         const endOfDay = new Date(now.getFullYear(), now.getMonth(), now.getDate(), 23, 59, 59).getTime();
 
         const [seasonStats, newStudentsMonth, incomeToday] = await Promise.all([
-            studentService.getSeasonStats(),
+            studentService.getSeasonStats(seasonId),
             studentService.getNewStudentsCount(now.getMonth(), now.getFullYear()),
             this.getIncomeToday(startOfDay, endOfDay)
         ]);
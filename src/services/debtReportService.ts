@@ -0,0 +1,109 @@
+import { db } from '../lib/firebase';
+import { collection, query, where, getDocs } from 'firebase/firestore';
+import type { Debt } from '../types/db';
+import { studentService } from './students';
+import { packageService } from './packageService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type AgingBucket = 'NOT_DUE' | '0-7' | '8-30' | '30+';
+
+export const AGING_BUCKETS: Array<{ id: AgingBucket, label: string }> = [
+    { id: 'NOT_DUE', label: 'Por vencer' },
+    { id: '0-7', label: '0 – 7 días' },
+    { id: '8-30', label: '8 – 30 días' },
+    { id: '30+', label: 'Más de 30 días' }
+];
+
+// One row per student with open debts
+export interface DebtorRow {
+    studentId: string;
+    studentName: string;
+    phone: string;
+    seasonId?: string;
+    categoryId?: string;
+    packageName?: string;
+    balance: number;
+    debtsCount: number;
+    oldestDueDate: number;
+    daysOverdue: number; // 0 while not yet due
+    bucket: AgingBucket; // Of the oldest debt
+    buckets: Record<AgingBucket, number>; // Balance of each debt in the bucket of its own due date
+}
+
+export const getAgingBucket = (daysOverdue: number): AgingBucket =>
+    daysOverdue <= 7 ? '0-7' : daysOverdue <= 30 ? '8-30' : '30+';
+
+const getDebtBucket = (dueDate: number, now: number): AgingBucket =>
+    dueDate > now ? 'NOT_DUE' : getAgingBucket(Math.floor((now - dueDate) / DAY_MS));
+
+export const debtReportService = {
+    /**
+     * Open balances per student; each debt is aged by its own due date
+     */
+    async getAgingReport(now: number = Date.now()): Promise<DebtorRow[]> {
+        const q = query(collection(db, 'debts'), where('status', '==', 'PENDING'));
+        const snap = await getDocs(q);
+        const debts = snap.docs
+            .map(d => d.data() as Debt)
+            .filter(d => d.balance > 0.01);
+
+        const byStudent: Record<string, Debt[]> = {};
+        debts.forEach(d => {
+            if (!byStudent[d.studentId]) byStudent[d.studentId] = [];
+            byStudent[d.studentId].push(d);
+        });
+
+        const [students, packages] = await Promise.all([
+            studentService.getByIds(Object.keys(byStudent)),
+            packageService.getAll()
+        ]);
+        const studentMap = new Map(students.map(s => [s.id, s]));
+        const packageNames = new Map(packages.map(p => [p.id, p.name]));
+
+        return Object.entries(byStudent)
+            .map(([studentId, studentDebts]) => {
+                const student = studentMap.get(studentId);
+                const oldestDueDate = Math.min(...studentDebts.map(d => d.dueDate));
+                const daysOverdue = Math.max(0, Math.floor((now - oldestDueDate) / DAY_MS));
+                const buckets: Record<AgingBucket, number> = { 'NOT_DUE': 0, '0-7': 0, '8-30': 0, '30+': 0 };
+                studentDebts.forEach(d => {
+                    buckets[getDebtBucket(d.dueDate, now)] += d.balance;
+                });
+
+                return {
+                    studentId,
+                    studentName: student?.fullName || studentDebts[0].studentName || studentId,
+                    phone: student?.phone || '',
+                    seasonId: student?.seasonId,
+                    categoryId: student?.categoryId,
+                    packageName: student?.currentPackageId ? packageNames.get(student.currentPackageId) : undefined,
+                    balance: studentDebts.reduce((sum, d) => sum + d.balance, 0),
+                    debtsCount: studentDebts.length,
+                    oldestDueDate,
+                    daysOverdue,
+                    bucket: getDebtBucket(oldestDueDate, now),
+                    buckets
+                };
+            })
+            .sort((a, b) => b.daysOverdue - a.daysOverdue || b.balance - a.balance);
+    },
+
+    /**
+     * WhatsApp-ready reminder text for the front desk
+     */
+    buildReminder(row: DebtorRow): string {
+        const packageText = row.packageName ? ` del paquete "${row.packageName}"` : '';
+        return `Hola, le saludamos de la Academia Los Parrales. Le recordamos que ${row.studentName} tiene un saldo pendiente de S/ ${row.balance.toFixed(2)}${packageText}. Puede acercarse a caja para regularizarlo. ¡Gracias!`;
+    },
+
+    /**
+     * wa.me link (Peruvian 9-digit mobiles get the 51 prefix). Empty when there is no usable phone.
+     */
+    getWhatsAppLink(phone: string, message: string): string {
+        const digits = (phone || '').replace(/\D/g, '');
+        if (digits.length < 9) return '';
+        const number = digits.length === 9 ? `51${digits}` : digits;
+        return `https://wa.me/${number}?text=${encodeURIComponent(message)}`;
+    }
+};
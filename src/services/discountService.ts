@@ -0,0 +1,173 @@
+import {
+    collection,
+    doc,
+    getDocs,
+    setDoc,
+    updateDoc,
+    query,
+    where,
+    Timestamp,
+    type DocumentData
+} from 'firebase/firestore';
+import { db } from '../lib/firebase';
+import { loggingService } from './logging';
+import type { DiscountLine, DiscountRule, DiscountRuleType, PriceBreakdown } from '../types/db';
+
+const DISCOUNT_RULES_COLLECTION = 'discount_rules';
+
+export const DISCOUNT_TYPE_LABELS: Record<DiscountRuleType, string> = {
+    SIBLING: 'Hermano',
+    EARLY_BIRD: 'Matrícula anticipada',
+    PROMO_CODE: 'Código promocional',
+    STAFF_FAMILY: 'Familia del personal'
+};
+
+// Rules the cashier has to confirm (no way to check them from the data)
+export const MANUAL_DISCOUNT_TYPES: DiscountRuleType[] = ['SIBLING', 'STAFF_FAMILY'];
+
+export interface DiscountContext {
+    seasonId?: string | null;
+    packageId?: string | null;
+    isRecharge: boolean;
+    date: string; // YYYY-MM-DD of the registration
+    promoCode?: string;
+    confirmedRuleIds: string[]; // SIBLING / STAFF_FAMILY rules the cashier ticked
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const toRule = (id: string, data: DocumentData): DiscountRule => ({
+    ...data,
+    id,
+    createdAt: data.createdAt?.toDate() || new Date(),
+    updatedAt: data.updatedAt?.toDate() || new Date()
+} as DiscountRule);
+
+/**
+ * Rules offered for this sale, whether or not their condition is met (season, package and
+ * recharge filters only)
+ */
+export const getOfferedRules = (rules: DiscountRule[], context: Pick<DiscountContext, 'seasonId' | 'packageId' | 'isRecharge'>): DiscountRule[] =>
+    rules.filter(rule =>
+        rule.isActive
+        && (!rule.seasonId || rule.seasonId === context.seasonId)
+        && (!rule.packageIds?.length || (!!context.packageId && rule.packageIds.includes(context.packageId)))
+        && (!context.isRecharge || rule.appliesToRecharge)
+    );
+
+const qualifies = (rule: DiscountRule, context: DiscountContext): boolean => {
+    switch (rule.type) {
+        case 'EARLY_BIRD':
+            return !!rule.registerBefore && context.date <= rule.registerBefore;
+        case 'PROMO_CODE':
+            return !!rule.code && (context.promoCode || '').trim().toUpperCase() === rule.code;
+        default:
+            return context.confirmedRuleIds.includes(rule.id);
+    }
+};
+
+/**
+ * Price after discounts. Stackable rules add up (each on the list price); a non-stackable rule
+ * only applies alone, so the best of "all stackable" and "best non-stackable" wins.
+ */
+export const applyDiscounts = (listPrice: number, rules: DiscountRule[], context: DiscountContext): PriceBreakdown => {
+    const lines = getOfferedRules(rules, context)
+        .filter(rule => qualifies(rule, context))
+        .map((rule): { rule: DiscountRule, line: DiscountLine } => ({
+            rule,
+            line: {
+                ruleId: rule.id,
+                name: rule.name,
+                type: rule.type,
+                amount: round(Math.min(listPrice, rule.valueType === 'percent' ? listPrice * rule.value / 100 : rule.value))
+            }
+        }));
+
+    const total = (list: DiscountLine[]) => list.reduce((sum, l) => sum + l.amount, 0);
+    const stacked = lines.filter(l => l.rule.stackable).map(l => l.line);
+    const exclusive = lines.filter(l => !l.rule.stackable).map(l => l.line)
+        .sort((a, b) => b.amount - a.amount)
+        .slice(0, 1);
+    const discounts = total(exclusive) > total(stacked) ? exclusive : stacked;
+
+    // Never below zero: the last lines are trimmed
+    let left = listPrice;
+    const applied = discounts
+        .map(line => {
+            const amount = round(Math.min(line.amount, left));
+            left -= amount;
+            return { ...line, amount };
+        })
+        .filter(line => line.amount > 0);
+
+    return { listPrice, discounts: applied, netPrice: round(listPrice - total(applied)) };
+};
+
+/**
+ * A breakdown sent with a payment must add up
+ */
+export const assertPriceBreakdown = (pricing: PriceBreakdown, netPrice: number): void => {
+    const discounted = pricing.discounts.reduce((sum, l) => sum + l.amount, 0);
+    if (Math.abs(pricing.listPrice - discounted - pricing.netPrice) > 0.01 || Math.abs(pricing.netPrice - netPrice) > 0.01) {
+        throw new Error('El detalle de descuentos no coincide con el precio cobrado.');
+    }
+};
+
+export const discountService = {
+    /**
+     * Get all discount rules
+     */
+    async getAll(): Promise<DiscountRule[]> {
+        const snapshot = await getDocs(collection(db, DISCOUNT_RULES_COLLECTION));
+        return snapshot.docs
+            .map(d => toRule(d.id, d.data()))
+            .sort((a, b) => a.name.localeCompare(b.name));
+    },
+
+    /**
+     * Get only active discount rules
+     */
+    async getActive(): Promise<DiscountRule[]> {
+        const q = query(collection(db, DISCOUNT_RULES_COLLECTION), where('isActive', '==', true));
+        const snapshot = await getDocs(q);
+        return snapshot.docs
+            .map(d => toRule(d.id, d.data()))
+            .sort((a, b) => a.name.localeCompare(b.name));
+    },
+
+    /**
+     * Create a new discount rule
+     */
+    async create(data: Omit<DiscountRule, 'id' | 'createdAt' | 'updatedAt'>): Promise<string> {
+        const docRef = doc(collection(db, DISCOUNT_RULES_COLLECTION));
+
+        await setDoc(docRef, {
+            ...data,
+            createdAt: Timestamp.now(),
+            updatedAt: Timestamp.now()
+        });
+
+        await loggingService.addLog(`Nuevo descuento creado: ${data.name}`, 'SUCCESS');
+        return docRef.id;
+    },
+
+    /**
+     * Update a discount rule
+     */
+    async update(id: string, data: Partial<Omit<DiscountRule, 'id' | 'createdAt' | 'updatedAt'>>): Promise<void> {
+        await updateDoc(doc(db, DISCOUNT_RULES_COLLECTION, id), {
+            ...data,
+            updatedAt: Timestamp.now()
+        });
+    },
+
+    /**
+     * Deactivate a discount rule (payments keep their snapshot of it)
+     */
+    async delete(id: string): Promise<void> {
+        await updateDoc(doc(db, DISCOUNT_RULES_COLLECTION, id), {
+            isActive: false,
+            updatedAt: Timestamp.now()
+        });
+    }
+};
@@ -1,13 +1,34 @@
 import { db } from '../lib/firebase';
 import { collection, query, where, getDocs } from 'firebase/firestore';
-import { Payment } from '../types/db';
+import { Debt, Payment } from '../types/db';
 
 export interface DailyFinanceData {
     day: number;
-    total: number;
+    total: number; // Net of voids/refunds
     methods: Record<string, number>; // Dynamic totals per method ID
+    reversals: number; // Voided/refunded amount (positive)
+    discounts: number; // Taken off list prices by discount rules (Payment / Debt pricing)
+}
+
+export interface CashierSummary {
+    cashierId: string;
+    cashierName: string;
+    total: number;
+    count: number;
+    methods: Record<string, number>;
+    reversed: number; // Voided/refunded amount (positive)
 }
 
+// Payments created before cashiers were recorded carry 'admin' / 'ADMIN'
+const LEGACY_CASHIER_IDS = ['admin', 'ADMIN', ''];
+const UNKNOWN_CASHIER_ID = 'SIN_REGISTRO';
+
+export const getCashierId = (p: Payment): string =>
+    !p.createdBy || LEGACY_CASHIER_IDS.includes(p.createdBy) ? UNKNOWN_CASHIER_ID : p.createdBy;
+
+// Void/refund counter-entries carry a negative amount
+export const isReversal = (p: Payment): boolean => !!p.reversalOf;
+
 export const financeService = {
     async getMonthlyIncome(year: number, month: number): Promise<DailyFinanceData[]> {
         const start = new Date(year, month, 1).getTime();
@@ -19,14 +40,26 @@ export const financeService = {
             where('date', '<=', end)
         );
 
-        const snap = await getDocs(q);
+        // Sales without up-front payment keep their price breakdown on the debt
+        const debtsQ = query(
+            collection(db, 'debts'),
+            where('createdAt', '>=', start),
+            where('createdAt', '<=', end)
+        );
+
+        const [snap, debtsSnap] = await Promise.all([getDocs(q), getDocs(debtsQ)]);
         const payments = snap.docs.map(doc => doc.data() as Payment);
+        const debts = debtsSnap.docs.map(doc => doc.data() as Debt);
+        // Voids registered before payments kept reversedAmount
+        const voided = new Set(payments.filter(p => p.reversalType === 'VOID').map(p => p.reversalOf));
 
         const daysInMonth = new Date(year, month + 1, 0).getDate();
         const dailyData: DailyFinanceData[] = Array.from({ length: daysInMonth }, (_, i) => ({
             day: i + 1,
             total: 0,
-            methods: {}
+            methods: {},
+            reversals: 0,
+            discounts: 0
         }));
 
         payments.forEach(p => {
@@ -38,13 +71,38 @@ export const financeService = {
                 entry.total += p.amount;
                 const methodId = p.method || 'OTHER';
                 entry.methods[methodId] = (entry.methods[methodId] || 0) + p.amount;
+                if (isReversal(p)) entry.reversals -= p.amount;
+            }
+            // A voided sale gave no discount
+            if (entry && p.pricing && (p.reversedAmount || 0) < p.amount && !voided.has(p.id)) {
+                entry.discounts += p.pricing.listPrice - p.pricing.netPrice;
+            }
+        });
+
+        debts.forEach(d => {
+            const entry = dailyData[new Date(d.createdAt || 0).getDate() - 1];
+            if (entry && d.pricing) {
+                entry.discounts += d.pricing.listPrice - d.pricing.netPrice;
             }
         });
 
         return dailyData;
     },
 
-    async getDailyReportData(date: number, seasonId?: string) {
+    /**
+     * Payments dated between two timestamps (both inclusive)
+     */
+    async getPaymentsBetween(start: number, end: number): Promise<Payment[]> {
+        const q = query(
+            collection(db, 'payments'),
+            where('date', '>=', start),
+            where('date', '<=', end)
+        );
+        const snap = await getDocs(q);
+        return snap.docs.map(doc => doc.data() as Payment);
+    },
+
+    async getDailyReportData(date: number, seasonId?: string, cashierId?: string) {
         // Start and End of the selected day
         const d = new Date(date);
         d.setHours(0, 0, 0, 0);
@@ -52,21 +110,87 @@ export const financeService = {
         d.setHours(23, 59, 59, 999);
         const end = d.getTime();
 
-        let q = query(
-            collection(db, 'payments'),
-            where('date', '>=', start),
-            where('date', '<=', end)
-        );
-
         // Fetch all payments for the day
-        const snap = await getDocs(q);
-        let payments = snap.docs.map(doc => doc.data() as Payment);
+        let payments = await this.getPaymentsBetween(start, end);
 
         // Filter by season if provided
         if (seasonId) {
             payments = payments.filter(p => p.seasonId === seasonId);
         }
 
+        // Filter by cashier (shift closing)
+        if (cashierId) {
+            payments = payments.filter(p => getCashierId(p) === cashierId);
+        }
+
         return payments;
+    },
+
+    /**
+     * Group payments by the user who took the money
+     */
+    summarizeByCashier(payments: Payment[]): CashierSummary[] {
+        const summaries: Record<string, CashierSummary> = {};
+
+        payments.forEach(p => {
+            const cashierId = getCashierId(p);
+            if (!summaries[cashierId]) {
+                summaries[cashierId] = {
+                    cashierId,
+                    cashierName: cashierId === UNKNOWN_CASHIER_ID ? 'Sin registrar' : (p.createdByName || cashierId),
+                    total: 0,
+                    count: 0,
+                    methods: {},
+                    reversed: 0
+                };
+            }
+
+            const entry = summaries[cashierId];
+            const methodId = p.method || 'OTHER';
+            entry.total += p.amount || 0;
+            entry.count++;
+            entry.methods[methodId] = (entry.methods[methodId] || 0) + (p.amount || 0);
+            if (isReversal(p)) entry.reversed -= p.amount || 0;
+        });
+
+        return Object.values(summaries).sort((a, b) => b.total - a.total);
+    },
+
+    /**
+     * Amount already voided/refunded per original payment ID
+     */
+    async getReversedAmounts(paymentIds: string[]): Promise<Record<string, number>> {
+        const reversed: Record<string, number> = {};
+        // 'in' queries accept up to 30 values
+        for (let i = 0; i < paymentIds.length; i += 30) {
+            const q = query(collection(db, 'payments'), where('reversalOf', 'in', paymentIds.slice(i, i + 30)));
+            const snap = await getDocs(q);
+            snap.docs.forEach(d => {
+                const p = d.data() as Payment;
+                reversed[p.reversalOf!] = (reversed[p.reversalOf!] || 0) - p.amount;
+            });
+        }
+        return reversed;
+    },
+
+    /**
+     * Net amount paid per student in a season (voids/refunds included)
+     */
+    async getTotalsByStudent(seasonId: string): Promise<Record<string, number>> {
+        const q = query(collection(db, 'payments'), where('seasonId', '==', seasonId));
+        const snap = await getDocs(q);
+        const totals: Record<string, number> = {};
+        snap.docs.forEach(d => {
+            const p = d.data() as Payment;
+            if (p.studentId) {
+                totals[p.studentId] = (totals[p.studentId] || 0) + (p.amount || 0);
+            }
+        });
+        return totals;
+    },
+
+    async getCashierBreakdown(date: number, seasonId?: string): Promise<CashierSummary[]> {
+        const payments = await this.getDailyReportData(date, seasonId);
+        return this.summarizeByCashier(payments);
     }
 };
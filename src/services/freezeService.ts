@@ -0,0 +1,248 @@
+import { doc, runTransaction } from 'firebase/firestore';
+import { db } from '../lib/firebase';
+import { loggingService } from './logging';
+import { auditService } from './auditService';
+import { seasonService } from './seasonService';
+import { studentService } from './students';
+import { packageService } from './packageService';
+import { packageValidationService } from './packageValidation';
+import { isClosedDay } from '../utils/closureUtils';
+import { isFrozenDay } from '../utils/freezeUtils';
+import { dateUtils } from '../utils/date';
+import type { FreezePolicy, PackageFreeze, SeasonClosure, Student } from '../types/db';
+
+const STUDENTS_COLLECTION = 'students';
+const DAY_IDS = ['DOM', 'LUN', 'MAR', 'MIE', 'JUE', 'VIE', 'SAB'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A freeze pauses the package instead of suspending the student: the fixed schedule stays,
+// calculateRealRemaining skips the frozen days and packageEndDate moves by the class days
+// lost. Enrollments carry the freeze too (seat released unless holdSeat). Nothing has to run
+// when it ends: once `to` has passed, classes count again.
+
+export interface FreezeRequest {
+    from: string; // YYYY-MM-DD
+    to: string;   // YYYY-MM-DD (inclusive)
+    reason: string;
+    holdSeat: boolean;
+    createdBy?: string;
+}
+
+export interface FreezePreview {
+    frozenClasses: number;
+    newEndDate: string;
+    policy: FreezePolicy;
+    used: number; // Freezes already taken in the current package period
+}
+
+const addDays = (date: string, days: number): string => {
+    const d = new Date(dateUtils.toMillis(date));
+    d.setDate(d.getDate() + days);
+    return dateUtils.formatDateId(d);
+};
+
+const isClassDay = (student: Student, date: Date, closures: SeasonClosure[]) =>
+    (student.fixedSchedule || []).some(s => s.dayId === DAY_IDS[date.getDay()]) && !isClosedDay(date, closures);
+
+/**
+ * Class days of the student between two dates (inclusive) that are not already frozen
+ */
+const countClassDays = (student: Student, from: string, to: string, closures: SeasonClosure[], freezes: PackageFreeze[]): number => {
+    const current = new Date(dateUtils.toMillis(from));
+    let count = 0;
+    while (dateUtils.formatDateId(current) <= to) {
+        if (isClassDay(student, current, closures) && !isFrozenDay(current, freezes)) count++;
+        current.setDate(current.getDate() + 1);
+    }
+    return count;
+};
+
+/**
+ * packageEndDate moved by `delta` class days (later when positive, earlier when negative)
+ */
+const shiftEndDate = (student: Student, delta: number, closures: SeasonClosure[]): string => {
+    const end = student.packageEndDate as string;
+    if (delta > 0) {
+        const days = Array.from(new Set(student.fixedSchedule.map(s => s.dayId)));
+        const newEnd = packageValidationService.calculatePreciseEndDate(new Date(dateUtils.toMillis(addDays(end, 1))), delta, days, closures);
+        return dateUtils.formatDateId(newEnd);
+    }
+
+    // Drop the last |delta| class days, the new end is the class day before them
+    const current = new Date(dateUtils.toMillis(end));
+    let removed = 0;
+    while (removed < -delta) {
+        if (isClassDay(student, current, closures)) removed++;
+        current.setDate(current.getDate() - 1);
+    }
+    while (!isClassDay(student, current, closures) && dateUtils.formatDateId(current) > (student.packageStartDate || '')) {
+        current.setDate(current.getDate() - 1);
+    }
+    return dateUtils.formatDateId(current);
+};
+
+// Identifies the freezes of a student to detect concurrent changes
+const freezeKey = (student: Student): string =>
+    (student.freezes || []).map(f => `${f.id}:${f.from}:${f.to}`).join('|');
+
+export const freezeService = {
+    /**
+     * Check a freeze against the package limits and compute its effect. Throws when not allowed.
+     */
+    async preview(student: Student, request: Pick<FreezeRequest, 'from' | 'to'>): Promise<FreezePreview> {
+        const { from, to } = request;
+        if (!student.packageStartDate || !student.packageEndDate || (student.fixedSchedule || []).length === 0) {
+            throw new Error('El alumno no tiene un paquete con horario vigente.');
+        }
+        if (!from || !to || to < from) throw new Error('Rango de fechas inválido');
+        if (from < dateUtils.formatDateId(new Date())) throw new Error('El congelamiento no puede empezar en el pasado.');
+        if (from < student.packageStartDate || to > student.packageEndDate) {
+            throw new Error(`El congelamiento debe estar dentro del paquete (${student.packageStartDate} a ${student.packageEndDate}).`);
+        }
+
+        const freezes = student.freezes || [];
+        if (freezes.some(f => from <= f.to && to >= f.from)) {
+            throw new Error('Ya hay un congelamiento en esas fechas.');
+        }
+
+        const pkg = student.currentPackageId ? await packageService.getById(student.currentPackageId) : null;
+        const policy = packageService.getFreezePolicy(pkg);
+        // Freezes of earlier periods of the same package don't count
+        const used = freezes.filter(f =>
+            (f.packageId || null) === (student.currentPackageId || null)
+            && f.from >= student.packageStartDate!
+            && f.from <= student.packageEndDate!
+        ).length;
+        if (used >= policy.maxFreezes) {
+            throw new Error(policy.maxFreezes === 0
+                ? 'El paquete del alumno no permite congelamientos.'
+                : `El paquete permite ${policy.maxFreezes} congelamiento(s) y ya se usaron ${used}.`);
+        }
+        const days = Math.round((dateUtils.toMillis(to) - dateUtils.toMillis(from)) / DAY_MS) + 1;
+        if (days > policy.maxDays) {
+            throw new Error(`El congelamiento puede durar hasta ${policy.maxDays} días (solicitado: ${days}).`);
+        }
+
+        const season = student.seasonId ? await seasonService.getById(student.seasonId) : null;
+        const closures = season?.closures || [];
+        const frozenClasses = countClassDays(student, from, to, closures, freezes);
+        if (frozenClasses === 0) throw new Error('El alumno no tiene clases en esas fechas.');
+
+        const newEndDate = shiftEndDate(student, frozenClasses, closures);
+        if (season && newEndDate > season.endDate) {
+            throw new Error(`El paquete terminaría el ${newEndDate}, después del fin de la temporada (${season.endDate}).`);
+        }
+
+        return { frozenClasses, newEndDate, policy, used };
+    },
+
+    /**
+     * Freeze a student's package. The student and the audit entry are written together; then
+     * the monthly enrollments are re-synced so endsAt and the freeze follow.
+     */
+    async freeze(studentId: string, request: FreezeRequest): Promise<PackageFreeze> {
+        const student = await this._getStudent(studentId);
+        const { frozenClasses, newEndDate } = await this.preview(student, request);
+
+        const freeze: PackageFreeze = {
+            id: `${request.from}_${Date.now().toString(36)}`,
+            packageId: student.currentPackageId || null,
+            from: request.from,
+            to: request.to,
+            reason: request.reason.trim(),
+            holdSeat: request.holdSeat,
+            frozenClasses,
+            ...(request.createdBy && { createdBy: request.createdBy }),
+            createdAt: Date.now()
+        };
+        const freezes = [...(student.freezes || []), freeze].sort((a, b) => a.from.localeCompare(b.from));
+
+        await this._save(student, { freezes, packageEndDate: newEndDate },
+            `Congelamiento ${freeze.from} a ${freeze.to} (${frozenClasses} clases)`, freeze.reason);
+
+        await loggingService.addLog(
+            `Paquete de ${student.fullName} congelado del ${freeze.from} al ${freeze.to}, nuevo fin ${newEndDate}`,
+            'INFO'
+        );
+        return freeze;
+    },
+
+    /**
+     * Resume before the planned end: the freeze ends the day before `resumeDate` (a freeze that
+     * had not started is removed) and the unused frozen classes come off packageEndDate.
+     */
+    async endEarly(studentId: string, freezeId: string, resumeDate: string = dateUtils.formatDateId(new Date())): Promise<void> {
+        const student = await this._getStudent(studentId);
+        const freeze = (student.freezes || []).find(f => f.id === freezeId);
+        if (!freeze) throw new Error('Congelamiento no encontrado');
+        if (resumeDate > freeze.to) throw new Error('El congelamiento ya terminó.');
+
+        const season = student.seasonId ? await seasonService.getById(student.seasonId) : null;
+        const closures = season?.closures || [];
+        const others = (student.freezes || []).filter(f => f.id !== freezeId);
+        const newTo = addDays(resumeDate, -1);
+        const keep = newTo >= freeze.from;
+        const frozenClasses = keep ? countClassDays(student, freeze.from, newTo, closures, others) : 0;
+
+        const freezes = keep
+            ? [...others, { ...freeze, to: newTo, frozenClasses, endedEarlyAt: Date.now() }].sort((a, b) => a.from.localeCompare(b.from))
+            : others;
+        const packageEndDate = shiftEndDate(student, frozenClasses - freeze.frozenClasses, closures);
+
+        await this._save(student, { freezes, packageEndDate },
+            keep ? `Congelamiento terminado antes (retoma ${resumeDate})` : 'Congelamiento cancelado');
+
+        await loggingService.addLog(
+            `Paquete de ${student.fullName} reanudado el ${resumeDate}, nuevo fin ${packageEndDate}`,
+            'INFO'
+        );
+    },
+
+    async _getStudent(studentId: string): Promise<Student> {
+        const [student] = await studentService.getByIds([studentId]);
+        if (!student) throw new Error('Alumno no encontrado');
+        return student;
+    },
+
+    /**
+     * Write the freezes and end date with their audit entry, then re-sync the enrollments.
+     * Fails if the student's freezes or end date changed since `student` was read.
+     */
+    async _save(student: Student, changes: Pick<Student, 'freezes' | 'packageEndDate'>, summary: string, reason?: string): Promise<void> {
+        const studentRef = doc(db, STUDENTS_COLLECTION, student.id);
+        await runTransaction(db, async (transaction) => {
+            const studentDoc = await transaction.get(studentRef);
+            if (!studentDoc.exists()) throw new Error('Alumno no encontrado');
+            const current = studentDoc.data() as Student;
+            if (freezeKey(current) !== freezeKey(student) || current.packageEndDate !== student.packageEndDate) {
+                throw new Error('El paquete del alumno cambió mientras se guardaba. Vuelva a intentarlo.');
+            }
+
+            transaction.update(studentRef, changes);
+            auditService.record(transaction, {
+                entity: 'students',
+                entityId: student.id,
+                action: 'UPDATE',
+                summary,
+                studentId: student.id,
+                studentName: student.fullName,
+                before: { freezes: student.freezes || [], packageEndDate: student.packageEndDate },
+                after: changes,
+                ...(reason && { reason })
+            });
+        });
+
+        try {
+            await studentService.syncFixedScheduleToMonthlySlots(
+                student.id,
+                student.fixedSchedule,
+                changes.packageEndDate,
+                student.packageStartDate,
+                student.categoryId
+            );
+        } catch (error) {
+            console.error('Error syncing schedule after freeze:', error);
+            throw new Error(`Se guardó el congelamiento, pero no se pudieron actualizar sus horarios: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+};
@@ -2,6 +2,7 @@ import * as XLSX from 'xlsx';
 import { doc, runTransaction, increment } from 'firebase/firestore';
 import { db } from '../lib/firebase';
 import type { Student, DayType } from '../types/db';
+import { auditService } from './auditService';
 
 // ============================================
 // MAPEO DE CÓDIGOS DEL SISTEMA ANTIGUO (ACCESS)
@@ -538,6 +539,17 @@ export async function importStudents(
                     studentCode: finalCode,
                 };
                 transaction.set(studentRef, finalStudent);
+
+                // Imported credits have no payment behind them; record who brought them in
+                auditService.record(transaction, {
+                    entity: 'students',
+                    entityId: student.id!,
+                    action: 'CREATE',
+                    summary: `Importado desde Excel (${finalStudent.remainingCredits} clases, sin pago registrado)`,
+                    studentId: student.id!,
+                    studentName: finalStudent.fullName,
+                    after: finalStudent
+                });
             });
 
             // Sincronizar con horarios mensuales (fuera de la transacción de creación)
@@ -605,11 +617,11 @@ export async function deleteAllStudents(): Promise<void> {
         });
     });
 
-    // Reiniciar contadores
+    // Reiniciar contadores (la numeración de boletas continúa)
     batch.set(metadataRef, {
         students: 0,
         activeStudents: 0
-    });
+    }, { merge: true });
 
     await batch.commit();
 }
@@ -0,0 +1,179 @@
+import {
+    collection,
+    doc,
+    getDocs,
+    setDoc,
+    updateDoc,
+    query,
+    where,
+    orderBy,
+    Timestamp,
+    type DocumentData
+} from 'firebase/firestore';
+import { db } from '../lib/firebase';
+import { loggingService } from './logging';
+import { seasonService } from './seasonService';
+import { getDayTypeForDate } from './monthlyScheduleService';
+import { parseMonthId } from '../utils/monthUtils';
+import { isClosedDay } from '../utils/closureUtils';
+import { dateUtils } from '../utils/date';
+import { getTimeSlotRange, timeSlotsOverlap } from '../utils/timeSlotUtils';
+import type { Instructor, MonthlySlot, ScheduleTemplate } from '../types/db';
+
+const INSTRUCTORS_COLLECTION = 'instructors';
+const MONTHLY_SLOTS_COLLECTION = 'monthly_slots';
+
+type ConflictTemplate = Pick<ScheduleTemplate, 'instructorId' | 'isBreak' | 'dayType' | 'timeSlot'>;
+
+export interface InstructorConflict<T extends ConflictTemplate = ScheduleTemplate> {
+    instructorId: string;
+    first: T;
+    second: T;
+}
+
+export interface InstructorHoursRow {
+    instructorId: string;
+    name: string;
+    classes: number; // Class sessions given in the month
+    hours: number;
+    hourlyRate: number;
+    amount: number; // hours * hourlyRate
+}
+
+/**
+ * Pairs of templates where one instructor would teach two classes at once. Day types never
+ * share a weekday, so only the same dayType with overlapping times is a conflict.
+ */
+export const findInstructorConflicts = <T extends ConflictTemplate>(templates: T[]): InstructorConflict<T>[] => {
+    const assigned = templates.filter(t => t.instructorId && !t.isBreak);
+    const conflicts: InstructorConflict<T>[] = [];
+
+    assigned.forEach((first, i) => {
+        assigned.slice(i + 1).forEach(second => {
+            if (second.instructorId !== first.instructorId || second.dayType !== first.dayType) return;
+            if (timeSlotsOverlap(first.timeSlot, second.timeSlot)) {
+                conflicts.push({ instructorId: first.instructorId as string, first, second });
+            }
+        });
+    });
+    return conflicts;
+};
+
+const toInstructor = (id: string, data: DocumentData): Instructor => ({
+    ...data,
+    id,
+    createdAt: data.createdAt?.toDate() || new Date(),
+    updatedAt: data.updatedAt?.toDate() || new Date()
+} as Instructor);
+
+export const instructorService = {
+    /**
+     * Get all instructors
+     */
+    async getAll(): Promise<Instructor[]> {
+        const q = query(collection(db, INSTRUCTORS_COLLECTION), orderBy('name', 'asc'));
+        const snapshot = await getDocs(q);
+        return snapshot.docs.map(d => toInstructor(d.id, d.data()));
+    },
+
+    /**
+     * Get only active instructors
+     */
+    async getActive(): Promise<Instructor[]> {
+        const q = query(collection(db, INSTRUCTORS_COLLECTION), where('isActive', '==', true));
+        const snapshot = await getDocs(q);
+        return snapshot.docs
+            .map(d => toInstructor(d.id, d.data()))
+            .sort((a, b) => a.name.localeCompare(b.name));
+    },
+
+    /**
+     * Create a new instructor
+     */
+    async create(data: Omit<Instructor, 'id' | 'createdAt' | 'updatedAt'>): Promise<string> {
+        const docRef = doc(collection(db, INSTRUCTORS_COLLECTION));
+
+        await setDoc(docRef, {
+            ...data,
+            createdAt: Timestamp.now(),
+            updatedAt: Timestamp.now()
+        });
+
+        await loggingService.addLog(`Nuevo profesor registrado: ${data.name}`, 'SUCCESS');
+        return docRef.id;
+    },
+
+    /**
+     * Update an instructor
+     */
+    async update(id: string, data: Partial<Omit<Instructor, 'id' | 'createdAt' | 'updatedAt'>>): Promise<void> {
+        await updateDoc(doc(db, INSTRUCTORS_COLLECTION, id), {
+            ...data,
+            updatedAt: Timestamp.now()
+        });
+    },
+
+    /**
+     * Deactivate an instructor (soft delete, past months still reference it)
+     */
+    async delete(id: string): Promise<void> {
+        await updateDoc(doc(db, INSTRUCTORS_COLLECTION, id), {
+            isActive: false,
+            updatedAt: Timestamp.now()
+        });
+    },
+
+    /**
+     * Payroll report: classes and hours each instructor gave in a month, from the monthly
+     * slots (instructor as it was that month). Days outside the season or closed are skipped.
+     */
+    async getMonthlyHours(seasonId: string, month: string): Promise<InstructorHoursRow[]> {
+        const [season, instructors, snapshot] = await Promise.all([
+            seasonService.getById(seasonId),
+            this.getAll(),
+            getDocs(query(
+                collection(db, MONTHLY_SLOTS_COLLECTION),
+                where('seasonId', '==', seasonId),
+                where('month', '==', month)
+            ))
+        ]);
+        if (!season) throw new Error('Temporada no encontrada');
+
+        // Class days of the month per day type
+        const classDays: Record<string, number> = {};
+        const current = parseMonthId(month);
+        while (dateUtils.formatDateId(current).startsWith(month)) {
+            const dateId = dateUtils.formatDateId(current);
+            if (dateId >= season.startDate && dateId <= season.endDate && !isClosedDay(current, season.closures)) {
+                const dayType = getDayTypeForDate(current);
+                classDays[dayType] = (classDays[dayType] || 0) + 1;
+            }
+            current.setDate(current.getDate() + 1);
+        }
+
+        const rows = new Map<string, InstructorHoursRow>();
+        snapshot.docs.forEach(d => {
+            const slot = d.data() as MonthlySlot;
+            if (!slot.instructorId || slot.isBreak) return;
+
+            const instructor = instructors.find(i => i.id === slot.instructorId);
+            const row = rows.get(slot.instructorId) || {
+                instructorId: slot.instructorId,
+                name: instructor?.name || 'Profesor eliminado',
+                classes: 0,
+                hours: 0,
+                hourlyRate: instructor?.hourlyRate || 0,
+                amount: 0
+            };
+            const { start, end } = getTimeSlotRange(slot.timeSlot);
+            const sessions = classDays[slot.dayType] || 0;
+
+            row.classes += sessions;
+            row.hours += sessions * Math.max(0, end - start) / 60;
+            row.amount = row.hours * row.hourlyRate;
+            rows.set(slot.instructorId, row);
+        });
+
+        return Array.from(rows.values()).sort((a, b) => a.name.localeCompare(b.name));
+    }
+};
@@ -10,7 +10,6 @@ import {
     writeBatch,
     Timestamp,
     arrayUnion,
-    increment,
     updateDoc
 } from 'firebase/firestore';
 import { db } from '../lib/firebase';
@@ -18,7 +17,9 @@ import { loggingService } from './logging';
 import { scheduleTemplateService } from './scheduleTemplateService';
 import { categoryService } from './categoryService';
 import { studentService } from './students';
-import { getMonthsInRange } from '../utils/monthUtils';
+import { getMonthsInRange, formatMonthId } from '../utils/monthUtils';
+import { dateUtils } from '../utils/date';
+import { getFreezeFor, isSeatReleased } from '../utils/freezeUtils';
 import type { MonthlySlot, MonthlyEnrollment, Student, DayType } from '../types/db';
 
 const MONTHLY_SLOTS_COLLECTION = 'monthly_slots';
@@ -33,6 +34,82 @@ const getDayTypeFromDayIds = (dayIds: string[]): DayType | null => {
     return null;
 };
 
+/**
+ * Schedule pattern a calendar day belongs to (Mon/Wed/Fri, Tue/Thu, weekend)
+ */
+export const getDayTypeForDate = (date: Date): DayType => {
+    const day = date.getDay();
+    if (day === 0 || day === 6) return 'sab-dom';
+    return day === 2 || day === 4 ? 'mar-juev' : 'lun-mier-vier';
+};
+
+/**
+ * First day the student's fixed schedule applies (YYYY-MM-DD): the package start, or the first
+ * class in the new schedule after a transfer when that is later
+ */
+export const getScheduleStartDate = (student: Pick<Student, 'packageStartDate' | 'scheduleSince'>): string | null =>
+    student.scheduleSince && (!student.packageStartDate || student.scheduleSince > student.packageStartDate)
+        ? student.scheduleSince
+        : student.packageStartDate || null;
+
+/**
+ * Whether an enrollment ended before a date: enrollments cut by a transfer are history and are
+ * left as they are by re-syncs
+ */
+export const endedBefore = (enrollment: Pick<MonthlyEnrollment, 'endsAt'>, date: string | null | undefined): boolean =>
+    !!date && dateUtils.toMillis(enrollment.endsAt) < dateUtils.toMillis(date);
+
+/**
+ * Seats taken in a slot on one date: fixed enrollments covering that day (unless frozen without
+ * holding the seat) plus make-up bookings
+ */
+export const getSlotOccupancy = (slot: MonthlySlot, date: string): number => {
+    const dayStart = dateUtils.toMillis(date);
+    const dayEnd = dayStart + 24 * 60 * 60 * 1000 - 1;
+    const enrolled = new Set((slot.enrolledStudents || [])
+        .filter(e => dateUtils.toMillis(e.enrolledAt) <= dayEnd && dateUtils.toMillis(e.endsAt) >= dayStart)
+        .filter(e => !isSeatReleased(e.freezes, date))
+        .map(e => e.studentId));
+    const bookings = (slot.recoveryBookings || []).filter(b => b.date === date && !enrolled.has(b.studentId));
+    return enrolled.size + bookings.length;
+};
+
+/**
+ * Most make-up bookings on any single day from `fromDate` on (seats they can take away)
+ */
+export const getPeakRecoveryBookings = (slot: MonthlySlot, fromDate: string): number => {
+    const perDate: Record<string, number> = {};
+    (slot.recoveryBookings || []).forEach(b => {
+        if (b.date >= fromDate) perDate[b.date] = (perDate[b.date] || 0) + 1;
+    });
+    return Math.max(0, ...Object.values(perDate));
+};
+
+/**
+ * Tells the waitlists of the given slots that a seat may be free (once per schedule pattern).
+ * Never throws: the seat was already released.
+ */
+const notifyWaitlists = async (slots: Array<Pick<MonthlySlot, 'seasonId' | 'dayType' | 'timeSlot' | 'categoryId'>>, reason: string): Promise<void> => {
+    const keys = new Map(slots
+        .filter(s => s.categoryId)
+        .map(s => [`${s.seasonId}_${s.dayType}_${s.timeSlot}_${s.categoryId}`, s]));
+    if (keys.size === 0) return;
+
+    try {
+        const { waitlistService } = await import('./waitlistService');
+        for (const slot of keys.values()) {
+            await waitlistService.notifySeatFreed({
+                seasonId: slot.seasonId,
+                dayType: slot.dayType,
+                timeSlot: slot.timeSlot,
+                categoryId: slot.categoryId as string
+            }, reason);
+        }
+    } catch (error) {
+        console.error('Error notifying waitlist:', error);
+    }
+};
+
 /**
  * Safely convert any date-like value to a JS Date
  */
@@ -47,9 +124,10 @@ const toJsDate = (val: any): Date => {
 
 export const monthlyScheduleService = {
     /**
-     * Get monthly slots for a specific season and month
+     * Get monthly slots for a specific season and month.
+     * Expired enrollments are cleaned up on read unless readOnly (past seasons keep their history).
      */
-    async getBySeasonAndMonth(seasonId: string, month: string): Promise<MonthlySlot[]> {
+    async getBySeasonAndMonth(seasonId: string, month: string, readOnly: boolean = false): Promise<MonthlySlot[]> {
         const q = query(
             collection(db, MONTHLY_SLOTS_COLLECTION),
             where('seasonId', '==', seasonId),
@@ -60,6 +138,7 @@ export const monthlyScheduleService = {
         const now = new Date();
         const batch = writeBatch(db);
         let updatesCount = 0;
+        const cleanedSlots: MonthlySlot[] = [];
 
         const results = snapshot.docs.map(doc => {
             const data = doc.data();
@@ -73,13 +152,14 @@ export const monthlyScheduleService = {
                 return end.getTime() > now.getTime();
             });
 
-            // If we found expired students, queue a cleanup update
-            if (validEnrollments.length !== originalEnrollments.length) {
+            // If we found expired students, queue a cleanup update (never while viewing a past season)
+            if (!readOnly && validEnrollments.length !== originalEnrollments.length) {
                 batch.update(doc.ref, {
                     enrolledStudents: validEnrollments,
                     updatedAt: Timestamp.now()
                 });
                 updatesCount++;
+                cleanedSlots.push(data as MonthlySlot);
                 data.enrolledStudents = validEnrollments; // Return the clean list to UI
             }
 
@@ -103,12 +183,61 @@ export const monthlyScheduleService = {
         // Commit cleanup in background
         if (updatesCount > 0) {
             console.log(`🧹 Auto-cleaning ${updatesCount} slots with expired students...`);
-            batch.commit().catch(err => console.error("Error auto-cleaning slots:", err));
+            batch.commit()
+                .then(() => notifyWaitlists(cleanedSlots, 'Inscripción vencida'))
+                .catch(err => console.error("Error auto-cleaning slots:", err));
         }
 
         return results;
     },
 
+    /**
+     * Today's slots of the active season and the time slot running now (or the next one;
+     * the last one once the day is over). Several categories can share a time slot.
+     */
+    async getCurrentClass(now: Date = new Date()): Promise<{ dayType: DayType, slots: MonthlySlot[], currentTimeSlot: string | null }> {
+        const { seasonService } = await import('./seasonService');
+        const activeSeason = await seasonService.getActiveSeason();
+        if (!activeSeason) throw new Error('No hay temporada activa.');
+
+        const dayType = getDayTypeForDate(now);
+        const startOfDay = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+        const endOfDay = startOfDay + 24 * 60 * 60 * 1000 - 1;
+
+        const today = dateUtils.formatDateId(now);
+
+        const monthSlots = await this.getBySeasonAndMonth(activeSeason.id, formatMonthId(now));
+        const slots = monthSlots
+            .filter(s => s.dayType === dayType && !s.isBreak)
+            .map(s => ({
+                ...s,
+                // Only students whose package covers today (and not frozen), plus today's make-up classes
+                enrolledStudents: [
+                    ...(s.enrolledStudents || []).filter(e =>
+                        toJsDate(e.enrolledAt).getTime() <= endOfDay && toJsDate(e.endsAt).getTime() >= startOfDay &&
+                        !getFreezeFor(today, e.freezes)
+                    ),
+                    ...(s.recoveryBookings || []).filter(b => b.date === today).map(b => ({
+                        studentId: b.studentId,
+                        studentName: b.studentName,
+                        enrolledAt: new Date(startOfDay),
+                        endsAt: new Date(endOfDay),
+                        creditsAllocated: 0
+                    }))
+                ]
+            }))
+            .sort((a, b) => a.timeSlot.localeCompare(b.timeSlot));
+
+        const minutesNow = now.getHours() * 60 + now.getMinutes();
+        const toMinutes = (time: string) => {
+            const [h, m] = time.split(':').map(Number);
+            return h * 60 + m;
+        };
+        const current = slots.find(s => toMinutes(s.timeSlot.split('-')[1]) > minutesNow) || slots[slots.length - 1];
+
+        return { dayType, slots, currentTimeSlot: current?.timeSlot || null };
+    },
+
     /**
      * Get a specific monthly slot by ID
      */
@@ -136,7 +265,9 @@ export const monthlyScheduleService = {
             updateDoc(docRef, {
                 enrolledStudents: validEnrollments,
                 updatedAt: Timestamp.now()
-            }).catch(e => console.error("Error auto-cleaning slot:", e));
+            })
+                .then(() => notifyWaitlists([data as MonthlySlot], 'Inscripción vencida'))
+                .catch(e => console.error("Error auto-cleaning slot:", e));
             data.enrolledStudents = validEnrollments;
         }
 
@@ -189,17 +320,17 @@ export const monthlyScheduleService = {
                 throw new Error('El alumno no tiene créditos disponibles.');
             }
 
-            // Check if already enrolled
-            const alreadyEnrolled = slot.enrolledStudents?.some(e => e.studentId === studentId);
+            // Use local date parsing to avoid UTC shifts
+            const reqDateStr = getScheduleStartDate(student) || new Date().toISOString().split('T')[0];
+            const requestedStartDate = new Date(`${reqDateStr}T00:00:00`);
+
+            // Check if already enrolled (an enrollment cut before the start is only history)
+            const alreadyEnrolled = slot.enrolledStudents?.some(e => e.studentId === studentId && !endedBefore(e, reqDateStr));
             if (alreadyEnrolled) {
                 throw new Error('El alumno ya está inscrito en este horario.');
             }
 
             // Check capacity (Smart Check)
-            // Use local date parsing to avoid UTC shifts
-            const reqDateStr = student.packageStartDate || new Date().toISOString().split('T')[0];
-            const requestedStartDate = new Date(`${reqDateStr}T00:00:00`);
-
             // OPTIMIZATION: Removed getDocs of all active students (~200 reads saved)
             // Simply count enrollments that are still active at the requested date
             const activeEnrollments = (slot.enrolledStudents || []).filter(e => {
@@ -225,7 +356,11 @@ export const monthlyScheduleService = {
                 // FIX: Set end time to end of day to prevent premature expiration
                 endsAt: student.packageEndDate ? new Date(`${student.packageEndDate}T23:59:59`) : new Date(),
                 creditsAllocated,
-                attendanceRecord: []
+                attendanceRecord: [],
+                // Freezes stay on the enrollment when the schedule is re-synced
+                ...(student.freezes?.length && {
+                    freezes: student.freezes.map(f => ({ from: f.from, to: f.to, holdSeat: f.holdSeat }))
+                })
             };
 
             // Update slot
@@ -247,12 +382,14 @@ export const monthlyScheduleService = {
     },
 
     /**
-     * Unenroll a student from a monthly slot
+     * Unenroll a student from a monthly slot. Pass notifyWaitlist = false when the student is
+     * only being moved (the caller notifies once the move is done). With `keepEndedBefore`
+     * (YYYY-MM-DD), enrollments that ended before that day are kept.
      */
-    async unenrollStudent(slotId: string, studentId: string): Promise<void> {
+    async unenrollStudent(slotId: string, studentId: string, notifyWaitlist: boolean = true, keepEndedBefore?: string | null): Promise<void> {
         const slotRef = doc(db, MONTHLY_SLOTS_COLLECTION, slotId);
 
-        await runTransaction(db, async (transaction) => {
+        const freedSlot = await runTransaction(db, async (transaction) => {
             const slotDoc = await transaction.get(slotRef);
 
             if (!slotDoc.exists()) {
@@ -261,14 +398,16 @@ export const monthlyScheduleService = {
 
             const slot = slotDoc.data() as MonthlySlot;
 
+            const isRemoved = (e: MonthlyEnrollment) => e.studentId === studentId && !endedBefore(e, keepEndedBefore);
+
             // Check if enrolled
-            const enrollment = slot.enrolledStudents?.find(e => e.studentId === studentId);
+            const enrollment = slot.enrolledStudents?.find(isRemoved);
             if (!enrollment) {
                 throw new Error('El alumno no está inscrito en este horario.');
             }
 
             // Remove enrollment
-            const updatedEnrollments = slot.enrolledStudents.filter(e => e.studentId !== studentId);
+            const updatedEnrollments = slot.enrolledStudents.filter(e => !isRemoved(e));
 
             transaction.update(slotRef, {
                 enrolledStudents: updatedEnrollments.map(e => ({
@@ -288,7 +427,13 @@ export const monthlyScheduleService = {
                 `Alumno ${enrollment.studentName} desinscrito de horario ${slot.timeSlot} (${slot.month})`,
                 'INFO'
             );
+
+            return slot;
         });
+
+        if (notifyWaitlist) {
+            await notifyWaitlists([freedSlot], 'Alumno desinscrito');
+        }
     },
 
     /**
@@ -302,6 +447,7 @@ export const monthlyScheduleService = {
         }
 
         const months = getMonthsInRange(startMonth, endMonth);
+        const currentMonth = formatMonthId(new Date());
         const batch = writeBatch(db);
         let slotsCreated = 0;
 
@@ -321,6 +467,8 @@ export const monthlyScheduleService = {
                         categoryId: template.categoryId,
                         capacity: template.capacity,
                         isBreak: template.isBreak,
+                        // Past months keep their instructor (payroll)
+                        ...(month >= currentMonth && { instructorId: template.instructorId || null }),
                         updatedAt: Timestamp.now()
                     });
                     continue;
@@ -333,6 +481,7 @@ export const monthlyScheduleService = {
                     dayType: template.dayType,
                     timeSlot: template.timeSlot,
                     categoryId: template.categoryId,
+                    instructorId: template.instructorId || null,
                     capacity: template.capacity,
                     enrolledStudents: [],
                     isBreak: template.isBreak,
@@ -389,81 +538,6 @@ export const monthlyScheduleService = {
         );
     },
 
-    /**
-     * Mark attendance for a student on a specific date
-     */
-    async markAttendance(
-        slotId: string,
-        studentId: string,
-        date: string,
-        attended: boolean,
-        markedBy?: string
-    ): Promise<void> {
-        const slotRef = doc(db, MONTHLY_SLOTS_COLLECTION, slotId);
-
-        await runTransaction(db, async (transaction) => {
-            const slotDoc = await transaction.get(slotRef);
-
-            if (!slotDoc.exists()) {
-                throw new Error('Horario no encontrado.');
-            }
-
-            const slot = slotDoc.data() as MonthlySlot;
-            const enrollmentIndex = slot.enrolledStudents?.findIndex(e => e.studentId === studentId);
-
-            if (enrollmentIndex === -1 || enrollmentIndex === undefined) {
-                throw new Error('El alumno no está inscrito en este horario.');
-            }
-
-            const enrollment = slot.enrolledStudents[enrollmentIndex];
-            const attendanceRecord = enrollment.attendanceRecord || [];
-
-            // Check if attendance already marked for this date
-            const existingIndex = attendanceRecord.findIndex(a => a.date === date);
-
-            const attendanceDay = {
-                date,
-                attended,
-                markedBy,
-                markedAt: new Date()
-            };
-
-            if (existingIndex >= 0) {
-                attendanceRecord[existingIndex] = attendanceDay;
-            } else {
-                attendanceRecord.push(attendanceDay);
-            }
-
-            // Update enrollment
-            const updatedEnrollments = [...slot.enrolledStudents];
-            updatedEnrollments[enrollmentIndex] = {
-                ...enrollment,
-                attendanceRecord
-            };
-
-            transaction.update(slotRef, {
-                enrolledStudents: updatedEnrollments.map(e => ({
-                    ...e,
-                    enrolledAt: Timestamp.fromDate(toJsDate(e.enrolledAt)),
-                    endsAt: Timestamp.fromDate(toJsDate(e.endsAt)),
-                    attendanceRecord: e.attendanceRecord?.map(att => ({
-                        ...att,
-                        markedAt: att.markedAt ? Timestamp.fromDate(toJsDate(att.markedAt)) : null
-                    }))
-                })),
-                updatedAt: Timestamp.now()
-            });
-
-            // If attended, deduct credit (similar to current system)
-            if (attended) {
-                const studentRef = doc(db, STUDENTS_COLLECTION, studentId);
-                transaction.update(studentRef, {
-                    remainingCredits: increment(-1)
-                });
-            }
-        });
-    },
-
     /**
      * Updates an enrollment snapshot with fresh student data
      * Critical for fixing data mismatches (e.g., package end date changed)
@@ -476,7 +550,9 @@ export const monthlyScheduleService = {
             if (!slotDoc.exists()) throw new Error('Horario no encontrado.');
 
             const slot = slotDoc.data() as MonthlySlot;
-            const enrollmentIndex = slot.enrolledStudents?.findIndex(e => e.studentId === student.id);
+            // Enrollments cut by a transfer keep their end
+            const enrollmentIndex = slot.enrolledStudents?.findIndex(e =>
+                e.studentId === student.id && !endedBefore(e, getScheduleStartDate(student)));
 
             if (enrollmentIndex === -1 || enrollmentIndex === undefined) {
                 // Not enrolled, nothing to update
@@ -549,6 +625,7 @@ export const monthlyScheduleService = {
         }
 
         const batch = writeBatch(db);
+        const currentMonth = formatMonthId(new Date());
         let updated = 0;
 
         // Get all monthly slots for this season
@@ -569,12 +646,15 @@ export const monthlyScheduleService = {
             );
 
             if (template) {
+                // Past months keep the instructor who taught them (payroll)
+                const syncInstructor = slot.month >= currentMonth;
                 const needsUpdate =
                     template.capacity !== slot.capacity ||
                     template.timeSlot !== slot.timeSlot ||
                     template.dayType !== slot.dayType ||
                     template.categoryId !== slot.categoryId ||
-                    template.isBreak !== slot.isBreak;
+                    template.isBreak !== slot.isBreak ||
+                    (syncInstructor && (template.instructorId || null) !== (slot.instructorId || null));
 
                 if (needsUpdate) {
                     batch.update(docSnap.ref, {
@@ -583,6 +663,7 @@ export const monthlyScheduleService = {
                         dayType: template.dayType,
                         categoryId: template.categoryId,
                         isBreak: template.isBreak,
+                        ...(syncInstructor && { instructorId: template.instructorId || null }),
                         updatedAt: Timestamp.now()
                     });
                     updated++;
@@ -803,6 +884,7 @@ export const monthlyScheduleService = {
         const { formatMonthId, parseMonthId } = await import('../utils/monthUtils');
         const now = new Date();
         const currentMonth = formatMonthId(now);
+        const today = dateUtils.formatDateId(now);
         const slots = snapshot.docs.map(doc => doc.data() as MonthlySlot).sort((a, b) => a.month.localeCompare(b.month));
 
         // Refined Logic: Find the FIRST month starting from NOW that is NOT FULL
@@ -847,7 +929,8 @@ export const monthlyScheduleService = {
                     uniqueIds.add(e.studentId);
                 }
             });
-            return uniqueIds.size;
+            // One-off make-up classes take a seat on their day
+            return uniqueIds.size + getPeakRecoveryBookings(slot, today);
         };
 
         // Find first available slot from now onwards
@@ -1047,6 +1130,7 @@ export const monthlyScheduleService = {
             const snapshot = await getDocs(q);
             const batch = writeBatch(db);
             let slotsUpdated = 0;
+            const freedSlots: MonthlySlot[] = [];
 
             snapshot.docs.forEach(docSnap => {
                 const slot = docSnap.data();
@@ -1065,6 +1149,7 @@ export const monthlyScheduleService = {
                     });
 
                     slotsUpdated++;
+                    freedSlots.push(slot as MonthlySlot);
                 }
             });
 
@@ -1074,6 +1159,7 @@ export const monthlyScheduleService = {
                     `Alumno ${studentId} removido de ${slotsUpdated} horarios en temporada ${seasonId}`,
                     'WARNING' // Warning because it's a destructive action (suspension)
                 );
+                await notifyWaitlists(freedSlots, 'Alumno suspendido');
             }
 
             return slotsUpdated;
@@ -13,9 +13,20 @@ import {
 } from 'firebase/firestore';
 import { db } from '../lib/firebase';
 // import { loggingService } from './logging';
-import type { Package } from '../types/db';
+import type { Package, InstallmentPlan, FreezePolicy } from '../types/db';
 
 const PACKAGES_COLLECTION = 'packages';
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Due date of a debt when the package has no installment plan
+export const DEFAULT_DEBT_DUE_DAYS = 7;
+// Freeze limits when the package does not set its own
+export const DEFAULT_FREEZE_POLICY: FreezePolicy = { maxFreezes: 1, maxDays: 14 };
+
+export interface InstallmentScheduleItem {
+    number: number; // 1-based
+    amount: number;
+    dueDate: number; // Timestamp
+}
 
 export const packageService = {
     /**
@@ -217,5 +228,29 @@ export const packageService = {
         return packages.filter(pkg =>
             pkg.scheduleTypes.includes(scheduleType as any)
         );
+    },
+
+    /**
+     * Freeze limits of a package (DEFAULT_FREEZE_POLICY when it sets none)
+     */
+    getFreezePolicy(pkg?: Package | null): FreezePolicy {
+        return pkg?.freezePolicy || DEFAULT_FREEZE_POLICY;
+    },
+
+    /**
+     * Splits a total in the package installments (equal parts, the last one takes the cents).
+     * Without a plan it is a single installment due in DEFAULT_DEBT_DUE_DAYS.
+     */
+    getInstallmentSchedule(total: number, plan?: InstallmentPlan | null, from: number = Date.now()): InstallmentScheduleItem[] {
+        const offsets = plan && plan.installments > 1 && plan.dueOffsetDays.length === plan.installments
+            ? plan.dueOffsetDays
+            : [DEFAULT_DEBT_DUE_DAYS];
+        const share = Math.floor((total / offsets.length) * 100) / 100;
+
+        return offsets.map((days, i) => ({
+            number: i + 1,
+            amount: i === offsets.length - 1 ? Math.round((total - share * i) * 100) / 100 : share,
+            dueDate: from + days * DAY_MS
+        }));
     }
 };
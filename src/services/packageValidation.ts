@@ -1,6 +1,7 @@
-import { Package, DayType } from '../types/db';
+import { Package, DayType, SeasonClosure } from '../types/db';
 import { packageService } from './packageService';
 import { seasonService } from './seasonService';
+import { isClosedDay } from '../utils/closureUtils';
 
 /**
  * Service for validating package selection and availability
@@ -36,12 +37,13 @@ export const packageValidationService = {
     },
 
     /**
-     * Calculate the precise end date based on actual class days
+     * Calculate the precise end date based on actual class days (closure days are skipped)
      */
     calculatePreciseEndDate(
         startDate: Date,
         totalClasses: number,
-        selectedDays: string[] // ['LUN', 'MIE', 'VIE']
+        selectedDays: string[], // ['LUN', 'MIE', 'VIE']
+        closures: SeasonClosure[] = []
     ): Date {
         if (totalClasses <= 0 || selectedDays.length === 0) return startDate;
 
@@ -62,7 +64,7 @@ export const packageValidationService = {
         // Buscamos las clases
         while (classesCounted < totalClasses) {
             const dayOfWeek = currentDate.getDay();
-            if (targetDays.includes(dayOfWeek)) {
+            if (targetDays.includes(dayOfWeek) && !isClosedDay(currentDate, closures)) {
                 classesCounted++;
                 lastClassDate = new Date(currentDate.getTime());
             }
@@ -221,7 +223,8 @@ export const packageValidationService = {
     calculateExtensionDate(
         currentEndDate: string | null, // YYYY-MM-DD
         creditsToAdd: number,
-        selectedDays: string[] // ['LUN', 'MIE', 'VIE']
+        selectedDays: string[], // ['LUN', 'MIE', 'VIE']
+        closures: SeasonClosure[] = []
     ): Date {
         if (creditsToAdd <= 0 || selectedDays.length === 0) {
             if (currentEndDate) {
@@ -254,6 +257,6 @@ export const packageValidationService = {
             startDate = today;
         }
 
-        return this.calculatePreciseEndDate(startDate, creditsToAdd, selectedDays);
+        return this.calculatePreciseEndDate(startDate, creditsToAdd, selectedDays, closures);
     }
 };
@@ -5,7 +5,8 @@ import {
     getDocs,
     setDoc,
     updateDoc,
-    deleteDoc
+    deleteDoc,
+    writeBatch
 } from 'firebase/firestore';
 import { PaymentMethodConfig } from '../types/db';
 
@@ -40,11 +41,24 @@ export const paymentMethodService = {
         };
 
         await setDoc(ref, newMethod);
+        if (data.isCash) await this._setCashMethod(ref.id);
     },
 
     async update(id: string, data: Partial<Omit<PaymentMethodConfig, 'id'>>): Promise<void> {
         const ref = doc(db, COLLECTION, id);
         await updateDoc(ref, data);
+        if (data.isCash) await this._setCashMethod(id);
+    },
+
+    /**
+     * Only one method is the cash drawer
+     */
+    async _setCashMethod(id: string): Promise<void> {
+        const others = (await this.getAll()).filter(m => m.isCash && m.id !== id);
+        if (others.length === 0) return;
+        const batch = writeBatch(db);
+        others.forEach(m => batch.update(doc(db, COLLECTION, m.id), { isCash: false }));
+        await batch.commit();
     },
 
     async delete(id: string): Promise<void> {
@@ -56,7 +70,7 @@ export const paymentMethodService = {
     async seedInitial(): Promise<void> {
         const existing = await this.getAll();
         if (existing.length === 0) {
-            await this.create({ name: 'Efectivo', isActive: true });
+            await this.create({ name: 'Efectivo', isActive: true, isCash: true });
             await this.create({ name: 'Yape / Plin', isActive: true });
         }
     }
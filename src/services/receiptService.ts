@@ -0,0 +1,114 @@
+import { db } from '../lib/firebase';
+import {
+    doc,
+    getDoc,
+    Transaction,
+    DocumentSnapshot
+} from 'firebase/firestore';
+import type { Receipt, ReceiptConcept } from '../types/db';
+
+const RECEIPTS_COLLECTION = 'receipts';
+
+export const RECEIPT_CONCEPT_LABELS: Record<ReceiptConcept, string> = {
+    ENROLLMENT: 'Matrícula',
+    RECHARGE: 'Recarga de clases',
+    DEBT_PAYMENT: 'Abono a deuda'
+};
+
+export const formatReceiptNumber = (value: number): string => value.toString().padStart(6, '0');
+
+const formatDateTime = (timestamp: number) =>
+    new Date(timestamp).toLocaleString('es-PE', { day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+export const receiptService = {
+    /**
+     * Next receipt number from metadata/counters (the caller already read it in the transaction)
+     */
+    nextNumber(metadataDoc: DocumentSnapshot): number {
+        return (metadataDoc.exists() ? metadataDoc.data().receipts || 0 : 0) + 1;
+    },
+
+    /**
+     * Writes the receipt inside the payment transaction. metadata/counters must be updated by the caller.
+     */
+    issue(transaction: Transaction, number: number, data: Omit<Receipt, 'id' | 'number'>): Receipt {
+        const receipt: Receipt = { id: formatReceiptNumber(number), number, ...data };
+        // Firestore rejects undefined optional fields
+        transaction.set(doc(db, RECEIPTS_COLLECTION, receipt.id), JSON.parse(JSON.stringify(receipt)));
+        return receipt;
+    },
+
+    async getByNumber(receiptNumber: string): Promise<Receipt | null> {
+        const snap = await getDoc(doc(db, RECEIPTS_COLLECTION, receiptNumber));
+        return snap.exists() ? (snap.data() as Receipt) : null;
+    },
+
+    /**
+     * Client-side PDF (A5) with the same content as the printed receipt
+     */
+    async exportPdf(receipt: Receipt): Promise<void> {
+        const { jsPDF } = await import('jspdf');
+        const pdf = new jsPDF({ unit: 'mm', format: 'a5' });
+        const left = 15;
+        const right = 133;
+        let y = 18;
+
+        pdf.setFont('helvetica', 'bold');
+        pdf.setFontSize(14);
+        pdf.text('Academia Los Parrales', 74, y, { align: 'center' });
+        y += 7;
+        pdf.setFontSize(11);
+        pdf.text(`BOLETA N° ${receipt.id}`, 74, y, { align: 'center' });
+        y += 5;
+        pdf.setFont('helvetica', 'normal');
+        pdf.setFontSize(9);
+        pdf.text(formatDateTime(receipt.date), 74, y, { align: 'center' });
+        y += 8;
+        pdf.line(left, y, right, y);
+        y += 7;
+
+        const field = (label: string, value: string) => {
+            pdf.setFont('helvetica', 'bold');
+            pdf.text(label, left, y);
+            pdf.setFont('helvetica', 'normal');
+            pdf.text(value, left + 28, y);
+            y += 6;
+        };
+        field('Alumno:', receipt.studentName);
+        field('DNI:', receipt.studentDni.startsWith('TEMP_') ? '-' : receipt.studentDni);
+        if (receipt.studentCode) field('Código:', receipt.studentCode);
+        field('Concepto:', RECEIPT_CONCEPT_LABELS[receipt.concept]);
+        if (receipt.packageName) field('Paquete:', receipt.packageName);
+        if (receipt.credits > 0) field('Clases:', String(receipt.credits));
+
+        y += 2;
+        pdf.line(left, y, right, y);
+        y += 7;
+        pdf.setFont('helvetica', 'bold');
+        pdf.text('Método de pago', left, y);
+        pdf.text('Monto', right, y, { align: 'right' });
+        pdf.setFont('helvetica', 'normal');
+        y += 6;
+        receipt.lines.forEach(line => {
+            pdf.text(line.description ? `${line.methodName} · ${line.description}` : line.methodName, left, y);
+            pdf.text(`S/ ${line.amount.toFixed(2)}`, right, y, { align: 'right' });
+            y += 6;
+        });
+        pdf.line(left, y - 2, right, y - 2);
+        y += 4;
+        pdf.setFont('helvetica', 'bold');
+        pdf.setFontSize(11);
+        pdf.text('TOTAL PAGADO', left, y);
+        pdf.text(`S/ ${receipt.total.toFixed(2)}`, right, y, { align: 'right' });
+        y += 7;
+        pdf.setFontSize(9);
+        pdf.text('Saldo pendiente', left, y);
+        pdf.text(`S/ ${receipt.debtBalance.toFixed(2)}`, right, y, { align: 'right' });
+        y += 12;
+
+        pdf.setFont('helvetica', 'normal');
+        pdf.text(`Atendido por: ${receipt.cashierName}`, left, y);
+
+        pdf.save(`Boleta_${receipt.id}.pdf`);
+    }
+};
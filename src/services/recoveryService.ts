@@ -0,0 +1,279 @@
+import {
+    collection,
+    doc,
+    getDocs,
+    query,
+    where,
+    runTransaction,
+    deleteField,
+    type Transaction,
+    type DocumentReference,
+    type DocumentSnapshot
+} from 'firebase/firestore';
+import { db } from '../lib/firebase';
+import { loggingService } from './logging';
+import { auditService } from './auditService';
+import { getDayTypeForDate, getSlotOccupancy } from './monthlyScheduleService';
+import { dateUtils } from '../utils/date';
+import type { MonthlySlot, Recovery, RecoveryBooking, Student } from '../types/db';
+
+const RECOVERIES_COLLECTION = 'recoveries';
+const MONTHLY_SLOTS_COLLECTION = 'monthly_slots';
+export const RECOVERY_VALID_DAYS = 30; // From the missed class
+
+// A missed class (absent mark) gives an entitlement to one make-up class in any slot of the
+// same category with a free seat that day. The booking lives on the slot (recoveryBookings) so
+// capacity checks see it; the student's fixedSchedule never changes.
+
+export interface BookableSlot {
+    slot: MonthlySlot;
+    occupancy: number;
+    available: number;
+}
+
+/**
+ * One entitlement per missed class
+ */
+export const getRecoveryId = (studentId: string, missedDate: string, missedSlotId?: string): string =>
+    `${studentId}_${missedDate}_${missedSlotId || 'sin-horario'}`;
+
+const addDays = (date: string, days: number): string => {
+    const d = new Date(dateUtils.toMillis(date));
+    d.setDate(d.getDate() + days);
+    return dateUtils.formatDateId(d);
+};
+
+/**
+ * Student already sits in the slot that day (fixed enrollment or another make-up)
+ */
+const isSeatedOn = (slot: MonthlySlot, studentId: string, date: string): boolean => {
+    const dayStart = dateUtils.toMillis(date);
+    const dayEnd = dayStart + 24 * 60 * 60 * 1000 - 1;
+    return (slot.enrolledStudents || []).some(e =>
+        e.studentId === studentId && dateUtils.toMillis(e.enrolledAt) <= dayEnd && dateUtils.toMillis(e.endsAt) >= dayStart
+    ) || (slot.recoveryBookings || []).some(b => b.studentId === studentId && b.date === date);
+};
+
+/**
+ * Document an attendance mark can affect: the booked entitlement when the student is in the
+ * slot for a make-up, otherwise the one generated by missing this class.
+ */
+export const getAttendanceRecoveryRef = (
+    slot: MonthlySlot | null,
+    studentId: string,
+    fecha: string,
+    slotId?: string
+): { ref: DocumentReference, isMakeUp: boolean } => {
+    const booking = slot?.recoveryBookings?.find(b => b.studentId === studentId && b.date === fecha);
+    return booking
+        ? { ref: doc(db, RECOVERIES_COLLECTION, booking.recoveryId), isMakeUp: true }
+        : { ref: doc(db, RECOVERIES_COLLECTION, getRecoveryId(studentId, fecha, slotId)), isMakeUp: false };
+};
+
+/**
+ * Recovery side of an attendance change, inside the attendance transaction (after all reads).
+ * - Absent in a regular class: grants the entitlement (again, if it had been cancelled).
+ * - Present in a regular class: an unused entitlement for it is cancelled.
+ * - Make-up class: present uses the entitlement, absent leaves it booked.
+ */
+export const applyRecoveryForAttendance = (
+    transaction: Transaction,
+    recoveryDoc: DocumentSnapshot,
+    params: { isMakeUp: boolean, asistencia: boolean, student: Student, studentId: string, fecha: string, slotId?: string }
+): void => {
+    const { isMakeUp, asistencia, student, studentId, fecha, slotId } = params;
+    const existing = recoveryDoc.exists() ? recoveryDoc.data() as Recovery : null;
+    const now = Date.now();
+
+    if (isMakeUp) {
+        if (!existing) return;
+        if (asistencia && existing.status === 'BOOKED') {
+            transaction.update(recoveryDoc.ref, { status: 'USED', usedAt: now, updatedAt: now });
+        } else if (!asistencia && existing.status === 'USED') {
+            transaction.update(recoveryDoc.ref, { status: 'BOOKED', usedAt: deleteField(), updatedAt: now });
+        }
+        return;
+    }
+
+    if (!asistencia) {
+        if (existing && existing.status !== 'CANCELLED') return;
+        if (!student.categoryId) return;
+        const recovery: Recovery = {
+            id: recoveryDoc.id,
+            studentId,
+            studentName: student.fullName,
+            ...(student.seasonId && { seasonId: student.seasonId }),
+            categoryId: student.categoryId,
+            missedDate: fecha,
+            ...(slotId && { missedSlotId: slotId }),
+            expiresAt: addDays(fecha, RECOVERY_VALID_DAYS),
+            status: 'AVAILABLE',
+            createdAt: existing?.createdAt || now,
+            updatedAt: now
+        };
+        transaction.set(recoveryDoc.ref, recovery);
+    } else if (existing?.status === 'AVAILABLE') {
+        transaction.update(recoveryDoc.ref, { status: 'CANCELLED', updatedAt: now });
+    }
+};
+
+export const recoveryService = {
+    /**
+     * Entitlements of a season (all statuses), newest missed class first
+     */
+    async getBySeason(seasonId: string): Promise<Recovery[]> {
+        const q = query(collection(db, RECOVERIES_COLLECTION), where('seasonId', '==', seasonId));
+        const snapshot = await getDocs(q);
+        return snapshot.docs
+            .map(d => d.data() as Recovery)
+            .sort((a, b) => b.missedDate.localeCompare(a.missedDate));
+    },
+
+    /**
+     * Entitlements of one student, newest missed class first
+     */
+    async getByStudent(studentId: string): Promise<Recovery[]> {
+        const q = query(collection(db, RECOVERIES_COLLECTION), where('studentId', '==', studentId));
+        const snapshot = await getDocs(q);
+        return snapshot.docs
+            .map(d => d.data() as Recovery)
+            .sort((a, b) => b.missedDate.localeCompare(a.missedDate));
+    },
+
+    /**
+     * Slots of the student's category with a free seat on `date` (YYYY-MM-DD)
+     */
+    async getBookableSlots(recovery: Recovery, date: string): Promise<BookableSlot[]> {
+        const today = dateUtils.formatDateId(new Date());
+        if (date < today || date > recovery.expiresAt) return [];
+
+        let seasonId = recovery.seasonId;
+        if (!seasonId) {
+            const { seasonService } = await import('./seasonService');
+            seasonId = (await seasonService.getActiveSeason())?.id;
+        }
+        if (!seasonId) return [];
+
+        const q = query(
+            collection(db, MONTHLY_SLOTS_COLLECTION),
+            where('seasonId', '==', seasonId),
+            where('month', '==', date.slice(0, 7)),
+            where('dayType', '==', getDayTypeForDate(new Date(dateUtils.toMillis(date)))),
+            where('categoryId', '==', recovery.categoryId)
+        );
+        const snapshot = await getDocs(q);
+
+        return snapshot.docs
+            .map(d => ({ ...d.data(), id: d.id } as MonthlySlot))
+            .filter(slot => !slot.isBreak && !isSeatedOn(slot, recovery.studentId, date))
+            .map(slot => {
+                const occupancy = getSlotOccupancy(slot, date);
+                return { slot, occupancy, available: (slot.capacity || 0) - occupancy };
+            })
+            .filter(s => s.available > 0)
+            .sort((a, b) => a.slot.timeSlot.localeCompare(b.slot.timeSlot));
+    },
+
+    /**
+     * Books the make-up class. Capacity is re-checked inside the transaction.
+     */
+    async book(recoveryId: string, slotId: string, date: string, bookedBy?: string): Promise<void> {
+        const recoveryRef = doc(db, RECOVERIES_COLLECTION, recoveryId);
+        const slotRef = doc(db, MONTHLY_SLOTS_COLLECTION, slotId);
+        const today = dateUtils.formatDateId(new Date());
+
+        await runTransaction(db, async (transaction) => {
+            const recoveryDoc = await transaction.get(recoveryRef);
+            const slotDoc = await transaction.get(slotRef);
+            if (!recoveryDoc.exists()) throw new Error('Recuperación no encontrada');
+            if (!slotDoc.exists()) throw new Error('Horario no encontrado');
+
+            const recovery = recoveryDoc.data() as Recovery;
+            const slot = { ...slotDoc.data(), id: slotDoc.id } as MonthlySlot;
+
+            if (recovery.status !== 'AVAILABLE') throw new Error('La recuperación ya fue agendada, usada o cancelada.');
+            if (date < today) throw new Error('No se puede agendar en una fecha pasada.');
+            if (date > recovery.expiresAt) throw new Error(`La recuperación vence el ${recovery.expiresAt}.`);
+            if (slot.categoryId !== recovery.categoryId) throw new Error('El horario no es de la categoría del alumno.');
+            if (slot.isBreak) throw new Error('El horario es un descanso.');
+            if (slot.month !== date.slice(0, 7) || slot.dayType !== getDayTypeForDate(new Date(dateUtils.toMillis(date)))) {
+                throw new Error('El horario no tiene clase en esa fecha.');
+            }
+            if (isSeatedOn(slot, recovery.studentId, date)) throw new Error('El alumno ya tiene esa clase.');
+            if (getSlotOccupancy(slot, date) >= (slot.capacity || 0)) throw new Error('El horario no tiene cupos para esa fecha.');
+
+            const booking: RecoveryBooking = {
+                recoveryId,
+                studentId: recovery.studentId,
+                studentName: recovery.studentName,
+                date
+            };
+            transaction.update(slotRef, { recoveryBookings: [...(slot.recoveryBookings || []), booking] });
+            transaction.update(recoveryRef, {
+                status: 'BOOKED',
+                bookedSlotId: slotId,
+                bookedDate: date,
+                bookedTimeSlot: slot.timeSlot,
+                ...(bookedBy && { bookedBy }),
+                updatedAt: Date.now()
+            });
+
+            auditService.record(transaction, {
+                entity: 'recoveries',
+                entityId: recoveryId,
+                action: 'UPDATE',
+                summary: `Recuperación agendada: ${date} ${slot.timeSlot}`,
+                studentId: recovery.studentId,
+                studentName: recovery.studentName,
+                before: { status: recovery.status },
+                after: { status: 'BOOKED', bookedSlotId: slotId, bookedDate: date }
+            });
+        });
+
+        await loggingService.addLog(`Recuperación agendada (${recoveryId}) para el ${date}`, 'INFO');
+    },
+
+    /**
+     * Frees the seat and makes the entitlement available again
+     */
+    async cancelBooking(recoveryId: string): Promise<void> {
+        const recoveryRef = doc(db, RECOVERIES_COLLECTION, recoveryId);
+
+        await runTransaction(db, async (transaction) => {
+            const recoveryDoc = await transaction.get(recoveryRef);
+            if (!recoveryDoc.exists()) throw new Error('Recuperación no encontrada');
+            const recovery = recoveryDoc.data() as Recovery;
+            if (recovery.status !== 'BOOKED' || !recovery.bookedSlotId) {
+                throw new Error('Solo se pueden anular recuperaciones agendadas sin asistencia.');
+            }
+
+            const slotRef = doc(db, MONTHLY_SLOTS_COLLECTION, recovery.bookedSlotId);
+            const slotDoc = await transaction.get(slotRef);
+
+            if (slotDoc.exists()) {
+                const bookings = (slotDoc.data().recoveryBookings || []) as RecoveryBooking[];
+                transaction.update(slotRef, { recoveryBookings: bookings.filter(b => b.recoveryId !== recoveryId) });
+            }
+            transaction.update(recoveryRef, {
+                status: 'AVAILABLE',
+                bookedSlotId: deleteField(),
+                bookedDate: deleteField(),
+                bookedTimeSlot: deleteField(),
+                bookedBy: deleteField(),
+                updatedAt: Date.now()
+            });
+
+            auditService.record(transaction, {
+                entity: 'recoveries',
+                entityId: recoveryId,
+                action: 'UPDATE',
+                summary: `Recuperación anulada: ${recovery.bookedDate}`,
+                studentId: recovery.studentId,
+                studentName: recovery.studentName,
+                before: { status: recovery.status, bookedSlotId: recovery.bookedSlotId, bookedDate: recovery.bookedDate },
+                after: { status: 'AVAILABLE' }
+            });
+        });
+    }
+};
+
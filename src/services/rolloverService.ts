@@ -0,0 +1,399 @@
+import { doc, runTransaction } from 'firebase/firestore';
+import { db } from '../lib/firebase';
+import { loggingService } from './logging';
+import { auditService } from './auditService';
+import { seasonService } from './seasonService';
+import { scheduleTemplateService } from './scheduleTemplateService';
+import { packageService } from './packageService';
+import { categoryService } from './categoryService';
+import { studentService } from './students';
+import { monthlyScheduleService } from './monthlyScheduleService';
+import { WAITLIST_DAY_IDS } from './waitlistService';
+import { getStudentAge } from '../utils/studentUtils';
+import { getTimeSlotRange } from '../utils/timeSlotUtils';
+import { getMonthName, getMonthsInRange } from '../utils/monthUtils';
+import { dateUtils } from '../utils/date';
+import type { Category, DayType, MonthlySlot, Package, ScheduleTemplate, Season, Student } from '../types/db';
+
+const STUDENTS_COLLECTION = 'students';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Rollover carries a season into the next one: templates, packages (optionally repriced) and the
+// chosen students with their category re-checked by age and their schedule re-mapped to the new
+// templates. Each student is enrolled in the target monthly slots through the schedule sync, so
+// seats are checked like any other enrollment; students without a seat are not moved.
+//
+// Package fields on carry-over: currentPackageId and remainingCredits stay (classes already paid
+// go with the student). The package restarts on the first day of the target season (or today,
+// if later) with the same length in days, cut at the end of the target season. scheduleSince and
+// closuresApplied referred to source dates and are cleared. Students without classes left move
+// without package dates and are enrolled when they renew.
+
+type FixedSchedule = Array<{ dayId: string, timeId: string }>;
+type TemplateShape = Pick<ScheduleTemplate, 'dayType' | 'timeSlot' | 'categoryId' | 'isBreak' | 'capacity'>;
+
+export interface PriceAdjustment {
+    type: 'amount' | 'percent';
+    value: number;
+}
+
+export interface RolloverPackagePlan {
+    id: string;
+    name: string;
+    price: number;
+    newPrice: number;
+    exists: boolean; // A package with this name is already in the target season (not copied)
+}
+
+export interface RolloverStudentPlan {
+    studentId: string;
+    studentName: string;
+    active: boolean;
+    age: number | null; // On the first day of the target season
+    fromCategoryId: string;
+    toCategoryId: string;
+    fromSchedule: FixedSchedule;
+    toSchedule: FixedSchedule; // Re-mapped to the target templates ([] when nothing matches)
+    packageStartDate: string | null; // Carried package in the target season (null: no classes left)
+    packageEndDate: string | null;
+    fits: boolean; // A seat in every target month of the carried package (or nothing to enroll)
+    issues: string[];
+}
+
+export interface RolloverPlan {
+    source: Season;
+    target: Season;
+    templatesToCopy: number; // 0 when the target already has templates
+    existingTemplates: number;
+    packages: RolloverPackagePlan[];
+    students: RolloverStudentPlan[];
+    months: string[]; // Target months that get monthly slots
+}
+
+export interface RolloverOptions {
+    copyTemplates: boolean;
+    packageIds: string[]; // Copied with the price of the plan
+    studentIds: string[];
+    generateSlots: boolean;
+}
+
+export interface RolloverStudentIssue {
+    studentId: string;
+    studentName: string;
+    reason: string;
+}
+
+export interface RolloverResult {
+    templatesCopied: number;
+    packagesCopied: number;
+    slotsCreated: number;
+    studentsMoved: number;
+    studentsEnrolled: number;
+    skipped: RolloverStudentIssue[]; // Not moved (no seat in the target slots)
+    notEnrolled: RolloverStudentIssue[]; // Moved, but the enrollment failed (seat taken meanwhile)
+}
+
+const getNewPrice = (price: number, adjustment: PriceAdjustment): number => {
+    const value = adjustment.type === 'percent' ? price * (1 + adjustment.value / 100) : price + adjustment.value;
+    return Math.max(0, Math.round(value * 100) / 100);
+};
+
+const getDayType = (dayId: string): DayType | null =>
+    (Object.keys(WAITLIST_DAY_IDS) as DayType[]).find(dayType => WAITLIST_DAY_IDS[dayType].includes(dayId)) || null;
+
+/**
+ * Same days and hour in the target templates of the category; when the hour is gone, the
+ * closest start time of the same days. Entries without any class of those days are dropped.
+ */
+const remapSchedule = (schedule: FixedSchedule, templates: TemplateShape[], categoryId: string, issues: string[]): FixedSchedule => {
+    const mapped: FixedSchedule = [];
+    schedule.forEach(entry => {
+        const dayType = getDayType(entry.dayId);
+        const options = templates.filter(t => !t.isBreak && t.dayType === dayType && t.categoryId === categoryId);
+        if (options.length === 0) {
+            issues.push(`Sin clases ${entry.dayId} para su categoría`);
+            return;
+        }
+        if (options.some(t => t.timeSlot === entry.timeId)) {
+            mapped.push(entry);
+            return;
+        }
+        const start = getTimeSlotRange(entry.timeId).start;
+        const closest = options.reduce((best, t) =>
+            Math.abs(getTimeSlotRange(t.timeSlot).start - start) < Math.abs(getTimeSlotRange(best.timeSlot).start - start) ? t : best
+        );
+        issues.push(`${entry.dayId} ${entry.timeId} pasa a ${closest.timeSlot}`);
+        mapped.push({ dayId: entry.dayId, timeId: closest.timeSlot });
+    });
+    // One issue per day pattern is enough
+    issues.splice(0, issues.length, ...Array.from(new Set(issues)));
+    return mapped;
+};
+
+const getCategoryByAge = (categories: Category[], age: number | null): Category | null =>
+    age === null ? null : categories.find(c => age >= c.ageRange.min && age <= c.ageRange.max) || null;
+
+/**
+ * Dates of the student's package once carried into the target season, or null without classes left
+ */
+const getCarriedPackageDates = (student: Student, target: Season, today: string): { start: string, end: string } | null => {
+    if ((student.remainingCredits || 0) <= 0) return null;
+    const start = today > target.startDate ? today : target.startDate;
+    if (start > target.endDate) return null;
+
+    if (!student.packageStartDate || !student.packageEndDate) return { start, end: target.endDate };
+    const days = Math.round((dateUtils.toMillis(student.packageEndDate) - dateUtils.toMillis(student.packageStartDate)) / DAY_MS);
+    const end = new Date(dateUtils.toMillis(start));
+    end.setDate(end.getDate() + Math.max(0, days));
+    const endId = dateUtils.formatDateId(end);
+    return { start, end: endId < target.endDate ? endId : target.endDate };
+};
+
+const seatKey = (dayType: DayType | null, timeSlot: string, categoryId: string | undefined, month: string) =>
+    `${dayType}_${timeSlot}_${categoryId}_${month}`;
+
+interface Seats {
+    capacity: number;
+    endsAt: number[]; // Enrollments (existing and planned), by end
+}
+
+/**
+ * Seats of the target season: its monthly slots, or the templates in every month while the
+ * slots are not generated yet
+ */
+const getTargetSeats = (slots: MonthlySlot[], templates: TemplateShape[], months: string[]): Map<string, Seats> => {
+    const seats = new Map<string, Seats>();
+    if (slots.length > 0) {
+        slots.filter(slot => !slot.isBreak).forEach(slot => seats.set(seatKey(slot.dayType, slot.timeSlot, slot.categoryId, slot.month), {
+            capacity: slot.capacity,
+            endsAt: (slot.enrolledStudents || []).map(e => dateUtils.toMillis(e.endsAt))
+        }));
+    } else {
+        templates.filter(t => !t.isBreak).forEach(t => months.forEach(month =>
+            seats.set(seatKey(t.dayType, t.timeSlot, t.categoryId, month), { capacity: t.capacity, endsAt: [] })));
+    }
+    return seats;
+};
+
+/**
+ * Takes a seat for the carried package in every month, like enrollStudent counts them
+ * (enrollments still running on the start date). Returns the problems when it doesn't fit.
+ */
+const reserveSeats = (seats: Map<string, Seats>, schedule: FixedSchedule, categoryId: string, dates: { start: string, end: string }): string[] => {
+    const patterns = new Map(schedule.map(e => [`${getDayType(e.dayId)}_${e.timeId}`, { dayType: getDayType(e.dayId), timeSlot: e.timeId }]));
+    const months = getMonthsInRange(dates.start.slice(0, 7), dates.end.slice(0, 7));
+    const startsAt = dateUtils.toMillis(dates.start);
+    const problems: string[] = [];
+    const taken: Seats[] = [];
+
+    patterns.forEach(({ dayType, timeSlot }) => months.forEach(month => {
+        const seat = seats.get(seatKey(dayType, timeSlot, categoryId, month));
+        if (!seat) {
+            problems.push(`Sin horario ${timeSlot} en ${getMonthName(month)}`);
+        } else if (seat.endsAt.filter(endsAt => endsAt >= startsAt).length >= seat.capacity) {
+            problems.push(`Sin cupo en ${timeSlot} (${getMonthName(month)})`);
+        } else {
+            taken.push(seat);
+        }
+    }));
+
+    if (problems.length === 0) {
+        const endsAt = dateUtils.toMillis(dates.end) + DAY_MS - 1;
+        taken.forEach(seat => seat.endsAt.push(endsAt));
+    }
+    return problems;
+};
+
+export const rolloverService = {
+    /**
+     * Everything the rollover would do, without writing anything
+     */
+    async preview(sourceSeasonId: string, targetSeasonId: string, priceAdjustment: PriceAdjustment): Promise<RolloverPlan> {
+        if (sourceSeasonId === targetSeasonId) throw new Error('Seleccione temporadas distintas.');
+
+        const [source, target] = await Promise.all([
+            seasonService.getById(sourceSeasonId),
+            seasonService.getById(targetSeasonId)
+        ]);
+        if (!source || !target) throw new Error('Temporada no encontrada.');
+
+        const months = seasonService.getMonthsInSeason(target);
+        const [sourceTemplates, targetTemplates, sourcePackages, targetPackages, categories, students, targetSlots] = await Promise.all([
+            scheduleTemplateService.getBySeason(source.id),
+            scheduleTemplateService.getBySeason(target.id),
+            packageService.getBySeason(source.id),
+            packageService.getBySeason(target.id),
+            categoryService.getActive(),
+            studentService.getBySeason(source.id, false),
+            Promise.all(months.map(month => monthlyScheduleService.getBySeasonAndMonth(target.id, month, true))).then(slots => slots.flat())
+        ]);
+
+        // Schedules are re-mapped to what the target will have after the copy
+        const templates: TemplateShape[] = targetTemplates.length > 0 ? targetTemplates : sourceTemplates;
+        const targetStart = new Date(`${target.startDate}T00:00:00`);
+        const targetPackageNames = new Set(targetPackages.map(p => p.name.trim().toLowerCase()));
+        const seats = getTargetSeats(targetSlots, templates, months);
+        const today = dateUtils.formatDateId(new Date());
+
+        const packages = sourcePackages.map((pkg: Package) => ({
+            id: pkg.id,
+            name: pkg.name,
+            price: pkg.price,
+            newPrice: getNewPrice(pkg.price, priceAdjustment),
+            exists: targetPackageNames.has(pkg.name.trim().toLowerCase())
+        }));
+
+        const studentPlans = students
+            .sort((a, b) => a.fullName.localeCompare(b.fullName))
+            .map((student: Student): RolloverStudentPlan => {
+                const issues: string[] = [];
+                const age = getStudentAge(student, targetStart);
+                const byAge = getCategoryByAge(categories, age);
+                if (age === null) issues.push('Sin edad registrada, mantiene su categoría');
+                else if (!byAge) issues.push(`Ninguna categoría para ${age} años, mantiene la suya`);
+                const toCategoryId = byAge?.id || student.categoryId;
+
+                const fromSchedule = student.fixedSchedule || [];
+                const toSchedule = remapSchedule(fromSchedule, templates, toCategoryId, issues);
+
+                const dates = getCarriedPackageDates(student, target, today);
+                let fits = true;
+                if (!dates) {
+                    issues.push('Sin clases pendientes: se inscribe al renovar');
+                } else if (toSchedule.length > 0) {
+                    const problems = reserveSeats(seats, toSchedule, toCategoryId, dates);
+                    fits = problems.length === 0;
+                    issues.push(...problems);
+                }
+
+                return {
+                    studentId: student.id,
+                    studentName: student.fullName,
+                    active: student.active !== false,
+                    age,
+                    fromCategoryId: student.categoryId,
+                    toCategoryId,
+                    fromSchedule,
+                    toSchedule,
+                    packageStartDate: dates?.start || null,
+                    packageEndDate: dates?.end || null,
+                    fits,
+                    issues
+                };
+            });
+
+        return {
+            source,
+            target,
+            templatesToCopy: targetTemplates.length > 0 ? 0 : sourceTemplates.length,
+            existingTemplates: targetTemplates.length,
+            packages,
+            students: studentPlans,
+            months
+        };
+    },
+
+    /**
+     * Apply a previewed plan. Steps run in order (templates, packages, monthly slots, students),
+     * so a failure leaves the earlier steps done and the wizard can be run again. Seats are
+     * checked again per student: one that no longer fits stays in the source season.
+     */
+    async execute(plan: RolloverPlan, options: RolloverOptions): Promise<RolloverResult> {
+        const { source, target } = plan;
+        const result: RolloverResult = {
+            templatesCopied: 0, packagesCopied: 0, slotsCreated: 0, studentsMoved: 0, studentsEnrolled: 0, skipped: [], notEnrolled: []
+        };
+
+        if (options.copyTemplates && plan.templatesToCopy > 0) {
+            result.templatesCopied = await scheduleTemplateService.duplicateForSeason(source.id, target.id);
+        }
+
+        for (const pkg of plan.packages.filter(p => !p.exists && options.packageIds.includes(p.id))) {
+            await packageService.duplicateForSeason(pkg.id, target.id, pkg.newPrice - pkg.price);
+            result.packagesCopied++;
+        }
+
+        if (options.generateSlots && plan.existingTemplates + result.templatesCopied > 0) {
+            result.slotsCreated = await monthlyScheduleService.generateMonthlySlots(target.id, target.startMonth, target.endMonth);
+        }
+
+        for (const s of plan.students.filter(p => options.studentIds.includes(p.studentId))) {
+            const issue = (reason: string): RolloverStudentIssue => ({ studentId: s.studentId, studentName: s.studentName, reason });
+            const enrolls = !!s.packageStartDate && s.toSchedule.length > 0;
+
+            if (enrolls) {
+                try {
+                    await studentService.validateScheduleAvailability(s.toSchedule, s.packageStartDate, s.packageEndDate, s.toCategoryId, target);
+                } catch (error) {
+                    result.skipped.push(issue(error instanceof Error ? error.message : String(error)));
+                    continue;
+                }
+            }
+
+            const studentRef = doc(db, STUDENTS_COLLECTION, s.studentId);
+            const moved = await runTransaction(db, async (transaction) => {
+                const snap = await transaction.get(studentRef);
+                if (!snap.exists()) return false;
+                const student = snap.data() as Student;
+                if (student.seasonId !== source.id) return false;
+
+                const changes = {
+                    seasonId: target.id,
+                    categoryId: s.toCategoryId,
+                    fixedSchedule: s.toSchedule,
+                    packageStartDate: s.packageStartDate,
+                    packageEndDate: s.packageEndDate,
+                    scheduleSince: null,
+                    closuresApplied: []
+                };
+                transaction.update(studentRef, changes);
+                auditService.record(transaction, {
+                    entity: 'students',
+                    entityId: s.studentId,
+                    action: 'UPDATE',
+                    summary: `Pase de temporada: ${source.name} → ${target.name}`,
+                    studentId: s.studentId,
+                    studentName: s.studentName,
+                    before: {
+                        seasonId: student.seasonId,
+                        categoryId: student.categoryId,
+                        fixedSchedule: student.fixedSchedule || [],
+                        packageStartDate: student.packageStartDate || null,
+                        packageEndDate: student.packageEndDate || null,
+                        scheduleSince: student.scheduleSince || null,
+                        closuresApplied: student.closuresApplied || []
+                    },
+                    after: changes
+                });
+                return true;
+            });
+            if (!moved) {
+                result.skipped.push(issue('Ya no está en la temporada de origen.'));
+                continue;
+            }
+            result.studentsMoved++;
+
+            // Source enrollments still running when the carried package starts are dropped;
+            // the ones that ended before stay as history
+            await studentService._unenrollStudentFromAllSlots(s.studentId, source.id, s.packageStartDate || target.startDate);
+
+            if (enrolls) {
+                try {
+                    await studentService.syncFixedScheduleToMonthlySlots(
+                        s.studentId, s.toSchedule, s.packageEndDate, s.packageStartDate, s.toCategoryId, target
+                    );
+                    result.studentsEnrolled++;
+                } catch (error) {
+                    result.notEnrolled.push(issue(error instanceof Error ? error.message : String(error)));
+                }
+            }
+        }
+
+        await loggingService.addLog(
+            `Pase de temporada ${source.name} → ${target.name}: ${result.templatesCopied} plantillas, ${result.packagesCopied} paquetes, ${result.slotsCreated} horarios mensuales, ${result.studentsMoved} alumnos (${result.studentsEnrolled} inscritos, ${result.skipped.length} sin cupo)`,
+            result.skipped.length + result.notEnrolled.length > 0 ? 'WARNING' : 'SUCCESS'
+        );
+
+        return result;
+    }
+};
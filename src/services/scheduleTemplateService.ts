@@ -14,11 +14,16 @@ import {
 } from 'firebase/firestore';
 import { db } from '../lib/firebase';
 // import { loggingService } from './logging';
+import { seasonService } from './seasonService';
+import { categoryService } from './categoryService';
+import { findPoolOverloads, getPointLoad, type PoolCapacityReport, type PoolOverload } from '../utils/poolUtils';
 import type { ScheduleTemplate, DayType } from '../types/db';
 
 const TEMPLATES_COLLECTION = 'schedule_templates';
 const DAILY_SLOTS_COLLECTION = 'daily_slots';
 
+type TemplateInput = Omit<ScheduleTemplate, 'id' | 'createdAt' | 'updatedAt'>;
+
 export const scheduleTemplateService = {
     /**
      * Get all templates
@@ -93,10 +98,80 @@ export const scheduleTemplateService = {
         } as ScheduleTemplate));
     },
 
+    /**
+     * Check that the season's pool still fits every class running at once after saving the
+     * candidates (replacing the templates in excludeIds). Checked per class, minute and lane:
+     * rejects when an over-limit point the change touches does not get lighter, returns the
+     * new warnings.
+     */
+    async validateResources(seasonId: string, candidates: TemplateInput[], excludeIds: string[] = []): Promise<PoolCapacityReport> {
+        const season = await seasonService.getById(seasonId);
+        if (!season?.poolLanes?.length) return { errors: [], warnings: [] };
+
+        const [existing, categories] = await Promise.all([
+            this.getBySeason(seasonId),
+            categoryService.getAll()
+        ]);
+        const categoryName = (id: string) => categories.find(c => c.id === id)?.name || 'Sin categoría';
+
+        const lanes = season.poolLanes;
+        const before = findPoolOverloads(existing, lanes, categoryName);
+        const after = findPoolOverloads(
+            [...existing.filter(t => !excludeIds.includes(t.id)), ...candidates],
+            lanes,
+            categoryName
+        );
+
+        // An over-limit point the change touches must end up lighter than before; overloads
+        // the change does not touch are left as they are
+        const candidateIds = candidates.map(c => ('id' in c ? c.id as string : undefined));
+        const isRejected = ({ point, load, limit }: PoolOverload): boolean => {
+            if (point.kind === 'class') {
+                if (!point.templateId || !candidateIds.includes(point.templateId)) return !point.templateId;
+                const previous = before.overloads.find(o => o.point.kind === 'class' && o.point.templateId === point.templateId);
+                return !previous || load - limit >= previous.load - previous.limit;
+            }
+            const previous = getPointLoad(existing, lanes, point);
+            const touched = getPointLoad(candidates, lanes, point) > 0 || load !== previous;
+            return touched && load >= previous;
+        };
+        const report = {
+            errors: after.overloads.filter(isRejected).map(o => o.message),
+            warnings: after.warnings.filter(w => !before.warnings.includes(w))
+        };
+
+        if (report.errors.length > 0) {
+            throw new Error(`La piscina no tiene espacio para este horario:\n${report.errors.join('\n')}`);
+        }
+        return report;
+    },
+
+    /**
+     * Reject candidates (replacing the templates in excludeIds) that give an instructor two
+     * classes at the same time
+     */
+    async validateInstructors(seasonId: string, candidates: TemplateInput[], excludeIds: string[] = []): Promise<void> {
+        if (!candidates.some(c => c.instructorId && !c.isBreak)) return;
+        const { instructorService, findInstructorConflicts } = await import('./instructorService');
+
+        const existing = (await this.getBySeason(seasonId)).filter(t => !excludeIds.includes(t.id));
+        const conflict = findInstructorConflicts<TemplateInput>([...existing, ...candidates])
+            .find(c => candidates.includes(c.first) || candidates.includes(c.second));
+        if (!conflict) return;
+
+        const instructors = await instructorService.getAll();
+        const name = instructors.find(i => i.id === conflict.instructorId)?.name || 'El profesor';
+        const other = candidates.includes(conflict.first) ? conflict.second : conflict.first;
+        throw new Error(`${name} ya dicta a esa hora: ${other.dayType} ${other.timeSlot}. Elija otro profesor u horario.`);
+    },
+
     /**
      * Create a new template
      */
-    async create(data: Omit<ScheduleTemplate, 'id' | 'createdAt' | 'updatedAt'>): Promise<string> {
+    async create(data: TemplateInput): Promise<string> {
+        await this.validateInstructors(data.seasonId, [data]);
+        await this.validateResources(data.seasonId, [data]);
+
         const docRef = doc(collection(db, TEMPLATES_COLLECTION));
 
         const newTemplate = {
@@ -120,7 +195,14 @@ export const scheduleTemplateService = {
     /**
      * Create multiple templates at once
      */
-    async createBulk(templates: Omit<ScheduleTemplate, 'id' | 'createdAt' | 'updatedAt'>[]): Promise<string[]> {
+    async createBulk(templates: TemplateInput[]): Promise<string[]> {
+        const seasonIds = Array.from(new Set(templates.map(t => t.seasonId)));
+        for (const seasonId of seasonIds) {
+            const seasonTemplates = templates.filter(t => t.seasonId === seasonId);
+            await this.validateInstructors(seasonId, seasonTemplates);
+            await this.validateResources(seasonId, seasonTemplates);
+        }
+
         const batch = writeBatch(db);
         const ids: string[] = [];
 
@@ -150,7 +232,14 @@ export const scheduleTemplateService = {
     /**
      * Update a template
      */
-    async update(id: string, data: Partial<Omit<ScheduleTemplate, 'id' | 'createdAt' | 'updatedAt'>>): Promise<void> {
+    async update(id: string, data: Partial<TemplateInput>): Promise<void> {
+        const current = await this.getById(id);
+        if (!current) throw new Error('Plantilla no encontrada');
+
+        const candidate = { ...current, ...data };
+        await this.validateInstructors(current.seasonId, [candidate], [id]);
+        await this.validateResources(current.seasonId, [candidate], [id]);
+
         const docRef = doc(db, TEMPLATES_COLLECTION, id);
 
         await updateDoc(docRef, {
@@ -192,6 +281,8 @@ export const scheduleTemplateService = {
             dayType: template.dayType,
             timeSlot: template.timeSlot,
             categoryId: template.categoryId,
+            instructorId: template.instructorId || null,
+            laneIds: template.laneIds || [],
             capacity: template.capacity,
             isBreak: template.isBreak
         }));
@@ -5,40 +5,96 @@ import {
     getDoc,
     setDoc,
     updateDoc,
-    deleteDoc,
     query,
     where,
     orderBy,
     Timestamp,
     writeBatch,
-    limit
+    getCountFromServer,
+    runTransaction,
+    type DocumentData
 } from 'firebase/firestore';
 import { db } from '../lib/firebase';
 import { getMonthsInRange, formatMonthId } from '../utils/monthUtils';
-// import { loggingService } from './logging';
+import { loggingService } from './logging';
 import type { Season } from '../types/db';
 
 const SEASONS_COLLECTION = 'seasons';
+const BATCH_LIMIT = 500; // Firestore writes per batch
+
+// Collections whose documents belong to a season (seasonId field)
+const SEASON_KEYED_COLLECTIONS = [
+    'packages', 'schedule_templates', 'monthly_slots', 'students', 'payments',
+    'recoveries', 'waitlist', 'waitlist_notifications', 'schedule_transfers'
+] as const;
+// Collections without seasonId: documents of the season's students (studentId field)
+const STUDENT_KEYED_COLLECTIONS = ['debts'] as const;
+const IN_QUERY_LIMIT = 30; // Values per 'in' filter
+
+export const SEASON_DATA_COLLECTIONS = [...SEASON_KEYED_COLLECTIONS, ...STUDENT_KEYED_COLLECTIONS] as const;
+export type SeasonDataCollection = typeof SEASON_DATA_COLLECTIONS[number];
+
+export type SeasonImpact = Record<SeasonDataCollection, number>;
+
+// Everything a purge deletes, exported first so it can be recovered
+export interface SeasonBackup {
+    version: 2;
+    exportedAt: string; // ISO date
+    season: DocumentData & { id: string };
+    collections: Record<SeasonDataCollection, Array<{ id: string, data: DocumentData }>>;
+}
+
+export interface SeasonHealth {
+    status: 'ok' | 'none-active' | 'multiple-active';
+    active: Season[]; // Open seasons flagged isActive
+    suggested: Season | null; // Season to keep (or make) active
+}
+
+const chunk = <T>(items: T[], size: number): T[][] =>
+    Array.from({ length: Math.ceil(items.length / size) }, (_, i) => items.slice(i * size, (i + 1) * size));
 
 /**
- * Helper to delete documents in batches (Firestore limit 500)
+ * The season to use among candidates (newest first): the one of the current month, else the newest
  */
-async function deleteCollectionBySeason(collectionName: string, seasonId: string) {
-    while (true) {
-        const q = query(
-            collection(db, collectionName),
-            where('seasonId', '==', seasonId),
-            limit(500)
-        );
-        const snapshot = await getDocs(q);
+const pickSeason = (candidates: Season[]): Season | null => {
+    const currentMonth = formatMonthId(new Date());
+    return candidates.find(s => currentMonth >= s.startMonth && currentMonth <= s.endMonth) || candidates[0] || null;
+};
 
-        if (snapshot.empty) break;
+/**
+ * Make `id` the only active season in a single transaction. When `newSeason` is given the
+ * season is created in that same transaction.
+ */
+async function activateExclusively(id: string, newSeason?: DocumentData): Promise<void> {
+    // Transactions cannot run queries: list the seasons first, then read each one inside
+    const snapshot = await getDocs(collection(db, SEASONS_COLLECTION));
+    const otherIds = snapshot.docs.map(d => d.id).filter(otherId => otherId !== id);
+    const targetRef = doc(db, SEASONS_COLLECTION, id);
+
+    await runTransaction(db, async (transaction) => {
+        const others = await Promise.all(otherIds.map(otherId => transaction.get(doc(db, SEASONS_COLLECTION, otherId))));
+        if (!newSeason) {
+            const target = await transaction.get(targetRef);
+            if (!target.exists()) throw new Error('Temporada no encontrada');
+            if (target.data().archivedAt) throw new Error('La temporada está archivada. Restáurela antes de activarla.');
+        }
 
-        const batch = writeBatch(db);
-        snapshot.docs.forEach(doc => {
-            batch.delete(doc.ref);
-        });
-        await batch.commit();
+        others
+            .filter(other => other.exists() && other.data().isActive)
+            .forEach(other => transaction.update(other.ref, { isActive: false, updatedAt: Timestamp.now() }));
+
+        if (newSeason) {
+            transaction.set(targetRef, { ...newSeason, isActive: true });
+        } else {
+            transaction.update(targetRef, { isActive: true, updatedAt: Timestamp.now() });
+        }
+    });
+
+    // Invariant: exactly one active season, the one just activated. A season created meanwhile
+    // could break it; the health check in SeasonContext reports it.
+    const active = await getDocs(query(collection(db, SEASONS_COLLECTION), where('isActive', '==', true)));
+    if (active.size !== 1 || active.docs[0].id !== id) {
+        throw new Error(`La activación terminó con ${active.size} temporadas activas. Revise la temporada activa.`);
     }
 }
 
@@ -74,25 +130,26 @@ export const seasonService = {
     },
 
     /**
-     * Get active season based on current date
+     * Get active season. If the flags are inconsistent (none or several active) the season of
+     * the current month is used; getHealth reports that state.
      */
     async getActiveSeason(): Promise<Season | null> {
-        const now = new Date();
-        const currentMonth = formatMonthId(now);
-        const seasons = await this.getAll();
-
-        // First, check for manually set active season
-        const manuallyActive = seasons.find(s => s.isActive);
-        if (manuallyActive) {
-            return manuallyActive;
-        }
+        return (await this.getHealth()).suggested;
+    },
 
-        // Otherwise, find season that contains current month
-        const currentSeason = seasons.find(s => {
-            return currentMonth >= s.startMonth && currentMonth <= s.endMonth;
-        });
+    /**
+     * Check that exactly one open season is active
+     */
+    async getHealth(): Promise<SeasonHealth> {
+        const seasons = (await this.getAll()).filter(s => !s.archivedAt);
+        const active = seasons.filter(s => s.isActive);
 
-        return currentSeason || null;
+        if (active.length === 1) return { status: 'ok', active, suggested: active[0] };
+        return {
+            status: active.length === 0 ? 'none-active' : 'multiple-active',
+            active,
+            suggested: pickSeason(active.length > 0 ? active : seasons)
+        };
     },
 
     /**
@@ -145,7 +202,12 @@ export const seasonService = {
             updatedAt: Timestamp.now()
         };
 
-        await setDoc(docRef, newSeason);
+        // An active season is created together with the deactivation of the others
+        if (data.isActive) {
+            await activateExclusively(docRef.id, newSeason);
+        } else {
+            await setDoc(docRef, newSeason);
+        }
 
         /* REMOVED LOG
         await loggingService.addLog(
@@ -162,14 +224,20 @@ export const seasonService = {
      */
     async update(id: string, data: Partial<Omit<Season, 'id' | 'createdAt' | 'updatedAt'>>): Promise<void> {
         const docRef = doc(db, SEASONS_COLLECTION, id);
+        // isActive only changes through setActiveSeason, so there is always one active season
+        const { isActive, ...fields } = data;
 
         const updateData: any = {
-            ...data,
+            ...fields,
             updatedAt: Timestamp.now()
         };
 
         await updateDoc(docRef, updateData);
 
+        if (isActive) {
+            await this.setActiveSeason(id);
+        }
+
         /* REMOVED LOG
         await loggingService.addLog(
             `Temporada actualizada: ${id}`,
@@ -179,56 +247,124 @@ export const seasonService = {
     },
 
     /**
-     * Delete a season and all related data (CASCADING DELETE)
+     * Archive a season: it becomes read-only and is hidden from the selectors. Nothing is deleted.
      */
-    async delete(id: string): Promise<void> {
-        // 1. Delete Monthly Slots
-        await deleteCollectionBySeason('monthly_slots', id);
+    async archive(id: string, userId?: string): Promise<void> {
+        const season = await this.getById(id);
+        if (!season) throw new Error('Temporada no encontrada');
+        if (season.isActive) throw new Error('No se puede archivar la temporada activa. Active otra temporada primero.');
+
+        await updateDoc(doc(db, SEASONS_COLLECTION, id), {
+            archivedAt: Date.now(),
+            archivedBy: userId || null,
+            updatedAt: Timestamp.now()
+        });
 
-        // 2. Delete Schedule Templates
-        await deleteCollectionBySeason('schedule_templates', id);
+        await loggingService.addLog(`Temporada archivada: ${season.name}`, 'WARNING');
+    },
 
-        // 3. Delete Packages
-        await deleteCollectionBySeason('packages', id);
+    /**
+     * Bring an archived season back
+     */
+    async restore(id: string): Promise<void> {
+        await updateDoc(doc(db, SEASONS_COLLECTION, id), {
+            archivedAt: null,
+            archivedBy: null,
+            updatedAt: Timestamp.now()
+        });
 
-        // 4. Delete Students
-        await deleteCollectionBySeason('students', id);
+        await loggingService.addLog(`Temporada restaurada: ${id}`, 'INFO');
+    },
 
-        // 5. Delete the Season itself
-        const docRef = doc(db, SEASONS_COLLECTION, id);
-        await deleteDoc(docRef);
+    /**
+     * Dry-run: how many documents of each collection belong to the season
+     */
+    async getImpact(id: string): Promise<SeasonImpact> {
+        const counts = await Promise.all(SEASON_KEYED_COLLECTIONS.map(name =>
+            getCountFromServer(query(collection(db, name), where('seasonId', '==', id)))
+        ));
+        const studentIds = await this._getStudentIds(id);
+        const studentCounts = await Promise.all(STUDENT_KEYED_COLLECTIONS.map(async name => {
+            const chunks = await Promise.all(chunk(studentIds, IN_QUERY_LIMIT).map(ids =>
+                getCountFromServer(query(collection(db, name), where('studentId', 'in', ids)))
+            ));
+            return chunks.reduce((sum, c) => sum + c.data().count, 0);
+        }));
+
+        return Object.fromEntries([
+            ...SEASON_KEYED_COLLECTIONS.map((name, i) => [name, counts[i].data().count]),
+            ...STUDENT_KEYED_COLLECTIONS.map((name, i) => [name, studentCounts[i]])
+        ]) as SeasonImpact;
+    },
+
+    /**
+     * Export the season and all its documents (the backup taken before a purge)
+     */
+    async exportBackup(id: string): Promise<SeasonBackup> {
+        const seasonSnap = await getDoc(doc(db, SEASONS_COLLECTION, id));
+        if (!seasonSnap.exists()) throw new Error('Temporada no encontrada');
+
+        const snapshots = await Promise.all(SEASON_KEYED_COLLECTIONS.map(name =>
+            getDocs(query(collection(db, name), where('seasonId', '==', id)))
+        ));
+        const studentIds = snapshots[SEASON_KEYED_COLLECTIONS.indexOf('students')].docs.map(d => d.id);
+        const studentSnapshots = await Promise.all(STUDENT_KEYED_COLLECTIONS.map(async name => {
+            const chunks = await Promise.all(chunk(studentIds, IN_QUERY_LIMIT).map(ids =>
+                getDocs(query(collection(db, name), where('studentId', 'in', ids)))
+            ));
+            return chunks.flatMap(c => c.docs);
+        }));
+
+        return {
+            version: 2,
+            exportedAt: new Date().toISOString(),
+            season: { ...seasonSnap.data(), id },
+            collections: Object.fromEntries([
+                ...SEASON_KEYED_COLLECTIONS.map((name, i) => [name, snapshots[i].docs.map(d => ({ id: d.id, data: d.data() }))]),
+                ...STUDENT_KEYED_COLLECTIONS.map((name, i) => [name, studentSnapshots[i].map(d => ({ id: d.id, data: d.data() }))])
+            ]) as SeasonBackup['collections']
+        };
+    },
+
+    async _getStudentIds(seasonId: string): Promise<string[]> {
+        const snapshot = await getDocs(query(collection(db, 'students'), where('seasonId', '==', seasonId)));
+        return snapshot.docs.map(d => d.id);
+    },
+
+    /**
+     * Permanently delete an archived season (SUPERADMIN). Only the documents listed in its
+     * backup are deleted, so nothing is lost that was not exported first.
+     */
+    async purge(backup: SeasonBackup): Promise<number> {
+        const season = await this.getById(backup.season.id);
+        if (!season) throw new Error('Temporada no encontrada');
+        if (!season.archivedAt) throw new Error('Solo se pueden purgar temporadas archivadas.');
+
+        const refs = SEASON_DATA_COLLECTIONS.flatMap(name =>
+            backup.collections[name].map(d => doc(db, name, d.id))
+        );
+        // The season goes last: a failed purge can be retried from the Seasons page
+        refs.push(doc(db, SEASONS_COLLECTION, season.id));
+
+        for (let i = 0; i < refs.length; i += BATCH_LIMIT) {
+            const batch = writeBatch(db);
+            refs.slice(i, i + BATCH_LIMIT).forEach(ref => batch.delete(ref));
+            await batch.commit();
+        }
 
-        /* REMOVED LOG
         await loggingService.addLog(
-            `Temporada eliminada: ${id}`,
+            `Temporada purgada: ${season.name} (${refs.length - 1} documentos eliminados, respaldo del ${backup.exportedAt})`,
             'WARNING'
         );
-        */
+
+        return refs.length - 1;
     },
 
     /**
-     * Set a season as active (deactivates all others)
+     * Set a season as active (deactivates all others in the same transaction)
      */
     async setActiveSeason(id: string): Promise<void> {
-        const seasons = await this.getAll();
-
-        // Deactivate all seasons
-        const deactivatePromises = seasons.map(season => {
-            const docRef = doc(db, SEASONS_COLLECTION, season.id);
-            return updateDoc(docRef, {
-                isActive: false,
-                updatedAt: Timestamp.now()
-            });
-        });
-
-        await Promise.all(deactivatePromises);
-
-        // Activate the selected season
-        const docRef = doc(db, SEASONS_COLLECTION, id);
-        await updateDoc(docRef, {
-            isActive: true,
-            updatedAt: Timestamp.now()
-        });
+        await activateExclusively(id);
 
         /* REMOVED LOG
         await loggingService.addLog(
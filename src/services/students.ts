@@ -17,11 +17,45 @@ import {
 } from 'firebase/firestore';
 import { db } from '../lib/firebase';
 import { loggingService } from './logging';
-import type { Student, Payment, PaymentMethod, Debt } from '../types/db';
+import { auditService } from './auditService';
+import { cashClosingService, getClosingDayId } from './cashClosingService';
+import { receiptService, formatReceiptNumber } from './receiptService';
+import { paymentMethodService } from './paymentMethodService';
+import { packageService, DEFAULT_DEBT_DUE_DAYS } from './packageService';
+import { assertPriceBreakdown } from './discountService';
+import { dateUtils } from '../utils/date';
+import type { Student, MonthlySlot, Payment, PaymentMethod, PaymentReversalType, Debt, Cashier, Receipt, ReceiptLine, PriceBreakdown, SeasonClosure, Season } from '../types/db';
 
 const STUDENTS_COLLECTION = 'students';
 const PAYMENTS_COLLECTION = 'payments';
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Short name of what a debt is for ("Matrícula · Cuota 1/2")
+ */
+export const getDebtLabel = (debt: Debt): string => {
+    const name = debt.slotId === 'MATRICULA_INICIAL' ? 'Matrícula' : debt.slotId === 'PAGO_ANULADO' ? 'Pago anulado' : debt.slotId;
+    return debt.installmentNumber
+        ? `${name} · Cuota ${debt.installmentNumber}/${debt.installmentCount}`
+        : name;
+};
+
+export type LedgerEntryType = 'CHARGE' | 'PAYMENT' | 'REVERSAL' | 'PACKAGE' | 'CREDITS' | 'ATTENDANCE';
+
+export interface LedgerEntry {
+    id: string;
+    date: number;
+    type: LedgerEntryType;
+    description: string;
+    charge: number;        // Amount owed added (S/)
+    paid: number;          // Amount paid (S/, negative for voids/refunds)
+    credits: number;       // Classes added (+) or consumed (-)
+    balance: number;       // Running amount owed
+    creditBalance: number; // Running classes
+    receiptNumber?: string;
+}
+
 export const studentService = {
     /**
      * Creates a new student with optional initial payment.
@@ -36,10 +70,13 @@ export const studentService = {
             payments: Array<{
                 amount: number,
                 method: PaymentMethod
-            }>
+            }>,
+            cashier: Cashier,
+            pricing?: PriceBreakdown // Package list price and discounts (netPrice = totalCost)
         }
-    ): Promise<void> {
+    ): Promise<Receipt | null> {
         const { seasonService } = await import('./seasonService');
+        if (paymentData?.pricing) assertPriceBreakdown(paymentData.pricing, paymentData.totalCost);
 
         // 1. PRE-FETCH DATA (Before Transaction)
         const activeSeason = await seasonService.getActiveSeason();
@@ -61,9 +98,22 @@ export const studentService = {
 
         // Use id field for document reference (handles empty DNI case)
         const studentRef = doc(db, STUDENTS_COLLECTION, studentData.id);
-        const debtRef = doc(collection(db, 'debts'));
         const metadataRef = doc(db, 'metadata', 'counters');
 
+        const paidEntries = (paymentData?.payments || []).filter(p => p.amount > 0);
+        const receiptContext = paidEntries.length > 0
+            ? await this._getReceiptContext(studentData.currentPackageId)
+            : null;
+
+        // Whatever is left unpaid is split in the package installments (a single debt without plan)
+        const amountPaidUpfront = paidEntries.reduce((sum, p) => sum + p.amount, 0);
+        const installmentPlan = paymentData && amountPaidUpfront < paymentData.totalCost && studentData.currentPackageId
+            ? (await packageService.getById(studentData.currentPackageId))?.installmentPlan
+            : null;
+        const schedule = paymentData ? packageService.getInstallmentSchedule(paymentData.totalCost, installmentPlan) : [];
+        const debtRefs = schedule.map(() => doc(collection(db, 'debts')));
+        let receipt: Receipt | null = null;
+
         // 2. RUN ATOMIC TRANSACTION
         await runTransaction(db, async (transaction) => {
             // --- ALL READS MUST COME FIRST ---
@@ -77,6 +127,11 @@ export const studentService = {
             // 2. Get next student code
             const metadataDoc = await transaction.get(metadataRef);
 
+            // Payments can't be added to a closed cash day
+            if (paymentData?.payments.some(p => p.amount > 0)) {
+                await cashClosingService.assertDayOpen(transaction, Date.now());
+            }
+
             // 3. READ ALL SLOTS (REQUIRED BY FIRESTORE)
             const slotDataList: Array<{ ref: any, data: any }> = [];
             for (const slotStub of matchingSlots) {
@@ -94,50 +149,124 @@ export const studentService = {
                 nextCount = (metadataDoc.data().students || 0) + 1;
             }
             const studentCode = nextCount.toString().padStart(6, '0');
+            const receiptNumber = receiptContext ? receiptService.nextNumber(metadataDoc) : 0;
 
             // --- CALCULATIONS ---
             let remainingCredits = 0;
             let hasDebt = false;
 
             if (paymentData) {
-                const { totalCost, credits, payments } = paymentData;
+                const { totalCost, credits, payments, cashier, pricing } = paymentData;
                 remainingCredits = credits;
                 const totalAmountPaid = payments.reduce((sum, p) => sum + p.amount, 0);
                 const isPartial = totalAmountPaid < totalCost;
                 hasDebt = isPartial;
+                const receiptLines: ReceiptLine[] = [];
+
+                // Installment debts; the money paid now covers the oldest installments first
+                const installments = isPartial
+                    ? schedule.map((item, i) => ({ ...item, id: debtRefs[i].id, balance: item.amount }))
+                    : [];
+                const installmentLabel = (debtId: string) => {
+                    const item = installments.find(i => i.id === debtId);
+                    return item && installments.length > 1 ? `Cuota ${item.number}/${installments.length}` : undefined;
+                };
 
-                // Create Payments
+                // Create Payments (one per installment they are applied to); the first one carries
+                // the price breakdown so reports count each sale once
+                let pricingPending = !!pricing;
                 for (const paymentEntry of payments) {
                     if (paymentEntry.amount <= 0) continue;
-                    const paymentRef = doc(collection(db, PAYMENTS_COLLECTION));
-                    transaction.set(paymentRef, {
-                        id: paymentRef.id,
+                    const allocations: Array<{ debtId?: string, amount: number }> = isPartial
+                        ? this._allocateToDebts(installments, paymentEntry.amount)
+                        : [{ amount: paymentEntry.amount }];
+
+                    for (const allocation of allocations) {
+                        const paymentRef = doc(collection(db, PAYMENTS_COLLECTION));
+                        const description = allocation.debtId ? installmentLabel(allocation.debtId) : undefined;
+                        receiptLines.push({
+                            paymentId: paymentRef.id,
+                            method: paymentEntry.method,
+                            methodName: receiptContext!.methodNames[paymentEntry.method] || paymentEntry.method,
+                            amount: allocation.amount,
+                            ...(description && { description })
+                        });
+                        const newPayment = {
+                            id: paymentRef.id,
+                            studentId: studentData.id,
+                            studentName: studentData.fullName,
+                            studentDni: studentData.dni || studentData.id,
+                            amount: allocation.amount,
+                            credits: 0,
+                            method: paymentEntry.method,
+                            type: isPartial ? 'PARTIAL' : 'FULL',
+                            seasonId: studentData.seasonId,
+                            date: Date.now(),
+                            createdBy: cashier.uid,
+                            createdByName: cashier.name,
+                            receiptNumber: formatReceiptNumber(receiptNumber),
+                            ...(allocation.debtId && { debtId: allocation.debtId }),
+                            ...(pricingPending && { pricing })
+                        };
+                        pricingPending = false;
+                        transaction.set(paymentRef, newPayment);
+                        auditService.record(transaction, {
+                            entity: 'payments',
+                            entityId: paymentRef.id,
+                            action: 'CREATE',
+                            summary: `Pago de matrícula S/ ${allocation.amount} (${paymentEntry.method})`,
+                            studentId: studentData.id,
+                            studentName: studentData.fullName,
+                            after: newPayment
+                        });
+                    }
+                }
+
+                // Create Debts if partial (nothing paid up front: the first one keeps the price breakdown)
+                installments.forEach((item, i) => {
+                    const newDebt: Debt = {
+                        id: item.id,
                         studentId: studentData.id,
                         studentName: studentData.fullName,
                         studentDni: studentData.dni || studentData.id,
-                        amount: paymentEntry.amount,
-                        credits: 0,
-                        method: paymentEntry.method,
-                        type: isPartial ? 'PARTIAL' : 'FULL',
-                        seasonId: studentData.seasonId,
-                        date: Date.now(),
-                        createdBy: 'admin'
+                        slotId: 'MATRICULA_INICIAL',
+                        amountTotal: item.amount,
+                        amountPaid: Math.round((item.amount - item.balance) * 100) / 100,
+                        balance: item.balance,
+                        dueDate: item.dueDate,
+                        status: item.balance > 0.01 ? 'PENDING' : 'PAID',
+                        ...(installments.length > 1 && { installmentNumber: item.number, installmentCount: installments.length }),
+                        ...(pricingPending && i === 0 && { pricing }),
+                        createdAt: Date.now()
+                    };
+                    transaction.set(debtRefs[i], newDebt);
+                    auditService.record(transaction, {
+                        entity: 'debts',
+                        entityId: item.id,
+                        action: 'CREATE',
+                        summary: `Deuda de ${getDebtLabel(newDebt).toLowerCase()} S/ ${newDebt.balance}`,
+                        studentId: studentData.id,
+                        studentName: studentData.fullName,
+                        after: newDebt
                     });
-                }
+                });
 
-                // Create Debt if partial
-                if (isPartial) {
-                    transaction.set(debtRef, {
-                        id: debtRef.id,
+                if (receiptLines.length > 0) {
+                    receipt = receiptService.issue(transaction, receiptNumber, {
+                        concept: 'ENROLLMENT',
                         studentId: studentData.id,
                         studentName: studentData.fullName,
                         studentDni: studentData.dni || studentData.id,
-                        slotId: 'MATRICULA_INICIAL',
-                        amountTotal: totalCost,
-                        amountPaid: totalAmountPaid,
-                        balance: totalCost - totalAmountPaid,
-                        dueDate: Date.now() + (7 * 24 * 60 * 60 * 1000),
-                        status: 'PENDING'
+                        studentCode,
+                        packageName: receiptContext!.packageName,
+                        credits,
+                        lines: receiptLines,
+                        total: totalAmountPaid,
+                        debtBalance: isPartial ? totalCost - totalAmountPaid : 0,
+                        seasonId: studentData.seasonId,
+                        cashierId: cashier.uid,
+                        cashierName: cashier.name,
+                        date: Date.now()
                     });
                 }
             }
@@ -155,11 +284,21 @@ export const studentService = {
                 asistencia: []
             };
             transaction.set(studentRef, newStudent);
+            auditService.record(transaction, {
+                entity: 'students',
+                entityId: studentData.id,
+                action: 'CREATE',
+                summary: `Alumno registrado (código ${studentCode})`,
+                studentId: studentData.id,
+                studentName: studentData.fullName,
+                after: newStudent
+            });
 
             // Update Global Counter
             transaction.set(metadataRef, {
                 students: nextCount,
-                activeStudents: increment(1)
+                activeStudents: increment(1),
+                ...(receipt && { receipts: receiptNumber })
             }, { merge: true });
 
             // ENROLL IN SLOTS
@@ -206,6 +345,15 @@ export const studentService = {
                     enrolledStudents: [...(slot.enrolledStudents || []), newEnrollment],
                     updatedAt: Timestamp.now()
                 });
+                auditService.record(transaction, {
+                    entity: 'monthly_slots',
+                    entityId: slotRef.id,
+                    action: 'UPDATE',
+                    summary: `Inscripción en ${slot.dayType} ${slot.timeSlot} (${slot.month})`,
+                    studentId: studentData.id,
+                    studentName: studentData.fullName,
+                    after: { enrollment: newEnrollment }
+                });
             }
         });
 
@@ -214,6 +362,8 @@ export const studentService = {
             `Nuevo alumno registrado: ${studentData.fullName}`,
             'SUCCESS'
         );
+
+        return receipt;
     },
 
     /**
@@ -336,20 +486,34 @@ export const studentService = {
         credits: number,
         amount: number,
         method: PaymentMethod,
-        createdBy: string,
-        newEndDate?: string // YYYY-MM-DD
-    ): Promise<string> {
+        cashier: Cashier,
+        newEndDate?: string, // YYYY-MM-DD
+        closures?: SeasonClosure[], // Season closures newEndDate was computed with
+        pricing?: PriceBreakdown // List price and discounts (netPrice = amount)
+    ): Promise<Receipt> {
+        if (pricing) assertPriceBreakdown(pricing, amount);
         const paymentRef = doc(collection(db, PAYMENTS_COLLECTION));
         const studentRef = doc(db, STUDENTS_COLLECTION, studentId);
+        const metadataRef = doc(db, 'metadata', 'counters');
+
+        const studentSnap = await getDoc(studentRef);
+        const receiptContext = await this._getReceiptContext(
+            studentSnap.exists() ? studentSnap.data().currentPackageId : null,
+            studentId
+        );
+        let receipt!: Receipt;
 
         await runTransaction(db, async (transaction) => {
             const studentDoc = await transaction.get(studentRef);
             if (!studentDoc.exists()) {
                 throw new Error("Estudiante no encontrado");
             }
+            const metadataDoc = await transaction.get(metadataRef);
+            await cashClosingService.assertDayOpen(transaction, Date.now());
 
             const data = studentDoc.data();
             const currentCredits = data.remainingCredits || 0;
+            const receiptNumber = receiptService.nextNumber(metadataDoc);
 
             // Create Payment Log
             const newPayment: Payment = {
@@ -363,10 +527,30 @@ export const studentService = {
                 type: 'FULL', // Defaulting to FULL for credit addition
                 seasonId: data.seasonId,
                 date: Date.now(),
-                createdBy
+                createdBy: cashier.uid,
+                createdByName: cashier.name,
+                receiptNumber: formatReceiptNumber(receiptNumber),
+                ...(pricing && { pricing })
             };
 
             transaction.set(paymentRef, newPayment);
+            transaction.set(metadataRef, { receipts: receiptNumber }, { merge: true });
+            receipt = receiptService.issue(transaction, receiptNumber, {
+                concept: 'RECHARGE',
+                studentId,
+                studentName: data.fullName,
+                studentDni: data.dni,
+                studentCode: data.studentCode,
+                packageName: receiptContext.packageName,
+                credits,
+                lines: [{ paymentId: paymentRef.id, method, methodName: receiptContext.methodNames[method] || method, amount }],
+                total: amount,
+                debtBalance: receiptContext.pendingBalance,
+                seasonId: data.seasonId,
+                cashierId: cashier.uid,
+                cashierName: cashier.name,
+                date: Date.now()
+            });
 
             // Update Student Balance & End Date
             const updates: any = {
@@ -375,22 +559,41 @@ export const studentService = {
 
             if (newEndDate) {
                 updates.packageEndDate = newEndDate;
+                // The extension only skips closures after the old end date; earlier ones stay
+                // pending for closureService.recalculateEndDates
+                const extendedFrom = data.packageEndDate || dateUtils.formatDateId(new Date(Date.now() - DAY_MS));
+                const compensated = (closures || []).filter(c => c.from > extendedFrom).map(c => c.id);
+                if (compensated.length > 0) {
+                    updates.closuresApplied = Array.from(new Set([...(data.closuresApplied || []), ...compensated]));
+                }
             }
 
             transaction.update(studentRef, updates);
+
+            auditService.record(transaction, {
+                entity: 'payments',
+                entityId: paymentRef.id,
+                action: 'CREATE',
+                summary: `Pago por recarga S/ ${amount} (${method})`,
+                studentId,
+                studentName: data.fullName,
+                after: newPayment
+            });
+            auditService.record(transaction, {
+                entity: 'students',
+                entityId: studentId,
+                action: 'UPDATE',
+                summary: `Recarga de ${credits} clases`,
+                studentId,
+                studentName: data.fullName,
+                before: { remainingCredits: currentCredits, packageEndDate: data.packageEndDate },
+                after: { ...updates, packageEndDate: updates.packageEndDate || data.packageEndDate }
+            });
         });
 
-        // We can't easily get the student name inside transaction return without reading, 
-        // but we can just use ID or Fetch.
-        // For optimization let's just log ID or simple message.
-        /* REMOVED LOG: Alumno adquiriendo clases - requested by user to save space
-        await loggingService.addLog(
-            `Alumno ${studentId} adquirió ${credits} clases (S/ ${amount})`,
-            'SUCCESS'
-        );
-        */
+        // Credit purchase is recorded in audit_logs inside the transaction
 
-        return paymentRef.id;
+        return receipt;
     },
 
     /**
@@ -520,92 +723,96 @@ export const studentService = {
      * Hard deletes a student.
      * Now also removes enrollments from all slots to prevent orphan records.
      */
-    async delete(studentId: string, deleteFinancialData: boolean = false): Promise<void> {
+    async delete(studentId: string, deleteFinancialData: boolean = false, reason?: string): Promise<void> {
         const studentRef = doc(db, STUDENTS_COLLECTION, studentId);
 
         // First, get studentData BEFORE deleting so we have the seasonId
         const studentDocSnap = await getDoc(studentRef);
         const seasonId = studentDocSnap.exists() ? studentDocSnap.data()?.seasonId : null;
 
+        // Deleting payments of a closed cash day needs a SUPERADMIN override
+        if (deleteFinancialData) {
+            const paymentsQ = query(collection(db, PAYMENTS_COLLECTION), where('studentId', '==', studentId));
+            const [paymentsSnap, lockedDays] = await Promise.all([getDocs(paymentsQ), cashClosingService.getLockedDays()]);
+            if (paymentsSnap.docs.some(d => lockedDays.has(getClosingDayId(d.data().date)))) {
+                await cashClosingService.assertOverride(reason);
+            }
+        }
+
         await runTransaction(db, async (transaction) => {
             // 1. Get student to delete
             const studentDoc = await transaction.get(studentRef);
             if (!studentDoc.exists()) return;
 
             const studentData = studentDoc.data();
-            const deletedCode = studentData.studentCode;
 
-            // 2. Lock metadata (prevents new creations during this shift)
+            // 2. Read metadata (reads must precede writes)
             const metadataRef = doc(db, 'metadata', 'counters');
             const metadataDoc = await transaction.get(metadataRef);
 
-            if (deletedCode) {
-                // 3. Find subsequent students
-                const q = query(
-                    collection(db, STUDENTS_COLLECTION),
-                    where('studentCode', '>', deletedCode),
-                    orderBy('studentCode')
-                );
-
-                const snapshot = await getDocs(q);
-
-                // 4. Perform updates
-                transaction.delete(studentRef);
-
-                // Update counters
-                if (metadataDoc.exists()) {
-                    const currentCount = metadataDoc.data().students || 0;
-                    const activeCount = metadataDoc.data().activeStudents || 0;
-                    const wasActive = studentData.active !== false;
-
-                    transaction.update(metadataRef, {
-                        students: Math.max(0, currentCount - 1),
-                        activeStudents: wasActive ? Math.max(0, activeCount - 1) : activeCount
-                    });
-                }
+            // 3. Delete. The code is printed on the card (QR check-in): later students keep
+            // theirs and counters.students stays as the last code issued, so no code is reused.
+            transaction.delete(studentRef);
+            auditService.record(transaction, {
+                entity: 'students',
+                entityId: studentId,
+                action: 'DELETE',
+                summary: `Alumno eliminado${deleteFinancialData ? ' (con datos financieros)' : ''}`,
+                studentId,
+                studentName: studentData.fullName,
+                before: studentData,
+                after: null,
+                reason
+            });
 
-                // Shift codes down
-                snapshot.docs.forEach(docSnap => {
-                    const data = docSnap.data();
-                    if (data.studentCode) {
-                        const currentVal = parseInt(data.studentCode, 10);
-                        const newVal = currentVal - 1;
-                        const newCode = newVal.toString().padStart(6, '0');
-                        transaction.update(docSnap.ref, { studentCode: newCode });
-                    }
+            // 4. Update counters
+            if (metadataDoc.exists() && studentData.active !== false) {
+                const activeCount = metadataDoc.data().activeStudents || 0;
+                transaction.update(metadataRef, {
+                    activeStudents: Math.max(0, activeCount - 1)
                 });
-            } else {
-                // No code, just delete
-                transaction.delete(studentRef);
-
-                const metadataRef = doc(db, 'metadata', 'counters');
-                const metaDoc = await transaction.get(metadataRef);
-                if (metaDoc.exists()) {
-                    const activeCount = metaDoc.data().activeStudents || 0;
-                    const wasActive = studentData.active !== false;
-                    if (wasActive) {
-                        transaction.update(metadataRef, {
-                            activeStudents: Math.max(0, activeCount - 1)
-                        });
-                    }
-                }
             }
         });
 
         // 5. Delete Financial Data (Outside Transaction to avoid complexity/limits)
         if (deleteFinancialData) {
             try {
-                // Delete Payments
                 const paymentsQ = query(collection(db, PAYMENTS_COLLECTION), where('studentId', '==', studentId));
                 const paymentsSnap = await getDocs(paymentsQ);
-                const deletePaymentsPromises = paymentsSnap.docs.map(doc => deleteDoc(doc.ref));
-                await Promise.all(deletePaymentsPromises);
-
-                // Delete Debts
                 const debtsQ = query(collection(db, 'debts'), where('studentId', '==', studentId));
                 const debtsSnap = await getDocs(debtsQ);
-                const deleteDebtsPromises = debtsSnap.docs.map(doc => deleteDoc(doc.ref));
-                await Promise.all(deleteDebtsPromises);
+
+                // Delete Payments + Debts together with their audit entries
+                const batch = writeBatch(db);
+                paymentsSnap.docs.forEach(docSnap => {
+                    batch.delete(docSnap.ref);
+                    auditService.record(batch, {
+                        entity: 'payments',
+                        entityId: docSnap.id,
+                        action: 'DELETE',
+                        summary: `Pago eliminado S/ ${docSnap.data().amount}`,
+                        studentId,
+                        studentName: docSnap.data().studentName,
+                        before: docSnap.data(),
+                        after: null,
+                        reason
+                    });
+                });
+                debtsSnap.docs.forEach(docSnap => {
+                    batch.delete(docSnap.ref);
+                    auditService.record(batch, {
+                        entity: 'debts',
+                        entityId: docSnap.id,
+                        action: 'DELETE',
+                        summary: `Deuda eliminada S/ ${docSnap.data().balance}`,
+                        studentId,
+                        studentName: docSnap.data().studentName,
+                        before: docSnap.data(),
+                        after: null,
+                        reason
+                    });
+                });
+                await batch.commit();
 
                 console.log(`Eliminados ${paymentsSnap.size} pagos y ${debtsSnap.size} deudas del alumno ${studentId}`);
             } catch (error) {
@@ -653,13 +860,15 @@ export const studentService = {
         const studentsSnap = await getDocs(collection(db, STUDENTS_COLLECTION));
         const studentIds = new Set(studentsSnap.docs.map(d => d.id));
 
-        // 2. Check Payments
+        // 2. Check Payments (payments of closed cash days are left untouched)
         const paymentsSnap = await getDocs(collection(db, PAYMENTS_COLLECTION));
+        const lockedDays = await cashClosingService.getLockedDays();
         let paymentsRemoved = 0;
         const paymentDeletions = [];
 
         for (const docSnap of paymentsSnap.docs) {
             const data = docSnap.data();
+            if (lockedDays.has(getClosingDayId(data.date))) continue;
             if (data.studentId && !studentIds.has(data.studentId)) {
                 paymentDeletions.push(deleteDoc(docSnap.ref));
                 paymentsRemoved++;
@@ -722,80 +931,341 @@ export const studentService = {
         return snapshot.docs.map(d => d.data() as Debt);
     },
 
-    async payDebt(debtId: string, amount: number, method: PaymentMethod): Promise<void> {
-        const debtRef = doc(db, 'debts', debtId);
-        const paymentRef = doc(collection(db, PAYMENTS_COLLECTION));
-        let studentId = '';
+    /**
+     * Payment history (newest first), including void/refund counter-entries
+     */
+    async getPayments(studentId: string): Promise<Payment[]> {
+        const q = query(collection(db, PAYMENTS_COLLECTION), where('studentId', '==', studentId));
+        const snapshot = await getDocs(q);
+        return snapshot.docs
+            .map(d => d.data() as Payment)
+            .sort((a, b) => b.date - a.date);
+    },
 
-        await runTransaction(db, async (transaction) => {
-            // 1. READ ALL NECESSARY DATA FIRST
-            const debtDoc = await transaction.get(debtRef);
-            if (!debtDoc.exists()) throw new Error("Deuda no encontrada");
+    /**
+     * Chronological ledger of one student: payments, debts, packages, credits added and
+     * classes consumed, with running balances. Only reads this student's documents.
+     */
+    async getLedger(studentId: string): Promise<LedgerEntry[]> {
+        const studentSnap = await getDoc(doc(db, STUDENTS_COLLECTION, studentId));
+        if (!studentSnap.exists()) throw new Error("Estudiante no encontrado");
+        const student = studentSnap.data() as Student;
+
+        const [payments, debtsSnap] = await Promise.all([
+            this.getPayments(studentId),
+            getDocs(query(collection(db, 'debts'), where('studentId', '==', studentId)))
+        ]);
+        const debts = debtsSnap.docs.map(d => d.data() as Debt);
+
+        const packageIds = new Set(
+            [...(student.packageHistory || []).map(h => h.packageId), student.currentPackageId]
+                .filter((id): id is string => !!id)
+        );
+        const packageNames: Record<string, string> = {};
+        for (const pkg of await Promise.all([...packageIds].map(id => packageService.getById(id)))) {
+            if (pkg) packageNames[pkg.id] = pkg.name;
+        }
 
-            const debt = debtDoc.data() as Debt;
-            studentId = debt.studentId;
+        const entries: Array<Omit<LedgerEntry, 'balance' | 'creditBalance'>> = [];
+        const base = { charge: 0, paid: 0, credits: 0 };
+
+        // Legacy payments were not linked to their debt: attribute unlinked, credit-less
+        // payments to debts whose amountPaid isn't explained by linked payments (oldest first)
+        const debtCreatedAt = (d: Debt) => d.createdAt || d.dueDate - 7 * DAY_MS;
+        const unexplained = debts
+            .map(d => ({
+                debt: d,
+                pending: d.amountPaid - payments
+                    .filter(p => p.debtId === d.id && p.reversalType !== 'REFUND')
+                    .reduce((sum, p) => sum + p.amount, 0)
+            }))
+            .filter(u => u.pending > 0.01)
+            .sort((a, b) => debtCreatedAt(a.debt) - debtCreatedAt(b.debt));
+        const legacyDebtPayments = new Set<string>();
+        [...payments].sort((a, b) => a.date - b.date).forEach(p => {
+            if (p.debtId || p.reversalOf || p.credits) return;
+            const target = unexplained.find(u => u.pending > 0.01 && debtCreatedAt(u.debt) <= p.date + 60 * 1000);
+            if (target) {
+                target.pending -= p.amount;
+                legacyDebtPayments.add(p.id);
+            }
+        });
 
-            // Fetch student for snapshot (READ)
-            const studentRef = doc(db, STUDENTS_COLLECTION, studentId);
-            const studentDoc = await transaction.get(studentRef);
+        payments.forEach(p => {
+            const appliedToDebt = !!p.debtId || legacyDebtPayments.has(p.id);
+            const label = p.reversalType === 'VOID' ? 'Anulación' : p.reversalType === 'REFUND' ? 'Devolución' : 'Pago';
+            entries.push({
+                ...base,
+                id: p.id,
+                date: p.date,
+                type: p.reversalOf ? 'REVERSAL' : 'PAYMENT',
+                description: `${label} (${p.method})${p.reason ? ` · ${p.reason}` : ''}`,
+                // Paid at the counter: the charge and the payment cancel out.
+                // Debt payments (and voids of them) only move the paid column.
+                charge: appliedToDebt && p.reversalType !== 'REFUND' ? 0 : p.amount,
+                paid: p.amount,
+                credits: p.credits || 0,
+                receiptNumber: p.receiptNumber
+            });
+        });
+
+        debts.forEach(d => {
+            // Refunds lowered amountTotal; they are already in the ledger as their own entries
+            const refunded = payments
+                .filter(p => p.debtId === d.id && p.reversalType === 'REFUND')
+                .reduce((sum, p) => sum - p.amount, 0);
+            entries.push({
+                ...base,
+                id: `debt_${d.id}`,
+                date: debtCreatedAt(d),
+                type: 'CHARGE',
+                description: `Deuda ${d.slotId === 'MATRICULA_INICIAL' ? 'de matrícula' : d.slotId === 'PAGO_ANULADO' ? 'por pago anulado' : d.slotId}${d.installmentNumber ? ` (cuota ${d.installmentNumber}/${d.installmentCount})` : ''}`,
+                charge: d.amountTotal + refunded
+            });
+            if (d.status === 'CANCELLED') {
+                entries.push({
+                    ...base,
+                    id: `debt_cancel_${d.id}`,
+                    date: d.dueDate,
+                    type: 'CHARGE',
+                    description: 'Deuda cancelada',
+                    charge: -d.balance
+                });
+            }
+        });
+
+        (student.packageHistory || []).forEach((h, i) => {
+            entries.push({
+                ...base,
+                id: `package_${i}`,
+                date: dateUtils.toMillis(h.startDate),
+                type: 'PACKAGE',
+                description: `Paquete ${packageNames[h.packageId] || h.packageId} (${h.classesTotal} clases)`
+            });
+        });
+        if (student.currentPackageId) {
+            entries.push({
+                ...base,
+                id: 'package_current',
+                date: dateUtils.toMillis(student.packageStartDate) || student.createdAt,
+                type: 'PACKAGE',
+                description: `Paquete actual: ${packageNames[student.currentPackageId] || student.currentPackageId}`
+            });
+        }
+
+        const attended = (student.asistencia || []).filter(a => a.asistencia);
+        attended.forEach(a => {
+            entries.push({
+                ...base,
+                id: `attendance_${a.fecha}${a.slotId ? `_${a.slotId}` : ''}`,
+                date: dateUtils.toMillis(a.fecha),
+                type: 'ATTENDANCE',
+                description: `Asistencia ${a.fecha}`,
+                credits: -1
+            });
+        });
+
+        // Enrollment credits aren't stored on a payment: reconcile against the current balance
+        const paymentCredits = payments.reduce((sum, p) => sum + (p.credits || 0), 0);
+        const initialCredits = (student.remainingCredits || 0) - paymentCredits + attended.length;
+        if (initialCredits !== 0) {
+            entries.push({
+                ...base,
+                id: 'credits_initial',
+                date: student.createdAt,
+                type: 'CREDITS',
+                description: 'Clases de matrícula',
+                credits: initialCredits
+            });
+        }
+
+        // Same timestamp: charges before payments so the balance never dips below zero
+        const order: Record<LedgerEntryType, number> = { CREDITS: 0, PACKAGE: 1, CHARGE: 2, PAYMENT: 3, REVERSAL: 4, ATTENDANCE: 5 };
+        entries.sort((a, b) => a.date - b.date || order[a.type] - order[b.type]);
 
-            if (debt.status !== 'PENDING') throw new Error("La deuda ya está pagada");
+        let balance = 0;
+        let creditBalance = 0;
+        return entries.map(e => {
+            balance += e.charge - e.paid;
+            creditBalance += e.credits;
+            return { ...e, balance, creditBalance };
+        });
+    },
+
+    /**
+     * Receipt data that can't be read inside a transaction (method names, package, pending debts)
+     */
+    async _getReceiptContext(
+        packageId?: string | null,
+        studentId?: string
+    ): Promise<{ methodNames: Record<string, string>, packageName?: string, pendingBalance: number }> {
+        const [methods, pkg, debts] = await Promise.all([
+            paymentMethodService.getAll(),
+            packageId ? packageService.getById(packageId) : Promise.resolve(null),
+            studentId ? this.getDebts(studentId) : Promise.resolve([])
+        ]);
+        return {
+            methodNames: Object.fromEntries(methods.map(m => [m.id, m.name])),
+            packageName: pkg?.name,
+            pendingBalance: debts.reduce((sum, d) => sum + (d.balance || 0), 0)
+        };
+    },
+
+    /**
+     * Pays a student's pending debts, oldest due date first (installments are paid in order).
+     * One payment per debt touched, all under the same receipt.
+     */
+    async payDebt(studentId: string, amount: number, method: PaymentMethod, cashier: Cashier): Promise<Receipt> {
+        const studentRef = doc(db, STUDENTS_COLLECTION, studentId);
+        const metadataRef = doc(db, 'metadata', 'counters');
+
+        // Queries can't run inside a transaction: find the debts first, re-check them inside
+        const pendingDebts = await this.getDebts(studentId);
+        if (pendingDebts.length === 0) throw new Error("El alumno no tiene deudas pendientes");
+        const debtRefs = pendingDebts.map(d => doc(db, 'debts', d.id));
+        const receiptContext = await this._getReceiptContext(null, studentId);
+        let receipt!: Receipt;
+
+        await runTransaction(db, async (transaction) => {
+            // 1. READ ALL NECESSARY DATA FIRST
+            const debtDocs = [];
+            for (const debtRef of debtRefs) {
+                debtDocs.push(await transaction.get(debtRef));
+            }
+            const studentDoc = await transaction.get(studentRef);
+            const metadataDoc = await transaction.get(metadataRef);
+            await cashClosingService.assertDayOpen(transaction, Date.now());
+
+            const debts = debtDocs
+                .filter(d => d.exists())
+                .map(d => d.data() as Debt)
+                .filter(d => d.status === 'PENDING');
+            if (debts.length === 0) throw new Error("La deuda ya está pagada");
+
+            // The allocation puts any excess on the last debt: check against the balances read here
+            const pendingBalance = Math.round(debts.reduce((sum, d) => sum + Math.max(0, d.balance), 0) * 100) / 100;
+            if (amount - pendingBalance >= 0.01) {
+                throw new Error(`El monto (S/ ${amount.toFixed(2)}) supera la deuda pendiente (S/ ${pendingBalance.toFixed(2)})`);
+            }
 
             // 2. CALCULATE NEW STATE
-            const newPaid = debt.amountPaid + amount;
-            const newBalance = debt.amountTotal - newPaid;
-            const newStatus = newBalance < 0.5 ? 'PAID' : 'PENDING';
+            const allocations = this._allocateToDebts(
+                debts.map(d => ({ id: d.id, balance: d.balance, dueDate: d.dueDate })),
+                amount
+            );
 
             const studentName = studentDoc.exists() ? studentDoc.data().fullName : 'Unknown';
             const studentDni = studentDoc.exists() ? studentDoc.data().dni : '';
+            const seasonId = studentDoc.exists() ? studentDoc.data().seasonId : undefined;
+            const receiptNumber = receiptService.nextNumber(metadataDoc);
+            const receiptLines: ReceiptLine[] = [];
 
             // 3. EXECUTE WRITES
-            transaction.update(debtRef, {
-                amountPaid: newPaid,
-                balance: newBalance,
-                status: newStatus
-            });
+            for (const allocation of allocations) {
+                const debt = debts.find(d => d.id === allocation.debtId)!;
+                const newPaid = debt.amountPaid + allocation.amount;
+                const newBalance = debt.amountTotal - newPaid;
+                const newStatus = newBalance < 0.5 ? 'PAID' : 'PENDING';
+                const label = getDebtLabel(debt);
+
+                transaction.update(doc(db, 'debts', debt.id), {
+                    amountPaid: newPaid,
+                    balance: newBalance,
+                    status: newStatus
+                });
 
-            // Check if student has other debts
-            // Need to know if we should clear the 'hasDebt' flag on student.
-            // Since we can't query inside transaction easily for "other debts" without reading them all,
-            // we will optimistically clear it IF this cleared the debt, 
-            // BUT technically other debts might exist. 
-            // Ideally we query "getDebts" outside or read them?
-            // "Firestore transactions require all reads..."
-            // Queries inside transactions are tricky if index requirements.
-            // For now, let's just proceed with the payment logic.
-            // The "hasDebt" flag on student is usually a summary.
-            // If we want to update it, we should check remaining debts.
-            // But let's fix the crash first.
+                const paymentRef = doc(collection(db, PAYMENTS_COLLECTION));
+                const newPayment: Payment = {
+                    id: paymentRef.id,
+                    studentId,
+                    studentName: studentName,
+                    studentDni: studentDni,
+                    amount: allocation.amount,
+                    method: method,
+                    type: newStatus === 'PAID' ? 'FULL' : 'PARTIAL',
+                    seasonId,
+                    credits: 0,
+                    date: Date.now(),
+                    createdBy: cashier.uid,
+                    createdByName: cashier.name,
+                    debtId: debt.id,
+                    receiptNumber: formatReceiptNumber(receiptNumber)
+                };
+                transaction.set(paymentRef, newPayment);
+                receiptLines.push({
+                    paymentId: paymentRef.id,
+                    method,
+                    methodName: receiptContext.methodNames[method] || method,
+                    amount: allocation.amount,
+                    description: label
+                });
 
-            const newPayment: Payment = {
-                id: paymentRef.id,
-                studentId: debt.studentId,
-                studentName: studentName,
-                studentDni: studentDni,
-                amount: amount,
-                method: method,
-                type: newStatus === 'PAID' ? 'FULL' : 'PARTIAL',
-                seasonId: studentDoc.exists() ? studentDoc.data().seasonId : undefined,
+                auditService.record(transaction, {
+                    entity: 'debts',
+                    entityId: debt.id,
+                    action: 'UPDATE',
+                    summary: `Abono a deuda (${label}) S/ ${allocation.amount} (${method})`,
+                    studentId,
+                    studentName,
+                    before: { amountPaid: debt.amountPaid, balance: debt.balance, status: debt.status },
+                    after: { amountPaid: newPaid, balance: newBalance, status: newStatus }
+                });
+                auditService.record(transaction, {
+                    entity: 'payments',
+                    entityId: paymentRef.id,
+                    action: 'CREATE',
+                    summary: `Pago de deuda S/ ${allocation.amount} (${method})`,
+                    studentId,
+                    studentName,
+                    after: newPayment
+                });
+            }
+
+            transaction.set(metadataRef, { receipts: receiptNumber }, { merge: true });
+            receipt = receiptService.issue(transaction, receiptNumber, {
+                concept: 'DEBT_PAYMENT',
+                studentId,
+                studentName,
+                studentDni,
+                studentCode: studentDoc.exists() ? studentDoc.data().studentCode : undefined,
                 credits: 0,
-                date: Date.now(),
-                createdBy: 'admin'
-            };
-            transaction.set(paymentRef, newPayment);
+                lines: receiptLines,
+                total: amount,
+                debtBalance: Math.max(0, receiptContext.pendingBalance - amount),
+                seasonId,
+                cashierId: cashier.uid,
+                cashierName: cashier.name,
+                date: Date.now()
+            });
         });
 
         // Update student status outside transaction (Eventual Consistency)
-        if (studentId) {
-            await this.updateDebtStatus(studentId);
-        }
+        await this.updateDebtStatus(studentId);
 
-        /* REMOVED LOG: Debt Payment - requested by user to save space
-        await loggingService.addLog(
-            `Alumno ${studentId} pagó deuda de S/ ${amount}`,
-            'SUCCESS'
-        );
-        */
+        return receipt;
+    },
+
+    /**
+     * Splits an amount over debts, oldest due date first. Balances are updated in place so it can
+     * be called once per payment method; anything above the total balance goes to the newest debt.
+     */
+    _allocateToDebts(
+        debts: Array<{ id: string, balance: number, dueDate: number }>,
+        amount: number
+    ): Array<{ debtId: string, amount: number }> {
+        const ordered = [...debts].sort((a, b) => a.dueDate - b.dueDate);
+        const allocations: Array<{ debtId: string, amount: number }> = [];
+        let remaining = amount;
+
+        ordered.forEach((debt, i) => {
+            if (remaining < 0.01) return;
+            const applied = i === ordered.length - 1 ? remaining : Math.min(remaining, Math.max(0, debt.balance));
+            if (applied < 0.01) return;
+            debt.balance = Math.round((debt.balance - applied) * 100) / 100;
+            remaining = Math.round((remaining - applied) * 100) / 100;
+            allocations.push({ debtId: debt.id, amount: applied });
+        });
+        return allocations;
     },
 
     async updateDebtStatus(studentId: string): Promise<void> {
@@ -811,6 +1281,217 @@ export const studentService = {
         await updateDoc(ref, { hasDebt });
     },
 
+    /**
+     * Counter-entries (voids/refunds) already registered for a payment
+     */
+    async getReversals(paymentId: string): Promise<Payment[]> {
+        const q = query(collection(db, PAYMENTS_COLLECTION), where('reversalOf', '==', paymentId));
+        const snap = await getDocs(q);
+        return snap.docs.map(d => d.data() as Payment);
+    },
+
+    /**
+     * Cancels a mistaken payment: removes the credits it granted and re-opens the debt it paid
+     * (a payment without debt or credits leaves a new pending debt so it can be charged again).
+     */
+    async voidPayment(paymentId: string, reason: string, cashier: Cashier): Promise<void> {
+        await this._reversePayment(paymentId, 'VOID', { reason, cashier });
+    },
+
+    /**
+     * Returns money to the student (total or partial). The related debt is reduced, not re-opened.
+     */
+    async refundPayment(
+        paymentId: string,
+        data: { amount: number, credits: number, method?: PaymentMethod },
+        reason: string,
+        cashier: Cashier
+    ): Promise<void> {
+        await this._reversePayment(paymentId, 'REFUND', { ...data, reason, cashier });
+    },
+
+    /**
+     * Writes a negative counter-entry for a payment. The original payment only keeps the running
+     * total reversed so far (checked inside the transaction: two refunds can't exceed it).
+     */
+    async _reversePayment(
+        paymentId: string,
+        type: PaymentReversalType,
+        data: { amount?: number, credits?: number, method?: PaymentMethod, reason: string, cashier: Cashier }
+    ): Promise<void> {
+        const reason = data.reason.trim();
+        if (!reason) throw new Error('Debe indicar un motivo.');
+
+        const paymentRef = doc(db, PAYMENTS_COLLECTION, paymentId);
+        const paymentSnap = await getDoc(paymentRef);
+        if (!paymentSnap.exists()) throw new Error('Pago no encontrado');
+
+        const original = paymentSnap.data() as Payment;
+        if (original.reversalOf) throw new Error('No se puede anular una anulación o devolución.');
+
+        // Payments reversed before reversedAmount existed: totals come from their counter-entries
+        const legacyReversed = original.reversedAmount === undefined
+            ? await this.getReversals(paymentId)
+            : [];
+
+        // Changing a payment of a closed day needs a SUPERADMIN override
+        const closing = await cashClosingService.getByDate(getClosingDayId(original.date));
+        if (closing?.locked) {
+            await cashClosingService.assertOverride(reason);
+        }
+
+        const label = type === 'VOID' ? 'Anulación' : 'Devolución';
+        // One void per payment: fixed ID makes a second void fail inside the transaction
+        const reversalRef = type === 'VOID'
+            ? doc(db, PAYMENTS_COLLECTION, `${paymentId}_VOID`)
+            : doc(collection(db, PAYMENTS_COLLECTION));
+        const studentRef = doc(db, STUDENTS_COLLECTION, original.studentId);
+        const debtRef = original.debtId ? doc(db, 'debts', original.debtId) : null;
+        const newDebtRef = doc(collection(db, 'debts'));
+        let debtsChanged = false;
+        let amount = 0;
+        let credits = 0;
+
+        await runTransaction(db, async (transaction) => {
+            // --- READS ---
+            const reversalDoc = await transaction.get(reversalRef);
+            if (reversalDoc.exists()) throw new Error('Este pago ya fue anulado.');
+
+            const currentDoc = await transaction.get(paymentRef);
+            if (!currentDoc.exists()) throw new Error('Pago no encontrado');
+            const current = currentDoc.data() as Payment;
+            const reversedAmount = current.reversedAmount ?? -legacyReversed.reduce((sum, p) => sum + p.amount, 0);
+            const reversedCredits = current.reversedCredits ?? -legacyReversed.reduce((sum, p) => sum + (p.credits || 0), 0);
+            const availableAmount = Math.round((current.amount - reversedAmount) * 100) / 100;
+            const availableCredits = Math.max(0, (current.credits || 0) - reversedCredits);
+            if (availableAmount <= 0) throw new Error('Este pago ya fue anulado o devuelto por completo.');
+
+            amount = type === 'VOID' ? availableAmount : data.amount || 0;
+            credits = type === 'VOID' ? availableCredits : data.credits || 0;
+            if (amount <= 0 || amount > availableAmount) {
+                throw new Error(`El monto debe estar entre S/ 0.01 y S/ ${availableAmount.toFixed(2)}.`);
+            }
+            if (credits < 0 || credits > availableCredits) {
+                throw new Error(`Solo se pueden quitar hasta ${availableCredits} clases de este pago.`);
+            }
+
+            const studentDoc = await transaction.get(studentRef);
+            const debtDoc = debtRef ? await transaction.get(debtRef) : null;
+            await cashClosingService.assertDayOpen(transaction, Date.now());
+
+            const studentName = original.studentName || (studentDoc.exists() ? studentDoc.data().fullName : '');
+
+            // --- WRITES ---
+            const counterEntry: Payment = {
+                id: reversalRef.id,
+                studentId: original.studentId,
+                studentName,
+                studentDni: original.studentDni || '',
+                amount: -amount,
+                credits: -credits,
+                method: data.method || original.method,
+                type: original.type,
+                ...(original.seasonId && { seasonId: original.seasonId }),
+                date: Date.now(),
+                createdBy: data.cashier.uid,
+                createdByName: data.cashier.name,
+                ...(original.debtId && { debtId: original.debtId }),
+                reversalOf: paymentId,
+                reversalType: type,
+                reason
+            };
+            transaction.set(reversalRef, counterEntry);
+            transaction.update(paymentRef, {
+                reversedAmount: Math.round((reversedAmount + amount) * 100) / 100,
+                reversedCredits: reversedCredits + credits
+            });
+            auditService.record(transaction, {
+                entity: 'payments',
+                entityId: reversalRef.id,
+                action: 'CREATE',
+                summary: `${label} de pago S/ ${amount} (${original.method})`,
+                studentId: original.studentId,
+                studentName,
+                after: counterEntry,
+                reason
+            });
+
+            // Credits granted by the payment (never below zero: some may be used already)
+            if (credits > 0 && studentDoc.exists()) {
+                const currentCredits = studentDoc.data().remainingCredits || 0;
+                const newCredits = Math.max(0, currentCredits - credits);
+                transaction.update(studentRef, { remainingCredits: newCredits });
+                auditService.record(transaction, {
+                    entity: 'students',
+                    entityId: original.studentId,
+                    action: 'UPDATE',
+                    summary: `${label}: se quitan ${credits} clases`,
+                    studentId: original.studentId,
+                    studentName,
+                    before: { remainingCredits: currentCredits },
+                    after: { remainingCredits: newCredits },
+                    reason
+                });
+            }
+
+            if (debtDoc?.exists()) {
+                const debt = debtDoc.data() as Debt;
+                // Void: the money is owed again. Refund: the service is not charged anymore.
+                const updates = type === 'VOID'
+                    ? { amountPaid: debt.amountPaid - amount, balance: debt.balance + amount, status: 'PENDING' as const }
+                    : { amountTotal: debt.amountTotal - amount, amountPaid: debt.amountPaid - amount };
+                transaction.update(debtDoc.ref, updates);
+                auditService.record(transaction, {
+                    entity: 'debts',
+                    entityId: debt.id,
+                    action: 'UPDATE',
+                    summary: `${label} de abono S/ ${amount}`,
+                    studentId: original.studentId,
+                    studentName,
+                    before: { amountTotal: debt.amountTotal, amountPaid: debt.amountPaid, balance: debt.balance, status: debt.status },
+                    after: updates,
+                    reason
+                });
+                debtsChanged = true;
+            } else if (type === 'VOID' && credits === 0 && studentDoc.exists()) {
+                const newDebt: Debt = {
+                    id: newDebtRef.id,
+                    studentId: original.studentId,
+                    studentName,
+                    studentDni: original.studentDni || '',
+                    slotId: 'PAGO_ANULADO',
+                    amountTotal: amount,
+                    amountPaid: 0,
+                    balance: amount,
+                    dueDate: Date.now() + DEFAULT_DEBT_DUE_DAYS * DAY_MS,
+                    status: 'PENDING',
+                    createdAt: Date.now()
+                };
+                transaction.set(newDebtRef, newDebt);
+                auditService.record(transaction, {
+                    entity: 'debts',
+                    entityId: newDebtRef.id,
+                    action: 'CREATE',
+                    summary: `Deuda por pago anulado S/ ${amount}`,
+                    studentId: original.studentId,
+                    studentName,
+                    after: newDebt,
+                    reason
+                });
+                debtsChanged = true;
+            }
+        });
+
+        if (debtsChanged) {
+            await this.updateDebtStatus(original.studentId);
+        }
+
+        await loggingService.addLog(
+            `${label} de pago S/ ${amount.toFixed(2)} de ${original.studentName || original.studentId}: ${reason}`,
+            'WARNING'
+        );
+    },
+
     /**
      * Get count of new students for the current month
      */
@@ -831,12 +1512,15 @@ export const studentService = {
     /**
      * Helper: Unenroll a student from all monthly slots in the active season.
      * This is used when updating a student's schedule to remove them from old slots.
+     * Enrollments that ended before `keepEndedBefore` (cut by a transfer) are kept.
+     * Returns the slots left, so the caller can notify their waitlists after the move.
      */
     async _unenrollStudentFromAllSlots(
         studentId: string,
-        seasonId: string
-    ): Promise<number> {
-        const { monthlyScheduleService } = await import('./monthlyScheduleService');
+        seasonId: string,
+        keepEndedBefore?: string | null
+    ): Promise<MonthlySlot[]> {
+        const { monthlyScheduleService, endedBefore } = await import('./monthlyScheduleService');
         const { db } = await import('../lib/firebase');
         const { collection, query, where, getDocs } = await import('firebase/firestore');
 
@@ -847,20 +1531,20 @@ export const studentService = {
         );
 
         const snapshot = await getDocs(q);
-        let unenrolled = 0;
+        const unenrolled: MonthlySlot[] = [];
 
         console.log(`🔍 Buscando inscripciones del alumno ${studentId} en temporada ${seasonId}...`);
         console.log(`📊 Total de slots en la temporada: ${snapshot.size}`);
 
         for (const docSnap of snapshot.docs) {
             const slot = docSnap.data();
-            const enrollment = slot.enrolledStudents?.find((e: any) => e.studentId === studentId);
+            const enrollment = slot.enrolledStudents?.find((e: any) => e.studentId === studentId && !endedBefore(e, keepEndedBefore));
 
             if (enrollment) {
                 console.log(`📍 Encontrado en slot: ${slot.timeSlot} (${slot.month}) - ID: ${docSnap.id}`);
                 try {
-                    await monthlyScheduleService.unenrollStudent(docSnap.id, studentId);
-                    unenrolled++;
+                    await monthlyScheduleService.unenrollStudent(docSnap.id, studentId, false, keepEndedBefore);
+                    unenrolled.push({ ...slot, id: docSnap.id } as MonthlySlot);
                     console.log(`✅ Desinscrito exitosamente de ${slot.timeSlot}`);
                 } catch (error: any) {
                     console.error(`❌ Error desinscribiendo de ${slot.timeSlot}:`, error.message);
@@ -868,7 +1552,7 @@ export const studentService = {
             }
         }
 
-        console.log(`🗑️ Alumno ${studentId} desinscrito de ${unenrolled} horarios mensuales`);
+        console.log(`🗑️ Alumno ${studentId} desinscrito de ${unenrolled.length} horarios mensuales`);
         return unenrolled;
     },
 
@@ -878,30 +1562,39 @@ export const studentService = {
      * Includes capacity validation and provides detailed error messages.
      * 
      * IMPORTANT: This function first removes the student from ALL existing slots in the season,
-     * then enrolls them in the new slots. This ensures clean schedule transitions.
+     * then enrolls them in the new slots. This ensures clean schedule transitions. After a
+     * transfer the schedule starts on Student.scheduleSince and the cut enrollments are kept.
+     * `season` defaults to the active one.
      */
     async syncFixedScheduleToMonthlySlots(
         studentId: string,
         fixedSchedule: Array<{ dayId: string, timeId: string }>,
         packageEndDate?: string | null,
         packageStartDate?: string | null,
-        categoryId?: string
+        categoryId?: string,
+        season?: Season
     ): Promise<void> {
         // Import services dynamically to avoid circular dependencies
-        const { monthlyScheduleService } = await import('./monthlyScheduleService');
+        const { monthlyScheduleService, getScheduleStartDate } = await import('./monthlyScheduleService');
         const { seasonService } = await import('./seasonService');
         const { getMonthName } = await import('../utils/monthUtils');
 
-        // Get active season
-        const activeSeason = await seasonService.getActiveSeason();
+        // Active season, unless another one is given (season rollover)
+        const activeSeason = season || await seasonService.getActiveSeason();
         if (!activeSeason) throw new Error('No hay temporada activa.');
 
+        // A transfer moves the start of the schedule past the package start
+        const studentSnap = await getDoc(doc(db, STUDENTS_COLLECTION, studentId));
+        const scheduleSince = studentSnap.exists() ? (studentSnap.data() as Student).scheduleSince : null;
+        const scheduleStart = getScheduleStartDate({ packageStartDate, scheduleSince });
+        const keepEndedBefore = scheduleStart !== packageStartDate ? scheduleStart : null;
+
         // STEP 1: Remove student from ALL existing monthly slots in this season
         // This ensures the student is only enrolled in their current schedule
-        await this._unenrollStudentFromAllSlots(studentId, activeSeason.id);
+        const previousSlots = await this._unenrollStudentFromAllSlots(studentId, activeSeason.id, keepEndedBefore);
 
         // STEP 2: Get matching slots for the new schedule
-        const slotsInfo = await this._getMatchingSlots(activeSeason, fixedSchedule, packageStartDate, packageEndDate, categoryId);
+        const slotsInfo = await this._getMatchingSlots(activeSeason, fixedSchedule, scheduleStart, packageEndDate, categoryId);
         const { matchingSlots } = slotsInfo;
 
         // STEP 3: Enroll student in new slots
@@ -925,6 +1618,25 @@ export const studentService = {
             }
         }
 
+        // Seats left in another schedule pattern are free for its waitlist
+        const { waitlistService, WAITLIST_DAY_IDS } = await import('./waitlistService');
+        const newSchedule = new Set(fixedSchedule.map(fs => `${fs.dayId}_${fs.timeId}`));
+        const left = previousSlots.filter(s =>
+            (categoryId && s.categoryId !== categoryId) ||
+            !WAITLIST_DAY_IDS[s.dayType].every(dayId => newSchedule.has(`${dayId}_${s.timeSlot}`))
+        );
+        if (left.length > 0) {
+            const keys = new Map(left.map(s => [`${s.dayType}_${s.timeSlot}_${s.categoryId}`, s]));
+            for (const slot of keys.values()) {
+                await waitlistService.notifySeatFreed({
+                    seasonId: activeSeason.id,
+                    dayType: slot.dayType,
+                    timeSlot: slot.timeSlot,
+                    categoryId: slot.categoryId
+                }, 'Cambio de horario').catch(e => console.error('Error notifying waitlist:', e));
+            }
+        }
+
         if (errors.length > 0 && enrolled === 0) {
             throw new Error(`No se pudo inscribir al alumno:\n\n${errors.join('\n')}`);
         }
@@ -933,17 +1645,18 @@ export const studentService = {
     },
 
     /**
-     * Helper to validate schedule without creating anything.
-     * Throws error if invalid.
+     * Helper to validate schedule without creating anything (in the active season unless
+     * `season` is given). Throws error if invalid or full.
      */
     async validateScheduleAvailability(
         fixedSchedule: Array<{ dayId: string, timeId: string }>,
         packageStartDate?: string | null,
         packageEndDate?: string | null,
-        categoryId?: string
+        categoryId?: string,
+        season?: Season
     ): Promise<void> {
         const { seasonService } = await import('./seasonService');
-        const activeSeason = await seasonService.getActiveSeason();
+        const activeSeason = season || await seasonService.getActiveSeason();
         if (!activeSeason) throw new Error('No hay temporada activa.');
 
         await this._getMatchingSlots(activeSeason, fixedSchedule, packageStartDate, packageEndDate, categoryId);
@@ -1052,7 +1765,8 @@ export const studentService = {
 
             // Parse slot month to get boundaries
             const [year, month] = s.month.split('-').map(Number);
-            const monthStart = new Date(year, month - 1, 1).getTime();
+            // Enrollments that ended before the requested start (e.g. cut by a transfer) don't count
+            const monthStart = Math.max(new Date(year, month - 1, 1).getTime(), packageStartDate ? dateUtils.toMillis(packageStartDate) : 0);
             const monthEnd = new Date(year, month, 0, 23, 59, 59).getTime();
 
             // Use Set to count UNIQUE active students (avoid counting duplicates)
@@ -1201,15 +1915,15 @@ export const studentService = {
     /**
      * Get detailed stats for the active season
      */
-    async getSeasonStats(): Promise<{ total: number, active: number, inactive: number }> {
+    async getSeasonStats(seasonId?: string): Promise<{ total: number, active: number, inactive: number }> {
         const { seasonService } = await import('./seasonService');
-        const activeSeason = await seasonService.getActiveSeason();
+        const targetSeasonId = seasonId || (await seasonService.getActiveSeason())?.id;
 
-        if (!activeSeason) return { total: 0, active: 0, inactive: 0 };
+        if (!targetSeasonId) return { total: 0, active: 0, inactive: 0 };
 
         const q = query(
             collection(db, STUDENTS_COLLECTION),
-            where('seasonId', '==', activeSeason.id)
+            where('seasonId', '==', targetSeasonId)
         );
         const snapshot = await getDocs(q);
 
@@ -1233,67 +1947,13 @@ export const studentService = {
         };
     },
 
-    /**
-     * Mark attendance for a student on a specific date
-     */
-    async markAttendance(
-        studentId: string,
-        fecha: string, // YYYY-MM-DD format
-        asistencia: boolean
-    ): Promise<void> {
-        const studentRef = doc(db, STUDENTS_COLLECTION, studentId);
-
-        await runTransaction(db, async (transaction) => {
-            const studentDoc = await transaction.get(studentRef);
-            if (!studentDoc.exists()) {
-                throw new Error("Estudiante no encontrado");
-            }
-
-            const studentData = studentDoc.data() as Student;
-            const currentAttendance = studentData.asistencia || [];
-            let credits = studentData.remainingCredits || 0;
-
-            // Check if attendance for this date already exists
-            const existingIndex = currentAttendance.findIndex(a => a.fecha === fecha);
-
-            if (existingIndex >= 0) {
-                const previousStatus = currentAttendance[existingIndex].asistencia;
-                // Update existing record
-                currentAttendance[existingIndex] = { fecha, asistencia };
-
-                // Adjust credits if status changed
-                if (previousStatus !== asistencia) {
-                    if (asistencia) {
-                        credits--; // Changed from False to True
-                    } else {
-                        credits++; // Changed from True to False
-                    }
-                }
-            } else {
-                // Add new record
-                currentAttendance.push({ fecha, asistencia });
-                if (asistencia) {
-                    credits--; // New record True
-                }
-            }
-
-            // Sort by date (newest first)
-            currentAttendance.sort((a, b) => b.fecha.localeCompare(a.fecha));
-
-            transaction.update(studentRef, {
-                asistencia: currentAttendance,
-                remainingCredits: credits
-            });
-        });
-    },
-
     /**
      * Suspend a student:
      * 1. Set active = false
      * 2. Clear fixedSchedule
      * 3. Remove from ALL monthly slots (free up capacity)
      */
-    async suspendStudent(studentId: string): Promise<void> {
+    async suspendStudent(studentId: string, reason?: string): Promise<void> {
         const { monthlyScheduleService } = await import('./monthlyScheduleService');
         const studentRef = doc(db, STUDENTS_COLLECTION, studentId);
         const studentDoc = await getDoc(studentRef);
@@ -1307,19 +1967,36 @@ export const studentService = {
             await monthlyScheduleService.removeStudentFromAllSlots(student.seasonId, studentId);
         }
 
-        // 2. Update student record
-        await updateDoc(studentRef, {
-            active: false,
-            fixedSchedule: [], // Clear schedule so they don't get auto-enrolled again
-            updatedAt: Timestamp.now()
-        });
-
-        // 3. Update active student counter (decrement)
+        // 2. Update student record + 3. active student counter (decrement)
         const metadataRef = doc(db, 'metadata', 'counters');
-        await updateDoc(metadataRef, {
-            activeStudents: increment(-1),
-            lastSynced: Date.now()
-        }).catch(e => console.warn("Could not update counter", e));
+        await runTransaction(db, async (transaction) => {
+            const metadataDoc = await transaction.get(metadataRef);
+
+            transaction.update(studentRef, {
+                active: false,
+                fixedSchedule: [], // Clear schedule so they don't get auto-enrolled again
+                updatedAt: Timestamp.now()
+            });
+
+            if (metadataDoc.exists()) {
+                transaction.update(metadataRef, {
+                    activeStudents: increment(-1),
+                    lastSynced: Date.now()
+                });
+            }
+
+            auditService.record(transaction, {
+                entity: 'students',
+                entityId: studentId,
+                action: 'UPDATE',
+                summary: 'Alumno suspendido (espacios liberados)',
+                studentId,
+                studentName: student.fullName,
+                before: { active: student.active, fixedSchedule: student.fixedSchedule || [] },
+                after: { active: false, fixedSchedule: [] },
+                reason
+            });
+        });
 
         await loggingService.addLog(
             `Alumno ${student.fullName} suspendido (espacios liberados)`,
@@ -0,0 +1,279 @@
+import {
+    collection,
+    doc,
+    getDoc,
+    getDocs,
+    query,
+    where,
+    runTransaction,
+    Timestamp
+} from 'firebase/firestore';
+import { db } from '../lib/firebase';
+import { loggingService } from './logging';
+import { auditService } from './auditService';
+import { seasonService } from './seasonService';
+import { getDayTypeForDate, getPeakRecoveryBookings } from './monthlyScheduleService';
+import { waitlistService, WAITLIST_DAY_IDS } from './waitlistService';
+import { getMonthName } from '../utils/monthUtils';
+import { isClosedDay } from '../utils/closureUtils';
+import { dateUtils } from '../utils/date';
+import type { DayType, MonthlyEnrollment, MonthlySlot, ScheduleTransfer, SeasonClosure, Student } from '../types/db';
+
+const TRANSFERS_COLLECTION = 'schedule_transfers';
+const MONTHLY_SLOTS_COLLECTION = 'monthly_slots';
+const STUDENTS_COLLECTION = 'students';
+
+// A transfer moves a student to another schedule from a date on. The old enrollments are cut
+// at the effective date (months entirely after it are dropped), the new ones start on the next
+// class day of the destination, and remainingCredits is left as is. Student.scheduleSince keeps
+// that first day so later re-syncs of the schedule start there and keep the cut enrollments.
+
+type FixedSchedule = Array<{ dayId: string, timeId: string }>;
+
+export interface TransferOptions {
+    categoryId?: string; // Destination category, defaults to the student's
+    reason?: string;
+    createdBy?: string;
+}
+
+/**
+ * Schedule pattern of a fixed schedule (all days of exactly one pattern), or null
+ */
+const getScheduleDayType = (schedule: FixedSchedule): DayType | null => {
+    const dayIds = Array.from(new Set(schedule.map(s => s.dayId))).sort().join(',');
+    const match = (Object.keys(WAITLIST_DAY_IDS) as DayType[])
+        .find(dayType => [...WAITLIST_DAY_IDS[dayType]].sort().join(',') === dayIds);
+    return match || null;
+};
+
+/**
+ * First open day of the pattern strictly after `after`, up to `until` (both YYYY-MM-DD)
+ */
+const getNextClassDay = (dayType: DayType, after: string, until: string, closures: SeasonClosure[] = []): string | null => {
+    const current = new Date(dateUtils.toMillis(after));
+    current.setDate(current.getDate() + 1);
+    while (dateUtils.formatDateId(current) <= until) {
+        if (getDayTypeForDate(current) === dayType && !isClosedDay(current, closures)) {
+            return dateUtils.formatDateId(current);
+        }
+        current.setDate(current.getDate() + 1);
+    }
+    return null;
+};
+
+const describeSchedule = (schedule: FixedSchedule) =>
+    schedule.length > 0 ? `${schedule.map(s => s.dayId).join('-')} ${schedule[0].timeId}` : 'sin horario';
+
+export const transferService = {
+    /**
+     * Transfer history of a student, newest first
+     */
+    async getByStudent(studentId: string): Promise<ScheduleTransfer[]> {
+        const q = query(collection(db, TRANSFERS_COLLECTION), where('studentId', '==', studentId));
+        const snapshot = await getDocs(q);
+        return snapshot.docs
+            .map(d => d.data() as ScheduleTransfer)
+            .sort((a, b) => b.createdAt - a.createdAt);
+    },
+
+    /**
+     * Move a student to another schedule. The student attends the old slot up to and including
+     * effectiveDate (YYYY-MM-DD); everything is written in one transaction after checking the
+     * destination has a free seat in every month.
+     */
+    async transfer(
+        studentId: string,
+        toSchedule: FixedSchedule,
+        effectiveDate: string,
+        options: TransferOptions = {}
+    ): Promise<ScheduleTransfer> {
+        const season = await seasonService.getActiveSeason();
+        if (!season) throw new Error('No hay temporada activa.');
+
+        const studentSnap = await getDoc(doc(db, STUDENTS_COLLECTION, studentId));
+        if (!studentSnap.exists()) throw new Error('Alumno no encontrado.');
+        const student = { ...studentSnap.data(), id: studentId } as Student;
+
+        if (!student.packageEndDate) throw new Error('El alumno no tiene un paquete vigente.');
+        if (student.packageStartDate && effectiveDate < student.packageStartDate) {
+            throw new Error('La fecha del traslado es anterior al inicio del paquete.');
+        }
+
+        const dayType = getScheduleDayType(toSchedule);
+        const timeSlot = toSchedule[0]?.timeId;
+        if (!dayType || !timeSlot || toSchedule.some(s => s.timeId !== timeSlot)) {
+            throw new Error('Seleccione un horario de destino válido (mismos días y hora).');
+        }
+        const categoryId = options.categoryId || student.categoryId;
+
+        const newStartDate = getNextClassDay(dayType, effectiveDate, student.packageEndDate, season.closures);
+        if (!newStartDate) {
+            throw new Error('El paquete del alumno termina antes de la siguiente clase del nuevo horario.');
+        }
+
+        const cutAt = Timestamp.fromDate(new Date(`${effectiveDate}T23:59:59`));
+        const startsAt = Timestamp.fromDate(new Date(`${newStartDate}T00:00:00`));
+        // Enrollments already cut by an earlier transfer are history, not part of the move
+        const isRunning = (e: MonthlyEnrollment) => e.studentId === studentId && dateUtils.toMillis(e.endsAt) > cutAt.toMillis();
+
+        // Slots to cut (from the effective month on) and destination slots (until the package ends)
+        const effectiveMonth = effectiveDate.slice(0, 7);
+        const startMonth = newStartDate.slice(0, 7);
+        const endMonth = student.packageEndDate.slice(0, 7);
+        const seasonSlots = await getDocs(query(
+            collection(db, MONTHLY_SLOTS_COLLECTION),
+            where('seasonId', '==', season.id)
+        ));
+        const fromIds = seasonSlots.docs
+            .filter(d => {
+                const slot = d.data() as MonthlySlot;
+                return slot.month >= effectiveMonth && (slot.enrolledStudents || []).some(isRunning);
+            })
+            .map(d => d.id);
+        const toIds = seasonSlots.docs
+            .filter(d => {
+                const slot = d.data() as MonthlySlot;
+                return !slot.isBreak && slot.dayType === dayType && slot.timeSlot === timeSlot &&
+                    slot.categoryId === categoryId && slot.month >= startMonth && slot.month <= endMonth;
+            })
+            .map(d => d.id);
+
+        if (toIds.length === 0) {
+            throw new Error(`No existen horarios ${dayType} ${timeSlot} para esta categoría entre ${getMonthName(startMonth)} y ${getMonthName(endMonth)}.`);
+        }
+        if (toIds.some(id => fromIds.includes(id))) {
+            throw new Error('El alumno ya está inscrito en el horario de destino.');
+        }
+
+        const transferRef = doc(collection(db, TRANSFERS_COLLECTION));
+
+        const transfer = await runTransaction(db, async (transaction) => {
+            // All reads first
+            const studentRef = doc(db, STUDENTS_COLLECTION, studentId);
+            const currentSnap = await transaction.get(studentRef);
+            const fromSnaps = await Promise.all(fromIds.map(id => transaction.get(doc(db, MONTHLY_SLOTS_COLLECTION, id))));
+            const toSnaps = await Promise.all(toIds.map(id => transaction.get(doc(db, MONTHLY_SLOTS_COLLECTION, id))));
+
+            if (!currentSnap.exists()) throw new Error('Alumno no encontrado.');
+            const current = currentSnap.data() as Student;
+            if (current.active === false) throw new Error('El alumno está suspendido.');
+
+            // Credits allocated to the old enrollment carry over to the new one
+            let creditsAllocated = 0;
+            fromSnaps.forEach(snap => {
+                const enrollment = (snap.data() as MonthlySlot | undefined)?.enrolledStudents?.find(isRunning);
+                if (enrollment) creditsAllocated = enrollment.creditsAllocated || 0;
+            });
+
+            // Destination must have a seat from the first class on, in every month
+            toSnaps.forEach(snap => {
+                if (!snap.exists()) throw new Error('Horario de destino no encontrado.');
+                const slot = snap.data() as MonthlySlot;
+                const enrollments = slot.enrolledStudents || [];
+                if (enrollments.some(e => e.studentId === studentId && dateUtils.toMillis(e.endsAt) >= startsAt.toMillis())) {
+                    throw new Error('El alumno ya está inscrito en el horario de destino.');
+                }
+                const taken = enrollments.filter(e => dateUtils.toMillis(e.endsAt) >= startsAt.toMillis()).length;
+                if (taken + getPeakRecoveryBookings(slot, newStartDate) >= slot.capacity) {
+                    throw new Error(`${getMonthName(slot.month)}: el horario de destino está lleno desde el ${newStartDate}.`);
+                }
+            });
+
+            // Cut the old enrollments; months entirely after the transfer never applied
+            fromSnaps.forEach(snap => {
+                if (!snap.exists()) return;
+                const slot = snap.data() as MonthlySlot;
+                const enrolledStudents = (slot.enrolledStudents || [])
+                    .filter(e => !isRunning(e) || (slot.month <= effectiveMonth && dateUtils.toMillis(e.enrolledAt) <= cutAt.toMillis()))
+                    .map(e => isRunning(e) ? { ...e, endsAt: cutAt } : e);
+                transaction.update(snap.ref, { enrolledStudents, updatedAt: Timestamp.now() });
+            });
+
+            toSnaps.forEach(snap => {
+                const enrollment: MonthlyEnrollment = {
+                    studentId,
+                    studentName: current.fullName,
+                    enrolledAt: startsAt.toDate(),
+                    endsAt: new Date(`${current.packageEndDate || student.packageEndDate}T23:59:59`),
+                    creditsAllocated,
+                    attendanceRecord: []
+                };
+                transaction.update(snap.ref, {
+                    enrolledStudents: [
+                        ...((snap.data() as MonthlySlot).enrolledStudents || []),
+                        {
+                            ...enrollment,
+                            enrolledAt: startsAt,
+                            endsAt: Timestamp.fromDate(enrollment.endsAt)
+                        }
+                    ],
+                    updatedAt: Timestamp.now()
+                });
+            });
+
+            const record: ScheduleTransfer = {
+                id: transferRef.id,
+                studentId,
+                studentName: current.fullName,
+                seasonId: season.id,
+                fromSchedule: current.fixedSchedule || [],
+                toSchedule,
+                fromCategoryId: current.categoryId,
+                toCategoryId: categoryId,
+                fromSlotIds: fromIds,
+                toSlotIds: toIds,
+                effectiveDate,
+                newStartDate,
+                creditsCarried: current.remainingCredits || 0,
+                ...(options.reason && { reason: options.reason }),
+                ...(options.createdBy && { createdBy: options.createdBy }),
+                createdAt: Date.now()
+            };
+
+            transaction.set(transferRef, record);
+            transaction.update(studentRef, { fixedSchedule: toSchedule, categoryId, scheduleSince: newStartDate });
+            auditService.record(transaction, {
+                entity: 'students',
+                entityId: studentId,
+                action: 'UPDATE',
+                summary: `Traslado de horario: ${describeSchedule(record.fromSchedule)} → ${describeSchedule(toSchedule)} desde ${newStartDate}`,
+                studentId,
+                studentName: current.fullName,
+                before: { fixedSchedule: current.fixedSchedule, categoryId: current.categoryId, scheduleSince: current.scheduleSince || null },
+                after: { fixedSchedule: toSchedule, categoryId, scheduleSince: newStartDate },
+                ...(options.reason && { reason: options.reason })
+            });
+
+            return record;
+        });
+
+        await loggingService.addLog(
+            `Alumno ${transfer.studentName} trasladado a ${describeSchedule(toSchedule)} desde ${newStartDate}`,
+            'INFO'
+        );
+
+        // The seats left behind are free for the waitlists of the old schedule
+        const freed = new Map(seasonSlots.docs
+            .filter(d => fromIds.includes(d.id))
+            .map(d => d.data() as MonthlySlot)
+            .map(s => [`${s.dayType}_${s.timeSlot}_${s.categoryId}`, s]));
+        for (const slot of freed.values()) {
+            await waitlistService.notifySeatFreed({
+                seasonId: season.id,
+                dayType: slot.dayType,
+                timeSlot: slot.timeSlot,
+                categoryId: slot.categoryId
+            }, 'Traslado de alumno').catch(e => console.error('Error notifying waitlist:', e));
+        }
+
+        return transfer;
+    },
+
+    /**
+     * First class the student would take in the new schedule (for previews)
+     */
+    getNewStartDate(toSchedule: FixedSchedule, effectiveDate: string, packageEndDate: string, closures: SeasonClosure[] = []): string | null {
+        const dayType = getScheduleDayType(toSchedule);
+        return dayType ? getNextClassDay(dayType, effectiveDate, packageEndDate, closures) : null;
+    }
+};
@@ -0,0 +1,233 @@
+import { db } from '../lib/firebase';
+import {
+    collection,
+    doc,
+    getDoc,
+    getDocs,
+    setDoc,
+    updateDoc,
+    deleteDoc,
+    query,
+    where,
+    runTransaction
+} from 'firebase/firestore';
+import type { User } from 'firebase/auth';
+import type { UserProfile, UserRole, Invitation, RegistrationSettings } from '../types/db';
+import { loggingService } from './logging';
+
+const USERS_COLLECTION = 'users';
+const INVITATIONS_COLLECTION = 'invitations';
+const REGISTRATION_SETTINGS_REF = ['settings', 'registration'] as const;
+
+// Unambiguous characters only (no 0/O, 1/I)
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 8;
+
+const generateCode = (): string => {
+    const values = crypto.getRandomValues(new Uint32Array(CODE_LENGTH));
+    return Array.from(values, v => CODE_ALPHABET[v % CODE_ALPHABET.length]).join('');
+};
+
+export const userService = {
+    /**
+     * Get all user profiles (SUPERADMIN only)
+     */
+    async getAll(): Promise<UserProfile[]> {
+        const snap = await getDocs(collection(db, USERS_COLLECTION));
+        return snap.docs
+            .map(d => ({ ...d.data(), uid: d.id } as UserProfile))
+            .sort((a, b) => (a.email || '').localeCompare(b.email || ''));
+    },
+
+    async getById(uid: string): Promise<UserProfile | null> {
+        const snap = await getDoc(doc(db, USERS_COLLECTION, uid));
+        if (!snap.exists()) return null;
+        return { ...snap.data(), uid: snap.id } as UserProfile;
+    },
+
+    /**
+     * Create the default STAFF profile for a signed-in user without one.
+     * Does nothing if the profile already exists (e.g. created by an invitation)
+     * or if registration requires an invitation code.
+     * Returns true if the user ends up with a profile.
+     */
+    async ensureProfile(user: User): Promise<boolean> {
+        const settings = await this.getRegistrationSettings();
+        if (settings.requireInvitation) return false;
+
+        const userRef = doc(db, USERS_COLLECTION, user.uid);
+        return runTransaction(db, async (transaction) => {
+            const snap = await transaction.get(userRef);
+            if (snap.exists()) return true;
+
+            const profile: UserProfile = {
+                uid: user.uid,
+                email: user.email || '',
+                role: 'STAFF',
+                displayName: user.displayName || '',
+                createdAt: Date.now()
+            };
+            transaction.set(userRef, profile);
+            return true;
+        });
+    },
+
+    async recordLogin(uid: string): Promise<void> {
+        try {
+            await updateDoc(doc(db, USERS_COLLECTION, uid), { lastLogin: Date.now() });
+        } catch (error) {
+            // Profile may not exist yet (first login); not critical
+            console.warn('Could not record last login:', error);
+        }
+    },
+
+    /**
+     * Update a profile's role or disabled flag, refusing to leave the system without an active
+     * SUPERADMIN. Every SUPERADMIN profile is read inside the transaction, so two concurrent
+     * changes can't both pass the check. Returns the profile before the change.
+     */
+    async _updateGuarded(uid: string, changes: Partial<Pick<UserProfile, 'role' | 'disabled'>>): Promise<UserProfile> {
+        // Transactions cannot run queries: list the SUPERADMINs first, then read each one inside
+        const snap = await getDocs(query(collection(db, USERS_COLLECTION), where('role', '==', 'SUPERADMIN')));
+        const ids = Array.from(new Set([uid, ...snap.docs.map(d => d.id)]));
+
+        return runTransaction(db, async (transaction) => {
+            const profiles = [];
+            for (const id of ids) {
+                const profileDoc = await transaction.get(doc(db, USERS_COLLECTION, id));
+                if (profileDoc.exists()) profiles.push({ ...profileDoc.data(), uid: id } as UserProfile);
+            }
+
+            const current = profiles.find(p => p.uid === uid);
+            if (!current) throw new Error('Usuario no encontrado.');
+
+            const isActiveSuperAdmin = (p: UserProfile) => p.role === 'SUPERADMIN' && !p.disabled;
+            const remaining = profiles
+                .map(p => (p.uid === uid ? { ...p, ...changes } : p))
+                .filter(isActiveSuperAdmin);
+            if (isActiveSuperAdmin(current) && remaining.length === 0) {
+                throw new Error('Debe existir al menos un SUPERADMIN activo. Asigna otro antes de realizar este cambio.');
+            }
+
+            transaction.update(doc(db, USERS_COLLECTION, uid), changes);
+            return current;
+        });
+    },
+
+    async updateRole(uid: string, role: UserRole): Promise<void> {
+        const current = await this.getById(uid);
+        if (!current) throw new Error('Usuario no encontrado.');
+        if (current.role === role) return;
+
+        const previous = await this._updateGuarded(uid, { role });
+        await loggingService.addLog(
+            `Rol de ${previous.email} cambiado: ${previous.role} → ${role}`,
+            'WARNING',
+            { uid, previousRole: previous.role, newRole: role }
+        );
+    },
+
+    async setDisabled(uid: string, disabled: boolean): Promise<void> {
+        const previous = await this._updateGuarded(uid, { disabled });
+        await loggingService.addLog(
+            `Cuenta ${previous.email} ${disabled ? 'deshabilitada' : 'habilitada'}`,
+            'WARNING',
+            { uid, disabled }
+        );
+    },
+
+    // --- REGISTRATION SETTINGS ---
+
+    async getRegistrationSettings(): Promise<RegistrationSettings> {
+        const snap = await getDoc(doc(db, ...REGISTRATION_SETTINGS_REF));
+        if (!snap.exists()) return { requireInvitation: false };
+        return { requireInvitation: !!snap.data().requireInvitation };
+    },
+
+    async updateRegistrationSettings(settings: RegistrationSettings): Promise<void> {
+        await setDoc(doc(db, ...REGISTRATION_SETTINGS_REF), settings);
+    },
+
+    // --- INVITATIONS ---
+
+    async getInvitations(): Promise<Invitation[]> {
+        const snap = await getDocs(collection(db, INVITATIONS_COLLECTION));
+        return snap.docs
+            .map(d => d.data() as Invitation)
+            .sort((a, b) => b.createdAt - a.createdAt);
+    },
+
+    /**
+     * Look up an invitation by code. Returns null if it doesn't exist.
+     */
+    async getInvitation(code: string): Promise<Invitation | null> {
+        const snap = await getDoc(doc(db, INVITATIONS_COLLECTION, code.trim().toUpperCase()));
+        return snap.exists() ? (snap.data() as Invitation) : null;
+    },
+
+    async createInvitation(role: UserRole, createdBy: string): Promise<Invitation> {
+        const invitation: Invitation = {
+            code: generateCode(),
+            role,
+            createdAt: Date.now(),
+            createdBy
+        };
+        await setDoc(doc(db, INVITATIONS_COLLECTION, invitation.code), invitation);
+        return invitation;
+    },
+
+    async deleteInvitation(code: string): Promise<void> {
+        await deleteDoc(doc(db, INVITATIONS_COLLECTION, code));
+    },
+
+    /**
+     * Redeem an invitation for a freshly registered user.
+     * Marks the code as used and writes the profile with the invited role.
+     */
+    async redeemInvitation(code: string, user: User, displayName: string): Promise<UserRole> {
+        const normalizedCode = code.trim().toUpperCase();
+        const invitationRef = doc(db, INVITATIONS_COLLECTION, normalizedCode);
+        const userRef = doc(db, USERS_COLLECTION, user.uid);
+
+        const role = await runTransaction(db, async (transaction) => {
+            const invitationDoc = await transaction.get(invitationRef);
+            const userDoc = await transaction.get(userRef);
+
+            if (!invitationDoc.exists()) {
+                throw new Error('Código de invitación no válido.');
+            }
+            const invitation = invitationDoc.data() as Invitation;
+            if (invitation.usedBy) {
+                throw new Error('Este código de invitación ya fue utilizado.');
+            }
+
+            const now = Date.now();
+            transaction.update(invitationRef, {
+                usedBy: user.uid,
+                usedByEmail: user.email || '',
+                usedAt: now
+            });
+
+            const existing = userDoc.exists() ? (userDoc.data() as UserProfile) : null;
+            transaction.set(userRef, {
+                uid: user.uid,
+                email: user.email || '',
+                displayName,
+                role: invitation.role,
+                disabled: false,
+                createdAt: existing?.createdAt || now,
+                lastLogin: now,
+                invitationCode: normalizedCode
+            });
+
+            return invitation.role;
+        });
+
+        await loggingService.addLog(
+            `Nuevo usuario ${user.email} registrado con invitación (${role})`,
+            'INFO',
+            { uid: user.uid, code: normalizedCode }
+        );
+        return role;
+    }
+};
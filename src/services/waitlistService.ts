@@ -0,0 +1,456 @@
+import {
+    collection,
+    doc,
+    getDoc,
+    getDocs,
+    query,
+    where,
+    runTransaction,
+    writeBatch,
+    Timestamp,
+    type WriteBatch
+} from 'firebase/firestore';
+import { db } from '../lib/firebase';
+import { loggingService } from './logging';
+import { auditService } from './auditService';
+import { monthlyScheduleService, endedBefore, getPeakRecoveryBookings, getScheduleStartDate } from './monthlyScheduleService';
+import { getMonthName } from '../utils/monthUtils';
+import { dateUtils } from '../utils/date';
+import type { DayType, MonthlyEnrollment, MonthlySlot, Student, WaitlistEntry, WaitlistNotification } from '../types/db';
+
+const WAITLIST_COLLECTION = 'waitlist';
+const NOTIFICATIONS_COLLECTION = 'waitlist_notifications';
+const STUDENTS_COLLECTION = 'students';
+const MONTHLY_SLOTS_COLLECTION = 'monthly_slots';
+
+export const WAITLIST_DAY_IDS: Record<DayType, string[]> = {
+    'lun-mier-vier': ['LUN', 'MIE', 'VIE'],
+    'mar-juev': ['MAR', 'JUE'],
+    'sab-dom': ['SAB', 'DOM']
+};
+
+// One list per schedule pattern. When a seat frees up (unenroll, suspension, expired
+// enrollment) the first WAITING entries get a notification; offering the seat checks the
+// capacity and moves the student in one transaction, like a schedule transfer.
+
+export interface WaitlistSlotKey {
+    seasonId: string;
+    dayType: DayType;
+    timeSlot: string;
+    categoryId: string;
+}
+
+export type NewWaitlistEntry = WaitlistSlotKey & {
+    studentId?: string;
+    studentName: string;
+    phone?: string;
+    notes?: string;
+    createdBy?: string;
+};
+
+const isActive = (entry: WaitlistEntry) => entry.status === 'WAITING' || entry.status === 'NOTIFIED';
+
+const byPriority = (a: WaitlistEntry, b: WaitlistEntry) => a.priority - b.priority || a.createdAt - b.createdAt;
+
+const isSameKey = (a: WaitlistSlotKey, b: WaitlistSlotKey) =>
+    a.seasonId === b.seasonId && a.dayType === b.dayType && a.timeSlot === b.timeSlot && a.categoryId === b.categoryId;
+
+/**
+ * Whether the seat is the entry's to take: it was notified, or nobody is ahead of it in its list
+ */
+export const isNextInLine = (entry: WaitlistEntry, entries: WaitlistEntry[]): boolean => {
+    if (entry.status === 'NOTIFIED') return true;
+    const first = entries.filter(e => isSameKey(e, entry) && isActive(e)).sort(byPriority)[0];
+    return first?.id === entry.id;
+};
+
+export const waitlistService = {
+    /**
+     * All entries of a season, in priority order within each schedule
+     */
+    async getBySeason(seasonId: string): Promise<WaitlistEntry[]> {
+        const q = query(collection(db, WAITLIST_COLLECTION), where('seasonId', '==', seasonId));
+        const snapshot = await getDocs(q);
+        return snapshot.docs
+            .map(d => d.data() as WaitlistEntry)
+            .sort((a, b) =>
+                a.dayType.localeCompare(b.dayType) || a.timeSlot.localeCompare(b.timeSlot) || byPriority(a, b)
+            );
+    },
+
+    /**
+     * Unread "seat available" notifications of a season, newest first
+     */
+    async getNotifications(seasonId: string): Promise<WaitlistNotification[]> {
+        const q = query(
+            collection(db, NOTIFICATIONS_COLLECTION),
+            where('seasonId', '==', seasonId),
+            where('read', '==', false)
+        );
+        const snapshot = await getDocs(q);
+        return snapshot.docs
+            .map(d => d.data() as WaitlistNotification)
+            .sort((a, b) => b.createdAt - a.createdAt);
+    },
+
+    /**
+     * Waiting or notified entries of one schedule, in priority order
+     */
+    async _getActiveForKey(key: WaitlistSlotKey): Promise<WaitlistEntry[]> {
+        const q = query(
+            collection(db, WAITLIST_COLLECTION),
+            where('seasonId', '==', key.seasonId),
+            where('dayType', '==', key.dayType),
+            where('timeSlot', '==', key.timeSlot),
+            where('categoryId', '==', key.categoryId)
+        );
+        const snapshot = await getDocs(q);
+        return snapshot.docs
+            .map(d => d.data() as WaitlistEntry)
+            .filter(isActive)
+            .sort(byPriority);
+    },
+
+    /**
+     * Adds a person at the end of the schedule's list
+     */
+    async add(data: NewWaitlistEntry): Promise<WaitlistEntry> {
+        const studentName = data.studentName.trim().toUpperCase();
+        if (!studentName) throw new Error('Ingrese el nombre del interesado.');
+
+        const active = await this._getActiveForKey(data);
+        const duplicate = active.find(e => data.studentId
+            ? e.studentId === data.studentId
+            : !e.studentId && e.studentName === studentName
+        );
+        if (duplicate) throw new Error(`${studentName} ya está en la lista de espera de este horario.`);
+
+        const ref = doc(collection(db, WAITLIST_COLLECTION));
+        const now = Date.now();
+        const entry: WaitlistEntry = {
+            id: ref.id,
+            seasonId: data.seasonId,
+            dayType: data.dayType,
+            timeSlot: data.timeSlot,
+            categoryId: data.categoryId,
+            ...(data.studentId && { studentId: data.studentId }),
+            studentName,
+            ...(data.phone && { phone: data.phone }),
+            ...(data.notes?.trim() && { notes: data.notes.trim() }),
+            ...(data.createdBy && { createdBy: data.createdBy }),
+            priority: Math.max(0, ...active.map(e => e.priority)) + 1,
+            status: 'WAITING',
+            createdAt: now,
+            updatedAt: now
+        };
+
+        const batch = writeBatch(db);
+        batch.set(ref, entry);
+        auditService.record(batch, {
+            entity: 'waitlist',
+            entityId: ref.id,
+            action: 'CREATE',
+            summary: `Lista de espera: ${entry.dayType} ${entry.timeSlot} (puesto ${active.length + 1})`,
+            ...(entry.studentId && { studentId: entry.studentId }),
+            studentName,
+            before: null,
+            after: { dayType: entry.dayType, timeSlot: entry.timeSlot, categoryId: entry.categoryId, priority: entry.priority }
+        });
+        await batch.commit();
+
+        await loggingService.addLog(`${studentName} agregado a lista de espera ${entry.dayType} ${entry.timeSlot}`, 'INFO');
+        return entry;
+    },
+
+    /**
+     * Swaps the entry with the previous (-1) or next (+1) one of its list
+     */
+    async move(entryId: string, direction: -1 | 1): Promise<void> {
+        const entryDoc = await getDoc(doc(db, WAITLIST_COLLECTION, entryId));
+        if (!entryDoc.exists()) throw new Error('Solicitud no encontrada');
+        const entry = entryDoc.data() as WaitlistEntry;
+
+        const list = await this._getActiveForKey(entry);
+        const index = list.findIndex(e => e.id === entryId);
+        const other = list[index + direction];
+        if (index === -1 || !other) return;
+
+        // Priorities may repeat (same createdAt order), so renumber around the swap
+        const reordered = [...list];
+        reordered[index] = other;
+        reordered[index + direction] = list[index];
+
+        const batch = writeBatch(db);
+        const now = Date.now();
+        reordered.forEach((e, i) => {
+            if (e.priority !== i + 1) {
+                batch.update(doc(db, WAITLIST_COLLECTION, e.id), { priority: i + 1, updatedAt: now });
+            }
+        });
+        await batch.commit();
+    },
+
+    /**
+     * Removes the entry from the list. A notified seat passes to the next one.
+     */
+    async cancel(entryId: string, reason?: string): Promise<void> {
+        const ref = doc(db, WAITLIST_COLLECTION, entryId);
+        const entryDoc = await getDoc(ref);
+        if (!entryDoc.exists()) throw new Error('Solicitud no encontrada');
+        const entry = entryDoc.data() as WaitlistEntry;
+        if (!isActive(entry)) return;
+
+        const batch = writeBatch(db);
+        batch.update(ref, { status: 'CANCELLED', updatedAt: Date.now() });
+        await this._queueMarkNotificationsRead(batch, entryId);
+        auditService.record(batch, {
+            entity: 'waitlist',
+            entityId: entryId,
+            action: 'UPDATE',
+            summary: `Retirado de lista de espera ${entry.dayType} ${entry.timeSlot}`,
+            ...(entry.studentId && { studentId: entry.studentId }),
+            studentName: entry.studentName,
+            before: { status: entry.status },
+            after: { status: 'CANCELLED' },
+            ...(reason && { reason })
+        });
+        await batch.commit();
+
+        if (entry.status === 'NOTIFIED') {
+            await this.notifySeatFreed(entry, `${entry.studentName} no tomó el cupo`);
+        }
+    },
+
+    /**
+     * Marks a notification as seen
+     */
+    async dismissNotification(notificationId: string): Promise<void> {
+        const batch = writeBatch(db);
+        batch.update(doc(db, NOTIFICATIONS_COLLECTION, notificationId), { read: true });
+        await batch.commit();
+    },
+
+    async _queueMarkNotificationsRead(batch: WriteBatch, entryId: string): Promise<void> {
+        const q = query(collection(db, NOTIFICATIONS_COLLECTION), where('entryId', '==', entryId));
+        const snapshot = await getDocs(q);
+        snapshot.docs
+            .filter(d => d.data().read === false)
+            .forEach(d => batch.update(d.ref, { read: true }));
+    },
+
+    /**
+     * Called when a seat may have freed up in the schedule. Notifies as many WAITING entries
+     * as there are seats not already announced to someone. Returns how many were notified.
+     */
+    async notifySeatFreed(key: WaitlistSlotKey, reason: string): Promise<number> {
+        const active = await this._getActiveForKey(key);
+        const waiting = active.filter(e => e.status === 'WAITING');
+        if (waiting.length === 0) return 0;
+
+        const info = await monthlyScheduleService.getScheduleCapacityInfo(key.seasonId, key.dayType, key.timeSlot, key.categoryId);
+        if (info.isFull) return 0;
+
+        const alreadyNotified = active.length - waiting.length;
+        const toNotify = waiting.slice(0, Math.max(0, info.available - alreadyNotified));
+        if (toNotify.length === 0) return 0;
+
+        const batch = writeBatch(db);
+        const now = Date.now();
+        toNotify.forEach(entry => {
+            batch.update(doc(db, WAITLIST_COLLECTION, entry.id), { status: 'NOTIFIED', notifiedAt: now, updatedAt: now });
+
+            const notificationRef = doc(collection(db, NOTIFICATIONS_COLLECTION));
+            const notification: WaitlistNotification = {
+                id: notificationRef.id,
+                entryId: entry.id,
+                seasonId: key.seasonId,
+                dayType: key.dayType,
+                timeSlot: key.timeSlot,
+                categoryId: key.categoryId,
+                studentName: entry.studentName,
+                ...(entry.phone && { phone: entry.phone }),
+                reason,
+                read: false,
+                createdAt: now
+            };
+            batch.set(notificationRef, notification);
+        });
+        await batch.commit();
+
+        await loggingService.addLog(
+            `Cupo libre en ${key.dayType} ${key.timeSlot}: avisado a ${toNotify.map(e => e.studentName).join(', ')}`,
+            'INFO'
+        );
+        return toNotify.length;
+    },
+
+    /**
+     * Gives the seat to a registered student: moves their fixed schedule to the waitlisted one.
+     * Like a transfer, the seat check (every month until the package ends), the new slots, the
+     * student, the entry and the audit entry are written in one transaction, so a full month
+     * leaves everything as it was. Skipping the order of the list (an entry not notified with
+     * someone ahead) needs `overrideReason`, kept in the audit entry.
+     */
+    async offerSeat(entryId: string, overrideReason?: string): Promise<void> {
+        const entryRef = doc(db, WAITLIST_COLLECTION, entryId);
+        const entryDoc = await getDoc(entryRef);
+        if (!entryDoc.exists()) throw new Error('Solicitud no encontrada');
+        const entry = entryDoc.data() as WaitlistEntry;
+
+        if (!isActive(entry)) throw new Error('La solicitud ya no está en espera.');
+
+        const skipsQueue = !isNextInLine(entry, await this._getActiveForKey(entry));
+        const reason = skipsQueue ? overrideReason?.trim() : undefined;
+        if (skipsQueue && !reason) {
+            throw new Error(`${entry.studentName} no es el siguiente en la lista de espera. Indique el motivo para saltar el orden.`);
+        }
+
+        if (!entry.studentId) {
+            throw new Error(`${entry.studentName} aún no está registrado como alumno. Regístrelo desde Alumnos eligiendo este horario.`);
+        }
+        const studentId = entry.studentId;
+
+        const studentRef = doc(db, STUDENTS_COLLECTION, studentId);
+        const studentDoc = await getDoc(studentRef);
+        if (!studentDoc.exists()) throw new Error('Alumno no encontrado');
+        const student = { ...studentDoc.data(), id: studentDoc.id } as Student;
+        if (!student.packageEndDate) throw new Error('El alumno no tiene un paquete vigente con clases disponibles.');
+
+        const fixedSchedule = WAITLIST_DAY_IDS[entry.dayType].map(dayId => ({ dayId, timeId: entry.timeSlot }));
+
+        // Same start as a schedule re-sync: the package start, or the first class after a transfer
+        const scheduleStart = getScheduleStartDate(student) || dateUtils.formatDateId(new Date());
+        const keepEndedBefore = scheduleStart !== student.packageStartDate ? scheduleStart : null;
+        const isRunning = (e: MonthlyEnrollment) => e.studentId === studentId && !endedBefore(e, keepEndedBefore);
+
+        // Slots the student leaves, and the waitlisted schedule until the package ends
+        const startMonth = scheduleStart.slice(0, 7);
+        const endMonth = student.packageEndDate.slice(0, 7);
+        const seasonSlots = await getDocs(query(
+            collection(db, MONTHLY_SLOTS_COLLECTION),
+            where('seasonId', '==', entry.seasonId)
+        ));
+        const fromIds = seasonSlots.docs
+            .filter(d => ((d.data() as MonthlySlot).enrolledStudents || []).some(isRunning))
+            .map(d => d.id);
+        const toIds = seasonSlots.docs
+            .filter(d => {
+                const slot = d.data() as MonthlySlot;
+                return slot.dayType === entry.dayType && slot.timeSlot === entry.timeSlot
+                    && slot.categoryId === entry.categoryId && slot.month >= startMonth && slot.month <= endMonth;
+            })
+            .map(d => d.id);
+        if (toIds.length === 0) {
+            throw new Error(`No existen horarios ${entry.dayType} ${entry.timeSlot} para el periodo del paquete del alumno.`);
+        }
+        if (toIds.some(id => fromIds.includes(id))) {
+            throw new Error('El alumno ya está inscrito en este horario.');
+        }
+
+        const notificationRefs = (await getDocs(query(collection(db, NOTIFICATIONS_COLLECTION), where('entryId', '==', entryId))))
+            .docs.filter(d => d.data().read === false).map(d => d.ref);
+
+        const startsAt = Timestamp.fromDate(new Date(`${scheduleStart}T00:00:00`));
+        const endsAt = Timestamp.fromDate(new Date(`${student.packageEndDate}T23:59:59`));
+
+        const leftSlots = await runTransaction(db, async (transaction) => {
+            // All reads first
+            const currentEntrySnap = await transaction.get(entryRef);
+            const currentSnap = await transaction.get(studentRef);
+            const fromSnaps = await Promise.all(fromIds.map(id => transaction.get(doc(db, MONTHLY_SLOTS_COLLECTION, id))));
+            const toSnaps = await Promise.all(toIds.map(id => transaction.get(doc(db, MONTHLY_SLOTS_COLLECTION, id))));
+
+            const currentEntry = currentEntrySnap.data() as WaitlistEntry | undefined;
+            if (!currentEntry || !isActive(currentEntry)) throw new Error('La solicitud ya no está en espera.');
+            if (!currentSnap.exists()) throw new Error('Alumno no encontrado');
+            const current = currentSnap.data() as Student;
+            if (current.active === false) throw new Error('El alumno está suspendido. Reactívelo antes de ofrecerle el cupo.');
+            if (!current.packageEndDate || (current.remainingCredits || 0) <= 0) {
+                throw new Error('El alumno no tiene un paquete vigente con clases disponibles.');
+            }
+
+            // The waitlisted schedule must have a seat from the first class on, in every month
+            const fullMonths: string[] = [];
+            toSnaps.forEach(snap => {
+                if (!snap.exists()) throw new Error('Horario no encontrado.');
+                const slot = snap.data() as MonthlySlot;
+                const taken = (slot.enrolledStudents || [])
+                    .filter(e => dateUtils.toMillis(e.endsAt) >= startsAt.toMillis()).length;
+                if (taken + getPeakRecoveryBookings(slot, scheduleStart) >= slot.capacity) {
+                    fullMonths.push(getMonthName(slot.month));
+                }
+            });
+            if (fullMonths.length > 0) {
+                throw new Error(
+                    `⚠️ HORARIO LLENO\n\n` +
+                    `El horario ${entry.dayType} ${entry.timeSlot} está lleno en: ${fullMonths.join(', ')}.`
+                );
+            }
+
+            const now = Date.now();
+            const left: MonthlySlot[] = [];
+            fromSnaps.forEach(snap => {
+                if (!snap.exists()) return;
+                const slot = snap.data() as MonthlySlot;
+                transaction.update(snap.ref, {
+                    enrolledStudents: (slot.enrolledStudents || []).filter(e => !isRunning(e)),
+                    updatedAt: Timestamp.now()
+                });
+                left.push({ ...slot, id: snap.id });
+            });
+
+            toSnaps.forEach(snap => {
+                const enrollment = {
+                    studentId,
+                    studentName: current.fullName,
+                    enrolledAt: startsAt,
+                    endsAt,
+                    creditsAllocated: 0,
+                    attendanceRecord: [],
+                    ...(current.freezes?.length && {
+                        freezes: current.freezes.map(f => ({ from: f.from, to: f.to, holdSeat: f.holdSeat }))
+                    })
+                };
+                transaction.update(snap.ref, {
+                    enrolledStudents: [...((snap.data() as MonthlySlot).enrolledStudents || []), enrollment],
+                    updatedAt: Timestamp.now()
+                });
+            });
+
+            transaction.update(studentRef, { fixedSchedule, categoryId: entry.categoryId, updatedAt: Timestamp.now() });
+            transaction.update(entryRef, { status: 'ENROLLED', enrolledAt: now, updatedAt: now });
+            notificationRefs.forEach(ref => transaction.update(ref, { read: true }));
+            auditService.record(transaction, {
+                entity: 'waitlist',
+                entityId: entryId,
+                action: 'UPDATE',
+                summary: `Cupo de lista de espera tomado: ${entry.dayType} ${entry.timeSlot}${skipsQueue ? ' (fuera de orden)' : ''}`,
+                studentId,
+                studentName: current.fullName,
+                before: { status: currentEntry.status, fixedSchedule: current.fixedSchedule || [], categoryId: current.categoryId },
+                after: { status: 'ENROLLED', fixedSchedule, categoryId: entry.categoryId },
+                ...(reason && { reason })
+            });
+
+            return left;
+        });
+
+        await loggingService.addLog(
+            `${student.fullName} inscrito desde lista de espera en ${entry.dayType} ${entry.timeSlot}`,
+            'SUCCESS'
+        );
+
+        // Seats left in another schedule are free for its waitlist
+        const keys = new Map(leftSlots
+            .filter(s => s.categoryId && !isSameKey(s, entry))
+            .map(s => [`${s.dayType}_${s.timeSlot}_${s.categoryId}`, s]));
+        for (const slot of keys.values()) {
+            await this.notifySeatFreed({
+                seasonId: entry.seasonId,
+                dayType: slot.dayType,
+                timeSlot: slot.timeSlot,
+                categoryId: slot.categoryId
+            }, 'Cambio de horario').catch(e => console.error('Error notifying waitlist:', e));
+        }
+    }
+};
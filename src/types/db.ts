@@ -1,12 +1,23 @@
 export type Role = 'ADMIN' | 'ASSISTANT';
-export type PaymentMethod = string; // Dynamic IDs like 'CASH', 'YAPE', 'TRANS_BCP'
+export type PaymentMethod = string; // PaymentMethodConfig.id, derived from the name: 'EFECTIVO', 'YAPE_PLIN'
 export interface PaymentMethodConfig {
     id: string;
     name: string;
     isActive: boolean;
+    isCash?: boolean; // Money in the cash drawer: the closing adds the opening float to it (one method)
     createdAt: number;
 }
+
+export type PoolArea = 'shallow' | 'deep';
+
+export interface PoolLane {
+    id: string;
+    name: string; // "Carril 1"
+    area: PoolArea; // Shallow (learning) or deep (swimming) side of the pool
+    maxSwimmers: number; // Physical limit of swimmers at once
+}
 export type PaymentType = 'FULL' | 'PARTIAL';
+export type PaymentReversalType = 'VOID' | 'REFUND'; // VOID = mistaken entry, REFUND = money returned
 export type DebtStatus = 'PENDING' | 'PAID' | 'CANCELLED';
 export type StudentCategory = 'Aquabebe' | '4 a 6' | '7 a 10' | '11 a 15' | '16 a más' | 'Adultos';
 export type SeasonType = 'summer' | 'winter';
@@ -26,12 +37,24 @@ export interface Season {
         end: string; // "21:30"
     };
     isActive: boolean;
+    closures?: SeasonClosure[]; // Holidays and pool closures: no class is given or counted
+    poolLanes?: PoolLane[]; // Physical pool layout; when empty, template capacity is not checked
+    archivedAt?: number | null; // Archived: read-only and hidden from the selectors until restored
+    archivedBy?: string | null;
     startDate: string; // "YYYY-MM-DD" (Calculated)
     endDate: string; // "YYYY-MM-DD" (Calculated)
     createdAt: Date;
     updatedAt: Date;
 }
 
+export interface SeasonClosure {
+    id: string;
+    from: string; // YYYY-MM-DD
+    to: string;   // YYYY-MM-DD (inclusive, same as from for a single day)
+    reason: string; // "Fiestas Patrias", "Mantenimiento"
+    createdAt: number;
+}
+
 export interface Category {
     id: string;
     name: string; // "Aquabebe", "4 a 6 años", etc.
@@ -47,6 +70,17 @@ export interface Category {
     updatedAt: Date;
 }
 
+// Price split in equal installments, each due some days after enrollment
+export interface InstallmentPlan {
+    installments: number; // 2 or 3
+    dueOffsetDays: number[]; // One per installment, e.g. [0, 30]
+}
+
+export interface FreezePolicy {
+    maxFreezes: number; // Per package purchase (0 = freezes not allowed)
+    maxDays: number;    // Calendar days of a single freeze
+}
+
 export interface Package {
     id: string;
     seasonId: string; // Reference to Season
@@ -56,6 +90,54 @@ export interface Package {
     price: number;
     scheduleTypes: DayType[]; // ["lun-mier-vier", "mar-juev"]
     applicableCategories: string[]; // Category IDs or ["all"]
+    installmentPlan?: InstallmentPlan | null; // Partial payments are split into installments
+    freezePolicy?: FreezePolicy | null; // Missing: DEFAULT_FREEZE_POLICY
+    isActive: boolean;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+// Descuentos. SIBLING and STAFF_FAMILY are confirmed by the cashier, EARLY_BIRD depends on the
+// registration date and PROMO_CODE on the code typed at the desk.
+export type DiscountRuleType = 'SIBLING' | 'EARLY_BIRD' | 'PROMO_CODE' | 'STAFF_FAMILY';
+
+export interface DiscountRule {
+    id: string;
+    name: string; // Shown on the payment, e.g. "Segundo hermano 10%"
+    type: DiscountRuleType;
+    valueType: 'percent' | 'amount';
+    value: number; // % of the list price or S/ off
+    stackable: boolean; // Adds up with other stackable rules; otherwise it only applies alone
+    seasonId?: string | null; // Missing: every season
+    packageIds?: string[]; // Missing or empty: every package
+    appliesToRecharge: boolean; // Also offered on recharges (addCredits)
+    code?: string | null; // PROMO_CODE, uppercase
+    registerBefore?: string | null; // EARLY_BIRD, YYYY-MM-DD (last day that qualifies)
+    isActive: boolean;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface DiscountLine {
+    ruleId: string;
+    name: string; // Snapshot of the rule name
+    type: DiscountRuleType;
+    amount: number; // S/ off the list price
+}
+
+// What was sold and why it cost less: listPrice - sum(discounts) = netPrice
+export interface PriceBreakdown {
+    listPrice: number;
+    discounts: DiscountLine[];
+    netPrice: number;
+}
+
+export interface Instructor {
+    id: string;
+    name: string;
+    phone?: string;
+    hourlyRate?: number; // S/ per class hour, for the payroll report
+    color?: string; // For timetable badges
     isActive: boolean;
     createdAt: Date;
     updatedAt: Date;
@@ -67,6 +149,8 @@ export interface ScheduleTemplate {
     dayType: DayType;
     timeSlot: string; // "06:00-07:00"
     categoryId: string; // Reference to Category
+    instructorId?: string | null; // Reference to Instructor
+    laneIds?: string[]; // PoolLane ids used by the class (capacity is spread evenly)
     capacity: number;
     isBreak: boolean; // For rest periods like 2:00-2:30
     createdAt: Date;
@@ -83,8 +167,10 @@ export interface MonthlySlot {
     dayType: DayType;
     timeSlot: string; // "06:00-07:00"
     categoryId: string;
+    instructorId?: string | null; // Copied from the template; past months keep who taught them
     capacity: number;
     enrolledStudents: MonthlyEnrollment[]; // Alumnos inscritos en este horario mensual
+    recoveryBookings?: RecoveryBooking[]; // One-off make-up classes, count toward capacity on their date
     isBreak: boolean;
     createdAt: Date;
     updatedAt: Date;
@@ -96,7 +182,23 @@ export interface MonthlyEnrollment {
     enrolledAt: Date; // Cuándo se inscribió
     endsAt: Date; // Cuándo termina su paquete (packageEndDate)
     creditsAllocated: number; // Cuántos créditos se asignaron para este mes
-    attendanceRecord?: AttendanceDay[]; // Registro de asistencia opcional
+    freezes?: EnrollmentFreeze[]; // Copied from Student.freezes on enrollment
+    attendanceRecord?: AttendanceDay[]; // Legacy: attendance now lives in Student.asistencia (attendanceService)
+}
+
+export interface RecoveryBooking {
+    recoveryId: string;
+    studentId: string;
+    studentName: string; // Snapshot
+    date: string; // YYYY-MM-DD, the only day the student attends this slot
+}
+
+// Period with no class on an enrollment (package freeze). Without holdSeat the seat counts as
+// free those days (make-up classes can use it).
+export interface EnrollmentFreeze {
+    from: string; // YYYY-MM-DD
+    to: string;   // YYYY-MM-DD (inclusive)
+    holdSeat: boolean;
 }
 
 export interface AttendanceDay {
@@ -149,6 +251,90 @@ export interface PackageHistory {
 export interface AttendanceRecord {
     fecha: string; // YYYY-MM-DD format
     asistencia: boolean; // true = attended, false = absent
+    slotId?: string; // Monthly slot of the class (missing on older marks)
+    markedBy?: string; // UID del usuario que marcó
+    markedAt?: number; // Timestamp
+}
+
+// Recuperaciones (recoveries, doc ID = "{studentId}_{missedDate}_{missedSlotId}")
+export type RecoveryStatus = 'AVAILABLE' | 'BOOKED' | 'USED' | 'CANCELLED';
+
+export interface Recovery {
+    id: string;
+    studentId: string;
+    studentName: string; // Snapshot
+    seasonId?: string;
+    categoryId: string; // Make-up must be in a slot of this category
+    missedDate: string; // YYYY-MM-DD
+    missedSlotId?: string;
+    expiresAt: string; // YYYY-MM-DD, last day it can be booked for
+    status: RecoveryStatus;
+    bookedSlotId?: string;
+    bookedDate?: string; // YYYY-MM-DD
+    bookedTimeSlot?: string; // Snapshot, e.g. "06:00-07:00"
+    bookedBy?: string; // UID
+    usedAt?: number; // Timestamp of the make-up attendance
+    createdAt: number;
+    updatedAt: number;
+}
+
+// Lista de espera for a full schedule (dayType + timeSlot + categoryId)
+export type WaitlistStatus = 'WAITING' | 'NOTIFIED' | 'ENROLLED' | 'CANCELLED';
+
+export interface WaitlistEntry {
+    id: string;
+    seasonId: string;
+    dayType: DayType;
+    timeSlot: string; // e.g. "06:00-07:00"
+    categoryId: string;
+    studentId?: string; // Missing for people not registered yet
+    studentName: string; // Snapshot
+    phone?: string;
+    priority: number; // Lower goes first
+    status: WaitlistStatus;
+    notes?: string;
+    notifiedAt?: number; // Last time a freed seat was announced for this entry
+    enrolledAt?: number;
+    createdBy?: string; // UID
+    createdAt: number;
+    updatedAt: number;
+}
+
+// Aviso created when a seat frees up for the first entries of a waitlist
+export interface WaitlistNotification {
+    id: string;
+    entryId: string;
+    seasonId: string;
+    dayType: DayType;
+    timeSlot: string;
+    categoryId: string;
+    studentName: string; // Snapshot
+    phone?: string;
+    reason: string; // What freed the seat
+    read: boolean;
+    createdAt: number;
+}
+
+// Traslados de horario (doc ID auto). The old enrollment is cut, never deleted, so attendance
+// marked there keeps pointing to the old slot. Student.scheduleSince keeps newStartDate so later
+// re-syncs leave the cut enrollments alone.
+export interface ScheduleTransfer {
+    id: string;
+    studentId: string;
+    studentName: string; // Snapshot
+    seasonId: string;
+    fromSchedule: Array<{ dayId: string; timeId: string }>;
+    toSchedule: Array<{ dayId: string; timeId: string }>;
+    fromCategoryId: string;
+    toCategoryId: string;
+    fromSlotIds: string[];
+    toSlotIds: string[];
+    effectiveDate: string; // YYYY-MM-DD, last day in the old slot
+    newStartDate: string;  // YYYY-MM-DD, first class in the new slot
+    creditsCarried: number; // remainingCredits at transfer time (unchanged)
+    reason?: string;
+    createdBy?: string;
+    createdAt: number;
 }
 
 export interface Student {
@@ -166,14 +352,32 @@ export interface Student {
     currentPackageId?: string | null; // Reference to current Package
     packageStartDate?: string | null; // YYYY-MM-DD - when package started
     packageEndDate?: string | null; // YYYY-MM-DD - when package ends
+    scheduleSince?: string | null; // YYYY-MM-DD - first class of fixedSchedule after a transfer
     packageHistory?: PackageHistory[]; // History of packages
     email?: string; // Optional context
     createdAt: number; // Timestamp
     birthDate?: string | null; // YYYY-MM-DD (optional)
     age?: number | null; // Manual age override
-    studentCode?: string; // Auto-incremental code e.g. "00001"
+    studentCode?: string; // Auto-incremental code e.g. "000001", printed on the card: never changes
     observations?: string; // Additional notes
     asistencia?: AttendanceRecord[]; // Attendance history tracking
+    closuresApplied?: string[]; // SeasonClosure ids already reflected in packageEndDate
+    freezes?: PackageFreeze[]; // Congelamientos: no credit is used and packageEndDate is pushed
+}
+
+// Congelamiento (illness, travel): class days in the period are not consumed and the package
+// end date moves by frozenClasses. It resumes by itself once `to` has passed.
+export interface PackageFreeze {
+    id: string;
+    packageId?: string | null; // Package the freeze counts against (FreezePolicy)
+    from: string; // YYYY-MM-DD
+    to: string;   // YYYY-MM-DD (inclusive)
+    reason: string;
+    holdSeat: boolean; // Keep the seat; otherwise it is free for others those days
+    frozenClasses: number; // Class days inside the period (packageEndDate moved by this much)
+    createdBy?: string;
+    createdAt: number;
+    endedEarlyAt?: number; // Resumed before the planned end (`to` was shortened)
 }
 
 export interface AppUser {
@@ -195,7 +399,53 @@ export interface Payment {
     credits: number; // How many credits this payment added (if PACK)
     seasonId?: string; // Reference to Season
     date: number; // Timestamp
-    createdBy: string; // User UID
+    createdBy: string; // User UID (legacy records: 'admin')
+    createdByName?: string; // Cashier display name snapshot
+    debtId?: string; // Debt this payment was applied to (if any)
+    receiptNumber?: string; // Receipt (boleta) that includes this payment
+    // Counter-entries (negative amount/credits); the original payment only keeps the running totals
+    reversedAmount?: number; // Voided/refunded so far (positive)
+    reversedCredits?: number; // Credits removed so far
+    reversalOf?: string; // Original payment ID
+    reversalType?: PaymentReversalType;
+    reason?: string;
+    pricing?: PriceBreakdown; // Package or recharge price; only on the first payment of the sale (else on the debt)
+}
+
+// Boletas (receipts, doc ID = zero-padded number from metadata/counters.receipts)
+export type ReceiptConcept = 'ENROLLMENT' | 'RECHARGE' | 'DEBT_PAYMENT';
+
+export interface ReceiptLine {
+    paymentId: string;
+    method: PaymentMethod;
+    methodName: string; // Snapshot for reprints
+    amount: number;
+    description?: string; // Installment paid, e.g. "Cuota 1/2"
+}
+
+export interface Receipt {
+    id: string; // "000123"
+    number: number;
+    concept: ReceiptConcept;
+    studentId: string;
+    studentName: string;
+    studentDni: string;
+    studentCode?: string;
+    packageName?: string;
+    credits: number; // Classes granted by this receipt
+    lines: ReceiptLine[]; // Breakdown per payment method
+    total: number;
+    debtBalance: number; // Pending balance (all debts) after this receipt
+    seasonId?: string;
+    cashierId: string;
+    cashierName: string;
+    date: number;
+}
+
+// Authenticated user taking the money (see AuthContext.cashier)
+export interface Cashier {
+    uid: string;
+    name: string;
 }
 
 export interface Debt {
@@ -209,10 +459,40 @@ export interface Debt {
     balance: number;
     dueDate: number; // Timestamp
     status: DebtStatus;
+    installmentNumber?: number; // 1-based, only on installment plans
+    installmentCount?: number;
+    createdAt?: number; // Missing on legacy debts (dueDate - 7 days)
+    pricing?: PriceBreakdown; // Sale without up-front payment: on its first installment
 }
 
 
 
+// Cierre de caja (cash_closings, doc ID = "YYYY-MM-DD")
+export interface CashClosingMethod {
+    expected: number; // Computed from payments (+ opening float for cash)
+    counted: number;  // Entered by the cashier
+    difference: number; // counted - expected
+}
+
+export interface CashClosing {
+    id: string;
+    date: string; // YYYY-MM-DD
+    openingFloat: number; // Sencillo inicial en efectivo
+    methods: Record<string, CashClosingMethod>; // Keyed by PaymentMethodConfig.id
+    totalExpected: number;
+    totalCounted: number;
+    totalDifference: number;
+    paymentsCount: number;
+    notes?: string;
+    locked: boolean;
+    closedBy: string;
+    closedByName: string;
+    closedAt: number;
+    reopenedBy?: string;
+    reopenedAt?: number;
+    reopenReason?: string;
+}
+
 export type LogType = 'INFO' | 'SUCCESS' | 'WARNING' | 'ERROR';
 
 export interface SystemLog {
@@ -223,6 +503,26 @@ export interface SystemLog {
     metadata?: any;
 }
 
+// Structured audit trail (audit_logs), written inside the same transaction as the change
+export type AuditEntity = 'students' | 'payments' | 'debts' | 'monthly_slots' | 'cash_closings' | 'recoveries' | 'waitlist';
+export type AuditAction = 'CREATE' | 'UPDATE' | 'DELETE';
+
+export interface AuditLog {
+    id: string;
+    timestamp: number;
+    userId: string;       // auth.currentUser uid
+    userName: string;
+    entity: AuditEntity;
+    entityId: string;
+    action: AuditAction;
+    summary: string;      // e.g. "Recarga de 8 clases"
+    studentId?: string;   // For filtering by student
+    studentName?: string;
+    before: Record<string, unknown> | null; // Only changed fields
+    after: Record<string, unknown> | null;
+    reason?: string;
+}
+
 export type UserRole = 'SUPERADMIN' | 'ADMIN' | 'STAFF';
 
 export interface UserProfile {
@@ -230,12 +530,33 @@ export interface UserProfile {
     email: string;
     role: UserRole;
     displayName?: string;
+    disabled?: boolean;
+    lastLogin?: number;
+    createdAt?: number;
+    invitationCode?: string; // Code redeemed at registration (if any)
+}
+
+// Invitation codes generated from /admin/usuarios (doc ID = code)
+export interface Invitation {
+    code: string;
+    role: UserRole;
+    createdAt: number;
+    createdBy: string;
+    usedBy?: string;
+    usedByEmail?: string;
+    usedAt?: number;
+}
+
+// settings/registration
+export interface RegistrationSettings {
+    requireInvitation: boolean;
 }
 
 // Metadata for counters (to avoid counting all docs)
 export interface MetadataCounters {
-    students: number;
+    students: number; // Last student code issued (codes are never reused)
     activeStudents: number; // Count of active students only
+    receipts?: number; // Last receipt number issued
     lastUpdated: Date;
 }
 
@@ -246,6 +567,7 @@ export interface CardFieldConfig {
     left?: string;   // e.g., "15mm"
     right?: string;  // e.g., "25mm"
     fontSize: string; // e.g., "8pt"
+    size?: string;    // Images (QR), e.g., "18mm"
 }
 
 export interface CardConfig {
@@ -268,6 +590,7 @@ export interface CardConfig {
         fechaInicio: CardFieldConfig;
         fechaFinal: CardFieldConfig;
         clases: CardFieldConfig;
+        qr: CardFieldConfig; // Encodes studentCode for check-in
     };
     createdAt: number;
     updatedAt: number;
@@ -0,0 +1,19 @@
+/**
+ * Helpers for the per-season closures calendar (holidays, maintenance)
+ */
+import { dateUtils } from './date';
+import type { SeasonClosure } from '../types/db';
+
+/**
+ * Closure covering a day (YYYY-MM-DD), if any
+ */
+export function getClosureFor(dateId: string, closures: SeasonClosure[] = []): SeasonClosure | undefined {
+    return closures.find(c => dateId >= c.from && dateId <= c.to);
+}
+
+/**
+ * True when the pool is closed that day, so no class is given (nor counted)
+ */
+export function isClosedDay(date: Date, closures: SeasonClosure[] = []): boolean {
+    return closures.length > 0 && !!getClosureFor(dateUtils.formatDateId(date), closures);
+}
@@ -44,5 +44,23 @@ export const dateUtils = {
         const month = String(date.getUTCMonth() + 1).padStart(2, '0');
         const year = date.getUTCFullYear();
         return `${day}/${month}/${year}`;
+    },
+
+    /**
+     * Epoch millis from a timestamp, Date, Firestore Timestamp or "YYYY-MM-DD" (local midnight).
+     * Returns 0 when the value can't be read.
+     */
+    toMillis: (value: unknown): number => {
+        if (typeof value === 'number') return value;
+        if (value instanceof Date) return value.getTime();
+        if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+            const [y, m, d] = value.split('-').map(Number);
+            return new Date(y, m - 1, d).getTime();
+        }
+        if (value && typeof (value as { toMillis?: unknown }).toMillis === 'function') {
+            return (value as { toMillis: () => number }).toMillis();
+        }
+        const parsed = new Date(value as string).getTime();
+        return isNaN(parsed) ? 0 : parsed;
     }
 };
@@ -0,0 +1,28 @@
+/**
+ * Helpers for package freezes (congelamientos) on students and their enrollments
+ */
+import { dateUtils } from './date';
+import type { EnrollmentFreeze } from '../types/db';
+
+type FreezePeriod = Pick<EnrollmentFreeze, 'from' | 'to'>;
+
+/**
+ * Freeze covering a day (YYYY-MM-DD), if any
+ */
+export function getFreezeFor<T extends FreezePeriod>(dateId: string, freezes: T[] = []): T | undefined {
+    return freezes.find(f => dateId >= f.from && dateId <= f.to);
+}
+
+/**
+ * True when the student is frozen that day, so the class is neither given nor consumed
+ */
+export function isFrozenDay(date: Date, freezes: FreezePeriod[] = []): boolean {
+    return freezes.length > 0 && !!getFreezeFor(dateUtils.formatDateId(date), freezes);
+}
+
+/**
+ * Seat of an enrollment is free that day (frozen without holding it)
+ */
+export function isSeatReleased(freezes: EnrollmentFreeze[] = [], dateId: string): boolean {
+    return !!freezes.find(f => !f.holdSeat && dateId >= f.from && dateId <= f.to);
+}
@@ -0,0 +1,163 @@
+/**
+ * Helpers for the per-season pool lane model (physical capacity shared by all categories)
+ */
+import { getTimeSlotRange } from './timeSlotUtils';
+import type { DayType, PoolArea, PoolLane, ScheduleTemplate } from '../types/db';
+
+type TemplateLike = Pick<ScheduleTemplate, 'dayType' | 'timeSlot' | 'categoryId' | 'capacity' | 'isBreak'> & {
+    id?: string;
+    laneIds?: string[];
+};
+
+export interface PoolCapacityReport {
+    errors: string[];   // Physical limits exceeded: the change must be rejected
+    warnings: string[]; // Allowed, but worth a second look
+}
+
+export const POOL_AREA_LABELS: Record<PoolArea, string> = {
+    shallow: 'Poco profunda',
+    deep: 'Profunda'
+};
+
+const DAY_LABELS: Record<DayType, string> = {
+    'lun-mier-vier': 'L-M-V',
+    'mar-juev': 'M-J',
+    'sab-dom': 'S-D'
+};
+
+const formatMinutes = (minutes: number) =>
+    `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+/**
+ * Total swimmers the pool holds at once
+ */
+export function getPoolCapacity(lanes: PoolLane[] = []): number {
+    return lanes.reduce((sum, lane) => sum + lane.maxSwimmers, 0);
+}
+
+/**
+ * Classes in the water at a given minute of a day type
+ */
+export function getTemplatesAt<T extends TemplateLike>(templates: T[], dayType: DayType, minute: number): T[] {
+    return templates.filter(t => {
+        if (t.isBreak || t.dayType !== dayType) return false;
+        const { start, end } = getTimeSlotRange(t.timeSlot);
+        return start <= minute && minute < end;
+    });
+}
+
+/**
+ * Swimmers per lane for a set of concurrent classes. Each class spreads its capacity
+ * evenly over its lanes; classes without lanes are not counted here.
+ */
+export function getLaneOccupancy(templates: TemplateLike[], lanes: PoolLane[] = []): Record<string, number> {
+    const occupancy: Record<string, number> = Object.fromEntries(lanes.map(l => [l.id, 0]));
+    templates.forEach(t => {
+        const laneIds = (t.laneIds || []).filter(id => id in occupancy);
+        laneIds.forEach(id => {
+            occupancy[id] += t.capacity / laneIds.length;
+        });
+    });
+    return occupancy;
+}
+
+// Where a limit is checked: one class against its lanes, or the pool / a lane at a minute
+export type PoolCheckPoint =
+    | { kind: 'class', templateId?: string }
+    | { kind: 'pool', dayType: DayType, minute: number }
+    | { kind: 'lane', dayType: DayType, minute: number, laneId: string };
+
+export interface PoolOverload {
+    point: PoolCheckPoint;
+    load: number; // Swimmers at the point
+    limit: number;
+    message: string;
+}
+
+/**
+ * Swimmers at a check point (0 when nothing is there)
+ */
+export function getPointLoad(templates: TemplateLike[], lanes: PoolLane[], point: PoolCheckPoint): number {
+    if (point.kind === 'class') {
+        const template = point.templateId ? templates.find(t => t.id === point.templateId && !t.isBreak) : undefined;
+        return template?.capacity || 0;
+    }
+    const concurrent = getTemplatesAt(templates, point.dayType, point.minute);
+    if (point.kind === 'pool') return concurrent.reduce((sum, t) => sum + t.capacity, 0);
+    return Math.ceil(getLaneOccupancy(concurrent, lanes)[point.laneId] || 0);
+}
+
+/**
+ * Check that classes running at the same time fit in the pool. Every start time of a day type
+ * is checked, so partially overlapping slots are covered too. Without lanes nothing is checked.
+ */
+export function findPoolOverloads(
+    templates: TemplateLike[],
+    lanes: PoolLane[] = [],
+    categoryName: (id: string) => string = id => id
+): { overloads: PoolOverload[], warnings: string[] } {
+    const overloads: PoolOverload[] = [];
+    const warnings: string[] = [];
+    if (lanes.length === 0) return { overloads, warnings };
+
+    const poolCapacity = getPoolCapacity(lanes);
+    const classes = templates.filter(t => !t.isBreak);
+
+    classes.forEach(t => {
+        const label = `${DAY_LABELS[t.dayType]} ${t.timeSlot} (${categoryName(t.categoryId)})`;
+        const laneIds = (t.laneIds || []).filter(id => lanes.some(l => l.id === id));
+        if (laneIds.length === 0) {
+            warnings.push(`${label}: sin carriles asignados, solo se valida contra el total de la piscina`);
+            return;
+        }
+        const lanesCapacity = lanes
+            .filter(l => laneIds.includes(l.id))
+            .reduce((sum, l) => sum + l.maxSwimmers, 0);
+        if (t.capacity > lanesCapacity) {
+            overloads.push({
+                point: { kind: 'class', templateId: t.id },
+                load: t.capacity,
+                limit: lanesCapacity,
+                message: `${label}: capacidad ${t.capacity} supera sus carriles (${lanesCapacity})`
+            });
+        }
+    });
+
+    const dayTypes = Array.from(new Set(classes.map(t => t.dayType)));
+    dayTypes.forEach(dayType => {
+        const startTimes = Array.from(new Set(
+            classes.filter(t => t.dayType === dayType).map(t => getTimeSlotRange(t.timeSlot).start)
+        )).sort((a, b) => a - b);
+
+        startTimes.forEach(minute => {
+            const concurrent = getTemplatesAt(classes, dayType, minute);
+            if (concurrent.length === 0) return;
+            const at = `${DAY_LABELS[dayType]} ${formatMinutes(minute)}`;
+
+            const total = concurrent.reduce((sum, t) => sum + t.capacity, 0);
+            if (total > poolCapacity) {
+                overloads.push({
+                    point: { kind: 'pool', dayType, minute },
+                    load: total,
+                    limit: poolCapacity,
+                    message: `${at}: ${total} nadadores simultáneos, la piscina admite ${poolCapacity}`
+                });
+            }
+
+            const occupancy = getLaneOccupancy(concurrent, lanes);
+            lanes.forEach(lane => {
+                const load = Math.ceil(occupancy[lane.id]);
+                if (load > lane.maxSwimmers) {
+                    overloads.push({
+                        point: { kind: 'lane', dayType, minute, laneId: lane.id },
+                        load,
+                        limit: lane.maxSwimmers,
+                        message: `${at}: ${lane.name} con ${load} nadadores (máximo ${lane.maxSwimmers})`
+                    });
+                }
+            });
+        });
+    });
+
+    return { overloads, warnings };
+}
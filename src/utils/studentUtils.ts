@@ -1,6 +1,8 @@
-import type { Student } from '../types/db';
+import type { SeasonClosure, Student } from '../types/db';
+import { isClosedDay } from './closureUtils';
+import { isFrozenDay } from './freezeUtils';
 
-export const calculateRealRemaining = (student: Student): number => {
+export const calculateRealRemaining = (student: Student, closures: SeasonClosure[] = []): number => {
     if (!student.packageStartDate || !student.fixedSchedule || student.fixedSchedule.length === 0) {
         return Math.max(0, student.remainingCredits || 0);
     }
@@ -30,7 +32,7 @@ export const calculateRealRemaining = (student: Student): number => {
                 // Check if student has class this day
                 const isClassDay = student.fixedSchedule.some(s => s.dayId === dayCode);
 
-                if (isClassDay) {
+                if (isClassDay && !isClosedDay(tempDate, closures) && !isFrozenDay(tempDate, student.freezes)) {
                     const todayMidnight = new Date(now.getFullYear(), now.getMonth(), now.getDate());
                     const tempMidnight = new Date(tempDate.getFullYear(), tempDate.getMonth(), tempDate.getDate());
 
@@ -71,3 +73,16 @@ export const calculateRealRemaining = (student: Student): number => {
         return Math.max(0, student.remainingCredits || 0);
     }
 };
+
+/**
+ * Age of the student on a date: from birthDate when known, otherwise the manual age
+ */
+export const getStudentAge = (student: Pick<Student, 'birthDate' | 'age'>, at: Date = new Date()): number | null => {
+    if (student.birthDate) {
+        const [y, m, d] = student.birthDate.split('-').map(Number);
+        let age = at.getFullYear() - y;
+        if (at.getMonth() + 1 < m || (at.getMonth() + 1 === m && at.getDate() < d)) age--;
+        return age;
+    }
+    return student.age ?? null;
+};
@@ -0,0 +1,23 @@
+/**
+ * Helpers for "HH:MM-HH:MM" time slots (schedule templates, monthly slots)
+ */
+
+/**
+ * Start and end of a time slot, in minutes from midnight
+ */
+export function getTimeSlotRange(timeSlot: string): { start: number, end: number } {
+    const [start, end] = timeSlot.split('-').map(part => {
+        const [h, m] = part.split(':').map(Number);
+        return h * 60 + (m || 0);
+    });
+    return { start, end };
+}
+
+/**
+ * True when both time slots share at least one minute
+ */
+export function timeSlotsOverlap(a: string, b: string): boolean {
+    const first = getTimeSlotRange(a);
+    const second = getTimeSlotRange(b);
+    return Math.max(first.start, second.start) < Math.min(first.end, second.end);
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it, vi } from 'vitest';
+import { studentService } from '../src/services/students';
+
+vi.mock('../src/lib/firebase', () => ({ auth: {}, db: {} }));
+
+const JAN_15 = Date.UTC(2026, 0, 15);
+const FEB_15 = Date.UTC(2026, 1, 15);
+const MAR_15 = Date.UTC(2026, 2, 15);
+
+const installments = () => [
+    { id: 'cuota-3', balance: 100, dueDate: MAR_15 },
+    { id: 'cuota-1', balance: 100, dueDate: JAN_15 },
+    { id: 'cuota-2', balance: 100, dueDate: FEB_15 }
+];
+
+describe('studentService._allocateToDebts', () => {
+    it('pays the oldest installment first', () => {
+        const debts = installments();
+
+        expect(studentService._allocateToDebts(debts, 150)).toEqual([
+            { debtId: 'cuota-1', amount: 100 },
+            { debtId: 'cuota-2', amount: 50 }
+        ]);
+        expect(debts.map(d => [d.id, d.balance])).toEqual([['cuota-3', 100], ['cuota-1', 0], ['cuota-2', 50]]);
+    });
+
+    it('goes on from the updated balances for the next payment method', () => {
+        const debts = installments();
+        studentService._allocateToDebts(debts, 150);
+
+        expect(studentService._allocateToDebts(debts, 80.5)).toEqual([
+            { debtId: 'cuota-2', amount: 50 },
+            { debtId: 'cuota-3', amount: 30.5 }
+        ]);
+    });
+
+    it('skips installments already paid', () => {
+        const debts = [{ id: 'cuota-1', balance: 0, dueDate: JAN_15 }, { id: 'cuota-2', balance: 60, dueDate: FEB_15 }];
+
+        expect(studentService._allocateToDebts(debts, 60)).toEqual([{ debtId: 'cuota-2', amount: 60 }]);
+    });
+});
@@ -0,0 +1,18 @@
+import { describe, expect, it, vi } from 'vitest';
+import { getAgingBucket } from '../src/services/debtReportService';
+
+vi.mock('../src/lib/firebase', () => ({ auth: {}, db: {} }));
+
+describe('getAgingBucket', () => {
+    it('keeps the first week overdue in 0-7', () => {
+        expect(getAgingBucket(0)).toBe('0-7');
+        expect(getAgingBucket(7)).toBe('0-7');
+    });
+
+    it('moves to 8-30 on day 8 and to 30+ after day 30', () => {
+        expect(getAgingBucket(8)).toBe('8-30');
+        expect(getAgingBucket(30)).toBe('8-30');
+        expect(getAgingBucket(31)).toBe('30+');
+        expect(getAgingBucket(400)).toBe('30+');
+    });
+});
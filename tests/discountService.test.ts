@@ -0,0 +1,107 @@
+import { describe, expect, it, vi } from 'vitest';
+import { applyDiscounts, assertPriceBreakdown, type DiscountContext } from '../src/services/discountService';
+import type { DiscountRule } from '../src/types/db';
+
+vi.mock('../src/lib/firebase', () => ({ auth: {}, db: {} }));
+
+const rule = (id: string, overrides: Partial<DiscountRule> = {}): DiscountRule => ({
+    id,
+    name: id,
+    type: 'SIBLING',
+    valueType: 'percent',
+    value: 10,
+    stackable: true,
+    appliesToRecharge: false,
+    isActive: true,
+    createdAt: new Date(0),
+    updatedAt: new Date(0),
+    ...overrides
+});
+
+const context = (confirmedRuleIds: string[], overrides: Partial<DiscountContext> = {}): DiscountContext => ({
+    seasonId: 'season-2026',
+    packageId: 'mensual',
+    isRecharge: false,
+    date: '2026-01-10',
+    confirmedRuleIds,
+    ...overrides
+});
+
+describe('applyDiscounts', () => {
+    it('adds up stackable rules, each on the list price', () => {
+        const rules = [rule('hermano'), rule('personal', { type: 'STAFF_FAMILY', valueType: 'amount', value: 20 })];
+
+        const pricing = applyDiscounts(200, rules, context(['hermano', 'personal']));
+
+        expect(pricing.discounts.map(l => [l.ruleId, l.amount])).toEqual([['hermano', 20], ['personal', 20]]);
+        expect(pricing.netPrice).toBe(160);
+    });
+
+    it('applies the best non-stackable rule alone when it beats the stacked ones', () => {
+        const rules = [
+            rule('hermano'),
+            rule('promo', { type: 'PROMO_CODE', code: 'VERANO', value: 25, stackable: false }),
+            rule('anticipada', { type: 'EARLY_BIRD', registerBefore: '2026-01-31', value: 15, stackable: false })
+        ];
+
+        const pricing = applyDiscounts(200, rules, context(['hermano'], { promoCode: ' verano ' }));
+
+        expect(pricing.discounts.map(l => l.ruleId)).toEqual(['promo']);
+        expect(pricing.netPrice).toBe(150);
+    });
+
+    it('keeps the stacked rules when they add up to more', () => {
+        const rules = [
+            rule('hermano', { value: 15 }),
+            rule('personal', { type: 'STAFF_FAMILY', value: 15 }),
+            rule('anticipada', { type: 'EARLY_BIRD', registerBefore: '2026-01-31', value: 20, stackable: false })
+        ];
+
+        const pricing = applyDiscounts(100, rules, context(['hermano', 'personal']));
+
+        expect(pricing.discounts.map(l => l.ruleId)).toEqual(['hermano', 'personal']);
+        expect(pricing.netPrice).toBe(70);
+    });
+
+    it('trims the last lines so the price never goes below zero', () => {
+        const rules = [
+            rule('hermano', { valueType: 'amount', value: 80 }),
+            rule('personal', { type: 'STAFF_FAMILY', valueType: 'amount', value: 50 }),
+            rule('beca', { type: 'STAFF_FAMILY', value: 100 })
+        ];
+
+        const pricing = applyDiscounts(100, rules, context(['hermano', 'personal', 'beca']));
+
+        expect(pricing.discounts.map(l => [l.ruleId, l.amount])).toEqual([['hermano', 80], ['personal', 20]]);
+        expect(pricing.netPrice).toBe(0);
+    });
+
+    it('skips rules whose condition is not met', () => {
+        const rules = [
+            rule('hermano'),
+            rule('anticipada', { type: 'EARLY_BIRD', registerBefore: '2026-01-05' }),
+            rule('promo', { type: 'PROMO_CODE', code: 'VERANO' }),
+            rule('otra-temporada', { type: 'STAFF_FAMILY', seasonId: 'season-2025' })
+        ];
+
+        const pricing = applyDiscounts(100, rules, context(['otra-temporada'], { promoCode: 'INVIERNO' }));
+
+        expect(pricing.discounts).toEqual([]);
+        expect(pricing.netPrice).toBe(100);
+    });
+});
+
+describe('assertPriceBreakdown', () => {
+    it('accepts a breakdown that adds up to the price charged', () => {
+        const pricing = applyDiscounts(150, [rule('hermano')], context(['hermano']));
+
+        expect(() => assertPriceBreakdown(pricing, 135)).not.toThrow();
+    });
+
+    it('rejects lines that do not add up, or another price', () => {
+        const pricing = applyDiscounts(150, [rule('hermano')], context(['hermano']));
+
+        expect(() => assertPriceBreakdown({ ...pricing, netPrice: 100 }, 100)).toThrow('no coincide');
+        expect(() => assertPriceBreakdown(pricing, 120)).toThrow('no coincide');
+    });
+});
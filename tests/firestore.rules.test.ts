@@ -0,0 +1,315 @@
+import { readFileSync } from 'node:fs';
+import { afterAll, beforeAll, beforeEach, describe, it } from 'vitest';
+import {
+    assertFails,
+    assertSucceeds,
+    initializeTestEnvironment,
+    type RulesTestEnvironment
+} from '@firebase/rules-unit-testing';
+
+// Security rules specs. They run against the Firestore emulator: `npm test` starts it through
+// firebase emulators:exec, which sets FIRESTORE_EMULATOR_HOST for initializeTestEnvironment.
+
+let testEnv: RulesTestEnvironment;
+
+// Noon in Lima (UTC-5) of a cash day
+const limaNoon = (dayId: string) => {
+    const [y, m, d] = dayId.split('-').map(Number);
+    return Date.UTC(y, m - 1, d, 17);
+};
+
+const OPEN_DAY = '2026-10-19';
+const LOCKED_DAY = '2026-10-18';
+
+const as = (uid: string) => testEnv.authenticatedContext(uid).firestore();
+const anonymous = () => testEnv.unauthenticatedContext().firestore();
+
+const payment = (overrides: Record<string, unknown> = {}) => ({
+    studentId: 'student-open',
+    seasonId: 'season-open',
+    amount: 150,
+    credits: 8,
+    method: 'EFECTIVO',
+    date: limaNoon(OPEN_DAY),
+    ...overrides
+});
+
+beforeAll(async () => {
+    testEnv = await initializeTestEnvironment({
+        projectId: 'demo-academia-parrales',
+        firestore: { rules: readFileSync('firestore.rules', 'utf8') }
+    });
+});
+
+afterAll(async () => {
+    await testEnv?.cleanup();
+});
+
+beforeEach(async () => {
+    await testEnv.clearFirestore();
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+        const db = context.firestore();
+        await Promise.all([
+            db.doc('users/super').set({ uid: 'super', email: 'super@test.pe', role: 'SUPERADMIN' }),
+            db.doc('users/admin').set({ uid: 'admin', email: 'admin@test.pe', role: 'ADMIN' }),
+            db.doc('users/other-admin').set({ uid: 'other-admin', email: 'other@test.pe', role: 'ADMIN' }),
+            db.doc('users/staff').set({ uid: 'staff', email: 'staff@test.pe', role: 'STAFF' }),
+            db.doc('users/disabled').set({ uid: 'disabled', email: 'off@test.pe', role: 'ADMIN', disabled: true }),
+
+            db.doc('seasons/season-open').set({ name: 'Verano 2026', archivedAt: null }),
+            db.doc('seasons/season-archived').set({ name: 'Verano 2025', archivedAt: 1735689600000 }),
+
+            db.doc('monthly_slots/slot-open').set({ seasonId: 'season-open', month: '2026-10', enrolledStudents: [] }),
+            db.doc('monthly_slots/slot-archived').set({ seasonId: 'season-archived', month: '2025-02', enrolledStudents: [] }),
+
+            db.doc('students/student-open').set({ fullName: 'Ana', seasonId: 'season-open', remainingCredits: 8, asistencia: [] }),
+            db.doc('students/student-archived').set({ fullName: 'Luis', seasonId: 'season-archived', remainingCredits: 4, asistencia: [] }),
+
+            db.doc('packages/package-archived').set({ name: 'Mensual', seasonId: 'season-archived', price: 150 }),
+
+            db.doc('payments/payment-open').set(payment()),
+            db.doc('payments/payment-archived').set(payment({ studentId: 'student-archived', seasonId: 'season-archived' })),
+
+            db.doc('debts/debt-open').set({ studentId: 'student-open', amount: 50, status: 'PENDING' }),
+            db.doc('debts/debt-archived').set({ studentId: 'student-archived', amount: 50, status: 'PENDING' }),
+
+            db.doc(`cash_closings/${LOCKED_DAY}`).set({ locked: true, closedBy: 'admin', totalExpected: 300, paymentsCount: 2 }),
+
+            db.doc('invitations/ADMIN-2026').set({ code: 'ADMIN-2026', role: 'ADMIN', createdBy: 'super', createdAt: 1 })
+        ]);
+    });
+});
+
+describe('roles', () => {
+    it('denies everything to signed-out visitors', async () => {
+        await assertFails(anonymous().doc('seasons/season-open').get());
+        await assertFails(anonymous().doc('students/student-open').get());
+    });
+
+    it('lets STAFF mark attendance on monthly slots', async () => {
+        await assertSucceeds(as('staff').doc('monthly_slots/slot-open').update({
+            enrolledStudents: [{ studentId: 'student-open', attendanceRecord: [{ date: OPEN_DAY, attended: true }] }]
+        }));
+        await assertSucceeds(as('staff').doc('students/student-open').update({
+            asistencia: [{ fecha: OPEN_DAY, asistencia: true, slotId: 'slot-open', markedBy: 'staff', markedAt: limaNoon(OPEN_DAY) }],
+            remainingCredits: 7
+        }));
+    });
+
+    it('keeps STAFF out of payments, seasons and other student fields', async () => {
+        await assertFails(as('staff').collection('payments').add(payment()));
+        await assertFails(as('staff').doc('payments/payment-open').get());
+        await assertFails(as('staff').doc('seasons/season-open').update({ name: 'Otra' }));
+        await assertFails(as('staff').doc('students/student-open').update({ fullName: 'Otra' }));
+        await assertFails(as('staff').doc('monthly_slots/slot-new').set({ seasonId: 'season-open' }));
+    });
+
+    it('only lets STAFF move credits by one class along with an attendance mark', async () => {
+        const mark = { fecha: OPEN_DAY, asistencia: true, slotId: 'slot-open', markedBy: 'staff', markedAt: limaNoon(OPEN_DAY) };
+        await assertFails(as('staff').doc('students/student-open').update({ remainingCredits: 99 }));
+        await assertFails(as('staff').doc('students/student-open').update({ remainingCredits: 7 }));
+        await assertFails(as('staff').doc('students/student-open').update({ asistencia: [mark], remainingCredits: 99 }));
+        await assertSucceeds(as('staff').doc('students/student-open').update({ asistencia: [mark], remainingCredits: 7 }));
+        await assertFails(as('staff').doc('students/student-open').update({ asistencia: [] }));
+    });
+
+    it('only moves the receipt counter forward by one', async () => {
+        await testEnv.withSecurityRulesDisabled(context =>
+            context.firestore().doc('metadata/counters').set({ students: 2, activeStudents: 2, receipts: 41 }));
+
+        await assertSucceeds(as('admin').doc('metadata/counters').update({ receipts: 42 }));
+        await assertSucceeds(as('admin').doc('metadata/counters').update({ students: 3 }));
+        await assertFails(as('admin').doc('metadata/counters').update({ receipts: 1 }));
+        await assertFails(as('admin').doc('metadata/counters').update({ receipts: 50 }));
+        await assertFails(as('admin').doc('metadata/counters').set({ students: 0, activeStudents: 0 }));
+        await assertFails(as('super').doc('metadata/counters').delete());
+    });
+
+    it('lets ADMIN register payments and students but not edit seasons or payments', async () => {
+        await assertSucceeds(as('admin').collection('payments').add(payment()));
+        await assertSucceeds(as('admin').doc('students/student-new').set({ fullName: 'Eva', seasonId: 'season-open' }));
+        await assertFails(as('admin').doc('seasons/season-open').update({ name: 'Otra' }));
+        await assertFails(as('admin').doc('payments/payment-open').update({ amount: 1 }));
+        await assertFails(as('admin').doc('payments/payment-open').delete());
+    });
+
+    it('lets SUPERADMIN manage seasons, slots and payments', async () => {
+        await assertSucceeds(as('super').doc('seasons/season-open').update({ name: 'Verano 2026 (2)' }));
+        await assertSucceeds(as('super').doc('monthly_slots/slot-new').set({ seasonId: 'season-open' }));
+        await assertSucceeds(as('super').doc('payments/payment-open').update({ reversedAmount: 150 }));
+        await assertSucceeds(as('super').doc('payments/payment-open').delete());
+    });
+
+    it('treats a disabled user as signed out', async () => {
+        await assertFails(as('disabled').doc('students/student-open').get());
+        await assertFails(as('disabled').collection('payments').add(payment()));
+        await assertFails(as('disabled').doc('monthly_slots/slot-open').update({ enrolledStudents: [] }));
+    });
+
+    it('only shows a profile to its owner and SUPERADMIN', async () => {
+        await assertSucceeds(as('staff').doc('users/staff').get());
+        await assertFails(as('staff').doc('users/admin').get());
+        await assertSucceeds(as('super').doc('users/admin').get());
+        await assertSucceeds(as('staff').doc('users/staff').update({ lastLogin: 1 }));
+        await assertFails(as('staff').doc('users/staff').update({ role: 'ADMIN' }));
+    });
+});
+
+describe('registration and invitations', () => {
+    const redeem = (uid: string, role: string, markUsed = true) => {
+        const db = as(uid);
+        const batch = db.batch();
+        if (markUsed) {
+            batch.update(db.doc('invitations/ADMIN-2026'), { usedBy: uid, usedByEmail: `${uid}@test.pe`, usedAt: 2 });
+        }
+        batch.set(db.doc(`users/${uid}`), { uid, email: `${uid}@test.pe`, role, invitationCode: 'ADMIN-2026' });
+        return batch.commit();
+    };
+
+    it('creates new profiles as STAFF while registration is open', async () => {
+        await assertSucceeds(as('newcomer').doc('users/newcomer').set({ uid: 'newcomer', role: 'STAFF' }));
+        await assertFails(as('intruder').doc('users/intruder').set({ uid: 'intruder', role: 'ADMIN' }));
+    });
+
+    it('requires an invitation once registration is closed', async () => {
+        await testEnv.withSecurityRulesDisabled(context =>
+            context.firestore().doc('settings/registration').set({ requireInvitation: true }));
+
+        await assertFails(as('newcomer').doc('users/newcomer').set({ uid: 'newcomer', role: 'STAFF' }));
+        await assertSucceeds(redeem('newcomer', 'ADMIN'));
+    });
+
+    it('takes the role of an invitation redeemed in the same batch', async () => {
+        await assertSucceeds(redeem('newcomer', 'ADMIN'));
+    });
+
+    it('rejects an invitation that is not redeemed, or with another role', async () => {
+        await assertFails(redeem('newcomer', 'ADMIN', false));
+        await assertFails(redeem('newcomer', 'SUPERADMIN'));
+    });
+
+    it('rejects an invitation already used by someone else', async () => {
+        await assertSucceeds(redeem('newcomer', 'ADMIN'));
+        await assertFails(redeem('latecomer', 'ADMIN'));
+    });
+
+    it('does not let a disabled profile re-enable itself with an invitation', async () => {
+        await assertFails(redeem('disabled', 'ADMIN'));
+    });
+});
+
+describe('archived seasons', () => {
+    it('keeps slots, students and packages of an archived season read-only', async () => {
+        await assertFails(as('staff').doc('monthly_slots/slot-archived').update({ enrolledStudents: [] }));
+        await assertFails(as('admin').doc('students/student-archived').update({ fullName: 'Otro' }));
+        await assertFails(as('super').doc('packages/package-archived').update({ price: 200 }));
+        await assertFails(as('super').doc('packages/package-new').set({ name: 'Nuevo', seasonId: 'season-archived' }));
+        await assertSucceeds(as('staff').doc('monthly_slots/slot-archived').get());
+    });
+
+    it('keeps recoveries, waitlists and transfers of an archived season read-only', async () => {
+        await testEnv.withSecurityRulesDisabled(context =>
+            context.firestore().doc('waitlist/entry-archived').set({ seasonId: 'season-archived', status: 'WAITING' }));
+
+        await assertFails(as('staff').doc('recoveries/recovery-new').set({ studentId: 'student-archived', seasonId: 'season-archived' }));
+        await assertFails(as('staff').doc('waitlist/entry-new').set({ studentId: 'student-archived', seasonId: 'season-archived' }));
+        await assertFails(as('staff').doc('waitlist/entry-archived').update({ status: 'CANCELLED' }));
+        await assertFails(as('staff').doc('waitlist_notifications/notice-new').set({ entryId: 'entry-archived', seasonId: 'season-archived' }));
+        await assertFails(as('admin').doc('schedule_transfers/transfer-new').set({ studentId: 'student-archived', seasonId: 'season-archived' }));
+        await assertSucceeds(as('staff').doc('waitlist/entry-new').set({ studentId: 'student-open', seasonId: 'season-open' }));
+    });
+
+    it('leaves deleting archived students to SUPERADMIN', async () => {
+        await assertFails(as('admin').doc('students/student-archived').delete());
+        await assertSucceeds(as('admin').doc('students/student-open').delete());
+        await assertSucceeds(as('super').doc('students/student-archived').delete());
+    });
+
+    it('does not move documents into an archived season', async () => {
+        await assertFails(as('admin').doc('students/student-open').update({ seasonId: 'season-archived' }));
+    });
+
+    it('still lets SUPERADMIN purge an archived season', async () => {
+        await assertSucceeds(as('super').doc('monthly_slots/slot-archived').delete());
+        await assertSucceeds(as('super').doc('seasons/season-archived').delete());
+    });
+});
+
+describe('payments', () => {
+    it('rejects payments and reversals in an archived season', async () => {
+        await assertFails(as('admin').collection('payments').add(payment({ studentId: 'student-archived', seasonId: 'season-archived' })));
+        await assertFails(as('super').doc('payments/payment-archived').update({ reversedAmount: 150 }));
+    });
+
+    it('rejects payments dated on a locked cash day', async () => {
+        await assertFails(as('admin').collection('payments').add(payment({ date: limaNoon(LOCKED_DAY) })));
+        await assertFails(as('super').collection('payments').add(payment({ date: limaNoon(LOCKED_DAY) })));
+    });
+
+    it('accepts payments again once the day is reopened', async () => {
+        await as('super').doc(`cash_closings/${LOCKED_DAY}`).update({ locked: false });
+        await assertSucceeds(as('admin').collection('payments').add(payment({ date: limaNoon(LOCKED_DAY) })));
+    });
+
+    it('uses the Lima day of the payment date', async () => {
+        // 23:30 in Lima on the locked day is already the next day in UTC
+        const lateNight = Date.UTC(2026, 9, 19, 4, 30);
+        await assertFails(as('admin').collection('payments').add(payment({ date: lateNight })));
+    });
+
+    it('requires a numeric date', async () => {
+        await assertFails(as('admin').collection('payments').add(payment({ date: OPEN_DAY })));
+    });
+
+    it('leaves voids and refunds to SUPERADMIN', async () => {
+        const reversal = payment({ amount: -150, credits: -8, reversalOf: 'payment-open' });
+        await assertFails(as('admin').collection('payments').add(reversal));
+        await assertSucceeds(as('super').collection('payments').add(reversal));
+    });
+});
+
+describe('debts', () => {
+    it('follows the season of the student', async () => {
+        await assertSucceeds(as('admin').collection('debts').add({ studentId: 'student-open', amount: 80 }));
+        await assertSucceeds(as('admin').doc('debts/debt-open').update({ status: 'PAID' }));
+        await assertFails(as('admin').collection('debts').add({ studentId: 'student-archived', amount: 80 }));
+        await assertFails(as('admin').doc('debts/debt-archived').update({ status: 'PAID' }));
+    });
+
+    it('sees a student created in the same batch', async () => {
+        const db = as('admin');
+        const batch = db.batch();
+        batch.set(db.doc('students/student-new'), { fullName: 'Eva', seasonId: 'season-open' });
+        batch.set(db.collection('debts').doc(), { studentId: 'student-new', amount: 80 });
+        await assertSucceeds(batch.commit());
+    });
+
+    it('lets STAFF read debts for the check-in but not write them', async () => {
+        await assertSucceeds(as('staff').doc('debts/debt-open').get());
+        await assertFails(as('staff').doc('debts/debt-open').update({ status: 'PAID' }));
+    });
+});
+
+describe('cash closings', () => {
+    const correction = { totalExpected: 450, totalCounted: 450, totalDifference: 0, paymentsCount: 3 };
+
+    it('lets the admin who closed the day correct its totals', async () => {
+        await assertSucceeds(as('admin').doc(`cash_closings/${LOCKED_DAY}`).update(correction));
+    });
+
+    it('keeps other admins and other fields out of a locked day', async () => {
+        await assertFails(as('other-admin').doc(`cash_closings/${LOCKED_DAY}`).update(correction));
+        await assertFails(as('admin').doc(`cash_closings/${LOCKED_DAY}`).update({ ...correction, closedBy: 'other-admin' }));
+        await assertFails(as('admin').doc(`cash_closings/${LOCKED_DAY}`).update({ locked: false }));
+    });
+
+    it('only lets SUPERADMIN reopen a day', async () => {
+        await assertSucceeds(as('super').doc(`cash_closings/${LOCKED_DAY}`).update({ locked: false }));
+    });
+
+    it('only creates locked closings', async () => {
+        await assertSucceeds(as('admin').doc(`cash_closings/${OPEN_DAY}`).set({ locked: true, closedBy: 'admin' }));
+        await assertFails(as('admin').doc('cash_closings/2026-10-20').set({ locked: false }));
+        await assertFails(as('staff').doc('cash_closings/2026-10-20').set({ locked: true, closedBy: 'staff' }));
+    });
+});
@@ -0,0 +1,115 @@
+// @vitest-environment jsdom
+import { cleanup, fireEvent, render, screen } from '@testing-library/react';
+import { MemoryRouter, Route, Routes, useNavigate } from 'react-router-dom';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { User } from 'firebase/auth';
+import { AuthProvider } from '../src/context/AuthContext';
+import { SeasonProvider } from '../src/contexts/SeasonContext';
+import ProtectedRoute from '../src/components/ProtectedRoute';
+import { SeasonGuard } from '../src/components/SeasonGuard';
+import { seasonService } from '../src/services/seasonService';
+import type { Season } from '../src/types/db';
+
+// Sign-in flow against the real providers and guards. Firebase is replaced by an auth listener
+// the test drives and a season read that, like firestore.rules, is denied while signed out.
+
+const auth = vi.hoisted(() => ({
+    listener: null as ((user: User | null) => void) | null,
+    current: null as User | null
+}));
+
+vi.mock('../src/lib/firebase', () => ({ auth: {}, db: {} }));
+
+vi.mock('firebase/auth', () => ({
+    onAuthStateChanged: (_auth: unknown, listener: (user: User | null) => void) => {
+        auth.listener = listener;
+        listener(auth.current);
+        return () => { auth.listener = null; };
+    },
+    signOut: vi.fn()
+}));
+
+vi.mock('firebase/firestore', () => ({
+    doc: (_db: unknown, ...path: string[]) => ({ path: path.join('/') }),
+    onSnapshot: (ref: { path: string }, next: (snap: unknown) => void) => {
+        next({
+            exists: () => true,
+            id: ref.path.split('/')[1],
+            data: () => ({ email: 'super@test.pe', role: 'SUPERADMIN' })
+        });
+        return () => { };
+    }
+}));
+
+vi.mock('../src/services/userService', () => ({ userService: {} }));
+
+vi.mock('../src/services/seasonService', () => ({
+    seasonService: {
+        getHealth: vi.fn(),
+        getById: vi.fn()
+    }
+}));
+
+const season = { id: 'season-2026', name: 'Verano 2026', isActive: true } as Season;
+
+// Like pages/Login: sign in, then go to the panel
+const LoginPage = () => {
+    const navigate = useNavigate();
+    const signIn = () => {
+        auth.current = { uid: 'super', email: 'super@test.pe' } as User;
+        auth.listener?.(auth.current);
+        navigate('/');
+    };
+    return <button onClick={signIn}>Ingresar</button>;
+};
+
+const renderApp = () => render(
+    <AuthProvider>
+        <SeasonProvider>
+            <MemoryRouter initialEntries={['/login']}>
+                <Routes>
+                    <Route path="/login" element={<LoginPage />} />
+                    <Route path="/setup/season" element={<p>Configurar temporada</p>} />
+                    <Route path="/" element={
+                        <ProtectedRoute>
+                            <SeasonGuard>
+                                <p>Panel</p>
+                            </SeasonGuard>
+                        </ProtectedRoute>
+                    } />
+                </Routes>
+            </MemoryRouter>
+        </SeasonProvider>
+    </AuthProvider>
+);
+
+beforeEach(() => {
+    auth.current = null;
+    vi.mocked(seasonService.getHealth).mockImplementation(async () => {
+        if (!auth.current) throw new Error('Missing or insufficient permissions.');
+        return { status: 'ok', active: [season], suggested: season };
+    });
+});
+
+afterEach(() => {
+    cleanup();
+    vi.clearAllMocks();
+});
+
+describe('season loading across sign-in', () => {
+    it('waits for the session before reading the season', async () => {
+        renderApp();
+
+        expect(await screen.findByText('Ingresar')).toBeTruthy();
+        expect(seasonService.getHealth).not.toHaveBeenCalled();
+    });
+
+    it('lands on a season-guarded page after signing in on /login', async () => {
+        renderApp();
+        fireEvent.click(await screen.findByText('Ingresar'));
+
+        expect(await screen.findByText('Panel')).toBeTruthy();
+        expect(screen.queryByText('Configurar temporada')).toBeNull();
+        expect(seasonService.getHealth).toHaveBeenCalledTimes(1);
+    });
+});